@@ -1,12 +1,16 @@
 import React, { useEffect, useState } from 'react';
-import Calendar from './components/Calendar';
+import Calendar, { CalendarEventSources } from './components/Calendar';
 import Chatbot from './components/Chatbot';
+import TaskDashboard from './components/TaskDashboard';
+import ReminderCenter from './components/ReminderCenter';
+import ScheduleSpreadsheetModal from './components/ScheduleSpreadsheetModal';
 import { scheduleData } from './data/scheduleData';
 import { manualData } from './data/manualData';
 import ApiKeyModal from './components/ApiKeyModal';
 import { useApiKey } from './contexts/ApiKeyContext';
 import { ThemeProvider, ThemeType, useTheme } from './contexts/ThemeContext';
 import GuidedTour, { GuidedTourStep } from './components/GuidedTour';
+import { getCategoryNames } from './utils/categories';
 
 interface HowToUseModalProps {
   isOpen: boolean;
@@ -68,6 +72,78 @@ const HowToUseModal: React.FC<HowToUseModalProps> = ({ isOpen, onClose }) => {
                 <strong>업무 분류/날짜 이동:</strong> 일정 추가/수정 창에서 업무 분류(예: 예산·급여·지출 등)를 고르고, 날짜 드롭다운으로 다른 날짜로 옮길 수 있습니다. 또는 일정을 드래그&드롭으로 다른 날짜로 옮길 수 있습니다. (수정: 일정 클릭 → AI 보고서 상단 <strong>수정</strong>)
               </span>
             </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>업무 분류 관리:</strong> <strong>필터</strong> → <strong>업무 분류 관리</strong>에서 업무를 추가하고 색상·아이콘을 정하거나, 이름 변경·합치기·삭제를 할 수 있습니다. 자동 분류 규칙의 키워드가 제목에 들어 있으면 새 일정이 해당 업무로 분류됩니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>프로젝트:</strong> 상단의 <strong>프로젝트</strong> 버튼으로 담당자·마감·실행 기간·예산 과목을 가진 프로젝트를 만들고, 일정 편집창에서 일정을 프로젝트에 연결하세요. 패널에서 프로젝트의 할 일을 순서대로 보고 진행률을 확인할 수 있으며, 챗봇 일정 추가 제안도 새 프로젝트나 기존 프로젝트에 연결됩니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>선행 일정:</strong> 일정 편집창의 <strong>선행 일정</strong>에서 먼저 끝나야 하는 일정과 그 뒤 영업일 수를 지정하세요. 끌어서 옮긴 일정이 순서를 어기면 경고가 뜨고, 후속 일정을 영업일 기준으로 함께 미룰 수 있습니다. 챗봇 제안을 적용하면 품의 → 계약 → 검수 → 지출 순서로 자동 연결됩니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>타임라인:</strong> 상단의 <strong>타임라인</strong> 보기에서 일정을 프로젝트별 또는 업무별로 묶어 가로 막대로 볼 수 있습니다. 하루짜리 일정과 프로젝트 마감은 ◆로, 선행 일정은 화살표로 이어지며, 주·월·분기 단위로 확대/축소하고 막대를 끌어 옮기거나 오른쪽 끝을 끌어 기간을 바꿀 수 있습니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>목록 보기:</strong> 상단의 <strong>목록</strong> 보기는 필터에 맞는 일정을 날짜별 또는 업무별로 이어서 보여주며, 아래로 스크롤하면 다음 달 일정을 계속 불러옵니다. 체크박스로 완료 처리하고, <strong>이름 변경</strong>으로 제목을 바로 고치고, 날짜 칸에서 다른 날짜를 골라 일정을 옮길 수 있습니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>연간 보기:</strong> 상단의 <strong>연간</strong> 보기에서 12개월의 날짜별 업무량을 색의 진하기(건수) 또는 가장 많은 업무의 색(주요 업무)으로 한눈에 볼 수 있습니다. 날짜에 마우스를 올리면 그날 일정이 보이고, 클릭하면 해당 월로 이동합니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>일간 보기:</strong> 상단의 <strong>일간</strong> 보기에서 하루의 일정을 시간순으로 보고, 지난 14일간 끝내지 못한 일을 함께 확인해 그날로 옮길 수 있습니다. 각 일정 아래에서 AI 보고서를 미리 볼 수 있고, 키보드 ← → 로 이전/다음 영업일로 이동합니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>기간·시간:</strong> 일정 추가/수정 창에서 종료일과 시작·종료 시각을 정할 수 있습니다. 여러 날에 걸친 일정은 막대로 이어서 표시되며, 막대 오른쪽 끝을 끌어 기간을 늘이거나 줄일 수 있습니다. 주간 보기에서는 시간대별로 일정을 옮기고 아래쪽 끝을 끌어 종료 시각을 바꿀 수 있습니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>메모·링크·첨부:</strong> 일정 팝업의 '메모' 탭에서 마크다운 메모, 관련 링크, 첨부 파일(파일당 5MB)을 남길 수 있습니다. 첨부 파일은 이 기기의 브라우저에 저장되고 백업 파일에 함께 담깁니다. 달력 위 검색창은 제목과 메모·링크·첨부 파일 이름까지 찾아줍니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>전체 검색:</strong> Ctrl+K(또는 상단 <strong>전체 검색</strong>)를 누르면 모든 연도의 일정 제목·메모와 저장된 AI 보고서에서 찾을 수 있습니다. 초성(예: ㅅㅁ → 석면)으로도 찾을 수 있고, 업무·출처 버튼으로 결과를 좁힌 뒤 결과를 고르면 해당 날짜로 이동합니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>필터 프리셋·링크:</strong> 필터 메뉴에서 지금 고른 업무·출처·상태·검색어를 '급여 담당'처럼 이름을 붙여 저장하고, 상단 목록에서 바로 바꿀 수 있습니다. <strong>현재 보기 링크 복사</strong>로 만든 링크를 동료에게 보내면 같은 보기·날짜·필터로 열립니다.
+              </span>
+            </li>
+            <li className="flex items-start">
+              <span className={`${colors.accentColor} mr-2 mt-1 flex-shrink-0 text-lg`}>&#8227;</span>
+              <span>
+                <strong>되돌리기:</strong> 일정을 옮기거나 수정·삭제한 뒤 화면 아래 알림의 <strong>실행 취소</strong>를 누르거나 Ctrl+Z(다시 실행: Ctrl+Shift+Z)를 누르세요. 챗봇에서 적용한 AI 제안 일정은 한 번에 되돌려집니다.
+              </span>
+            </li>
           </ul>
         </div>
         <div className="mt-6 text-center">
@@ -80,6 +156,7 @@ const HowToUseModal: React.FC<HowToUseModalProps> = ({ isOpen, onClose }) => {
 
 interface HeaderProps {
   onOpenUsage: () => void;
+  onOpenSchedule: () => void;
 }
 
 const TOUR_SEEN_STORAGE_KEY = 'smartcalendar:tourSeen';
@@ -92,19 +169,25 @@ const TOUR_STEPS: GuidedTourStep[] = [
   { target: 'calendar-more', title: '더보기', description: '하루에 일정이 많을 때 +N 더보기로 숨겨진 일정을 펼칠 수 있어요.', arrowOffset: { y: -16 } },
   { target: 'calendar-event', title: '일정 이동(드래그)', description: '일정을 드래그&드롭으로 다른 날짜로 옮길 수 있어요.' },
   { target: 'filter-button', title: '필터', description: '카테고리/생성 출처(사용자/AI)별로 일정을 필터링할 수 있어요.' },
+  { target: 'task-dashboard', title: '업무 현황', description: '지연·오늘·다가오는 일정을 모아 보고, 바로 완료 처리하거나 미룰 수 있어요.' },
   { target: 'api-settings-button', title: '설정', description: 'Provider 선택, API Key 등록, 백업/가져오기 기능을 설정할 수 있어요.' },
 ];
 
-const Header: React.FC<HeaderProps> = ({ onOpenUsage }) => {
+const Header: React.FC<HeaderProps> = ({ onOpenUsage, onOpenSchedule }) => {
   const {
     apiKey,
     openRouterApiKey,
     aiProviderPreference,
     openRouterModel,
+    schoolProfile,
+    reminderSettings,
+    categorySettings,
     setApiKey,
     setOpenRouterApiKey,
     setAiProviderPreference,
     setOpenRouterModel,
+    setSchoolProfile,
+    setReminderSettings,
     clearApiKey,
     clearOpenRouterApiKey
   } = useApiKey();
@@ -134,6 +217,12 @@ const Header: React.FC<HeaderProps> = ({ onOpenUsage }) => {
         >
           사용법
         </button>
+        <button
+          onClick={onOpenSchedule}
+          className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors mr-2`}
+        >
+          연간 일정표
+        </button>
         <div className={`hidden sm:block text-xs ${colors.textSecondary}`}>
           Provider: {aiProviderPreference === 'auto' ? '자동' : aiProviderPreference === 'gemini' ? 'Gemini' : 'OpenRouter'} · Key: {(apiKey || openRouterApiKey) ? '설정됨' : '미설정'}
         </div>
@@ -159,6 +248,11 @@ const Header: React.FC<HeaderProps> = ({ onOpenUsage }) => {
         onSaveOpenRouter={setOpenRouterApiKey}
         onSaveAiProviderPreference={setAiProviderPreference}
         onSaveOpenRouterModel={setOpenRouterModel}
+        schoolProfile={schoolProfile}
+        onSaveSchoolProfile={setSchoolProfile}
+        reminderSettings={reminderSettings}
+        onSaveReminderSettings={setReminderSettings}
+        categories={getCategoryNames(categorySettings)}
         onClearGemini={clearApiKey}
         onClearOpenRouter={clearOpenRouterApiKey}
       />
@@ -168,8 +262,11 @@ const Header: React.FC<HeaderProps> = ({ onOpenUsage }) => {
 
 const MainLayoutContent = () => {
   const [isUsageModalOpen, setIsUsageModalOpen] = useState(false);
+  const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
   const [isTourOpen, setIsTourOpen] = useState(false);
+  const [eventSources, setEventSources] = useState<CalendarEventSources>({ builtinEvents: [], userEvents: [] });
   const { colors } = useTheme();
+  const { customScheduleText } = useApiKey();
 
   useEffect(() => {
     const seen = localStorage.getItem(TOUR_SEEN_STORAGE_KEY) === '1';
@@ -178,8 +275,13 @@ const MainLayoutContent = () => {
 
   return (
     <div className={`h-screen flex flex-col ${colors.mainBg} antialiased overflow-hidden`}>
-      <Header onOpenUsage={() => setIsUsageModalOpen(true)} />
+      <Header onOpenUsage={() => setIsUsageModalOpen(true)} onOpenSchedule={() => setIsScheduleModalOpen(true)} />
       <HowToUseModal isOpen={isUsageModalOpen} onClose={() => setIsUsageModalOpen(false)} />
+      <ScheduleSpreadsheetModal
+        isOpen={isScheduleModalOpen}
+        onClose={() => setIsScheduleModalOpen(false)}
+        userEvents={eventSources.userEvents}
+      />
       <GuidedTour
         isOpen={isTourOpen}
         steps={TOUR_STEPS}
@@ -202,14 +304,20 @@ const MainLayoutContent = () => {
         <div className="flex flex-col md:flex-row gap-4 sm:gap-6 w-full max-w-screen-2xl mx-auto flex-grow min-h-0">
           <div className="md:w-[75%] w-full order-1 md:order-1 flex flex-col min-h-0">
             <div className="w-full flex-grow min-h-0 flex flex-col">
-              <Calendar scheduleText={scheduleData} manualContextText={manualData} />
+              <Calendar scheduleText={customScheduleText || scheduleData} manualContextText={manualData} onEventSourcesChange={setEventSources} />
             </div>
           </div>
-          <div className="md:w-[25%] w-full order-2 md:order-2 flex flex-col min-h-0">
-            <Chatbot manualContextText={manualData} />
+          <div className="md:w-[25%] w-full order-2 md:order-2 flex flex-col min-h-0 gap-4">
+            <div className="flex-shrink-0 max-h-[40%] flex flex-col min-h-0">
+              <TaskDashboard builtinEvents={eventSources.builtinEvents} userEvents={eventSources.userEvents} />
+            </div>
+            <div className="flex-grow min-h-0 flex flex-col">
+              <Chatbot manualContextText={manualData} />
+            </div>
           </div>
         </div>
       </main>
+      <ReminderCenter builtinEvents={eventSources.builtinEvents} userEvents={eventSources.userEvents} />
     </div>
   );
 };
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EVENT_STATUS_LABELS, KOREAN_DAY_NAMES_SHORT } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CalendarEvent } from '../types';
+import { AGENDA_END_DATE_KEY, AgendaGroup, AgendaGroupBy, buildAgendaMonths } from '../utils/agenda';
+import { getKoreanHoliday } from '../utils/businessDays';
+import { getCategoryDefinition, getCategoryNames } from '../utils/categories';
+import { formatDateKey, isValidDateKey, parseDateKey } from '../utils/dateKey';
+import { formatEventTiming } from '../utils/eventTime';
+
+interface AgendaViewProps {
+  range: { start: string; end: string };
+  events: CalendarEvent[];
+  onLoadMore: () => void;
+  onEventClick: (event: CalendarEvent) => void;
+  onToggleDone: (event: CalendarEvent) => void;
+  onRename: (event: CalendarEvent, title: string) => void;
+  onReschedule: (event: CalendarEvent, dateKey: string) => void;
+}
+
+const formatMonthKey = (monthKey: string) => `${monthKey.slice(0, 4)}년 ${Number(monthKey.slice(5, 7))}월`;
+
+const AgendaView: React.FC<AgendaViewProps> = ({
+  range,
+  events,
+  onLoadMore,
+  onEventClick,
+  onToggleDone,
+  onRename,
+  onReschedule,
+}) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const [groupBy, setGroupBy] = useState<AgendaGroupBy>('day');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  const hasMore = range.end < AGENDA_END_DATE_KEY;
+  const todayKey = formatDateKey(new Date());
+  const minDateKey = `${todayKey.slice(0, 4)}-01-01`;
+  const months = useMemo(
+    () => buildAgendaMonths(events, range, groupBy, getCategoryNames(categorySettings)),
+    [events, range, groupBy, categorySettings],
+  );
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [range.start]);
+
+  // Loads the next months whenever the end of the list scrolls into view. The observer is
+  // recreated after each load, so a list still shorter than the screen keeps loading.
+  useEffect(() => {
+    const root = scrollRef.current;
+    const sentinel = sentinelRef.current;
+    if (!hasMore || !root || !sentinel) return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+      },
+      { root, rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, range.end]);
+
+  // Enter and the blur that follows it would otherwise both commit the same rename.
+  const editingIdRef = useRef<string | null>(null);
+
+  const startRename = (event: CalendarEvent) => {
+    editingIdRef.current = event.id;
+    setEditingId(event.id);
+    setEditingTitle(event.title);
+  };
+
+  const cancelRename = () => {
+    editingIdRef.current = null;
+    setEditingId(null);
+  };
+
+  const commitRename = (event: CalendarEvent) => {
+    if (editingIdRef.current !== event.id) return;
+    cancelRename();
+    const title = editingTitle.trim();
+    if (title && title !== event.title) onRename(event, title);
+  };
+
+  const renderGroupHeader = (group: AgendaGroup) => {
+    if (group.dateKey) {
+      const date = parseDateKey(group.dateKey);
+      const holiday = getKoreanHoliday(group.dateKey);
+      const dayColor = holiday || date.getDay() === 0 ? 'text-red-500' : date.getDay() === 6 ? 'text-blue-500' : colors.textPrimary;
+      return (
+        <div className="flex items-baseline gap-2">
+          <span className={`text-sm font-bold ${dayColor}`}>
+            {date.getMonth() + 1}월 {date.getDate()}일 ({KOREAN_DAY_NAMES_SHORT[date.getDay()]})
+          </span>
+          {holiday && <span className="text-xs text-red-500">{holiday.name}</span>}
+          {group.dateKey === todayKey && (
+            <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${colors.accentBg} ${colors.buttonText}`}>오늘</span>
+          )}
+        </div>
+      );
+    }
+    const { color, icon } = getCategoryDefinition(categorySettings, group.category);
+    return (
+      <div className={`flex items-center gap-2 text-sm font-bold ${colors.textPrimary}`}>
+        <span className={`h-2.5 w-2.5 rounded-full ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+        {icon && <span aria-hidden="true">{icon}</span>}
+        {group.category}
+        <span className={`text-xs font-normal ${colors.textSecondary}`}>{group.events.length}건</span>
+      </div>
+    );
+  };
+
+  const renderEventRow = (event: CalendarEvent) => {
+    const { color, icon } = getCategoryDefinition(categorySettings, event.category);
+    const isDone = event.status === 'done';
+    const timing = formatEventTiming(event);
+    const isEditing = editingId === event.id;
+    return (
+      <li key={event.id} className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg ${colors.hoverEffect} ${event.hidden ? 'opacity-50 italic' : ''}`}>
+        <input
+          type="checkbox"
+          checked={isDone}
+          onChange={() => onToggleDone(event)}
+          className={`h-4 w-4 flex-shrink-0 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+          aria-label={`${event.title} ${isDone ? '완료 취소' : '완료'}`}
+        />
+        <span className={`h-2 w-2 flex-shrink-0 rounded-full ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+        {isEditing ? (
+          <input
+            type="text"
+            value={editingTitle}
+            onChange={(e) => setEditingTitle(e.target.value)}
+            onBlur={() => commitRename(event)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename(event);
+              if (e.key === 'Escape') cancelRename();
+            }}
+            autoFocus
+            className={`flex-1 min-w-0 px-2 py-0.5 text-sm rounded border ${colors.border} ${colors.inputBg} ${colors.textPrimary} focus:outline-none focus:ring-1 focus:ring-cyan-400`}
+            aria-label="일정 제목"
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => onEventClick(event)}
+            className={`flex-1 min-w-0 text-left text-sm truncate ${isDone ? `line-through ${colors.textSecondary}` : colors.textPrimary}`}
+            title={[event.title, event.category, timing, event.status ? EVENT_STATUS_LABELS[event.status] : ''].filter(Boolean).join(' · ')}
+          >
+            {icon && <span className="mr-1" aria-hidden="true">{icon}</span>}
+            {event.title}
+            {event.seriesId && <span className={`ml-1 ${colors.textSecondary}`}>↻</span>}
+            {groupBy === 'category' && <span className={`ml-2 text-xs ${colors.textSecondary}`}>{event.date.slice(5).replace('-', '/')}</span>}
+            {timing && <span className={`ml-2 text-xs ${colors.textSecondary}`}>{timing}</span>}
+            {event.status === 'inProgress' && <span className="ml-2 text-xs text-amber-500">{EVENT_STATUS_LABELS.inProgress}</span>}
+          </button>
+        )}
+        {!isEditing && (
+          <button
+            type="button"
+            onClick={() => startRename(event)}
+            className={`text-xs flex-shrink-0 ${colors.textSecondary} hover:${colors.textPrimary} opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity`}
+          >
+            이름 변경
+          </button>
+        )}
+        <input
+          type="date"
+          value={event.date}
+          min={minDateKey}
+          max={AGENDA_END_DATE_KEY}
+          onChange={(e) => {
+            // Typing a year passes through values like 0002-..; only dates in the picker's range count.
+            const { value } = e.target;
+            if (isValidDateKey(value) && value >= minDateKey && value <= AGENDA_END_DATE_KEY && value !== event.date) {
+              onReschedule(event, value);
+            }
+          }}
+          className={`flex-shrink-0 px-1.5 py-0.5 text-xs rounded border ${colors.border} ${colors.inputBg} ${colors.textSecondary}`}
+          aria-label={`${event.title} 날짜 변경`}
+        />
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex-shrink-0 flex items-center justify-end gap-2 mb-2 px-1">
+        <div className={`flex ${colors.inputBg} rounded-lg p-0.5 border ${colors.border}`}>
+          {([['day', '날짜별'], ['category', '업무별']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setGroupBy(value)}
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-md transition-colors ${groupBy === value ? `${colors.activeTabBg} ${colors.buttonText}` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className={`flex-grow min-h-0 overflow-y-auto scrollbar-thin ${colors.mainBg} rounded-xl border ${colors.border}/50 p-2 sm:p-3`}
+      >
+        {months.map(month => (
+          <section key={month.key} className="mb-4">
+            <h3 className={`sticky top-0 z-10 -mx-2 sm:-mx-3 px-3 py-1.5 text-sm font-bold ${colors.accentColor} ${colors.mainBg}`}>
+              {formatMonthKey(month.key)}
+            </h3>
+            {month.groups.map(group => (
+              <div key={group.key} className={`mt-2 pb-2 border-b ${colors.border} last:border-b-0`}>
+                <div className="px-2">{renderGroupHeader(group)}</div>
+                <ul className="mt-1">{group.events.map(renderEventRow)}</ul>
+              </div>
+            ))}
+          </section>
+        ))}
+        {months.length === 0 && !hasMore && (
+          <p className={`text-sm ${colors.textSecondary} text-center py-10`}>표시할 일정이 없습니다.</p>
+        )}
+        <div ref={sentinelRef} className={`py-3 text-center text-xs ${colors.textSecondary}`}>
+          {hasMore ? `${formatMonthKey(range.end.slice(0, 7))}까지 불러옴…` : `${formatMonthKey(AGENDA_END_DATE_KEY.slice(0, 7))}까지 모두 표시했습니다.`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -2,15 +2,18 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
 import { AiProviderPreference } from '../contexts/ApiKeyContext';
 import {
-  BUILTIN_EVENT_OVERRIDES_STORAGE_KEY,
-  BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT,
-  CalendarEventSource,
-  DEFAULT_EVENT_CATEGORY,
-  EVENT_CATEGORIES,
+  EDUCATION_OFFICES,
+  EducationOffice,
   EventCategory,
-  USER_EVENTS_STORAGE_KEY,
-  USER_EVENTS_UPDATED_EVENT,
+  ReminderSettings,
+  SCHOOL_LEVELS,
+  SchoolLevel,
+  SchoolProfile,
 } from '../types';
+import { BackupFile, BackupScope, buildBackup, parseBackupFile } from '../utils/backup';
+import { formatDateKey } from '../utils/dateKey';
+import { REMINDER_HOUR, formatLeadDays, parseLeadDaysInput } from '../utils/reminders';
+import BackupImportDialog from './BackupImportDialog';
 
 type ApiKeyModalProps = {
   isOpen: boolean;
@@ -23,6 +26,12 @@ type ApiKeyModalProps = {
   onSaveOpenRouter: (nextKey: string) => void;
   onSaveAiProviderPreference: (nextProvider: AiProviderPreference) => void;
   onSaveOpenRouterModel: (nextModel: string) => void;
+  schoolProfile: SchoolProfile;
+  onSaveSchoolProfile: (nextProfile: SchoolProfile) => void;
+  reminderSettings: ReminderSettings;
+  onSaveReminderSettings: (nextSettings: ReminderSettings) => void;
+  // Current category names, for the per-category reminder defaults.
+  categories: EventCategory[];
   onClearGemini: () => void;
   onClearOpenRouter: () => void;
 };
@@ -30,123 +39,11 @@ type ApiKeyModalProps = {
 const GOOGLE_AI_STUDIO_API_KEY_URL = 'https://aistudio.google.com/app/apikey';
 const OPENROUTER_KEYS_URL = 'https://openrouter.ai/keys';
 
-const BACKUP_FILE_VERSION = 1 as const;
-
-type StoredUserEvent = {
-  id: string;
-  date: string; // YYYY-MM-DD
-  title: string;
-  category: EventCategory;
-  source: CalendarEventSource;
-};
-
-type StoredBuiltinEventOverride = {
-  date?: string;
-  title?: string;
-  category?: EventCategory;
-};
-
-type BackupFileV1 = {
-  version: typeof BACKUP_FILE_VERSION;
-  createdAt: string;
-  year: number;
-  userEvents: StoredUserEvent[];
-  builtinEventOverrides: Record<string, StoredBuiltinEventOverride>;
-};
-
-const isDateKeyLike = (value: unknown): value is string =>
-  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
-
-const isEventCategory = (value: unknown): value is EventCategory =>
-  typeof value === 'string' && EVENT_CATEGORIES.includes(value as EventCategory);
-
-const isCalendarEventSource = (value: unknown): value is CalendarEventSource => value === 'manual' || value === 'ai';
-
-const yearFromDateKey = (dateKey: string): number | null => {
-  if (!isDateKeyLike(dateKey)) return null;
-  const year = Number(dateKey.slice(0, 4));
-  return Number.isFinite(year) ? year : null;
-};
-
-const yearFromBuiltinEventId = (eventId: string): number | null => {
-  const match = /^event-(\d{4})-/.exec(eventId);
-  if (!match) return null;
-  const year = Number(match[1]);
-  return Number.isFinite(year) ? year : null;
-};
-
-const loadStoredUserEvents = (): StoredUserEvent[] => {
-  try {
-    const raw = localStorage.getItem(USER_EVENTS_STORAGE_KEY);
-    if (!raw) return [];
-    const parsed: unknown = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-
-    const events: StoredUserEvent[] = [];
-    for (const item of parsed) {
-      if (!item || typeof item !== 'object') continue;
-      const candidate = item as Record<string, unknown>;
-      const id = candidate.id;
-      const date = candidate.date;
-      const title = candidate.title;
-      const category = candidate.category;
-      const source = candidate.source;
-
-      if (typeof id !== 'string' || !id) continue;
-      if (!isDateKeyLike(date)) continue;
-      if (typeof title !== 'string' || !title.trim()) continue;
-
-      events.push({
-        id,
-        date,
-        title: title.trim(),
-        category: isEventCategory(category) ? category : DEFAULT_EVENT_CATEGORY,
-        source: isCalendarEventSource(source) ? source : 'manual',
-      });
-    }
-
-    return events;
-  } catch {
-    return [];
-  }
-};
-
-const saveStoredUserEvents = (events: StoredUserEvent[]) => {
-  localStorage.setItem(USER_EVENTS_STORAGE_KEY, JSON.stringify(events));
-  window.dispatchEvent(new CustomEvent(USER_EVENTS_UPDATED_EVENT));
-};
-
-const loadStoredBuiltinOverrides = (): Record<string, StoredBuiltinEventOverride> => {
-  try {
-    const raw = localStorage.getItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY);
-    if (!raw) return {};
-    const parsed: unknown = JSON.parse(raw);
-    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
-
-    const overrides: Record<string, StoredBuiltinEventOverride> = {};
-    for (const [id, value] of Object.entries(parsed as Record<string, unknown>)) {
-      if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
-      const candidate = value as Record<string, unknown>;
-
-      const next: StoredBuiltinEventOverride = {};
-      if (isDateKeyLike(candidate.date)) next.date = candidate.date;
-      if (typeof candidate.title === 'string' && candidate.title.trim()) next.title = candidate.title.trim();
-      if (isEventCategory(candidate.category)) next.category = candidate.category;
-
-      if (next.date || next.title || next.category) {
-        overrides[id] = next;
-      }
-    }
-
-    return overrides;
-  } catch {
-    return {};
-  }
-};
-
-const saveStoredBuiltinOverrides = (overrides: Record<string, StoredBuiltinEventOverride>) => {
-  localStorage.setItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
-  window.dispatchEvent(new CustomEvent(BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT));
+const SCHOOL_LEVEL_LABELS: Record<SchoolLevel, string> = {
+  초: '초등학교',
+  중: '중학교',
+  고: '고등학교',
+  특수: '특수학교',
 };
 
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
@@ -160,6 +57,11 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   onSaveOpenRouter,
   onSaveAiProviderPreference,
   onSaveOpenRouterModel,
+  schoolProfile,
+  onSaveSchoolProfile,
+  reminderSettings,
+  onSaveReminderSettings,
+  categories,
   onClearGemini,
   onClearOpenRouter,
 }) => {
@@ -168,10 +70,21 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   const [openRouterDraft, setOpenRouterDraft] = useState(openRouterApiKey);
   const [providerDraft, setProviderDraft] = useState<AiProviderPreference>(aiProviderPreference);
   const [openRouterModelDraft, setOpenRouterModelDraft] = useState(openRouterModel);
+  const [schoolProfileDraft, setSchoolProfileDraft] = useState<SchoolProfile>(schoolProfile);
+  const [reminderEnabledDraft, setReminderEnabledDraft] = useState(reminderSettings.enabled);
+  const [desktopNotificationsDraft, setDesktopNotificationsDraft] = useState(reminderSettings.desktopNotifications);
+  const [defaultLeadDaysDraft, setDefaultLeadDaysDraft] = useState('');
+  const [categoryLeadDaysDraft, setCategoryLeadDaysDraft] = useState<Partial<Record<EventCategory, string>>>({});
+  const [reminderError, setReminderError] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => ('Notification' in window ? Notification.permission : 'unsupported'),
+  );
   const [isGeminiVisible, setIsGeminiVisible] = useState(false);
   const [isOpenRouterVisible, setIsOpenRouterVisible] = useState(false);
   const [backupYear, setBackupYear] = useState<number>(() => new Date().getFullYear());
+  const [includeApiKeysInBackup, setIncludeApiKeysInBackup] = useState(false);
   const [transferStatus, setTransferStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ backup: BackupFile; fileName: string } | null>(null);
 
   useEffect(() => {
     if (!isOpen) return;
@@ -179,11 +92,23 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     setOpenRouterDraft(openRouterApiKey);
     setProviderDraft(aiProviderPreference);
     setOpenRouterModelDraft(openRouterModel);
+    setSchoolProfileDraft(schoolProfile);
+    setReminderEnabledDraft(reminderSettings.enabled);
+    setDesktopNotificationsDraft(reminderSettings.desktopNotifications);
+    setDefaultLeadDaysDraft(formatLeadDays(reminderSettings.defaultLeadDays));
+    setCategoryLeadDaysDraft(
+      Object.fromEntries(
+        Object.entries(reminderSettings.categoryLeadDays).map(([category, days]) => [category, formatLeadDays(days)]),
+      ),
+    );
+    setReminderError(null);
     setIsGeminiVisible(false);
     setIsOpenRouterVisible(false);
     setBackupYear(new Date().getFullYear());
+    setIncludeApiKeysInBackup(false);
     setTransferStatus(null);
-  }, [isOpen, geminiApiKey, openRouterApiKey, aiProviderPreference, openRouterModel]);
+    setPendingImport(null);
+  }, [isOpen, geminiApiKey, openRouterApiKey, aiProviderPreference, openRouterModel, schoolProfile, reminderSettings]);
 
   const maskedGemini = useMemo(() => {
     if (!geminiApiKey) return '';
@@ -211,11 +136,44 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
 
   if (!isOpen) return null;
 
+  const buildReminderSettingsFromDraft = (): ReminderSettings | null => {
+    const defaultLeadDays = parseLeadDaysInput(defaultLeadDaysDraft);
+    if (!defaultLeadDays) return null;
+    const categoryLeadDays: ReminderSettings['categoryLeadDays'] = {};
+    for (const category of categories) {
+      const text = categoryLeadDaysDraft[category]?.trim();
+      if (!text) continue;
+      const days = parseLeadDaysInput(text);
+      if (!days) return null;
+      categoryLeadDays[category] = days;
+    }
+    return {
+      enabled: reminderEnabledDraft,
+      desktopNotifications: desktopNotificationsDraft,
+      defaultLeadDays,
+      categoryLeadDays,
+    };
+  };
+
+  const requestNotificationPermission = async () => {
+    if (!('Notification' in window)) return;
+    const permission = await Notification.requestPermission();
+    setNotificationPermission(permission);
+    if (permission === 'granted') setDesktopNotificationsDraft(true);
+  };
+
   const handleSave = () => {
+    const nextReminderSettings = buildReminderSettingsFromDraft();
+    if (!nextReminderSettings) {
+      setReminderError('알림 일수는 0~365 사이 숫자를 쉼표로 구분해 입력해주세요. (예: 7, 1)');
+      return;
+    }
+    onSaveReminderSettings(nextReminderSettings);
     onSaveGemini(geminiDraft);
     onSaveOpenRouter(openRouterDraft);
     onSaveAiProviderPreference(providerDraft);
     onSaveOpenRouterModel(openRouterModelDraft);
+    onSaveSchoolProfile(schoolProfileDraft);
     onClose();
   };
 
@@ -227,27 +185,12 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     onClose();
   };
 
-  const buildBackupForYear = (year: number): BackupFileV1 => {
-    const userEvents = loadStoredUserEvents().filter(ev => yearFromDateKey(ev.date) === year);
-
-    const existingOverrides = loadStoredBuiltinOverrides();
-    const builtinEventOverrides: Record<string, StoredBuiltinEventOverride> = {};
-    for (const [id, override] of Object.entries(existingOverrides)) {
-      const effectiveYear = (override.date && yearFromDateKey(override.date)) ?? yearFromBuiltinEventId(id);
-      if (effectiveYear === year) {
-        builtinEventOverrides[id] = override;
-      }
-    }
-
-    return {
-      version: BACKUP_FILE_VERSION,
-      createdAt: new Date().toISOString(),
-      year,
-      userEvents,
-      builtinEventOverrides,
-    };
+  const updateSchoolProfileDraft = (patch: Partial<SchoolProfile>) => {
+    setSchoolProfileDraft(prev => ({ ...prev, ...patch }));
   };
 
+  const parseOptionalNumber = (value: string): number | null => (value === '' ? null : Number(value));
+
   const downloadJsonFile = (filename: string, jsonText: string) => {
     const blob = new Blob([jsonText], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -260,20 +203,12 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     URL.revokeObjectURL(url);
   };
 
-  const handleExportBackup = () => {
+  const exportBackup = async (scope: BackupScope, filename: string, successMessage: string) => {
     setTransferStatus(null);
-
-    const year = Math.trunc(backupYear);
-    if (!Number.isFinite(year) || year < 1900 || year > 9999) {
-      setTransferStatus({ type: 'error', message: '연도 값을 확인해주세요.' });
-      return;
-    }
-
     try {
-      const backup = buildBackupForYear(year);
-      const json = JSON.stringify(backup, null, 2);
-      downloadJsonFile(`smart-calendar-backup-${year}.json`, json);
-      setTransferStatus({ type: 'success', message: `${year}년 백업 파일을 생성했습니다.` });
+      const backup = await buildBackup(scope, { includeApiKeys: includeApiKeysInBackup });
+      downloadJsonFile(filename, JSON.stringify(backup, null, 2));
+      setTransferStatus({ type: 'success', message: successMessage });
     } catch (e) {
       setTransferStatus({
         type: 'error',
@@ -282,87 +217,22 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     }
   };
 
-  const normalizeBackupPayload = (payload: unknown): BackupFileV1 => {
-    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
-      throw new Error('백업 파일 형식이 올바르지 않습니다.');
-    }
-
-    const candidate = payload as Record<string, unknown>;
-    const version = candidate.version;
-    const versionNumber = typeof version === 'number' ? version : version === undefined ? 0 : NaN;
-    if (versionNumber !== 0 && versionNumber !== BACKUP_FILE_VERSION) {
-      throw new Error('지원하지 않는 백업 파일 버전입니다.');
-    }
-
-    const year = candidate.year;
-    if (typeof year !== 'number' || !Number.isFinite(year)) {
-      throw new Error('백업 파일 형식이 올바르지 않습니다. (year)');
-    }
-    const normalizedYear = Math.trunc(year);
-
-    const userEventsRaw = (candidate.userEvents ?? candidate.events) as unknown;
-    if (!Array.isArray(userEventsRaw)) {
-      throw new Error('백업 파일 형식이 올바르지 않습니다. (userEvents)');
-    }
-
-    const builtinOverridesRaw = (candidate.builtinEventOverrides ?? candidate.builtinOverrides ?? candidate.overrides) as unknown;
-    if (builtinOverridesRaw !== undefined && (typeof builtinOverridesRaw !== 'object' || builtinOverridesRaw === null || Array.isArray(builtinOverridesRaw))) {
-      throw new Error('백업 파일 형식이 올바르지 않습니다. (builtinEventOverrides)');
-    }
-
-    const normalizedUserEvents: StoredUserEvent[] = [];
-    for (const item of userEventsRaw) {
-      if (!item || typeof item !== 'object') continue;
-      const ev = item as Record<string, unknown>;
-      const id = ev.id;
-      const date = ev.date;
-      const title = ev.title;
-      const category = ev.category;
-      const source = ev.source;
-
-      if (typeof id !== 'string' || !id) continue;
-      if (!isDateKeyLike(date)) continue;
-      if (typeof title !== 'string' || !title.trim()) continue;
-
-      const eventYear = yearFromDateKey(date);
-      if (eventYear !== normalizedYear) continue;
-
-      normalizedUserEvents.push({
-        id,
-        date,
-        title: title.trim(),
-        category: isEventCategory(category) ? category : DEFAULT_EVENT_CATEGORY,
-        source: isCalendarEventSource(source) ? source : 'manual',
-      });
-    }
-
-    const normalizedBuiltinOverrides: Record<string, StoredBuiltinEventOverride> = {};
-    if (builtinOverridesRaw && typeof builtinOverridesRaw === 'object' && !Array.isArray(builtinOverridesRaw)) {
-      for (const [id, value] of Object.entries(builtinOverridesRaw as Record<string, unknown>)) {
-        if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
-        const override = value as Record<string, unknown>;
-
-        const next: StoredBuiltinEventOverride = {};
-        if (isDateKeyLike(override.date)) next.date = override.date;
-        if (typeof override.title === 'string' && override.title.trim()) next.title = override.title.trim();
-        if (isEventCategory(override.category)) next.category = override.category;
-
-        const effectiveYear = (next.date && yearFromDateKey(next.date)) ?? yearFromBuiltinEventId(id);
-        if (effectiveYear !== normalizedYear) continue;
-
-        if (next.date || next.title || next.category) {
-          normalizedBuiltinOverrides[id] = next;
-        }
-      }
+  const handleExportYearBackup = () => {
+    const year = Math.trunc(backupYear);
+    if (!Number.isFinite(year) || year < 1900 || year > 9999) {
+      setTransferStatus({ type: 'error', message: '연도 값을 확인해주세요.' });
+      return;
     }
+    exportBackup({ type: 'year', year }, `smart-calendar-backup-${year}.json`, `${year}년 백업 파일을 생성했습니다.`);
+  };
 
-    return {
-      version: BACKUP_FILE_VERSION,
-      createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date().toISOString(),
-      year: normalizedYear,
-      userEvents: normalizedUserEvents,
-      builtinEventOverrides: normalizedBuiltinOverrides,
-    };
+  const handleExportFullBackup = () => {
+    const dateKey = formatDateKey(new Date());
+    exportBackup(
+      { type: 'all' },
+      `smart-calendar-backup-all-${dateKey}.json`,
+      `전체 백업 파일을 생성했습니다.${includeApiKeysInBackup ? ' (API Key 포함 — 파일 보관에 주의하세요)' : ''}`,
+    );
   };
 
   const handleImportBackupFile = async (file: File) => {
@@ -371,28 +241,11 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     try {
       const text = await file.text();
       const parsed: unknown = JSON.parse(text);
-      const backup = normalizeBackupPayload(parsed);
-
-      const existingUserEvents = loadStoredUserEvents();
-      const remainingUserEvents = existingUserEvents.filter(ev => yearFromDateKey(ev.date) !== backup.year);
-      saveStoredUserEvents([...backup.userEvents, ...remainingUserEvents]);
-
-      const existingOverrides = loadStoredBuiltinOverrides();
-      const remainingOverrides: Record<string, StoredBuiltinEventOverride> = {};
-      for (const [id, override] of Object.entries(existingOverrides)) {
-        const effectiveYear = (override.date && yearFromDateKey(override.date)) ?? yearFromBuiltinEventId(id);
-        if (effectiveYear !== backup.year) remainingOverrides[id] = override;
-      }
-      saveStoredBuiltinOverrides({ ...remainingOverrides, ...backup.builtinEventOverrides });
-
-      setTransferStatus({
-        type: 'success',
-        message: `${backup.year}년 백업을 가져왔습니다. (일정 ${backup.userEvents.length}개 / 기본일정 수정 ${Object.keys(backup.builtinEventOverrides).length}건)`,
-      });
+      setPendingImport({ backup: parseBackupFile(parsed), fileName: file.name });
     } catch (e) {
       setTransferStatus({
         type: 'error',
-        message: e instanceof Error ? e.message : '백업 파일 형식이 올바르지 않습니다.',
+        message: e instanceof Error && !(e instanceof SyntaxError) ? e.message : '백업 파일 형식이 올바르지 않습니다.',
       });
     }
   };
@@ -558,10 +411,184 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
             자동(추천)을 선택하면 Gemini 키가 있을 때 Gemini를 사용하고, 없으면 OpenRouter를 사용합니다.
           </p>
 
+          <section className={`space-y-2 pt-4 border-t ${colors.border}`}>
+            <div className="flex items-center justify-between gap-3">
+              <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>학교 정보</h3>
+              <span className={`text-[11px] ${colors.textSecondary}`}>기본 업무일정 맞춤</span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="school-level-select">
+                  학교급
+                </label>
+                <select
+                  id="school-level-select"
+                  value={schoolProfileDraft.schoolLevel ?? ''}
+                  onChange={(e) => updateSchoolProfileDraft({ schoolLevel: (e.target.value || null) as SchoolLevel | null })}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                >
+                  <option value="">전체(미설정)</option>
+                  {SCHOOL_LEVELS.map(level => (
+                    <option key={level} value={level}>{SCHOOL_LEVEL_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="education-office-select">
+                  시도교육청
+                </label>
+                <select
+                  id="education-office-select"
+                  value={schoolProfileDraft.educationOffice ?? ''}
+                  onChange={(e) => updateSchoolProfileDraft({ educationOffice: (e.target.value || null) as EducationOffice | null })}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                >
+                  <option value="">전체(미설정)</option>
+                  {EDUCATION_OFFICES.map(office => (
+                    <option key={office} value={office}>{office}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="building-approval-month-select">
+                  건축물사용승인월
+                </label>
+                <select
+                  id="building-approval-month-select"
+                  value={schoolProfileDraft.buildingApprovalMonth ?? ''}
+                  onChange={(e) => updateSchoolProfileDraft({ buildingApprovalMonth: parseOptionalNumber(e.target.value) })}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                >
+                  <option value="">미설정</option>
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                    <option key={m} value={m}>{m}월</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="fire-inspection-month-select">
+                  소방 종합정밀점검월
+                </label>
+                <select
+                  id="fire-inspection-month-select"
+                  value={schoolProfileDraft.fireInspectionMonth ?? ''}
+                  onChange={(e) => updateSchoolProfileDraft({ fireInspectionMonth: parseOptionalNumber(e.target.value) })}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                >
+                  <option value="">건축물사용승인월과 같음</option>
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                    <option key={m} value={m}>{m}월</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="pay-day-input">
+                  급여 지급일
+                </label>
+                <input
+                  id="pay-day-input"
+                  type="number"
+                  min={1}
+                  max={31}
+                  placeholder="기본 일정 사용"
+                  value={schoolProfileDraft.payDay ?? ''}
+                  onChange={(e) => updateSchoolProfileDraft({ payDay: parseOptionalNumber(e.target.value) })}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                />
+              </div>
+            </div>
+
+            <p className={`text-[11px] ${colors.textSecondary} leading-relaxed`}>
+              학교급·교육청에 해당하지 않는 기본일정은 표시되지 않고, 소방점검·급여 지급일은 입력한 월/일로 옮겨집니다. (저장 시 반영)
+            </p>
+          </section>
+
+          <section className={`space-y-2 pt-4 border-t ${colors.border}`}>
+            <div className="flex items-center justify-between gap-3">
+              <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>알림</h3>
+              <span className={`text-[11px] ${colors.textSecondary}`}>마감 며칠 전 알림</span>
+            </div>
+
+            <label className={`flex items-center gap-2 text-sm ${colors.textPrimary}`}>
+              <input
+                type="checkbox"
+                checked={reminderEnabledDraft}
+                onChange={(e) => setReminderEnabledDraft(e.target.checked)}
+                className={`h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+              />
+              알림 사용
+            </label>
+            <div className="flex items-center justify-between gap-3">
+              <label className={`flex items-center gap-2 text-sm ${colors.textPrimary}`}>
+                <input
+                  type="checkbox"
+                  checked={desktopNotificationsDraft}
+                  disabled={notificationPermission !== 'granted'}
+                  onChange={(e) => setDesktopNotificationsDraft(e.target.checked)}
+                  className={`h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+                />
+                바탕화면 알림
+              </label>
+              {notificationPermission === 'default' && (
+                <button
+                  type="button"
+                  onClick={requestNotificationPermission}
+                  className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-1 px-3 rounded-lg transition-colors text-xs`}
+                >
+                  권한 요청
+                </button>
+              )}
+              {notificationPermission === 'denied' && (
+                <span className={`text-[11px] ${colors.textSecondary}`}>브라우저에서 알림이 차단되어 있습니다.</span>
+              )}
+              {notificationPermission === 'unsupported' && (
+                <span className={`text-[11px] ${colors.textSecondary}`}>이 브라우저는 알림을 지원하지 않습니다.</span>
+              )}
+            </div>
+
+            <div>
+              <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="default-lead-days-input">
+                기본 알림 (며칠 전, 쉼표로 구분)
+              </label>
+              <input
+                id="default-lead-days-input"
+                type="text"
+                value={defaultLeadDaysDraft}
+                onChange={(e) => setDefaultLeadDaysDraft(e.target.value)}
+                placeholder="비우면 알림 없음"
+                className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+              />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {categories.map(category => (
+                <div key={category}>
+                  <label className={`text-[11px] ${colors.textSecondary} block mb-0.5`} htmlFor={`lead-days-${category}`}>
+                    {category}
+                  </label>
+                  <input
+                    id={`lead-days-${category}`}
+                    type="text"
+                    value={categoryLeadDaysDraft[category] ?? ''}
+                    onChange={(e) => setCategoryLeadDaysDraft(prev => ({ ...prev, [category]: e.target.value }))}
+                    placeholder="기본값"
+                    className={`w-full p-1.5 ${colors.inputBg} border ${colors.border} rounded-md focus:ring-2 focus:ring-cyan-500 outline-none text-xs`}
+                  />
+                </div>
+              ))}
+            </div>
+            {reminderError && (
+              <div className="text-xs p-2 rounded-md border text-red-200 bg-red-900/20 border-red-700">{reminderError}</div>
+            )}
+            <p className={`text-[11px] ${colors.textSecondary} leading-relaxed`}>
+              알림은 해당 날짜 오전 {REMINDER_HOUR}시 이후 이 페이지가 열려 있을 때 표시되고, 놓친 알림은 다음 접속 때 한 번 더 알려줍니다. 일정별 알림은 일정 수정 창에서 바꿀 수 있습니다.
+            </p>
+          </section>
+
           <section className={`space-y-2 pt-4 border-t ${colors.border}`}>
             <div className="flex items-center justify-between gap-3">
               <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>백업 / 가져오기</h3>
-              <span className={`text-[11px] ${colors.textSecondary}`}>연도별 JSON 내보내기</span>
+              <span className={`text-[11px] ${colors.textSecondary}`}>JSON 내보내기</span>
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
@@ -581,13 +608,31 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
               </div>
               <button
                 type="button"
-                onClick={handleExportBackup}
+                onClick={handleExportYearBackup}
+                className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm w-full`}
+              >
+                연도 백업
+              </button>
+              <button
+                type="button"
+                onClick={handleExportFullBackup}
                 className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm w-full`}
               >
-                백업 생성
+                전체 백업
               </button>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className={`flex items-center gap-2 text-xs ${colors.textSecondary} cursor-pointer`}>
+                <input
+                  type="checkbox"
+                  checked={includeApiKeysInBackup}
+                  onChange={(e) => setIncludeApiKeysInBackup(e.target.checked)}
+                />
+                전체 백업에 API Key 포함
+              </label>
               <label
-                className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm w-full text-center cursor-pointer`}
+                className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors text-sm text-center cursor-pointer`}
               >
                 <input type="file" accept="application/json" className="hidden" onChange={handleImportChange} />
                 백업 가져오기
@@ -606,7 +651,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
             )}
 
             <p className={`text-[11px] ${colors.textSecondary} leading-relaxed`}>
-              가져오기는 해당 연도의 사용자 일정/기본일정 수정 데이터를 덮어씁니다. (API Key는 포함되지 않습니다)
+              전체 백업에는 모든 연도의 일정과 테마·필터·업무 분류·학교 정보·알림 설정·대화 기록이 들어갑니다. API Key는 체크했을 때만 포함됩니다. 가져오기 전에 변경 내용을 확인하고 병합/연도 바꾸기/전체 바꾸기 중에서 고를 수 있습니다.
             </p>
           </section>
         </div>
@@ -628,6 +673,18 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
           </button>
         </div>
       </div>
+
+      {pendingImport && (
+        <BackupImportDialog
+          backup={pendingImport.backup}
+          fileName={pendingImport.fileName}
+          onClose={() => setPendingImport(null)}
+          onImported={(message) => {
+            setPendingImport(null);
+            setTransferStatus({ type: 'success', message });
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  BackupConflictResolution,
+  BackupDiffEntry,
+  BackupEventData,
+  BackupFile,
+  collectBackupYears,
+  describeKeptConflicts,
+  diffBackup,
+  loadLocalEventData,
+  mergeBackupData,
+  replaceBackupData,
+  restoreBackupAttachments,
+  restoreBackupProjects,
+  restoreBackupSettings,
+  saveLocalEventData,
+} from '../utils/backup';
+import { importAuditLog } from '../utils/eventRepository';
+
+type BackupImportStrategy = 'merge' | 'replaceYear' | 'replaceAll';
+
+type BackupImportDialogProps = {
+  backup: BackupFile;
+  fileName: string;
+  onClose: () => void;
+  onImported: (message: string) => void;
+};
+
+const STRATEGY_LABELS: Record<BackupImportStrategy, { title: string; description: string }> = {
+  merge: {
+    title: '병합',
+    description: '새 일정은 추가하고, 이 기기에만 있는 일정은 그대로 둡니다.',
+  },
+  replaceYear: {
+    title: '연도 바꾸기',
+    description: '선택한 연도의 일정과 기본일정 수정을 백업 내용으로 바꿉니다. 다른 연도는 그대로 둡니다.',
+  },
+  replaceAll: {
+    title: '전체 바꾸기',
+    description: '모든 일정과 설정(테마, 필터, 업무 분류, 학교 정보, 알림, 대화 기록)을 백업 내용으로 바꾸고 앱을 다시 불러옵니다.',
+  },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  date: '날짜',
+  endDate: '종료일',
+  startTime: '시작 시각',
+  endTime: '종료 시각',
+  title: '제목',
+  category: '업무분류',
+  source: '출처',
+  recurrence: '반복',
+  status: '진행 상태',
+  checklist: '체크리스트',
+  reminderLeadDays: '알림',
+  notes: '메모',
+  links: '링크',
+  attachments: '첨부 파일',
+  projectId: '프로젝트',
+  dependencies: '선행 일정',
+  hidden: '숨김',
+};
+
+const MAX_LISTED_ENTRIES = 50;
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ backup, fileName, onClose, onImported }) => {
+  const { colors } = useTheme();
+  const [error, setError] = useState<string | null>(null);
+  const [local, setLocal] = useState<BackupEventData>({ userEvents: [], builtinEventOverrides: {} });
+  const [isLoadingLocal, setIsLoadingLocal] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const isFullBackup = backup.scope.type === 'all';
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLocalEventData()
+      .then(data => {
+        if (!cancelled) setLocal(data);
+      })
+      .catch(e => {
+        if (!cancelled) setError(e instanceof Error ? e.message : '이 기기의 일정을 읽지 못했습니다.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingLocal(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const yearOptions = useMemo(() => {
+    if (backup.scope.type === 'year') return [backup.scope.year];
+    return [...new Set([...collectBackupYears(backup), ...collectBackupYears(local)])].sort((a, b) => a - b);
+  }, [backup, local]);
+
+  const [strategy, setStrategy] = useState<BackupImportStrategy>('merge');
+  const [year, setYear] = useState<number | null>(null);
+  const [conflictResolution, setConflictResolution] = useState<BackupConflictResolution>('local');
+
+  useEffect(() => {
+    // Local years are only known once loaded; keep a valid choice, preferring the current year.
+    setYear(prev => {
+      if (prev !== null && yearOptions.includes(prev)) return prev;
+      const currentYear = new Date().getFullYear();
+      return yearOptions.includes(currentYear) ? currentYear : yearOptions[yearOptions.length - 1] ?? null;
+    });
+  }, [yearOptions]);
+
+  // Year-scoped backups never touch other years, so their diff is always limited to that year.
+  const diffYear = strategy === 'replaceYear' ? year : backup.scope.type === 'year' ? backup.scope.year : null;
+  const diff = useMemo(() => diffBackup(backup, local, diffYear), [backup, local, diffYear]);
+  const isReplacing = strategy !== 'merge';
+
+  const handleApply = async () => {
+    setError(null);
+    if (strategy === 'replaceYear' && year === null) {
+      setError('바꿀 연도를 선택해주세요.');
+      return;
+    }
+    if (strategy === 'replaceAll' && !window.confirm('이 기기의 모든 일정과 설정을 백업 내용으로 바꿀까요? 되돌릴 수 없습니다.')) {
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      // Full backups carry the change history; entries already in the log are skipped.
+      if (backup.auditLog) await importAuditLog(backup.auditLog);
+      // Files go in before the events that reference them.
+      await restoreBackupAttachments(backup);
+      await restoreBackupProjects(backup, strategy === 'replaceAll');
+      if (strategy === 'merge') {
+        const { keptConflictCount } = await saveLocalEventData(mergeBackupData(backup, local, conflictResolution));
+        const skippedConflicts = conflictResolution === 'local' ? diff.conflicting.length : 0;
+        onImported(
+          `백업을 병합했습니다. (추가 ${diff.added.length}건 / 변경 ${diff.changed.length + diff.conflicting.length - skippedConflicts}건${diff.duplicates.length > 0 ? `, 중복 ${diff.duplicates.length}건 건너뜀` : ''})${describeKeptConflicts(keptConflictCount)}`,
+        );
+      } else if (strategy === 'replaceYear' && year !== null) {
+        const { keptConflictCount } = await saveLocalEventData(replaceBackupData(backup, local, year));
+        onImported(
+          `${year}년 데이터를 백업 내용으로 바꿨습니다. (삭제 ${diff.localOnly.length}건 / 추가 ${diff.added.length + diff.duplicates.length}건)${describeKeptConflicts(keptConflictCount)}`,
+        );
+      } else {
+        await saveLocalEventData(replaceBackupData(backup, local, null));
+        restoreBackupSettings(backup);
+        // Theme, filters and AI settings are read once at startup.
+        window.location.reload();
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '백업을 적용하지 못했습니다.');
+      setIsApplying(false);
+    }
+  };
+
+  const renderEntries = (title: string, entries: BackupDiffEntry[], tone: string) => {
+    if (entries.length === 0) return null;
+    return (
+      <details className={`rounded-md border ${colors.border}`}>
+        <summary className={`cursor-pointer px-2 py-1.5 text-xs ${colors.textPrimary}`}>
+          <span className={`font-semibold ${tone}`}>{title}</span> {entries.length}건
+        </summary>
+        <ul className={`px-2 pb-2 space-y-0.5 text-[11px] ${colors.textSecondary}`}>
+          {entries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+            <li key={`${entry.kind}:${entry.id}`} className="flex gap-2">
+              <span className="tabular-nums flex-shrink-0">{entry.date}</span>
+              <span className="truncate flex-1" title={entry.title}>
+                {entry.kind === 'builtin' ? '[기본] ' : ''}
+                {entry.title}
+              </span>
+              {entry.fields.length > 0 && (
+                <span className="flex-shrink-0">{entry.fields.map(field => FIELD_LABELS[field] ?? field).join(', ')}</span>
+              )}
+            </li>
+          ))}
+          {entries.length > MAX_LISTED_ENTRIES && <li>외 {entries.length - MAX_LISTED_ENTRIES}건</li>}
+        </ul>
+      </details>
+    );
+  };
+
+  const hasChanges =
+    diff.added.length + diff.changed.length + diff.conflicting.length + diff.duplicates.length > 0 ||
+    (isReplacing && diff.localOnly.length > 0) ||
+    strategy === 'replaceAll';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+      <div className={`w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-thin ${colors.componentBg} border ${colors.border} rounded-xl shadow-xl p-5 space-y-4`}>
+        <div>
+          <h2 className={`text-lg font-semibold ${colors.accentColor}`}>백업 가져오기</h2>
+          <p className={`text-xs ${colors.textSecondary} mt-1 break-all`}>
+            {fileName} · {isFullBackup ? '전체 백업' : `${backup.scope.type === 'year' ? backup.scope.year : ''}년 백업`} ·{' '}
+            {new Date(backup.createdAt).toLocaleString('ko-KR')}
+            {backup.apiKeys ? ' · API Key 포함' : ''}
+          </p>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className={`text-sm font-semibold ${colors.textPrimary} mb-1`}>가져오기 방식</legend>
+          {(Object.keys(STRATEGY_LABELS) as BackupImportStrategy[]).map(option => {
+            const disabled = option === 'replaceAll' && !isFullBackup;
+            return (
+              <label
+                key={option}
+                className={`flex items-start gap-2 p-2 rounded-lg border ${colors.border} ${disabled ? 'opacity-50 cursor-not-allowed' : `cursor-pointer ${colors.hoverEffect}`}`}
+              >
+                <input
+                  type="radio"
+                  name="backup-import-strategy"
+                  value={option}
+                  checked={strategy === option}
+                  disabled={disabled}
+                  onChange={() => setStrategy(option)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className={`block text-sm ${colors.textPrimary}`}>{STRATEGY_LABELS[option].title}</span>
+                  <span className={`block text-[11px] ${colors.textSecondary} leading-relaxed`}>
+                    {disabled ? '연도별 백업에는 설정이 없어 사용할 수 없습니다.' : STRATEGY_LABELS[option].description}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </fieldset>
+
+        {strategy === 'replaceYear' && (
+          <div>
+            <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="backup-import-year-select">
+              바꿀 연도
+            </label>
+            <select
+              id="backup-import-year-select"
+              value={year ?? ''}
+              onChange={(e) => setYear(e.target.value ? Number(e.target.value) : null)}
+              disabled={!isFullBackup}
+              className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+            >
+              {yearOptions.length === 0 && <option value="">일정이 있는 연도가 없습니다</option>}
+              {yearOptions.map(option => (
+                <option key={option} value={option}>{option}년</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <section className="space-y-2">
+          <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>
+            변경 내용{diffYear !== null ? ` (${diffYear}년)` : ''}
+          </h3>
+          {renderEntries('추가', diff.added, 'text-green-400')}
+          {renderEntries('변경', diff.changed, colors.accentColor)}
+          {renderEntries('충돌', diff.conflicting, 'text-amber-400')}
+          {renderEntries(isReplacing ? '중복(추가됨)' : '중복(건너뜀)', diff.duplicates, colors.textSecondary)}
+          {renderEntries(isReplacing ? '삭제' : '이 기기에만 있음(유지)', diff.localOnly, isReplacing ? 'text-red-400' : colors.textSecondary)}
+          <p className={`text-[11px] ${colors.textSecondary}`}>
+            {isLoadingLocal ? '이 기기의 일정을 확인하는 중...' : `같은 일정 ${diff.unchangedCount}건은 변경 없음.${hasChanges ? '' : ' 가져올 변경 사항이 없습니다.'}`}
+          </p>
+          {strategy === 'merge' && diff.conflicting.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <span className={colors.textSecondary}>충돌 시</span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="backup-conflict-resolution"
+                  checked={conflictResolution === 'local'}
+                  onChange={() => setConflictResolution('local')}
+                />
+                이 기기 내용 유지
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="backup-conflict-resolution"
+                  checked={conflictResolution === 'backup'}
+                  onChange={() => setConflictResolution('backup')}
+                />
+                백업 내용 사용
+              </label>
+            </div>
+          )}
+        </section>
+
+        {error && <div className="text-xs p-2 rounded-md border text-red-200 bg-red-900/20 border-red-700">{error}</div>}
+
+        <div className="flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors`}
+          >
+            취소
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!hasChanges || isLoadingLocal || isApplying}
+            className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {isApplying ? '적용 중...' : '가져오기'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupImportDialog;
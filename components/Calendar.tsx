@@ -1,27 +1,163 @@
 
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
-import { KOREAN_MONTH_NAMES, KOREAN_DAY_NAMES_SHORT } from '../constants';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ORIGIN_LABELS,
+  EVENT_STATUS_LABELS,
+  KOREAN_MONTH_NAMES,
+  KOREAN_DAY_NAMES_SHORT,
+} from '../constants';
 import {
   BASE_SCHEDULE_END_YEAR,
-  BUILTIN_EVENT_OVERRIDES_STORAGE_KEY,
   BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT,
+  CALENDAR_EDIT_RECORDED_EVENT,
+  CALENDAR_EVENT_ACTION_EVENT,
   CalendarEvent,
+  AuditOrigin,
+  CalendarEventAction,
   CalendarEventKind,
   CalendarEventSource,
+  ChecklistItem,
   DEFAULT_EVENT_CATEGORY,
   EVENT_CATEGORIES,
+  EVENT_FILTERS_STORAGE_KEY,
+  FILTER_PRESETS_STORAGE_KEY,
+  FilterPreset,
+  EVENT_STATUSES,
+  EventAttachment,
   EventCategory,
-  USER_EVENTS_STORAGE_KEY,
+  EventDependency,
+  EventLink,
+  EventStatus,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  MonthlyRecurrenceMode,
+  PROJECTS_UPDATED_EVENT,
+  Project,
+  RecordedCalendarEdit,
   USER_EVENTS_UPDATED_EVENT,
   UserCalendarEvent,
 } from '../types';
+import CategoryManagerModal from './CategoryManagerModal';
+import DayView from './DayView';
+import AgendaView from './AgendaView';
+import ProjectPanel from './ProjectPanel';
+import SearchPalette from './SearchPalette';
+import TimelineView from './TimelineView';
 import WeeklyCalendar from './WeeklyCalendar';
+import YearView from './YearView';
+import { addBusinessDays, getKoreanHoliday, shiftToBusinessDay } from '../utils/businessDays';
+import { addDaysToDateKey, diffDateKeysInDays, daysInMonth as getDaysInMonth, parseDateKey } from '../utils/dateKey';
+import {
+  DependencyViolation,
+  MAX_DEPENDENCY_LAG_DAYS,
+  canHaveDependencies,
+  cascadeDependencies,
+  findDependencyViolations,
+  getDependencyEarliestStart,
+  wouldCreateDependencyCycle,
+} from '../utils/dependencies';
+import { describeAuditChanges, formatAuditTime } from '../utils/auditLog';
+import {
+  EditHistoryEntry,
+  EditableEventState,
+  MAX_EDIT_HISTORY,
+  applyEditPatch,
+  applyProjectPatch,
+  describeEdit,
+  diffEventState,
+} from '../utils/editHistory';
+import {
+  EventNotes,
+  MAX_ATTACHMENT_BYTES,
+  canAddAttachment,
+  canAddLink,
+  formatFileSize,
+  matchesEventSearch,
+  normalizeLinkUrl,
+  normalizeNotes,
+  toSafeNotesMarkdown,
+} from '../utils/eventNotes';
+import { deriveStatusFromChecklist, isOpenTask, normalizeEventStatus } from '../utils/eventProgress';
+import {
+  EventTiming,
+  assignSpanLanes,
+  compareEventTiming,
+  eventCoversDate,
+  formatEventTiming,
+  getEventEndDate,
+  isMultiDayEvent,
+  isSameEventTiming,
+  moveEventTiming,
+  normalizeEventTiming,
+} from '../utils/eventTime';
+import {
+  findCategory,
+  getCategoryDefinition,
+  getCategoryNames,
+  inferCategoryFromTitle,
+  resolveCategory,
+  withResolvedCategory,
+} from '../utils/categories';
+import { buildICalendar, parseICalendar } from '../utils/ical';
+import { formatLeadDays, parseLeadDaysInput } from '../utils/reminders';
+import {
+  AuditEntry,
+  SaveResult,
+  confirmOverwriteConflicts,
+  getBuiltinOverrideRevision,
+  getUserEventRevision,
+  loadAttachmentFile,
+  loadAuditLog,
+  loadBuiltinOverrides,
+  loadProjects,
+  loadUserEvents,
+  pruneAttachmentFiles,
+  saveAttachmentFiles,
+  saveBuiltinOverrides,
+  saveProjects,
+  saveUserEvents,
+} from '../utils/eventRepository';
+import { ProjectFields, describeProject, sortProjects } from '../utils/projects';
+import { listScheduleEntries } from '../utils/scheduleText';
+import { AGENDA_INITIAL_MONTHS, AGENDA_MONTHS_PER_PAGE, getAgendaRange } from '../utils/agenda';
+import { getCarryOverStart } from '../utils/dayFocus';
+import { buildSearchableEvents } from '../utils/globalSearch';
+import {
+  DEFAULT_FILTER_VALUES,
+  FilterValues,
+  MAX_FILTER_PRESETS,
+  isSameFilterValues,
+  loadFilterPresets,
+  normalizeFilterPresetName,
+  saveFilterPresets,
+  toFilterValues,
+} from '../utils/filterPresets';
+import { CalendarViewMode, formatViewHash, parseViewHash } from '../utils/viewHash';
+import { subscribeTabSync, writeSyncedStorage } from '../utils/tabSync';
+import { TimelineZoom, describeTimelineRange, getTimelineRange, shiftTimelineDate } from '../utils/timeline';
+import {
+  appliesToSchoolProfile,
+  parseApplicabilityTags,
+  resolveDayPlaceholder,
+  resolveMonthPlaceholder,
+} from '../utils/schoolProfile';
 import { GoogleGenAI, GenerateContentResponse, GroundingChunk } from "@google/genai";
 import { marked } from 'marked';
 import { useApiKey } from '../contexts/ApiKeyContext';
-import { useTheme } from '../contexts/ThemeContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
 import { nanoid } from 'nanoid';
 import { openRouterChatCompletion } from '../utils/openRouter';
+import {
+  RecurrenceEditScope,
+  RecurrenceOccurrenceChange,
+  applyRecurringOccurrenceChange,
+  describeRecurrence,
+  expandRecurringEvent,
+  parseOccurrenceId,
+  removeRecurringOccurrence,
+  updateOccurrenceProgress,
+} from '../utils/recurrence';
 
 
 const PrevIcon: React.FC = () => (
@@ -64,15 +200,63 @@ const PlusIconMini: React.FC<{ className?: string }> = ({ className = "" }) => (
 
 type BuiltinEventOverride = {
   date?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
   title?: string;
   category?: EventCategory;
+  hidden?: boolean;
+  status?: EventStatus;
+  checklist?: ChecklistItem[];
+  reminderLeadDays?: number[];
+  notes?: string;
+  links?: EventLink[];
+  attachments?: EventAttachment[];
 };
 
 type BuiltinEventOverrides = Record<string, BuiltinEventOverride>;
 
+type EventProgress = { status?: EventStatus; checklist?: ChecklistItem[] };
+
+// Overrides without any remaining field are dropped instead of stored.
+const isEmptyBuiltinOverride = (override: BuiltinEventOverride) =>
+  !override.date &&
+  !override.endDate &&
+  !override.startTime &&
+  !override.endTime &&
+  !override.title &&
+  !override.category &&
+  !override.hidden &&
+  !override.status &&
+  !override.checklist &&
+  !override.reminderLeadDays &&
+  !override.notes &&
+  !override.links &&
+  !override.attachments;
+
+// Replaces the span/time fields, dropping the ones `timing` leaves unset.
+const withEventTiming = <T extends EventTiming>(event: T, timing: EventTiming): T => {
+  const { endDate: _endDate, startTime: _startTime, endTime: _endTime, ...rest } = event;
+  return {
+    ...rest,
+    ...(timing.endDate ? { endDate: timing.endDate } : {}),
+    ...(timing.startTime ? { startTime: timing.startTime } : {}),
+    ...(timing.endTime ? { endTime: timing.endTime } : {}),
+  } as T;
+};
+
+// dataTransfer type set when dragging the end of a bar, as opposed to moving the whole event.
+const RESIZE_DRAG_TYPE = 'application/x-smartcalendar-resize';
+
+export type CalendarEventSources = {
+  builtinEvents: CalendarEvent[]; // overrides applied, hidden items excluded
+  userEvents: UserCalendarEvent[]; // recurring series are not expanded
+};
+
 interface CalendarProps {
   scheduleText: string;
   manualContextText?: string;
+  onEventSourcesChange?: (sources: CalendarEventSources) => void;
 }
 
 const formatDateKey = (date: Date): string => {
@@ -97,116 +281,47 @@ const buildDateKeyFromParts = (year: number, month: number, day: number) => {
 const isDateKeyLike = (value: unknown): value is string =>
   typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
 
-const isEventCategory = (value: unknown): value is EventCategory =>
-  typeof value === 'string' && EVENT_CATEGORIES.includes(value as EventCategory);
-
 const isCalendarEventSource = (value: unknown): value is CalendarEventSource =>
   value === 'manual' || value === 'ai';
 
-const INFER_CATEGORY_RULES: Array<{ category: EventCategory; keywords: string[] }> = [
-  { category: '학운위', keywords: ['학운위', '학교운영위원회', '운영위원회'] },
-  { category: '공유재산', keywords: ['공유재산'] },
-  { category: '민원', keywords: ['민원'] },
-  { category: '회의', keywords: ['회의', '협의', '심의', '정담회'] },
-  { category: '계약', keywords: ['계약', '입찰', '발주', '용역', '나라장터', '견적'] },
-  { category: '물품', keywords: ['물품', '구매', '수급관리', '인증신제품', 'NEP'] },
-  { category: '세입', keywords: ['세입', '징수', '전입금', '수입', '수납'] },
-  { category: '예산', keywords: ['예산', '추경', '세출예산', '집행률', '발전기금', '본예산', '결산', '정산', '이월금', '명시이월'] },
-  { category: '급여', keywords: ['급여', '연말정산', '근로소득', '4대보험', '퇴직금', '가족수당', '자녀학비', '초과근무', '시간외수당', '일용근로', '인건비', '강사'] },
-  { category: '지출', keywords: ['지출', '공공요금', '업무추진비', '신용카드', '카드', '지급'] },
-  { category: '인사', keywords: ['인사', '전보', '발령', '복무', '휴직', '근무성적', '교육공무직', '지방공무원', '교직원'] },
-  { category: '시설', keywords: ['시설', '소방', '전기', '가스', '석면', '승강기', '저수조', '공기정화', '화재', '동파', '폭설', '안전점검', '정기안전점검', '보수', '유지보수'] },
-] as const;
-
-const inferEventCategoryFromTitle = (title: string): EventCategory | null => {
-  const normalized = title.replace(/[\s\u00A0\u200B\uFEFF]+/g, '').trim();
-  if (!normalized) return null;
-
-  for (const rule of INFER_CATEGORY_RULES) {
-    for (const keyword of rule.keywords) {
-      if (normalized.includes(keyword)) return rule.category;
-    }
-  }
-  return null;
-};
-
-const loadUserEventsFromStorage = (): UserCalendarEvent[] => {
-  try {
-    const raw = localStorage.getItem(USER_EVENTS_STORAGE_KEY);
-    if (!raw) return [];
-    const parsed: unknown = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-
-    const restored = parsed
-      .map((item): UserCalendarEvent | null => {
-        if (!item || typeof item !== 'object') return null;
-        const candidate = item as Record<string, unknown>;
-        const id = candidate.id;
-        const date = candidate.date;
-        const title = candidate.title;
-        const category = candidate.category;
-        const source = candidate.source;
-
-        if (typeof id !== 'string') return null;
-        if (!isDateKeyLike(date)) return null;
-        if (typeof title !== 'string') return null;
-
-        const normalizedCategory = isEventCategory(category) ? category : DEFAULT_EVENT_CATEGORY;
-        const normalizedSource = isCalendarEventSource(source) ? source : 'manual';
-
-        return { id, date, title, category: normalizedCategory, kind: 'user', source: normalizedSource };
-      })
-      .filter((v): v is UserCalendarEvent => Boolean(v));
-
-    return restored;
-  } catch {
-    return [];
-  }
-};
-
-const saveUserEventsToStorage = (events: UserCalendarEvent[]) => {
-  try {
-    const payload = events.map(({ id, date, title, category, source }) => ({ id, date, title, category, source }));
-    localStorage.setItem(USER_EVENTS_STORAGE_KEY, JSON.stringify(payload));
-  } catch {
-    // ignore storage errors (e.g., private mode / quota)
-  }
-};
-
-const EVENT_FILTERS_STORAGE_KEY = 'smartcalendar:eventFilters';
-const EVENT_FILTERS_STORAGE_VERSION = 2;
+// v3 stores the categories turned off, so categories added later start out visible.
+const EVENT_FILTERS_STORAGE_VERSION = 3;
 const ALL_EVENT_SOURCES: CalendarEventSource[] = ['manual', 'ai'];
 
 type StoredEventFilters = {
   version?: number;
-  categories?: unknown;
+  categories?: unknown; // v1-v2: categories turned on
+  hiddenCategories?: unknown;
   sources?: unknown;
+  showHidden?: unknown;
+  openOnly?: unknown;
+};
+
+type EventFilters = {
+  hiddenCategories: EventCategory[];
+  sources: CalendarEventSource[];
+  showHidden: boolean;
+  openOnly: boolean;
 };
 
-const loadEventFiltersFromStorage = (): { categories: EventCategory[]; sources: CalendarEventSource[] } => {
+const loadEventFiltersFromStorage = (): EventFilters => {
   try {
     const raw = localStorage.getItem(EVENT_FILTERS_STORAGE_KEY);
     if (!raw) {
-      return { categories: [...EVENT_CATEGORIES], sources: [...ALL_EVENT_SOURCES] };
+      return { hiddenCategories: [], sources: [...ALL_EVENT_SOURCES], showHidden: false, openOnly: false };
     }
 
     const parsed: unknown = JSON.parse(raw);
     if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-      return { categories: [...EVENT_CATEGORIES], sources: [...ALL_EVENT_SOURCES] };
+      return { hiddenCategories: [], sources: [...ALL_EVENT_SOURCES], showHidden: false, openOnly: false };
     }
 
     const candidate = parsed as StoredEventFilters;
     const categoriesRaw = candidate.categories;
     const sourcesRaw = candidate.sources;
     const storedVersion = typeof candidate.version === 'number' ? candidate.version : 0;
-    const isLegacyFilters = storedVersion < EVENT_FILTERS_STORAGE_VERSION;
-
-    const categoriesSet = new Set<EventCategory>();
-    if (Array.isArray(categoriesRaw)) {
-      for (const c of categoriesRaw) {
-        if (isEventCategory(c)) categoriesSet.add(c);
-      }
-    }
+    // Before v2 an empty list meant "nothing chosen yet" rather than "everything off".
+    const isLegacyFilters = storedVersion < 2;
 
     const sourcesSet = new Set<CalendarEventSource>();
     if (Array.isArray(sourcesRaw)) {
@@ -215,15 +330,18 @@ const loadEventFiltersFromStorage = (): { categories: EventCategory[]; sources:
       }
     }
 
-    let categories: EventCategory[] = [...EVENT_CATEGORIES];
-    if (Array.isArray(categoriesRaw)) {
-      const filtered = EVENT_CATEGORIES.filter(c => categoriesSet.has(c));
-      if (filtered.length > 0) {
-        categories = filtered;
-      } else if (isLegacyFilters) {
-        categories = [...EVENT_CATEGORIES];
-      } else {
-        categories = [];
+    let hiddenCategories: EventCategory[] = [];
+    if (storedVersion >= 3) {
+      if (Array.isArray(candidate.hiddenCategories)) {
+        hiddenCategories = candidate.hiddenCategories.filter((c): c is string => typeof c === 'string');
+      }
+    } else if (Array.isArray(categoriesRaw)) {
+      // Older versions listed the (then fixed) categories that were on.
+      const shown = EVENT_CATEGORIES.filter(c => categoriesRaw.includes(c));
+      if (shown.length > 0) {
+        hiddenCategories = EVENT_CATEGORIES.filter(c => !shown.includes(c));
+      } else if (!isLegacyFilters) {
+        hiddenCategories = [...EVENT_CATEGORIES];
       }
     }
 
@@ -239,20 +357,22 @@ const loadEventFiltersFromStorage = (): { categories: EventCategory[]; sources:
       }
     }
 
-    return { categories, sources };
+    return { hiddenCategories, sources, showHidden: candidate.showHidden === true, openOnly: candidate.openOnly === true };
   } catch {
-    return { categories: [...EVENT_CATEGORIES], sources: [...ALL_EVENT_SOURCES] };
+    return { hiddenCategories: [], sources: [...ALL_EVENT_SOURCES], showHidden: false, openOnly: false };
   }
 };
 
-const saveEventFiltersToStorage = (filters: { categories: EventCategory[]; sources: CalendarEventSource[] }) => {
+const saveEventFiltersToStorage = (filters: EventFilters) => {
   try {
-    localStorage.setItem(
+    writeSyncedStorage(
       EVENT_FILTERS_STORAGE_KEY,
       JSON.stringify({
         version: EVENT_FILTERS_STORAGE_VERSION,
-        categories: filters.categories,
+        hiddenCategories: filters.hiddenCategories,
         sources: filters.sources,
+        showHidden: filters.showHidden,
+        openOnly: filters.openOnly,
       } satisfies StoredEventFilters),
     );
   } catch {
@@ -260,42 +380,10 @@ const saveEventFiltersToStorage = (filters: { categories: EventCategory[]; sourc
   }
 };
 
-const loadBuiltinEventOverridesFromStorage = (): BuiltinEventOverrides => {
-  try {
-    const raw = localStorage.getItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY);
-    if (!raw) return {};
-
-    const parsed: unknown = JSON.parse(raw);
-    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
-
-    const overrides: BuiltinEventOverrides = {};
-    for (const [id, value] of Object.entries(parsed as Record<string, unknown>)) {
-      if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
-      const candidate = value as Record<string, unknown>;
-
-      const nextOverride: BuiltinEventOverride = {};
-      if (isDateKeyLike(candidate.date)) nextOverride.date = candidate.date;
-      if (typeof candidate.title === 'string' && candidate.title.trim()) nextOverride.title = candidate.title.trim();
-      if (isEventCategory(candidate.category)) nextOverride.category = candidate.category;
+const describeSyncConflicts = (count: number, noun: string) =>
+  `다른 탭에서 먼저 수정한 ${noun} ${count}건을 아직 저장하지 못했습니다.`;
 
-      if (nextOverride.date || nextOverride.title || nextOverride.category) {
-        overrides[id] = nextOverride;
-      }
-    }
-
-    return overrides;
-  } catch {
-    return {};
-  }
-};
-
-const saveBuiltinEventOverridesToStorage = (overrides: BuiltinEventOverrides) => {
-  try {
-    localStorage.setItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
-  } catch {
-    // ignore storage errors (e.g., private mode / quota)
-  }
-};
+const EDIT_TOAST_DURATION_MS = 6000;
 
 const loadingMessages = [
   "요청 분석 중...",
@@ -306,11 +394,25 @@ const loadingMessages = [
   "내용 최종 검토 및 요약 중..."
 ];
 
-const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText }) => {
-  const { apiKey, openRouterApiKey, aiProviderPreference, openRouterModel } = useApiKey();
+const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText, onEventSourcesChange }) => {
+  const {
+    apiKey,
+    openRouterApiKey,
+    aiProviderPreference,
+    openRouterModel,
+    schoolProfile,
+    reminderSettings,
+    categorySettings,
+  } = useApiKey();
   const { colors, theme } = useTheme();
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewMode, setViewMode] = useState<'month' | 'week'>('month');
+  const categoryNames = useMemo(() => getCategoryNames(categorySettings), [categorySettings]);
+  // A view link (see utils/viewHash) opens on its view, date and filters.
+  const [initialView] = useState(() => parseViewHash(window.location.hash));
+  const [currentDate, setCurrentDate] = useState(() => (initialView ? parseDateKey(initialView.date) : new Date()));
+  const [viewMode, setViewMode] = useState<CalendarViewMode>(initialView?.viewMode ?? 'month');
+  const [timelineZoom, setTimelineZoom] = useState<TimelineZoom>(initialView?.timelineZoom ?? 'month');
+  // Months loaded into the agenda list, counted from the month on screen.
+  const [agendaMonthCount, setAgendaMonthCount] = useState(AGENDA_INITIAL_MONTHS);
   const [baseEvents, setBaseEvents] = useState<CalendarEvent[]>([]);
   const [builtinEventOverrides, setBuiltinEventOverrides] = useState<BuiltinEventOverrides>({});
   const baseEventsWithOverrides = useMemo(
@@ -318,27 +420,242 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       baseEvents.map((ev) => {
         const override = builtinEventOverrides[ev.id];
         if (!override) return ev;
+        const date = override.date ?? ev.date;
         return {
           ...ev,
-          date: override.date ?? ev.date,
+          date,
+          ...normalizeEventTiming(date, override),
           title: override.title ?? ev.title,
-          category: override.category ?? ev.category,
+          category: resolveCategory(categorySettings, override.category ?? ev.category),
+          hidden: override.hidden === true,
+          status: override.status,
+          checklist: override.checklist,
+          reminderLeadDays: override.reminderLeadDays,
+          notes: override.notes,
+          links: override.links,
+          attachments: override.attachments,
         };
       }),
-    [baseEvents, builtinEventOverrides],
+    [baseEvents, builtinEventOverrides, categorySettings],
   );
   const [userEvents, setUserEvents] = useState<UserCalendarEvent[]>([]);
-  const allEvents = useMemo(() => [...baseEventsWithOverrides, ...userEvents], [baseEventsWithOverrides, userEvents]);
+  const hasLoadedUserEventsRef = useRef(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const hasLoadedProjectsRef = useRef(false);
+  // Project shown in the side panel; '' lists all projects.
+  const [projectPanelId, setProjectPanelId] = useState<string | null>(null);
+  const sortedProjects = useMemo(() => sortProjects(projects), [projects]);
+  const hasLoadedBuiltinOverridesRef = useRef(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Save conflicts still waiting on the user's choice; a later successful save must not hide their notice.
+  const unresolvedConflictCountRef = useRef(0);
+  // Event state as of the last render; loads update it directly so only local edits enter the history.
+  const historyBaselineRef = useRef<EditableEventState>({ userEvents: [], builtinEventOverrides: {} });
+  const [undoStack, setUndoStack] = useState<EditHistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<EditHistoryEntry[]>([]);
+  const [editToast, setEditToast] = useState<{ label: string; undone: boolean } | null>(null);
+  // Origin recorded in the audit log for the next save; reset once the change is committed.
+  const editOriginRef = useRef<AuditOrigin>('manual');
+  // Recurring user events are only expanded for the range currently on screen.
+  const visibleRange = useMemo(() => {
+    if (viewMode === 'timeline') return getTimelineRange(currentDate, timelineZoom);
+    if (viewMode === 'agenda') return getAgendaRange(currentDate, agendaMonthCount);
+    if (viewMode === 'day') {
+      // Includes the days whose unfinished items are carried over.
+      const dateKey = formatDateKey(currentDate);
+      return { start: getCarryOverStart(dateKey), end: dateKey };
+    }
+    if (viewMode === 'year') {
+      return { start: `${currentDate.getFullYear()}-01-01`, end: `${currentDate.getFullYear()}-12-31` };
+    }
+    if (viewMode === 'week') {
+      const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - currentDate.getDay());
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+      return { start: formatDateKey(start), end: formatDateKey(end) };
+    }
+    const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+    const end = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+    return { start: formatDateKey(start), end: formatDateKey(end) };
+  }, [currentDate, viewMode, timelineZoom, agendaMonthCount]);
+  const visibleUserEvents = useMemo(
+    () =>
+      userEvents.flatMap((ev): CalendarEvent[] => {
+        const resolved = withResolvedCategory(ev, categorySettings);
+        return resolved.recurrence ? expandRecurringEvent(resolved, visibleRange.start, visibleRange.end) : [resolved];
+      }),
+    [userEvents, visibleRange, categorySettings],
+  );
+  const allEvents = useMemo(
+    () => [...baseEventsWithOverrides, ...visibleUserEvents],
+    [baseEventsWithOverrides, visibleUserEvents],
+  );
 
-  const [{ categories: initialSelectedCategories, sources: initialSelectedSources }] = useState(() => loadEventFiltersFromStorage());
-  const [selectedCategories, setSelectedCategories] = useState<EventCategory[]>(initialSelectedCategories);
-  const [selectedSources, setSelectedSources] = useState<CalendarEventSource[]>(initialSelectedSources);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(() => loadFilterPresets());
+  const [presetNameDraft, setPresetNameDraft] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [isViewLinkCopied, setIsViewLinkCopied] = useState(false);
+  const [initialFilters] = useState(
+    (): FilterValues => initialView?.filters ?? { ...loadEventFiltersFromStorage(), searchQuery: '' },
+  );
+  const [hiddenCategories, setHiddenCategories] = useState<EventCategory[]>(initialFilters.hiddenCategories);
+  const selectedCategories = useMemo(
+    () => categoryNames.filter(category => !hiddenCategories.includes(category)),
+    [categoryNames, hiddenCategories],
+  );
+  const [selectedSources, setSelectedSources] = useState<CalendarEventSource[]>(initialFilters.sources);
+  const [showHiddenEvents, setShowHiddenEvents] = useState(initialFilters.showHidden);
+  const [showOpenTasksOnly, setShowOpenTasksOnly] = useState(initialFilters.openOnly);
+  const [searchQuery, setSearchQuery] = useState(initialFilters.searchQuery);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [bulkHidePattern, setBulkHidePattern] = useState('');
+  const [icalStatus, setIcalStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const filterDropdownRef = useRef<HTMLDivElement | null>(null);
+  // Filters opened from a view link belong to its sender: they aren't saved as this browser's
+  // filters (or synced to its other tabs) until the user changes them.
+  const linkedFiltersRef = useRef<FilterValues | null>(initialView ? initialFilters : null);
+
+  useEffect(() => {
+    const filters = { hiddenCategories, sources: selectedSources, showHidden: showHiddenEvents, openOnly: showOpenTasksOnly };
+    const linked = linkedFiltersRef.current;
+    if (linked && isSameFilterValues({ ...linked, searchQuery: '' }, { ...filters, searchQuery: '' })) return;
+    linkedFiltersRef.current = null;
+    saveEventFiltersToStorage(filters);
+  }, [hiddenCategories, selectedSources, showHiddenEvents, showOpenTasksOnly]);
+
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type !== 'storage' || message.key !== EVENT_FILTERS_STORAGE_KEY) return;
+        if (linkedFiltersRef.current) return;
+        const filters = loadEventFiltersFromStorage();
+        setHiddenCategories(filters.hiddenCategories);
+        setSelectedSources(filters.sources);
+        setShowHiddenEvents(filters.showHidden);
+        setShowOpenTasksOnly(filters.openOnly);
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    saveFilterPresets(filterPresets);
+  }, [filterPresets]);
+
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type !== 'storage' || message.key !== FILTER_PRESETS_STORAGE_KEY) return;
+        setFilterPresets(loadFilterPresets());
+      }),
+    [],
+  );
+
+  const currentFilterValues = useMemo(
+    (): FilterValues => ({
+      hiddenCategories,
+      sources: selectedSources,
+      showHidden: showHiddenEvents,
+      openOnly: showOpenTasksOnly,
+      searchQuery,
+    }),
+    [hiddenCategories, selectedSources, showHiddenEvents, showOpenTasksOnly, searchQuery],
+  );
+  const activeFilterPreset = filterPresets.find(preset => isSameFilterValues(toFilterValues(preset), currentFilterValues));
+
+  const applyFilterValues = (values: FilterValues) => {
+    setHiddenCategories(values.hiddenCategories);
+    setSelectedSources(values.sources);
+    setShowHiddenEvents(values.showHidden);
+    setShowOpenTasksOnly(values.openOnly);
+    setSearchQuery(values.searchQuery);
+  };
+  const applyFilterValuesRef = useRef(applyFilterValues);
+  applyFilterValuesRef.current = applyFilterValues;
+
+  // Saving under an existing name updates that preset.
+  const handleSaveFilterPreset = () => {
+    const name = normalizeFilterPresetName(presetNameDraft);
+    if (!name) {
+      setPresetError("프리셋 이름을 1~20자로 입력해주세요.");
+      return;
+    }
+    const existing = filterPresets.find(preset => preset.name === name);
+    if (existing) {
+      if (!window.confirm(`"${name}" 프리셋을 현재 필터로 바꿀까요?`)) return;
+      setFilterPresets(prev => prev.map(preset => (preset.id === existing.id ? { ...preset, ...currentFilterValues } : preset)));
+    } else {
+      if (filterPresets.length >= MAX_FILTER_PRESETS) {
+        setPresetError(`프리셋은 ${MAX_FILTER_PRESETS}개까지 저장할 수 있습니다.`);
+        return;
+      }
+      setFilterPresets(prev => [...prev, { id: `preset-${nanoid(8)}`, name, ...currentFilterValues }]);
+    }
+    setPresetNameDraft('');
+    setPresetError(null);
+  };
+
+  const handleDeleteFilterPreset = (preset: FilterPreset) => {
+    if (!window.confirm(`"${preset.name}" 프리셋을 삭제할까요? 현재 필터는 그대로 유지됩니다.`)) return;
+    setFilterPresets(prev => prev.filter(existing => existing.id !== preset.id));
+  };
+
+  // The hash follows the view without adding history entries; pasting a link (hashchange) opens it.
+  useEffect(() => {
+    const hash = formatViewHash({
+      viewMode,
+      date: formatDateKey(currentDate),
+      timelineZoom,
+      presetName: activeFilterPreset?.name,
+      filters: currentFilterValues,
+    });
+    if (window.location.hash.replace(/^#/, '') !== hash) {
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${hash}`);
+    }
+  }, [viewMode, currentDate, timelineZoom, activeFilterPreset, currentFilterValues]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const view = parseViewHash(window.location.hash);
+      if (!view) return;
+      setViewMode(view.viewMode);
+      setCurrentDate(parseDateKey(view.date));
+      if (view.timelineZoom) setTimelineZoom(view.timelineZoom);
+      linkedFiltersRef.current = view.filters;
+      applyFilterValuesRef.current(view.filters);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsViewLinkCopied(true);
+      window.setTimeout(() => setIsViewLinkCopied(false), 2000);
+    } catch {
+      window.prompt("이 링크를 복사하세요.", window.location.href);
+    }
+  };
 
+  // Ctrl+K (⌘K) opens the search palette from anywhere, text fields included.
   useEffect(() => {
-    saveEventFiltersToStorage({ categories: selectedCategories, sources: selectedSources });
-  }, [selectedCategories, selectedSources]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'k') return;
+      e.preventDefault();
+      setIsSearchOpen(true);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSearchSelect = (event: CalendarEvent) => {
+    setIsSearchOpen(false);
+    setCurrentDate(parseDateKey(event.date));
+    setExpandedDays(new Set([event.date]));
+    setAgendaMonthCount(AGENDA_INITIAL_MONTHS);
+    if (viewMode === 'year') setViewMode('month');
+  };
 
   useEffect(() => {
     if (!isFilterOpen) return;
@@ -358,19 +675,44 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
   const filteredEvents = useMemo(() => {
     const categorySet = new Set(selectedCategories);
     const sourceSet = new Set(selectedSources);
-    return allEvents.filter((event) => categorySet.has(event.category) && sourceSet.has(event.source));
-  }, [allEvents, selectedCategories, selectedSources]);
+    return allEvents.filter(
+      (event) =>
+        categorySet.has(event.category) &&
+        sourceSet.has(event.source) &&
+        (showHiddenEvents || !event.hidden) &&
+        (!showOpenTasksOnly || isOpenTask(event)) &&
+        matchesEventSearch(event, searchQuery),
+    );
+  }, [allEvents, selectedCategories, selectedSources, showHiddenEvents, showOpenTasksOnly, searchQuery]);
+  // Every year, not just the range on screen; only built while the search palette is open.
+  const searchableEvents = useMemo(
+    () =>
+      isSearchOpen
+        ? buildSearchableEvents(
+          baseEventsWithOverrides.filter(event => showHiddenEvents || !event.hidden),
+          userEvents,
+          categorySettings,
+          formatDateKey(new Date()),
+          `${BASE_SCHEDULE_END_YEAR}-12-31`,
+        )
+        : [],
+    [isSearchOpen, baseEventsWithOverrides, showHiddenEvents, userEvents, categorySettings],
+  );
+  const hiddenEventCount = useMemo(
+    () => Object.values(builtinEventOverrides).filter(override => override.hidden).length,
+    [builtinEventOverrides],
+  );
 
   const isAllFiltersSelected =
-    selectedCategories.length === EVENT_CATEGORIES.length && selectedSources.length === ALL_EVENT_SOURCES.length;
+    selectedCategories.length === categoryNames.length && selectedSources.length === ALL_EVENT_SOURCES.length;
 
   const toggleSelectAllFilters = () => {
     if (isAllFiltersSelected) {
-      setSelectedCategories([]);
+      setHiddenCategories([...categoryNames]);
       setSelectedSources([]);
       return;
     }
-    setSelectedCategories([...EVENT_CATEGORIES]);
+    setHiddenCategories([]);
     setSelectedSources([...ALL_EVENT_SOURCES]);
   };
 
@@ -378,20 +720,14 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     if (selectedSources.length === 0) {
       setSelectedSources([...ALL_EVENT_SOURCES]);
     }
-    setSelectedCategories((prev) => {
-      const nextSet = new Set(prev);
-      if (nextSet.has(category)) {
-        nextSet.delete(category);
-      } else {
-        nextSet.add(category);
-      }
-      return EVENT_CATEGORIES.filter((c) => nextSet.has(c));
-    });
+    setHiddenCategories((prev) =>
+      prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category],
+    );
   };
 
   const toggleSourceFilter = (source: CalendarEventSource) => {
     if (selectedCategories.length === 0) {
-      setSelectedCategories([...EVENT_CATEGORIES]);
+      setHiddenCategories([]);
     }
     setSelectedSources((prev) => {
       const nextSet = new Set(prev);
@@ -405,11 +741,24 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
   };
 
   const resetFilters = () => {
-    setSelectedCategories([...EVENT_CATEGORIES]);
+    setHiddenCategories([]);
     setSelectedSources([...ALL_EVENT_SOURCES]);
+    setShowHiddenEvents(false);
+    setShowOpenTasksOnly(false);
+    setSearchQuery('');
   };
 
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  const [checklistDraftText, setChecklistDraftText] = useState('');
+  const [eventModalTab, setEventModalTab] = useState<'report' | 'notes' | 'history'>('report');
+  // null while the notes are shown rendered rather than being edited.
+  const [notesDraftText, setNotesDraftText] = useState<string | null>(null);
+  const [linkDraftUrl, setLinkDraftUrl] = useState('');
+  const [linkDraftLabel, setLinkDraftLabel] = useState('');
+  const [notesError, setNotesError] = useState<string | null>(null);
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[] | null>(null);
   const [eventDescriptions, setEventDescriptions] = useState<Record<string, string>>({});
   const [eventGrounding, setEventGrounding] = useState<Record<string, GroundingChunk[]>>({});
   const [isGeneratingDescription, setIsGeneratingDescription] = useState<boolean>(false);
@@ -433,10 +782,47 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
   const [draftKind, setDraftKind] = useState<CalendarEventKind>('user');
   const [draftTitle, setDraftTitle] = useState('');
   const [draftCategory, setDraftCategory] = useState<EventCategory | ''>(DEFAULT_EVENT_CATEGORY);
+  // New events follow the keyword rules as the title is typed until a category is picked by hand.
+  const isDraftCategoryPickedRef = useRef(false);
+  const [draftProjectId, setDraftProjectId] = useState('');
+  const [draftDependencies, setDraftDependencies] = useState<EventDependency[]>([]);
   const [draftYear, setDraftYear] = useState<number>(now.getFullYear());
   const [draftMonth, setDraftMonth] = useState<number>(now.getMonth() + 1); // 1-12
   const [draftDay, setDraftDay] = useState<number>(now.getDate());
+  const [draftOccurrenceDate, setDraftOccurrenceDate] = useState<string | null>(null);
+  const [draftEndDate, setDraftEndDate] = useState(''); // '' = single day
+  const [draftStartTime, setDraftStartTime] = useState(''); // '' = all day
+  const [draftEndTime, setDraftEndTime] = useState('');
+  const [draftRecurrenceFrequency, setDraftRecurrenceFrequency] = useState<RecurrenceFrequency | 'none'>('none');
+  const [draftRecurrenceInterval, setDraftRecurrenceInterval] = useState<number>(1);
+  const [draftRecurrenceWeekdays, setDraftRecurrenceWeekdays] = useState<number[]>([]);
+  const [draftMonthlyMode, setDraftMonthlyMode] = useState<MonthlyRecurrenceMode>('dayOfMonth');
+  const [draftRecurrenceEnd, setDraftRecurrenceEnd] = useState<'never' | 'until' | 'count'>('never');
+  const [draftRecurrenceUntil, setDraftRecurrenceUntil] = useState<string>('');
+  const [draftRecurrenceCount, setDraftRecurrenceCount] = useState<number>(12);
+  const [draftReminderUsesDefault, setDraftReminderUsesDefault] = useState(true);
+  const [draftReminderText, setDraftReminderText] = useState('');
   const [draftError, setDraftError] = useState<string | null>(null);
+  // Stored revision of the edited record when the editor opened, to notice edits from other tabs.
+  const draftBaseRevisionRef = useRef(0);
+  const [pendingRecurrenceAction, setPendingRecurrenceAction] = useState<
+    | null
+    | {
+      type: 'move' | 'update' | 'delete';
+      seriesId: string;
+      occurrenceDate: string;
+      change?: RecurrenceOccurrenceChange;
+    }
+  >(null);
+  // A drag or resize of a user event that breaks a dependency, held until the user decides.
+  const [pendingDependencyChange, setPendingDependencyChange] = useState<null | {
+    eventId: string;
+    date: string;
+    timing: EventTiming;
+    origin: AuditOrigin;
+    violations: DependencyViolation[];
+    shiftedIds: string[]; // successors the cascade would move
+  }>(null);
 
   const geminiAi = useMemo(() => {
     if (!apiKey) return null;
@@ -457,28 +843,149 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     return hasGemini ? 'gemini' : hasOpenRouter ? 'openrouter' : null;
   }, [aiProviderPreference, apiKey, openRouterApiKey]);
 
+  // A save that lost to another tab asks, like the editor does, whose version to keep.
+  const handleSaveResult = (result: SaveResult, noun: string) => {
+    if (result.conflictIds.length === 0) {
+      if (unresolvedConflictCountRef.current === 0) setStorageError(null);
+      return;
+    }
+    unresolvedConflictCountRef.current += 1;
+    setStorageError(describeSyncConflicts(result.conflictIds.length, noun));
+    if (!confirmOverwriteConflicts(result.conflictIds.length, noun)) {
+      unresolvedConflictCountRef.current -= 1;
+      result.keepTheirs();
+      if (unresolvedConflictCountRef.current === 0) setStorageError(null);
+      return;
+    }
+    result.keepMine().then(
+      next => {
+        unresolvedConflictCountRef.current -= 1;
+        handleSaveResult(next, noun);
+      },
+      (error: Error) => {
+        unresolvedConflictCountRef.current -= 1;
+        setStorageError(error.message);
+      },
+    );
+  };
+
   useEffect(() => {
-    const refresh = () => setUserEvents(loadUserEventsFromStorage());
+    let cancelled = false;
+    const refresh = () => {
+      loadUserEvents()
+        .then(events => {
+          if (cancelled) return;
+          hasLoadedUserEventsRef.current = true;
+          const loaded = events.map((event): UserCalendarEvent => ({ ...event, kind: 'user' }));
+          historyBaselineRef.current = { ...historyBaselineRef.current, userEvents: loaded };
+          setUserEvents(loaded);
+        })
+        .catch(error => console.error('Failed to load user events', error));
+    };
     refresh();
     window.addEventListener(USER_EVENTS_UPDATED_EVENT, refresh);
-    return () => window.removeEventListener(USER_EVENTS_UPDATED_EVENT, refresh);
+    const unsubscribe = subscribeTabSync(message => {
+      if (message.type === 'userEvents') refresh();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener(USER_EVENTS_UPDATED_EVENT, refresh);
+      unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
-    saveUserEventsToStorage(userEvents);
+    // Saving the initial empty state before the first load would delete every stored event.
+    if (!hasLoadedUserEventsRef.current) return;
+    saveUserEvents(userEvents, editOriginRef.current).then(
+      result => handleSaveResult(result, '일정'),
+      (error: Error) => setStorageError(error.message),
+    );
   }, [userEvents]);
 
   useEffect(() => {
-    const refresh = () => setBuiltinEventOverrides(loadBuiltinEventOverridesFromStorage());
+    let cancelled = false;
+    const refresh = () => {
+      loadBuiltinOverrides()
+        .then(overrides => {
+          if (cancelled) return;
+          hasLoadedBuiltinOverridesRef.current = true;
+          historyBaselineRef.current = { ...historyBaselineRef.current, builtinEventOverrides: overrides };
+          setBuiltinEventOverrides(overrides);
+        })
+        .catch(error => console.error('Failed to load builtin event overrides', error));
+    };
     refresh();
     window.addEventListener(BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT, refresh);
-    return () => window.removeEventListener(BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT, refresh);
+    const unsubscribe = subscribeTabSync(message => {
+      if (message.type === 'builtinEventOverrides') refresh();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener(BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT, refresh);
+      unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
-    saveBuiltinEventOverridesToStorage(builtinEventOverrides);
+    if (!hasLoadedBuiltinOverridesRef.current) return;
+    saveBuiltinOverrides(builtinEventOverrides, editOriginRef.current).then(
+      result => handleSaveResult(result, '일정'),
+      (error: Error) => setStorageError(error.message),
+    );
   }, [builtinEventOverrides]);
 
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      loadProjects()
+        .then(loaded => {
+          if (cancelled) return;
+          hasLoadedProjectsRef.current = true;
+          setProjects(loaded);
+        })
+        .catch(error => console.error('Failed to load projects', error));
+    };
+    refresh();
+    window.addEventListener(PROJECTS_UPDATED_EVENT, refresh);
+    const unsubscribe = subscribeTabSync(message => {
+      if (message.type === 'projects') refresh();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PROJECTS_UPDATED_EVENT, refresh);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hasLoadedProjectsRef.current) return;
+    saveProjects(projects).then(
+      result => handleSaveResult(result, '프로젝트'),
+      (error: Error) => setStorageError(error.message),
+    );
+  }, [projects]);
+
+  const hasPrunedAttachmentsRef = useRef(false);
+  useEffect(() => {
+    // Once per page load, after both stores are in; undo within this session keeps its files.
+    if (hasPrunedAttachmentsRef.current || !hasLoadedUserEventsRef.current || !hasLoadedBuiltinOverridesRef.current) return;
+    hasPrunedAttachmentsRef.current = true;
+    const referencedIds = new Set(
+      [...userEvents, ...Object.values(builtinEventOverrides)].flatMap(
+        record => record.attachments?.map(attachment => attachment.id) ?? [],
+      ),
+    );
+    pruneAttachmentFiles(referencedIds).catch(error => console.error('Failed to prune attachments', error));
+  }, [userEvents, builtinEventOverrides]);
+
+  useEffect(() => {
+    onEventSourcesChange?.({
+      builtinEvents: baseEventsWithOverrides.filter(ev => !ev.hidden),
+      userEvents: userEvents.map(ev => withResolvedCategory(ev, categorySettings)),
+    });
+  }, [baseEventsWithOverrides, userEvents, categorySettings, onEventSourcesChange]);
+
   useEffect(() => {
     const parseScheduleData = (textData: string) => {
       setIsLoadingSchedule(true);
@@ -487,7 +994,6 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       const currentSystemYear = new Date().getFullYear();
       const endYear = BASE_SCHEDULE_END_YEAR; // Display events up to this year
       const newEvents: CalendarEvent[] = [];
-      let eventIdCounter = 1;
 
       if (!textData || textData.trim() === '') {
         setScheduleError("제공된 일정 데이터가 비어있습니다.");
@@ -505,59 +1011,31 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
         return;
       }
 
-      lines.forEach((line, lineIndex) => {
-        const parts = line
-          .split(';')
-          .map((part) => part.replace(/[\s\u00A0\u200B\uFEFF]+/g, ' ').trim().normalize('NFC'))
-          .filter((part) => part !== '');
-
-        if (parts.length === 3 || parts.length >= 4) {
-          const monthStr = parts[0];
-          const dayStr = parts[1];
-          const categoryStr =
-            parts.length >= 4
-              ? parts[2].replace(/[\s\u00A0\u200B\uFEFF]+/g, '').trim().normalize('NFC')
-              : null;
-          const titlesStr = parts.length >= 4 ? parts.slice(3).join(';').trim() : parts.slice(2).join(';').trim();
-
-          const monthMatch = monthStr.match(/(\d+)월/);
-          const dayMatch = dayStr.match(/(\d+)일/);
-
-          const explicitCategory = isEventCategory(categoryStr) ? categoryStr : null;
-
-          if (monthMatch && dayMatch && titlesStr) {
-            const monthIdx = parseInt(monthMatch[1], 10) - 1; // 0-indexed month
-            const day = parseInt(dayMatch[1], 10);
-
-            if (monthIdx >= 0 && monthIdx < 12 && day > 0 && day <= 31) {
-              const eventTitles = titlesStr.split(',').map(title => title.trim()).filter(title => title);
-
-              for (let yearToCreate = currentSystemYear; yearToCreate <= endYear; yearToCreate++) {
-                eventTitles.forEach(title => {
-                  const inferredCategory = inferEventCategoryFromTitle(title);
-                  const category = explicitCategory ?? inferredCategory ?? DEFAULT_EVENT_CATEGORY;
-                  const eventDate = new Date(yearToCreate, monthIdx, day);
-                  if (eventDate.getFullYear() === yearToCreate && eventDate.getMonth() === monthIdx && eventDate.getDate() === day) {
-                    newEvents.push({
-                      id: `event-${yearToCreate}-${monthIdx + 1}-${day}-${title.substring(0, 10).replace(/[^a-zA-Z0-9ㄱ-ㅎㅏ-ㅣ가-힣-]/g, '')}-${eventIdCounter++}`,
-                      date: formatDateKey(eventDate),
-                      title: title,
-                      kind: 'builtin',
-                      category,
-                      source: 'manual',
-                    });
-                  }
-                });
-              }
-            } else {
-              console.warn(`Invalid date components (month or day out of range) in schedule data on line ${lineIndex + 1}: ${line}`);
-            }
-          } else {
-            console.warn(`Invalid format (month/day regex mismatch) in schedule data on line ${lineIndex + 1}: ${line}`);
-          }
-        } else if (line.trim()) {
-          console.warn(`Skipping malformed line (expected 3 or 4 parts separated by ';') in schedule data on line ${lineIndex + 1}: ${line}`);
-        }
+      const entries = listScheduleEntries(textData, currentSystemYear, endYear, (lineNumber, line, reason) =>
+        console.warn(`Skipping invalid line ${lineNumber} in schedule data (${reason}): ${line}`),
+      );
+      // Entries not applying to the school profile are skipped here; they still take an id so the
+      // ids of the remaining events stay stable.
+      entries.forEach(({ id, year: yearToCreate, line, title }) => {
+        const { monthField, dayField, monthIdx, day, shiftRule, categoryField, tagsField } = line;
+        if (!appliesToSchoolProfile(parseApplicabilityTags(tagsField), schoolProfile)) return;
+        const explicitCategory = findCategory(categorySettings, categoryField);
+        const inferredCategory = inferCategoryFromTitle(categorySettings, title);
+        const category = explicitCategory ?? inferredCategory ?? DEFAULT_EVENT_CATEGORY;
+        // "1월 {소방점검월}" / "17일< {급여일}": the profile value wins, the literal is the fallback and stays in the id.
+        const resolvedMonthIdx = (resolveMonthPlaceholder(monthField, schoolProfile) ?? monthIdx + 1) - 1;
+        const resolvedDay = resolveDayPlaceholder(dayField, schoolProfile) ?? day;
+        const scheduledDateKey = formatDateKey(
+          new Date(yearToCreate, resolvedMonthIdx, Math.min(resolvedDay, getDaysInMonth(yearToCreate, resolvedMonthIdx))),
+        );
+        newEvents.push({
+          id,
+          date: shiftRule ? shiftToBusinessDay(scheduledDateKey, shiftRule) : scheduledDateKey,
+          title: title,
+          kind: 'builtin',
+          category,
+          source: 'manual',
+        });
       });
 
       setBaseEvents(newEvents);
@@ -569,7 +1047,7 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     };
 
     parseScheduleData(scheduleText);
-  }, [scheduleText]);
+  }, [scheduleText, schoolProfile, categorySettings]);
 
 
   useEffect(() => {
@@ -601,6 +1079,31 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     });
   };
 
+  const changeTimelinePeriod = (offset: number): void => {
+    setCurrentDate(prevDate => shiftTimelineDate(prevDate, timelineZoom, offset));
+  };
+
+  const changeDay = (offset: number): void => {
+    setCurrentDate(prevDate => new Date(prevDate.getFullYear(), prevDate.getMonth(), prevDate.getDate() + offset));
+  };
+
+  const stepBusinessDay = (offset: number): void => {
+    setCurrentDate(prevDate => parseDateKey(addBusinessDays(formatDateKey(prevDate), offset)));
+  };
+
+  const changeYear = (offset: number): void => {
+    setCurrentDate(prevDate => new Date(prevDate.getFullYear() + offset, prevDate.getMonth(), 1));
+  };
+
+  const changePeriod = (offset: number): void => {
+    if (viewMode === 'year') changeYear(offset);
+    else if (viewMode === 'timeline') changeTimelinePeriod(offset);
+    else if (viewMode === 'week') changeWeek(offset);
+    else if (viewMode === 'day') changeDay(offset);
+    else changeMonth(offset);
+    setAgendaMonthCount(AGENDA_INITIAL_MONTHS);
+  };
+
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
 
@@ -642,7 +1145,7 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     try {
       // 1. 공통 기본 정보 (Event Details)
       const basePrompt = `다음 달력 일정에 대해 설명해주세요: '${event.title}'${event.category ? ` (업무 분류: ${event.category})` : ''}.
-일정 날짜: ${event.date}
+일정 날짜: ${event.date}${formatEventTiming(event) ? ` (${formatEventTiming(event)})` : ''}
 
 응답은 다음 최대 세 부분으로 명확히 구분하여 작성해주세요 (해당하는 내용이 없을 경우 해당 부분은 생략 가능합니다):
 1. **업무/일정 설명**: 이 업무 또는 일정에 대한 자세한 설명을 제공해주세요. (3-4 문장)
@@ -763,77 +1266,265 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
 
   const handleEventClick = (event: CalendarEvent): void => {
     setSelectedEvent(event);
+    setEventModalTab('report');
+    setChecklistDraftText('');
+    setNotesDraftText(null);
+    setLinkDraftUrl('');
+    setLinkDraftLabel('');
+    setNotesError(null);
     setGenerationError(null);
     fetchEventDescription(event);
   };
 
+  const handleCreateProject = (fields: ProjectFields) => {
+    const id = `project-${nanoid(10)}`;
+    setProjects(prev => [...prev, { id, ...fields }]);
+    setProjectPanelId(id);
+  };
+
+  const handleUpdateProject = (project: Project) => {
+    setProjects(prev => prev.map(existing => (existing.id === project.id ? project : existing)));
+  };
+
+  // The project's events stay on the calendar; only their link is removed.
+  const handleDeleteProject = (projectId: string) => {
+    const project = projects.find(existing => existing.id === projectId);
+    if (!project) return;
+    const linkedCount = userEvents.filter(ev => ev.projectId === projectId).length;
+    const message =
+      linkedCount > 0
+        ? `"${project.name}" 프로젝트를 삭제할까요? 연결된 일정 ${linkedCount}건은 프로젝트 없이 남습니다.`
+        : `"${project.name}" 프로젝트를 삭제할까요?`;
+    if (!window.confirm(message)) return;
+    setProjects(prev => prev.filter(existing => existing.id !== projectId));
+    if (linkedCount > 0) {
+      setUserEvents(prev => prev.map(ev => (ev.projectId === projectId ? withProjectId(ev, undefined) : ev)));
+    }
+    setProjectPanelId('');
+  };
+
+  const handleOpenProjectTask = (task: UserCalendarEvent) => {
+    const { year: y, month: m, day: d } = parseDateKeyParts(task.date);
+    setCurrentDate(new Date(y, m - 1, d));
+    // A recurring task opens its first occurrence, as the modal works on occurrences.
+    const target = task.recurrence ? expandRecurringEvent(task, task.date, task.date)[0] : task;
+    if (target) handleEventClick(target);
+  };
+
+  // Clears the cached report of an event, and of every occurrence when `eventId` is a recurring series.
   const clearAiCacheForEvent = useCallback((eventId: string) => {
-    setEventDescriptions(prev => {
-      if (!prev[eventId]) return prev;
-      const next = { ...prev };
-      delete next[eventId];
-      return next;
-    });
-    setEventGrounding(prev => {
-      if (!prev[eventId]) return prev;
+    const matches = (key: string) => key === eventId || parseOccurrenceId(key)?.seriesId === eventId;
+    const dropMatching = <T,>(prev: Record<string, T>): Record<string, T> => {
+      const keys = Object.keys(prev).filter(matches);
+      if (keys.length === 0) return prev;
       const next = { ...prev };
-      delete next[eventId];
+      keys.forEach(key => delete next[key]);
       return next;
-    });
+    };
+    setEventDescriptions(dropMatching);
+    setEventGrounding(dropMatching);
   }, []);
 
+  const commitUserEventTiming = (eventId: string, date: string, timing: EventTiming, cascade: boolean) => {
+    const applyTiming = (events: UserCalendarEvent[]) =>
+      events.map(ev => (ev.id === eventId ? withEventTiming({ ...ev, date }, timing) : ev));
+    const previous = userEvents.find(ev => ev.id === eventId);
+    const shiftedIds = cascade ? cascadeDependencies(applyTiming(userEvents), eventId).shiftedIds : [];
+
+    setUserEvents(prev => (cascade ? cascadeDependencies(applyTiming(prev), eventId).events : applyTiming(prev)));
+    if (previous && previous.date !== date) clearAiCacheForEvent(eventId);
+    shiftedIds.forEach(clearAiCacheForEvent);
+    setSelectedEvent(prev => (prev && prev.id === eventId ? withEventTiming({ ...prev, date }, timing) : prev));
+  };
+
+  // Moves or resizes a non-recurring user event, first asking when that breaks a dependency.
+  const changeUserEventTiming = (eventId: string, date: string, timing: EventTiming) => {
+    const next = userEvents.map(ev => (ev.id === eventId ? withEventTiming({ ...ev, date }, timing) : ev));
+    const violations = findDependencyViolations(next, eventId);
+    if (violations.length === 0) {
+      commitUserEventTiming(eventId, date, timing, false);
+      return;
+    }
+    setPendingDependencyChange({
+      eventId,
+      date,
+      timing,
+      origin: editOriginRef.current,
+      violations,
+      shiftedIds: cascadeDependencies(next, eventId).shiftedIds,
+    });
+  };
+
+  const applyPendingDependencyChange = (cascade: boolean) => {
+    const change = pendingDependencyChange;
+    if (!change) return;
+    editOriginRef.current = change.origin;
+    commitUserEventTiming(change.eventId, change.date, change.timing, cascade);
+    setPendingDependencyChange(null);
+  };
+
+  // `time` is only given by drops on the weekly time axis: a "HH:mm" start, or null for the all-day row.
   const moveEventToDate = useCallback(
-    (eventId: string, nextDateKey: string) => {
+    (eventId: string, nextDateKey: string, time?: string | null) => {
       if (!eventId) return;
       if (!isDateKeyLike(nextDateKey)) return;
 
+      const occurrence = parseOccurrenceId(eventId);
+      if (occurrence) {
+        const series = userEvents.find(ev => ev.id === occurrence.seriesId);
+        if (!series?.recurrence) return;
+        const occurrenceDateKey = series.recurrence.overrides?.[occurrence.occurrenceDate]?.date ?? occurrence.occurrenceDate;
+        if (occurrenceDateKey === nextDateKey) return;
+        setPendingRecurrenceAction({
+          type: 'move',
+          seriesId: occurrence.seriesId,
+          occurrenceDate: occurrence.occurrenceDate,
+          change: { date: nextDateKey },
+        });
+        return;
+      }
+
       const userEvent = userEvents.find(ev => ev.id === eventId);
+      const event = userEvent ?? baseEventsWithOverrides.find(ev => ev.id === eventId);
+      if (!event) return;
+      const moved = moveEventTiming(event, nextDateKey, time);
+      const timing = normalizeEventTiming(nextDateKey, moved);
+      if (isSameEventTiming(event, { date: nextDateKey, ...timing })) return;
+
       if (userEvent) {
-        if (userEvent.date === nextDateKey) return;
-        setUserEvents(prev => prev.map(ev => (ev.id === eventId ? { ...ev, date: nextDateKey } : ev)));
-        clearAiCacheForEvent(eventId);
-        setSelectedEvent(prev => (prev && prev.id === eventId ? { ...prev, date: nextDateKey } : prev));
+        changeUserEventTiming(eventId, nextDateKey, timing);
         return;
       }
 
       const baseEvent = baseEvents.find(ev => ev.id === eventId);
       if (!baseEvent) return;
-
-      if (baseEvent.date === nextDateKey) {
-        setBuiltinEventOverrides(prev => {
-          const existing = prev[eventId];
-          if (!existing) return prev;
-
-          const nextEntry: BuiltinEventOverride = { ...existing };
+      setBuiltinEventOverrides(prev => {
+        const nextEntry = withEventTiming<BuiltinEventOverride>({ ...(prev[eventId] ?? {}) }, timing);
+        if (nextDateKey === baseEvent.date) {
           delete nextEntry.date;
-
-          const next = { ...prev };
-          if (!nextEntry.date && !nextEntry.title && !nextEntry.category) {
-            delete next[eventId];
-          } else {
-            next[eventId] = nextEntry;
-          }
-          return next;
-        });
-      } else {
-        setBuiltinEventOverrides(prev => {
-          const existing = prev[eventId];
-          const nextEntry: BuiltinEventOverride = { ...(existing ?? {}) };
+        } else {
           nextEntry.date = nextDateKey;
+        }
 
-          const next = { ...prev };
+        const next = { ...prev };
+        if (isEmptyBuiltinOverride(nextEntry)) {
+          delete next[eventId];
+        } else {
           next[eventId] = nextEntry;
-          return next;
-        });
-      }
+        }
+        return next;
+      });
 
-      clearAiCacheForEvent(eventId);
-      setSelectedEvent(prev => (prev && prev.id === eventId ? { ...prev, date: nextDateKey } : prev));
+      if (event.date !== nextDateKey) clearAiCacheForEvent(eventId);
+      setSelectedEvent(prev =>
+        prev && prev.id === eventId ? withEventTiming({ ...prev, date: nextDateKey }, timing) : prev,
+      );
     },
-    [userEvents, baseEvents, clearAiCacheForEvent],
+    [userEvents, baseEvents, baseEventsWithOverrides, clearAiCacheForEvent],
   );
 
-  const openCreateEditor = (dateKey: string) => {
+  // Changes the span or time of a non-recurring event in place; series are changed in the editor.
+  const updateEventTiming = (eventId: string, buildTiming: (event: CalendarEvent) => EventTiming) => {
+    const userEvent = userEvents.find(ev => ev.id === eventId);
+    const event = userEvent ?? baseEventsWithOverrides.find(ev => ev.id === eventId);
+    if (!event || event.recurrence) return;
+    const timing = normalizeEventTiming(event.date, buildTiming(event));
+    if (isSameEventTiming(event, { date: event.date, ...timing })) return;
+
+    if (userEvent) {
+      changeUserEventTiming(eventId, userEvent.date, timing);
+      return;
+    }
+
+    setBuiltinEventOverrides(prev => {
+      const nextEntry = withEventTiming<BuiltinEventOverride>({ ...(prev[eventId] ?? {}) }, timing);
+      const next = { ...prev };
+      if (isEmptyBuiltinOverride(nextEntry)) {
+        delete next[eventId];
+      } else {
+        next[eventId] = nextEntry;
+      }
+      return next;
+    });
+    setSelectedEvent(prev => (prev && prev.id === eventId ? withEventTiming(prev, timing) : prev));
+  };
+
+  // Dropping the end of a bar on or before its first day makes it a single-day event again.
+  const resizeEventToDate = (eventId: string, endDateKey: string) =>
+    updateEventTiming(eventId, event => ({ startTime: event.startTime, endTime: event.endTime, endDate: endDateKey }));
+
+  const resizeEventEndTime = (eventId: string, endTime: string) =>
+    updateEventTiming(eventId, event => ({ endDate: event.endDate, startTime: event.startTime, endTime }));
+
+  // Title-only edit from the agenda list; an occurrence asks for the scope like the editor does.
+  const renameEvent = (event: CalendarEvent, title: string) => {
+    if (!title || title === event.title) return;
+
+    if (event.seriesId && event.occurrenceDate) {
+      setPendingRecurrenceAction({
+        type: 'update',
+        seriesId: event.seriesId,
+        occurrenceDate: event.occurrenceDate,
+        change: { title },
+      });
+      return;
+    }
+
+    if (event.kind === 'user') {
+      setUserEvents(prev => prev.map(ev => (ev.id === event.id ? { ...ev, title } : ev)));
+    } else {
+      const baseEvent = baseEvents.find(ev => ev.id === event.id);
+      if (!baseEvent) return;
+      setBuiltinEventOverrides(prev => {
+        const nextEntry: BuiltinEventOverride = { ...(prev[event.id] ?? {}) };
+        if (title === baseEvent.title) delete nextEntry.title;
+        else nextEntry.title = title;
+
+        const next = { ...prev };
+        if (isEmptyBuiltinOverride(nextEntry)) {
+          delete next[event.id];
+        } else {
+          next[event.id] = nextEntry;
+        }
+        return next;
+      });
+    }
+
+    clearAiCacheForEvent(event.id);
+    setSelectedEvent(prev => (prev && prev.id === event.id ? { ...prev, title } : prev));
+  };
+
+  // Shared by the month grid and the weekly view; a dragged bar end resizes instead of moving.
+  const handleEventDrop = (e: React.DragEvent, dateKey: string, time?: string | null) => {
+    const resizedId = e.dataTransfer.getData(RESIZE_DRAG_TYPE);
+    const droppedId = e.dataTransfer.getData('text/plain');
+    if (!resizedId && !droppedId) return;
+    editOriginRef.current = 'drag';
+    if (resizedId) {
+      resizeEventToDate(resizedId, dateKey);
+    } else {
+      moveEventToDate(droppedId, dateKey, time);
+    }
+  };
+
+  const startEventResize = (e: React.DragEvent, eventId: string) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(RESIZE_DRAG_TYPE, eventId);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingEventId(eventId);
+  };
+
+  const loadDraftRecurrence = (rule: RecurrenceRule | undefined, startDate: Date) => {
+    setDraftRecurrenceFrequency(rule?.frequency ?? 'none');
+    setDraftRecurrenceInterval(rule?.interval ?? 1);
+    setDraftRecurrenceWeekdays(rule?.weekdays ?? [startDate.getDay()]);
+    setDraftMonthlyMode(rule?.monthlyMode ?? 'dayOfMonth');
+    setDraftRecurrenceEnd(rule?.until ? 'until' : rule?.count ? 'count' : 'never');
+    setDraftRecurrenceUntil(rule?.until ?? '');
+    setDraftRecurrenceCount(rule?.count ?? 12);
+  };
+
+  const openCreateEditor = (dateKey: string, startTime?: string, projectId = '') => {
     const { year: y, month: m, day: d } = parseDateKeyParts(dateKey);
     if (!Number.isFinite(y) || !Number.isFinite(m) || !Number.isFinite(d)) return;
 
@@ -842,9 +1533,16 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     setDraftKind('user');
     setDraftTitle('');
     setDraftCategory(DEFAULT_EVENT_CATEGORY);
+    isDraftCategoryPickedRef.current = false;
+    setDraftProjectId(projectId);
+    setDraftDependencies([]);
     setDraftYear(y);
     setDraftMonth(m);
     setDraftDay(d);
+    setDraftOccurrenceDate(null);
+    loadDraftTiming({ startTime });
+    loadDraftRecurrence(undefined, new Date(y, m - 1, d));
+    loadDraftReminder(undefined);
     setDraftError(null);
     setIsEditorOpen(true);
   };
@@ -853,24 +1551,99 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     const { year: y, month: m, day: d } = parseDateKeyParts(event.date);
     if (!Number.isFinite(y) || !Number.isFinite(m) || !Number.isFinite(d)) return;
 
+    // Occurrences are edited through their series; the scope is asked for on save.
+    const series = event.seriesId ? userEvents.find(ev => ev.id === event.seriesId) : undefined;
+
     setEditorMode('edit');
-    setDraftId(event.id);
+    setDraftId(series ? series.id : event.id);
     setDraftKind(event.kind);
     setDraftTitle(event.title);
     setDraftCategory(event.category ?? DEFAULT_EVENT_CATEGORY);
+    setDraftProjectId((series ?? event).projectId ?? '');
+    setDraftDependencies(event.dependencies ?? []);
     setDraftYear(y);
     setDraftMonth(m);
     setDraftDay(d);
+    setDraftOccurrenceDate(series ? event.occurrenceDate ?? null : null);
+    draftBaseRevisionRef.current = readDraftRevision(event.kind, series ? series.id : event.id);
+    loadDraftTiming(event);
+    loadDraftRecurrence(series?.recurrence ?? event.recurrence, new Date(y, m - 1, d));
+    loadDraftReminder(series ? series.reminderLeadDays : event.reminderLeadDays);
     setDraftError(null);
     setIsEditorOpen(true);
   };
 
-  const closeEditor = () => {
-    setIsEditorOpen(false);
-    setDraftError(null);
+  const loadDraftTiming = (timing: EventTiming) => {
+    setDraftEndDate(timing.endDate ?? '');
+    setDraftStartTime(timing.startTime ?? '');
+    setDraftEndTime(timing.endTime ?? '');
   };
 
-  const draftDaysInMonth = useMemo(() => new Date(draftYear, draftMonth, 0).getDate(), [draftYear, draftMonth]);
+  const buildDraftTiming = (startKey: string): { timing?: EventTiming; error?: string } => {
+    if (draftEndDate && (!isDateKeyLike(draftEndDate) || draftEndDate < startKey)) {
+      return { error: "종료일은 시작일 이후 날짜로 선택해주세요." };
+    }
+    if (draftEndTime && !draftStartTime) return { error: "종료 시각을 정하려면 시작 시각도 입력해주세요." };
+    const timing = normalizeEventTiming(startKey, { endDate: draftEndDate, startTime: draftStartTime, endTime: draftEndTime });
+    if (draftEndTime && !timing.endTime) return { error: "종료 시각은 시작 시각보다 늦게 입력해주세요." };
+    return { timing };
+  };
+
+  const loadDraftReminder = (leadDays: number[] | undefined) => {
+    setDraftReminderUsesDefault(leadDays === undefined);
+    setDraftReminderText(formatLeadDays(leadDays));
+  };
+
+  // undefined = follow the category default; [] = no reminder for this event.
+  const buildDraftReminderLeadDays = (): { leadDays?: number[]; error?: string } => {
+    if (draftReminderUsesDefault) return {};
+    const leadDays = parseLeadDaysInput(draftReminderText);
+    if (!leadDays) return { error: "알림은 0~365 사이 숫자를 쉼표로 구분해 입력해주세요. (예: 7, 1)" };
+    return { leadDays };
+  };
+
+  const withReminderLeadDays = <T extends CalendarEvent>(event: T, leadDays: number[] | undefined): T => {
+    const { reminderLeadDays: _previous, ...rest } = event;
+    return (leadDays ? { ...rest, reminderLeadDays: leadDays } : rest) as T;
+  };
+
+  const withProjectId = <T extends CalendarEvent>(event: T, projectId: string | undefined): T => {
+    const { projectId: _previous, ...rest } = event;
+    return (projectId ? { ...rest, projectId } : rest) as T;
+  };
+
+  const withDependencies = <T extends CalendarEvent>(event: T, dependencies: EventDependency[] | undefined): T => {
+    const { dependencies: _previous, ...rest } = event;
+    return (dependencies && dependencies.length > 0 ? { ...rest, dependencies } : rest) as T;
+  };
+
+  // Dependencies only apply to single user events; links to tasks deleted meanwhile are dropped.
+  const buildDraftDependencies = (recurrence: RecurrenceRule | undefined): EventDependency[] | undefined =>
+    recurrence
+      ? undefined
+      : draftDependencies.filter(({ predecessorId }) =>
+        userEvents.some(ev => ev.id === predecessorId && canHaveDependencies(ev)),
+      );
+
+  const addDraftDependency = (predecessorId: string) => {
+    if (!predecessorId || draftDependencies.some(dependency => dependency.predecessorId === predecessorId)) return;
+    if (draftId && wouldCreateDependencyCycle(userEvents, draftId, predecessorId)) {
+      setDraftError("이 일정을 뒤따르는 일정은 선행 일정으로 지정할 수 없습니다.");
+      return;
+    }
+    setDraftError(null);
+    setDraftDependencies(prev => [...prev, { predecessorId, lagDays: 0 }]);
+  };
+
+  const readDraftRevision = (kind: CalendarEventKind, id: string) =>
+    kind === 'user' ? getUserEventRevision(id) : getBuiltinOverrideRevision(id);
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setDraftError(null);
+  };
+
+  const draftDaysInMonth = useMemo(() => new Date(draftYear, draftMonth, 0).getDate(), [draftYear, draftMonth]);
 
   useEffect(() => {
     if (draftDay > draftDaysInMonth) {
@@ -885,6 +1658,46 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     return Array.from({ length: end - start + 1 }, (_, idx) => start + idx);
   }, [draftYear]);
 
+  const buildDraftRecurrenceRule = (startKey: string): { rule?: RecurrenceRule; error?: string } => {
+    if (draftKind !== 'user' || draftRecurrenceFrequency === 'none') return {};
+
+    const interval = Math.trunc(draftRecurrenceInterval);
+    if (!Number.isFinite(interval) || interval < 1 || interval > 99) {
+      return { error: "반복 간격은 1~99 사이로 입력해주세요." };
+    }
+
+    const rule: RecurrenceRule = { frequency: draftRecurrenceFrequency, interval };
+    if (draftRecurrenceFrequency === 'weekly') {
+      if (draftRecurrenceWeekdays.length === 0) return { error: "반복할 요일을 하나 이상 선택해주세요." };
+      rule.weekdays = [...draftRecurrenceWeekdays].sort((a, b) => a - b);
+    }
+    if (draftRecurrenceFrequency === 'monthly') {
+      rule.monthlyMode = draftMonthlyMode;
+    }
+    if (draftRecurrenceEnd === 'until') {
+      if (!isDateKeyLike(draftRecurrenceUntil) || draftRecurrenceUntil < startKey) {
+        return { error: "반복 종료일은 시작일 이후 날짜로 선택해주세요." };
+      }
+      rule.until = draftRecurrenceUntil;
+    }
+    if (draftRecurrenceEnd === 'count') {
+      const count = Math.trunc(draftRecurrenceCount);
+      if (!Number.isFinite(count) || count < 1 || count > 999) {
+        return { error: "반복 횟수는 1~999 사이로 입력해주세요." };
+      }
+      rule.count = count;
+    }
+    return { rule };
+  };
+
+  const isSameRecurrenceCore = (a: RecurrenceRule, b: RecurrenceRule) =>
+    a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    (a.weekdays ?? []).join(',') === (b.weekdays ?? []).join(',') &&
+    (a.monthlyMode ?? 'dayOfMonth') === (b.monthlyMode ?? 'dayOfMonth') &&
+    a.until === b.until &&
+    a.count === b.count;
+
   const handleSaveDraft = () => {
     const cleanedTitle = draftTitle.trim();
     if (!cleanedTitle) {
@@ -899,22 +1712,48 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       return;
     }
 
+    const { leadDays: reminderLeadDays, error: reminderError } = buildDraftReminderLeadDays();
+    if (reminderError) {
+      setDraftError(reminderError);
+      return;
+    }
+
+    const { timing = {}, error: timingError } = buildDraftTiming(dateKey);
+    if (timingError) {
+      setDraftError(timingError);
+      return;
+    }
+
+    // A project deleted in another tab while the editor was open is dropped silently.
+    const projectId = projects.some(project => project.id === draftProjectId) ? draftProjectId : undefined;
+
+    editOriginRef.current = 'editor';
     if (editorMode === 'create') {
-      const category = isEventCategory(draftCategory) ? draftCategory : null;
+      const category = findCategory(categorySettings, draftCategory);
       if (!category) {
         setDraftError("업무를 선택해주세요.");
         return;
       }
 
+      const { rule: recurrence, error: recurrenceError } = buildDraftRecurrenceRule(dateKey);
+      if (recurrenceError) {
+        setDraftError(recurrenceError);
+        return;
+      }
+
       const newEvent: UserCalendarEvent = {
         id: `user-${nanoid(10)}`,
         date: dateKey,
+        ...timing,
         title: cleanedTitle,
         category,
         kind: 'user',
         source: 'manual',
+        ...(recurrence ? { recurrence } : {}),
+        ...(reminderLeadDays ? { reminderLeadDays } : {}),
+        ...(projectId ? { projectId } : {}),
       };
-      setUserEvents(prev => [newEvent, ...prev]);
+      setUserEvents(prev => [withDependencies(newEvent, buildDraftDependencies(recurrence)), ...prev]);
       closeEditor();
       return;
     }
@@ -924,19 +1763,97 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       return;
     }
 
+    if (readDraftRevision(draftKind, draftId) !== draftBaseRevisionRef.current) {
+      const overwrite = window.confirm(
+        "다른 탭에서 이 일정이 먼저 수정되었습니다. 내 변경으로 덮어쓸까요?\n취소하면 다른 탭에서 수정한 내용이 유지됩니다.",
+      );
+      if (!overwrite) {
+        closeEditor();
+        return;
+      }
+    }
+
     if (draftKind === 'user') {
-      const category = isEventCategory(draftCategory) ? draftCategory : null;
+      const category = findCategory(categorySettings, draftCategory);
       if (!category) {
         setDraftError("업무를 선택해주세요.");
         return;
       }
 
+      const { rule: recurrence, error: recurrenceError } = buildDraftRecurrenceRule(dateKey);
+      if (recurrenceError) {
+        setDraftError(recurrenceError);
+        return;
+      }
+
+      const series = draftOccurrenceDate ? userEvents.find(ev => ev.id === draftId) : undefined;
+      if (series?.recurrence && draftOccurrenceDate) {
+        // Reminders, project, times and length belong to the series, so they are applied without asking for a scope.
+        const seriesTiming: EventTiming = {
+          ...timing,
+          endDate: timing.endDate && addDaysToDateKey(series.date, diffDateKeysInDays(dateKey, timing.endDate)),
+        };
+        setUserEvents(prev =>
+          prev.map(ev =>
+            ev.id === series.id
+              ? withEventTiming(withProjectId(withReminderLeadDays(ev, reminderLeadDays), projectId), seriesTiming)
+              : ev,
+          ),
+        );
+        const occurrenceOverride = series.recurrence.overrides?.[draftOccurrenceDate];
+        const change: RecurrenceOccurrenceChange = {};
+        if (dateKey !== (occurrenceOverride?.date ?? draftOccurrenceDate)) change.date = dateKey;
+        if (cleanedTitle !== (occurrenceOverride?.title ?? series.title)) change.title = cleanedTitle;
+        if (category !== (occurrenceOverride?.category ?? series.category)) change.category = category;
+
+        if (!recurrence) {
+          // Turning repetition off keeps only the occurrence that was being edited.
+          setUserEvents(prev =>
+            prev.map(ev => {
+              if (ev.id !== series.id) return ev;
+              const { recurrence: _removed, ...rest } = ev;
+              return withEventTiming({ ...rest, date: dateKey, title: cleanedTitle, category }, timing);
+            })
+          );
+        } else if (!isSameRecurrenceCore(series.recurrence, recurrence)) {
+          // A changed rule always applies to the whole series.
+          setUserEvents(prev =>
+            prev.map(ev => {
+              if (ev.id !== series.id) return ev;
+              const [updated] = applyRecurringOccurrenceChange(ev, draftOccurrenceDate, change, 'all', () => ev.id);
+              const nextRule: RecurrenceRule = { ...recurrence };
+              if (updated.recurrence?.exceptions) nextRule.exceptions = updated.recurrence.exceptions;
+              if (updated.recurrence?.overrides) nextRule.overrides = updated.recurrence.overrides;
+              return { ...updated, recurrence: nextRule };
+            })
+          );
+        } else if (Object.keys(change).length > 0) {
+          setPendingRecurrenceAction({
+            type: 'update',
+            seriesId: series.id,
+            occurrenceDate: draftOccurrenceDate,
+            change,
+          });
+          closeEditor();
+          return;
+        }
+        clearAiCacheForEvent(series.id);
+        closeEditor();
+        return;
+      }
+
       setUserEvents(prev =>
-        prev.map(ev =>
-          ev.id === draftId
-            ? ({ ...ev, date: dateKey, title: cleanedTitle, category } as UserCalendarEvent)
-            : ev
-        )
+        prev.map(ev => {
+          if (ev.id !== draftId) return ev;
+          const { recurrence: _previous, ...rest } = withEventTiming(
+            withDependencies(
+              withProjectId(withReminderLeadDays(ev, reminderLeadDays), projectId),
+              buildDraftDependencies(recurrence),
+            ),
+            timing,
+          );
+          return { ...rest, date: dateKey, title: cleanedTitle, category, ...(recurrence ? { recurrence } : {}) };
+        })
       );
       clearAiCacheForEvent(draftId);
       closeEditor();
@@ -948,7 +1865,7 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       if (!base) return prev;
 
       const existing = prev[draftId];
-      const nextEntry: BuiltinEventOverride = { ...(existing ?? {}) };
+      const nextEntry = withEventTiming<BuiltinEventOverride>({ ...(existing ?? {}) }, timing);
 
       if (dateKey === base.date) {
         delete nextEntry.date;
@@ -962,14 +1879,21 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
         nextEntry.title = cleanedTitle;
       }
 
-      if (isEventCategory(draftCategory)) {
-        nextEntry.category = draftCategory;
+      const category = findCategory(categorySettings, draftCategory);
+      if (category) {
+        nextEntry.category = category;
       } else {
         delete nextEntry.category;
       }
 
+      if (reminderLeadDays) {
+        nextEntry.reminderLeadDays = reminderLeadDays;
+      } else {
+        delete nextEntry.reminderLeadDays;
+      }
+
       const next = { ...prev };
-      if (!nextEntry.date && !nextEntry.title && !nextEntry.category) {
+      if (isEmptyBuiltinOverride(nextEntry)) {
         delete next[draftId];
       } else {
         next[draftId] = nextEntry;
@@ -982,13 +1906,19 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
 
   const handleDeleteDraft = () => {
     if (!draftId) return;
+    editOriginRef.current = 'editor';
 
     if (draftKind === 'builtin') {
+      // Reverting edits keeps the hidden state; that is toggled separately.
       setBuiltinEventOverrides(prev => {
         const existing = prev[draftId];
         if (!existing) return prev;
         const next = { ...prev };
-        delete next[draftId];
+        if (existing.hidden) {
+          next[draftId] = { hidden: true };
+        } else {
+          delete next[draftId];
+        }
         return next;
       });
       clearAiCacheForEvent(draftId);
@@ -996,11 +1926,495 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       return;
     }
 
+    if (draftOccurrenceDate) {
+      setPendingRecurrenceAction({ type: 'delete', seriesId: draftId, occurrenceDate: draftOccurrenceDate });
+      closeEditor();
+      return;
+    }
+
     setUserEvents(prev => prev.filter(ev => ev.id !== draftId));
     clearAiCacheForEvent(draftId);
     closeEditor();
   };
 
+  // Writes status/checklist to the builtin override, the user event, or the occurrence of a series.
+  const updateEventProgress = (event: CalendarEvent, progress: EventProgress) => {
+    const status = 'status' in progress ? normalizeEventStatus(progress.status) : event.status;
+    const checklist = 'checklist' in progress ? progress.checklist : event.checklist;
+    const hasChecklist = Boolean(checklist && checklist.length > 0);
+
+    if (event.kind === 'builtin') {
+      setBuiltinEventOverrides(prev => {
+        const nextEntry: BuiltinEventOverride = { ...(prev[event.id] ?? {}) };
+        if (status) nextEntry.status = status;
+        else delete nextEntry.status;
+        if (hasChecklist) nextEntry.checklist = checklist;
+        else delete nextEntry.checklist;
+
+        const next = { ...prev };
+        if (isEmptyBuiltinOverride(nextEntry)) {
+          delete next[event.id];
+        } else {
+          next[event.id] = nextEntry;
+        }
+        return next;
+      });
+    } else if (event.seriesId && event.occurrenceDate) {
+      const { seriesId, occurrenceDate } = event;
+      setUserEvents(prev =>
+        prev.map(ev =>
+          ev.id === seriesId
+            ? updateOccurrenceProgress(ev, occurrenceDate, { status, checklist: hasChecklist ? checklist : undefined })
+            : ev,
+        ),
+      );
+    } else {
+      setUserEvents(prev =>
+        prev.map(ev => {
+          if (ev.id !== event.id) return ev;
+          const { status: _status, checklist: _checklist, ...rest } = ev;
+          return { ...rest, ...(status ? { status } : {}), ...(hasChecklist ? { checklist } : {}) };
+        }),
+      );
+    }
+
+    setSelectedEvent(prev =>
+      prev && prev.id === event.id ? { ...prev, status, checklist: hasChecklist ? checklist : undefined } : prev,
+    );
+  };
+
+  const toggleChecklistItem = (event: CalendarEvent, itemId: string) => {
+    const checklist = (event.checklist ?? []).map(item => (item.id === itemId ? { ...item, done: !item.done } : item));
+    updateEventProgress(event, { checklist, status: deriveStatusFromChecklist(checklist, event.status ?? 'notStarted') });
+  };
+
+  const addChecklistItem = (event: CalendarEvent) => {
+    const text = checklistDraftText.trim();
+    if (!text) return;
+    const checklist = [...(event.checklist ?? []), { id: nanoid(8), text, done: false }];
+    updateEventProgress(event, { checklist, status: deriveStatusFromChecklist(checklist, event.status ?? 'notStarted') });
+    setChecklistDraftText('');
+  };
+
+  const removeChecklistItem = (event: CalendarEvent, itemId: string) => {
+    const checklist = (event.checklist ?? []).filter(item => item.id !== itemId);
+    updateEventProgress(event, { checklist });
+  };
+
+  // Writes notes/links/attachments like progress, except that occurrences share the series' notes.
+  const updateEventNotes = (event: CalendarEvent, patch: EventNotes) => {
+    const merged: EventNotes = {
+      notes: 'notes' in patch ? patch.notes : event.notes,
+      links: 'links' in patch ? patch.links : event.links,
+      attachments: 'attachments' in patch ? patch.attachments : event.attachments,
+    };
+    const fields: EventNotes = {
+      ...(merged.notes ? { notes: merged.notes } : {}),
+      ...(merged.links && merged.links.length > 0 ? { links: merged.links } : {}),
+      ...(merged.attachments && merged.attachments.length > 0 ? { attachments: merged.attachments } : {}),
+    };
+    const withNotes = <T extends EventNotes>(record: T): T => {
+      const { notes: _notes, links: _links, attachments: _attachments, ...rest } = record;
+      return { ...rest, ...fields } as T;
+    };
+
+    if (event.kind === 'builtin') {
+      setBuiltinEventOverrides(prev => {
+        const nextEntry = withNotes(prev[event.id] ?? {});
+        const next = { ...prev };
+        if (isEmptyBuiltinOverride(nextEntry)) {
+          delete next[event.id];
+        } else {
+          next[event.id] = nextEntry;
+        }
+        return next;
+      });
+    } else {
+      const targetId = event.seriesId ?? event.id;
+      setUserEvents(prev => prev.map(ev => (ev.id === targetId ? withNotes(ev) : ev)));
+    }
+
+    setSelectedEvent(prev => (prev && prev.id === event.id ? withNotes(prev) : prev));
+  };
+
+  const saveNotesDraft = (event: CalendarEvent) => {
+    if (notesDraftText === null) return;
+    updateEventNotes(event, { notes: normalizeNotes(notesDraftText) });
+    setNotesDraftText(null);
+  };
+
+  const addLink = (event: CalendarEvent) => {
+    const url = normalizeLinkUrl(linkDraftUrl);
+    if (!url) {
+      setNotesError('http(s) 주소만 추가할 수 있습니다.');
+      return;
+    }
+    const label = linkDraftLabel.trim();
+    updateEventNotes(event, { links: [...(event.links ?? []), { id: nanoid(8), url, ...(label ? { label } : {}) }] });
+    setLinkDraftUrl('');
+    setLinkDraftLabel('');
+    setNotesError(null);
+  };
+
+  const removeLink = (event: CalendarEvent, linkId: string) => {
+    updateEventNotes(event, { links: (event.links ?? []).filter(link => link.id !== linkId) });
+  };
+
+  const handleAttachmentChange = async (event: CalendarEvent, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setNotesError(null);
+    setIsUploadingAttachment(true);
+    try {
+      const id = `attachment-${nanoid(10)}`;
+      await saveAttachmentFiles([{ id, blob: file }]);
+      updateEventNotes(event, {
+        attachments: [...(event.attachments ?? []), { id, name: file.name, type: file.type, size: file.size }],
+      });
+    } catch (error) {
+      setNotesError(error instanceof Error ? error.message : '첨부 파일을 저장하지 못했습니다.');
+    } finally {
+      setIsUploadingAttachment(false);
+    }
+  };
+
+  const downloadAttachment = async (attachment: EventAttachment) => {
+    setNotesError(null);
+    try {
+      const blob = await loadAttachmentFile(attachment.id);
+      if (!blob) {
+        setNotesError(`'${attachment.name}' 파일을 이 기기에서 찾을 수 없습니다.`);
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = attachment.name;
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to read attachment', error);
+      setNotesError('첨부 파일을 불러오지 못했습니다.');
+    }
+  };
+
+  // Only the metadata goes; the file stays until the next load finds nothing referencing it.
+  const removeAttachment = (event: CalendarEvent, attachmentId: string) => {
+    updateEventNotes(event, { attachments: (event.attachments ?? []).filter(attachment => attachment.id !== attachmentId) });
+  };
+
+  // Snoozing a single occurrence never splits the series, so no scope prompt is needed.
+  const snoozeEvent = (event: CalendarEvent, nextDateKey: string) => {
+    if (!isDateKeyLike(nextDateKey) || event.date === nextDateKey) return;
+    if (event.seriesId && event.occurrenceDate) {
+      const { seriesId, occurrenceDate } = event;
+      setUserEvents(prev =>
+        prev.flatMap(ev =>
+          ev.id === seriesId
+            ? applyRecurringOccurrenceChange(ev, occurrenceDate, { date: nextDateKey }, 'this', () => `user-${nanoid(10)}`)
+            : [ev],
+        ),
+      );
+      return;
+    }
+    moveEventToDate(event.id, nextDateKey);
+  };
+
+  const handleCalendarEventAction = (action: CalendarEventAction) => {
+    if (action.type === 'openReport') {
+      handleEventClick(action.event);
+      return;
+    }
+    editOriginRef.current = 'dashboard';
+    if (action.type === 'markDone') updateEventProgress(action.event, { status: 'done' });
+    else snoozeEvent(action.event, action.date);
+  };
+  const calendarEventActionHandlerRef = useRef(handleCalendarEventAction);
+  calendarEventActionHandlerRef.current = handleCalendarEventAction;
+
+  useEffect(() => {
+    const handleAction = (e: Event) => {
+      const detail = (e as CustomEvent<CalendarEventAction>).detail;
+      if (detail?.event) calendarEventActionHandlerRef.current(detail);
+    };
+    window.addEventListener(CALENDAR_EVENT_ACTION_EVENT, handleAction);
+    return () => window.removeEventListener(CALENDAR_EVENT_ACTION_EVENT, handleAction);
+  }, []);
+
+  const pushHistoryEntry = (entry: EditHistoryEntry) => {
+    setUndoStack(prev => [...prev, entry].slice(-MAX_EDIT_HISTORY));
+    setRedoStack([]);
+    setEditToast({ label: entry.label, undone: false });
+  };
+
+  // Every local change to the event state becomes one history entry, however many setters it used.
+  useEffect(() => {
+    // Declared after the save effects, so both saves have used the origin by now.
+    editOriginRef.current = 'manual';
+    const before = historyBaselineRef.current;
+    const after: EditableEventState = { userEvents, builtinEventOverrides };
+    historyBaselineRef.current = after;
+    const diff = diffEventState(before, after);
+    if (!diff) return;
+    pushHistoryEntry({ id: nanoid(8), label: describeEdit(diff.redo, before), ...diff });
+  }, [userEvents, builtinEventOverrides]);
+
+  const applyHistory = (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? undoStack : redoStack;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+
+    const patch = direction === 'undo' ? entry.undo : entry.redo;
+    editOriginRef.current = 'undo';
+    const next = applyEditPatch({ userEvents, builtinEventOverrides }, patch);
+    historyBaselineRef.current = next;
+    setUserEvents(next.userEvents);
+    setBuiltinEventOverrides(next.builtinEventOverrides);
+    if (patch.projects) setProjects(prev => applyProjectPatch(prev, patch));
+    [...Object.keys(patch.userEvents), ...Object.keys(patch.builtinEventOverrides)].forEach(clearAiCacheForEvent);
+    setSelectedEvent(prev => (prev && (prev.id in patch.userEvents || prev.id in patch.builtinEventOverrides) ? null : prev));
+
+    if (direction === 'undo') {
+      setUndoStack(prev => prev.slice(0, -1));
+      setRedoStack(prev => [...prev, entry]);
+    } else {
+      setRedoStack(prev => prev.slice(0, -1));
+      setUndoStack(prev => [...prev, entry]);
+    }
+    setEditToast({ label: entry.label, undone: direction === 'undo' });
+  };
+  const applyHistoryRef = useRef(applyHistory);
+  applyHistoryRef.current = applyHistory;
+
+  // Edits made elsewhere (e.g. an applied AI proposal) are written to storage directly and
+  // reported here, so they can be undone as one step.
+  const recordExternalEdit = (edit: RecordedCalendarEdit) => {
+    if (edit.addedUserEvents.length === 0) return;
+    const addedProjects = edit.addedProjects ?? [];
+    pushHistoryEntry({
+      id: nanoid(8),
+      label: edit.label,
+      undo: {
+        userEvents: Object.fromEntries(edit.addedUserEvents.map(event => [event.id, null])),
+        builtinEventOverrides: {},
+        projects: Object.fromEntries(addedProjects.map(project => [project.id, null])),
+      },
+      redo: {
+        userEvents: Object.fromEntries(edit.addedUserEvents.map(event => [event.id, event])),
+        builtinEventOverrides: {},
+        projects: Object.fromEntries(addedProjects.map(project => [project.id, project])),
+      },
+    });
+  };
+  const recordExternalEditRef = useRef(recordExternalEdit);
+  recordExternalEditRef.current = recordExternalEdit;
+
+  useEffect(() => {
+    const handleRecordedEdit = (e: Event) => {
+      const detail = (e as CustomEvent<RecordedCalendarEdit>).detail;
+      if (detail?.addedUserEvents) recordExternalEditRef.current(detail);
+    };
+    // Text fields keep the browser's own undo.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      e.preventDefault();
+      applyHistoryRef.current(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener(CALENDAR_EDIT_RECORDED_EVENT, handleRecordedEdit);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener(CALENDAR_EDIT_RECORDED_EVENT, handleRecordedEdit);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  // Occurrences share the audit trail of their series.
+  const auditRecordId = selectedEvent ? selectedEvent.seriesId ?? selectedEvent.id : null;
+  const auditRecordType = selectedEvent?.kind === 'builtin' ? 'builtinEventOverride' : 'userEvent';
+
+  useEffect(() => {
+    if (eventModalTab !== 'history' || !auditRecordId) return;
+    let cancelled = false;
+    setAuditEntries(null);
+    loadAuditLog(auditRecordId)
+      .then(entries => {
+        if (!cancelled) setAuditEntries(entries.filter(entry => entry.recordType === auditRecordType));
+      })
+      .catch(error => {
+        console.error('Failed to load audit log', error);
+        if (!cancelled) setAuditEntries([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventModalTab, auditRecordId, auditRecordType]);
+
+  useEffect(() => {
+    if (!editToast) return;
+    const timeoutId = window.setTimeout(() => setEditToast(null), EDIT_TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [editToast]);
+
+  const setBuiltinEventsHidden = (eventIds: string[], hidden: boolean) => {
+    if (eventIds.length === 0) return;
+    setBuiltinEventOverrides(prev => {
+      const next = { ...prev };
+      for (const eventId of eventIds) {
+        const nextEntry: BuiltinEventOverride = { ...(prev[eventId] ?? {}) };
+        if (hidden) {
+          nextEntry.hidden = true;
+        } else {
+          delete nextEntry.hidden;
+        }
+        if (isEmptyBuiltinOverride(nextEntry)) {
+          delete next[eventId];
+        } else {
+          next[eventId] = nextEntry;
+        }
+      }
+      return next;
+    });
+  };
+
+  const handleToggleDraftHidden = () => {
+    if (!draftId || draftKind !== 'builtin') return;
+    editOriginRef.current = 'editor';
+    setBuiltinEventsHidden([draftId], builtinEventOverrides[draftId]?.hidden !== true);
+    closeEditor();
+  };
+
+  // Bulk hide matches on the (overridden) title across every parsed year, not only the visible month.
+  const bulkHideMatches = useMemo(() => {
+    const pattern = bulkHidePattern.trim().toLowerCase();
+    if (!pattern) return [];
+    return baseEventsWithOverrides.filter(ev => ev.title.toLowerCase().includes(pattern));
+  }, [bulkHidePattern, baseEventsWithOverrides]);
+
+  const applyBulkHide = (hidden: boolean) => {
+    const ids = bulkHideMatches.filter(ev => ev.hidden !== hidden).map(ev => ev.id);
+    if (ids.length === 0) return;
+    const label = hidden ? '숨기기' : '숨김 해제';
+    if (!window.confirm(`"${bulkHidePattern.trim()}" 이(가) 포함된 기본일정 ${ids.length}건을 ${label}할까요?`)) return;
+    setBuiltinEventsHidden(ids, hidden);
+  };
+
+  // Exports every year with the current filters applied; recurring series are written as RRULEs.
+  const handleExportICal = () => {
+    const categorySet = new Set(selectedCategories);
+    const sourceSet = new Set(selectedSources);
+    const matchesFilters = (event: CalendarEvent) =>
+      categorySet.has(event.category) &&
+      sourceSet.has(event.source) &&
+      (showHiddenEvents || !event.hidden) &&
+      (!showOpenTasksOnly || Boolean(event.recurrence) || isOpenTask(event)) &&
+      matchesEventSearch(event, searchQuery);
+
+    // Categories renamed or merged since an event was saved resolve to their current name first.
+    const events = [
+      ...baseEventsWithOverrides,
+      ...userEvents.map(ev => withResolvedCategory(ev, categorySettings)),
+    ].filter(matchesFilters);
+    if (events.length === 0) {
+      setIcalStatus({ type: 'error', message: '내보낼 일정이 없습니다. 필터를 확인해주세요.' });
+      return;
+    }
+
+    const ics = buildICalendar(
+      events.map(event => ({ event, description: eventDescriptions[event.id] })),
+      '스마트캘린더',
+    );
+    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `smart-calendar-${formatDateKey(new Date())}.ics`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+    setIcalStatus({ type: 'success', message: `일정 ${events.length}개를 .ics 파일로 내보냈습니다.` });
+  };
+
+  // Imports into user events, skipping anything already on the calendar with the same date and title.
+  const handleImportICalFile = async (file: File) => {
+    setIcalStatus(null);
+    try {
+      const { events, skippedCount, unsupportedRecurrenceCount } = parseICalendar(await file.text());
+      const existingKeySet = new Set([...baseEventsWithOverrides, ...userEvents].map(ev => `${ev.date}::${ev.title}`));
+
+      const added: UserCalendarEvent[] = [];
+      for (const item of events) {
+        const key = `${item.date}::${item.title}`;
+        if (existingKeySet.has(key)) continue;
+        existingKeySet.add(key);
+        const category =
+          item.categories.map(name => findCategory(categorySettings, name)).find(Boolean) ??
+          inferCategoryFromTitle(categorySettings, item.title) ??
+          DEFAULT_EVENT_CATEGORY;
+        added.push({
+          id: `user-${nanoid(10)}`,
+          date: item.date,
+          ...normalizeEventTiming(item.date, item),
+          title: item.title,
+          kind: 'user',
+          category,
+          source: 'manual',
+          ...(item.recurrence ? { recurrence: item.recurrence } : {}),
+        });
+      }
+
+      if (added.length > 0) {
+        editOriginRef.current = 'import';
+        setUserEvents(prev => [...added, ...prev]);
+      }
+      const notes = [
+        events.length - added.length > 0 ? `중복 ${events.length - added.length}개 건너뜀` : '',
+        skippedCount > 0 ? `날짜·제목 없는 항목 ${skippedCount}개 제외` : '',
+        unsupportedRecurrenceCount > 0 ? `지원하지 않는 반복 규칙 ${unsupportedRecurrenceCount}개는 첫 일정만 추가` : '',
+      ].filter(Boolean);
+      setIcalStatus({
+        type: 'success',
+        message: `일정 ${added.length}개를 가져왔습니다.${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`,
+      });
+    } catch (e) {
+      setIcalStatus({
+        type: 'error',
+        message: e instanceof Error ? e.message : '.ics 파일을 읽지 못했습니다.',
+      });
+    }
+  };
+
+  const handleImportICalChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await handleImportICalFile(file);
+    e.target.value = '';
+  };
+
+  const applyPendingRecurrenceAction = (scope: RecurrenceEditScope) => {
+    const action = pendingRecurrenceAction;
+    if (!action) return;
+    editOriginRef.current = action.type === 'move' ? 'drag' : 'editor';
+
+    setUserEvents(prev =>
+      prev.flatMap(ev => {
+        if (ev.id !== action.seriesId) return [ev];
+        if (action.type === 'delete') return removeRecurringOccurrence(ev, action.occurrenceDate, scope);
+        return applyRecurringOccurrenceChange(ev, action.occurrenceDate, action.change ?? {}, scope, () => `user-${nanoid(10)}`);
+      })
+    );
+    clearAiCacheForEvent(action.seriesId);
+    setSelectedEvent(prev => (prev && prev.seriesId === action.seriesId ? null : prev));
+    setPendingRecurrenceAction(null);
+  };
+
   const toggleDayExpansion = (dateKey: string) => {
     setExpandedDays(prev => {
       const newSet = new Set(prev);
@@ -1019,7 +2433,15 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
         <h2 className={`text-xl sm:text-2xl font-bold ${colors.textPrimary} tracking-wide`}>
           {viewMode === 'month'
             ? `${year}년 ${KOREAN_MONTH_NAMES[month]}`
-            : `${year}년 ${KOREAN_MONTH_NAMES[currentDate.getMonth()]} ${Math.ceil(currentDate.getDate() / 7)}주차 (주간)`
+            : viewMode === 'week'
+              ? `${year}년 ${KOREAN_MONTH_NAMES[currentDate.getMonth()]} ${Math.ceil(currentDate.getDate() / 7)}주차 (주간)`
+              : viewMode === 'day'
+                ? `${year}년 ${KOREAN_MONTH_NAMES[month]} ${currentDate.getDate()}일 (일간)`
+                : viewMode === 'timeline'
+                ? `${describeTimelineRange(currentDate, timelineZoom)} (타임라인)`
+                : viewMode === 'agenda'
+                  ? `${year}년 ${KOREAN_MONTH_NAMES[month]}부터 (목록)`
+                  : `${year}년 (연간)`
           }
         </h2>
         <div className={`flex ${colors.inputBg} rounded-lg p-1 border ${colors.border}`}>
@@ -1036,9 +2458,75 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
           >
             주간
           </button>
+          <button
+            onClick={() => setViewMode('day')}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${viewMode === 'day' ? `${colors.activeTabBg} ${colors.buttonText} shadow-sm` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+          >
+            일간
+          </button>
+          <button
+            onClick={() => setViewMode('timeline')}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${viewMode === 'timeline' ? `${colors.activeTabBg} ${colors.buttonText} shadow-sm` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+          >
+            타임라인
+          </button>
+          <button
+            onClick={() => setViewMode('agenda')}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${viewMode === 'agenda' ? `${colors.activeTabBg} ${colors.buttonText} shadow-sm` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+          >
+            목록
+          </button>
+          <button
+            onClick={() => setViewMode('year')}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${viewMode === 'year' ? `${colors.activeTabBg} ${colors.buttonText} shadow-sm` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+          >
+            연간
+          </button>
         </div>
       </div>
       <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setProjectPanelId(prev => (prev === null ? '' : null))}
+          className={`px-3 py-1 text-sm font-medium rounded-md transition-colors border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90`}
+          aria-pressed={projectPanelId !== null}
+        >
+          프로젝트
+        </button>
+        {filterPresets.length > 0 && (
+          <select
+            value={activeFilterPreset?.id ?? ''}
+            onChange={(e) => {
+              const preset = filterPresets.find(candidate => candidate.id === e.target.value);
+              applyFilterValues(preset ? toFilterValues(preset) : DEFAULT_FILTER_VALUES);
+            }}
+            aria-label="필터 프리셋"
+            className={`max-w-[8rem] px-2 py-1 text-sm rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+          >
+            <option value="">
+              {activeFilterPreset || isSameFilterValues(currentFilterValues, DEFAULT_FILTER_VALUES) ? '기본 필터' : '사용자 지정'}
+            </option>
+            {filterPresets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsSearchOpen(true)}
+          className={`px-3 py-1 text-sm font-medium rounded-md transition-colors border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90`}
+          title="모든 연도의 일정·메모·AI 보고서 검색 (Ctrl+K)"
+        >
+          전체 검색
+        </button>
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="일정·메모 검색"
+          aria-label="일정 검색"
+          className={`w-28 sm:w-40 px-2 py-1 text-sm rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+        />
         <div className="relative" ref={filterDropdownRef}>
           <button
             type="button"
@@ -1077,18 +2565,92 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
               </label>
 
               <div className={`mt-3 pt-2 border-t ${colors.border}`}>
-                <div className={`text-xs font-semibold ${colors.textSecondary} mb-1`}>카테고리</div>
+                <div className={`text-xs font-semibold ${colors.textSecondary} mb-1`}>필터 프리셋</div>
+                {filterPresets.length > 0 && (
+                  <ul className="mb-2 space-y-0.5">
+                    {filterPresets.map(preset => (
+                      <li key={preset.id} className="flex items-center gap-2 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => applyFilterValues(toFilterValues(preset))}
+                          className={`flex-1 min-w-0 text-left truncate ${preset.id === activeFilterPreset?.id ? `${colors.accentColor} font-semibold` : colors.textPrimary} hover:underline`}
+                        >
+                          {preset.name}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteFilterPreset(preset)}
+                          className={`text-xs ${colors.textSecondary} hover:text-red-400`}
+                          aria-label={`${preset.name} 프리셋 삭제`}
+                        >
+                          삭제
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSaveFilterPreset();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={presetNameDraft}
+                    onChange={(e) => {
+                      setPresetNameDraft(e.target.value);
+                      setPresetError(null);
+                    }}
+                    placeholder="예: 급여 담당"
+                    aria-label="프리셋 이름"
+                    className={`flex-1 min-w-0 ${colors.inputBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+                  />
+                  <button
+                    type="submit"
+                    className={`px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90`}
+                  >
+                    현재 필터 저장
+                  </button>
+                </form>
+                {presetError && <div className="mt-1 text-xs text-red-400">{presetError}</div>}
+                <button
+                  type="button"
+                  onClick={copyViewLink}
+                  className={`mt-2 w-full px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90`}
+                  title="지금 보고 있는 보기·날짜·필터를 여는 링크"
+                >
+                  {isViewLinkCopied ? '링크를 복사했습니다' : '현재 보기 링크 복사'}
+                </button>
+              </div>
+
+              <div className={`mt-3 pt-2 border-t ${colors.border}`}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className={`text-xs font-semibold ${colors.textSecondary}`}>카테고리</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsFilterOpen(false);
+                      setIsCategoryManagerOpen(true);
+                    }}
+                    className={`text-xs ${colors.textSecondary} hover:${colors.textPrimary} underline`}
+                  >
+                    업무 분류 관리
+                  </button>
+                </div>
                 <div className="max-h-40 overflow-y-auto scrollbar-thin pr-1 space-y-1">
-                  {EVENT_CATEGORIES.map((category) => (
-                    <label key={category} className={`flex items-center gap-2 text-sm ${colors.textPrimary}`}>
+                  {categorySettings.categories.map(({ name, color, icon }) => (
+                    <label key={name} className={`flex items-center gap-2 text-sm ${colors.textPrimary}`}>
                       <input
                         type="checkbox"
                         className={`mt-0.5 h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
-                        checked={selectedCategorySet.has(category)}
-                        onChange={() => toggleCategoryFilter(category)}
+                        checked={selectedCategorySet.has(name)}
+                        onChange={() => toggleCategoryFilter(name)}
                         onClick={(e) => e.stopPropagation()}
                       />
-                      <span className="truncate">{category}</span>
+                      <span className={`h-2.5 w-2.5 rounded-full flex-shrink-0 ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+                      <span className="truncate">{icon ? `${icon} ${name}` : name}</span>
                     </label>
                   ))}
                 </div>
@@ -1111,18 +2673,100 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
                   ))}
                 </div>
               </div>
-            </div>
-          )}
+
+              <div className={`mt-3 pt-2 border-t ${colors.border}`}>
+                <label className={`flex items-center gap-2 text-sm ${colors.textPrimary}`}>
+                  <input
+                    type="checkbox"
+                    className={`mt-0.5 h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+                    checked={showOpenTasksOnly}
+                    onChange={() => setShowOpenTasksOnly(prev => !prev)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  미완료 일정만 보기
+                </label>
+                <label className={`flex items-center gap-2 text-sm ${colors.textPrimary} mt-1`}>
+                  <input
+                    type="checkbox"
+                    className={`mt-0.5 h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+                    checked={showHiddenEvents}
+                    onChange={() => setShowHiddenEvents(prev => !prev)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  숨긴 일정 보기{hiddenEventCount > 0 ? ` (${hiddenEventCount})` : ''}
+                </label>
+                <div className={`text-xs font-semibold ${colors.textSecondary} mt-3 mb-1`}>제목으로 기본일정 일괄 숨기기</div>
+                <input
+                  type="text"
+                  value={bulkHidePattern}
+                  onChange={(e) => setBulkHidePattern(e.target.value)}
+                  placeholder="예: 고등학교, 중학교"
+                  className={`w-full ${colors.inputBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+                />
+                {bulkHidePattern.trim() && (
+                  <div className={`mt-1 text-xs ${colors.textSecondary}`}>
+                    전체 연도에서 {bulkHideMatches.length}건 일치
+                  </div>
+                )}
+                <div className="mt-2 flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => applyBulkHide(true)}
+                    disabled={bulkHideMatches.length === 0}
+                    className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90 disabled:opacity-50`}
+                  >
+                    숨기기
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => applyBulkHide(false)}
+                    disabled={bulkHideMatches.length === 0}
+                    className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90 disabled:opacity-50`}
+                  >
+                    숨김 해제
+                  </button>
+                </div>
+              </div>
+
+              <div className={`mt-3 pt-2 border-t ${colors.border}`}>
+                <div className={`text-xs font-semibold ${colors.textSecondary} mb-1`}>캘린더 파일 (.ics)</div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleExportICal}
+                    className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90`}
+                    title="현재 필터에 맞는 전체 연도 일정을 내보냅니다"
+                  >
+                    내보내기
+                  </button>
+                  <label
+                    className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} hover:opacity-90 text-center cursor-pointer`}
+                  >
+                    <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportICalChange} />
+                    가져오기
+                  </label>
+                </div>
+                {icalStatus && (
+                  <div className={`mt-1 text-xs ${icalStatus.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                    {icalStatus.message}
+                  </div>
+                )}
+                <p className={`mt-1 text-[11px] ${colors.textSecondary} leading-relaxed`}>
+                  Google·Outlook 캘린더와 주고받을 수 있습니다. 같은 날짜·제목의 일정은 다시 추가하지 않습니다.
+                </p>
+              </div>
+            </div>
+          )}
         </div>
         <button
-          onClick={() => viewMode === 'month' ? changeMonth(-1) : changeWeek(-1)}
+          onClick={() => changePeriod(-1)}
           className={`p-2 rounded-full ${colors.hoverEffect} focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-opacity-50 transition-colors group`}
           aria-label="Previous"
         >
           <PrevIcon />
         </button>
         <button
-          onClick={() => viewMode === 'month' ? changeMonth(1) : changeWeek(1)}
+          onClick={() => changePeriod(1)}
           className={`p-2 rounded-full ${colors.hoverEffect} focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-opacity-50 transition-colors group`}
           aria-label="Next"
         >
@@ -1150,21 +2794,49 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
 
     const days = [];
     const MAX_EVENTS_VISIBLE = 2; // Limit to 2 events
+    // Multi-day bars keep one lane per calendar row, so their segments line up across the week.
+    const multiDayEvents = filteredEvents.filter(isMultiDayEvent);
+    const weekLanes = new Map<string, Map<string, number>>();
+    const getWeekLanes = (weekStartKey: string) => {
+      let lanes = weekLanes.get(weekStartKey);
+      if (!lanes) {
+        lanes = assignSpanLanes(multiDayEvents, weekStartKey, addDaysToDateKey(weekStartKey, 6));
+        weekLanes.set(weekStartKey, lanes);
+      }
+      return lanes;
+    };
 
     for (let day = 1; day <= daysInMonth; day++) {
       const isToday = day === today.getDate() && month === today.getMonth() && year === today.getFullYear();
       const cellDate = new Date(year, month, day);
       const dateKey = formatDateKey(cellDate);
-      const dayEvents = filteredEvents.filter(event => event.date === dateKey);
       const isExpanded = expandedDays.has(dateKey);
+      const holiday = getKoreanHoliday(dateKey);
+      const weekday = cellDate.getDay();
+      const dayNumberColor = holiday || weekday === 0 ? 'text-red-500' : weekday === 6 ? 'text-blue-500' : 'text-text-secondary';
+
+      const lanes = getWeekLanes(addDaysToDateKey(dateKey, -weekday));
+      const spanningEvents = multiDayEvents.filter(event => eventCoversDate(event, dateKey));
+      const laneCount = Math.max(0, ...spanningEvents.map(event => (lanes.get(event.id) ?? 0) + 1));
+      // Empty lanes stay as gaps so a bar that started earlier in the week does not jump up.
+      const laneSlots = Array.from(
+        { length: laneCount },
+        (_, lane) => spanningEvents.find(event => lanes.get(event.id) === lane) ?? null,
+      );
+      const singleDayEvents = filteredEvents
+        .filter(event => event.date === dateKey && !isMultiDayEvent(event))
+        .sort(compareEventTiming);
+      const dayEvents = [...spanningEvents, ...singleDayEvents];
+      const daySlots = [...laneSlots, ...singleDayEvents];
 
-      const shouldShowButton = !isExpanded && dayEvents.length > MAX_EVENTS_VISIBLE;
-      const eventsToShow = isExpanded ? dayEvents : dayEvents.slice(0, MAX_EVENTS_VISIBLE);
+      const eventsToShow = isExpanded ? daySlots : daySlots.slice(0, MAX_EVENTS_VISIBLE);
+      const hiddenEventCount = dayEvents.length - eventsToShow.filter(Boolean).length;
+      const shouldShowButton = !isExpanded && hiddenEventCount > 0;
 
       days.push(
         <div key={day} className="relative min-h-[100px] h-full">
           <div
-            aria-label={`${KOREAN_MONTH_NAMES[month]} ${day}일, ${year}. ${dayEvents.length}개의 일정. 클릭하여 일정 추가.`}
+            aria-label={`${KOREAN_MONTH_NAMES[month]} ${day}일, ${year}.${holiday ? ` ${holiday.name}.` : ''} ${dayEvents.length}개의 일정. 클릭하여 일정 추가.`}
             onClick={() => {
               if (draggingEventId) return;
               if (didJustDropRef.current) return;
@@ -1182,10 +2854,7 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
             onDrop={(e) => {
               e.preventDefault();
               e.stopPropagation();
-              const droppedId = e.dataTransfer.getData('text/plain');
-              if (droppedId) {
-                moveEventToDate(droppedId, dateKey);
-              }
+              handleEventDrop(e, dateKey);
               didJustDropRef.current = true;
               window.setTimeout(() => {
                 didJustDropRef.current = false;
@@ -1215,15 +2884,23 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
             ${dragOverDateKey === dateKey ? 'ring-2 ring-accent-primary' : ''}
             `}
           >
+            {holiday && <div className="pointer-events-none absolute inset-0 rounded-lg bg-red-500/5" aria-hidden="true" />}
             <div className="flex justify-between items-center w-full mb-0.5 flex-shrink-0">
-              <span className={`
-                text-xs font-semibold ml-1
-                ${isToday
-                  ? 'bg-accent-primary text-white w-5 h-5 flex items-center justify-center rounded-full -ml-1 text-[10px]'
-                  : 'text-text-secondary'
-                }
-              `}>
-                {day}
+              <span className="flex items-center gap-1 min-w-0">
+                <span className={`
+                  text-xs font-semibold ml-1 flex-shrink-0
+                  ${isToday
+                    ? 'bg-accent-primary text-white w-5 h-5 flex items-center justify-center rounded-full -ml-1 text-[10px]'
+                    : dayNumberColor
+                  }
+                `}>
+                  {day}
+                </span>
+                {holiday && (
+                  <span className="text-[9px] sm:text-[10px] text-red-500 truncate" title={holiday.name}>
+                    {holiday.name}
+                  </span>
+                )}
               </span>
               <button
                 type="button"
@@ -1244,8 +2921,16 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
             </div>
 
             <div className={`w-full space-y-0.5 flex flex-col ${isExpanded ? '' : 'overflow-hidden'}`}>
-              {eventsToShow.map((event) => {
+              {eventsToShow.map((event, index) => {
+                if (!event) return <div key={`lane-${index}`} className="h-5 flex-shrink-0" aria-hidden="true" />;
                 const isUser = event.kind === 'user';
+                const categoryStyle = getCategoryDefinition(categorySettings, event.category);
+                const isSpanning = isMultiDayEvent(event);
+                const isSpanStart = !isSpanning || event.date === dateKey;
+                const isSpanEnd = !isSpanning || getEventEndDate(event) === dateKey;
+                // Titles repeat at the start of each calendar row so wrapped bars stay readable.
+                const showTitle = isSpanStart || weekday === 0 || day === 1;
+                const timing = formatEventTiming(event);
                 return (
                   <button
                     key={event.id}
@@ -1267,18 +2952,46 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
                       setDragOverDateKey(null);
                     }}
                     className={`
-                      text-left w-full text-[10px] sm:text-[11px] px-1.5 rounded transition-all shadow-sm
+                      relative text-left text-[10px] sm:text-[11px] px-1.5 transition-all shadow-sm
                       truncate leading-tight font-bold
                       border flex-shrink-0 h-5 flex items-center
+                      ${isSpanStart ? 'rounded-l' : '-ml-1 sm:-ml-2'}
+                      ${isSpanEnd ? 'rounded-r' : '-mr-1 sm:-mr-2'}
                       ${isUser
-                        ? 'bg-accent-primary text-white border-transparent hover:opacity-90'
-                        : 'bg-tertiary text-text-primary border-transparent hover:opacity-90'
-                      } 
+                        ? CATEGORY_COLOR_CLASSES[categoryStyle.color].solid
+                        : CATEGORY_COLOR_CLASSES[categoryStyle.color].soft
+                      } border-transparent hover:opacity-90
+                      ${event.hidden ? 'opacity-50 italic' : ''}
+                      ${event.status === 'done' ? 'line-through opacity-60' : event.status === 'inProgress' ? 'ring-1 ring-amber-400' : ''}
                       cursor-grab active:cursor-grabbing
                     `}
-                    title={event.title}
+                    title={[event.title, event.category, timing, event.status ? EVENT_STATUS_LABELS[event.status] : '']
+                      .filter(Boolean)
+                      .join(' · ')}
                   >
-                    {event.title}
+                    {showTitle ? (
+                      <span className="truncate">
+                        {categoryStyle.icon && <span className="mr-0.5" aria-hidden="true">{categoryStyle.icon}</span>}
+                        {event.startTime && isSpanStart && <span className="font-normal mr-1">{event.startTime}</span>}
+                        {event.title}
+                      </span>
+                    ) : (
+                      <span aria-hidden="true">&nbsp;</span>
+                    )}
+                    {isSpanEnd && !event.seriesId && (
+                      <span
+                        draggable
+                        onDragStart={(e) => startEventResize(e, event.id)}
+                        onDragEnd={() => {
+                          setDraggingEventId(null);
+                          setDragOverDateKey(null);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize rounded-r hover:bg-white/40"
+                        title="끝을 끌어 기간 조절"
+                        aria-hidden="true"
+                      />
+                    )}
                   </button>
                 );
               })}
@@ -1292,10 +3005,10 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
                   }}
                   className="text-[10px] font-bold text-text-tertiary hover:text-text-primary hover:bg-tertiary/50 mt-0.5 h-4 flex items-center justify-center w-full text-center rounded transition-colors flex-shrink-0"
                 >
-                  +{dayEvents.length - MAX_EVENTS_VISIBLE}개 더보기
+                  +{hiddenEventCount}개 더보기
                 </button>
               )}
-              {isExpanded && dayEvents.length > MAX_EVENTS_VISIBLE && (
+              {isExpanded && daySlots.length > MAX_EVENTS_VISIBLE && (
                 <button
                   type="button"
                   onClick={(e) => {
@@ -1315,6 +3028,89 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     return <>{[...blanks, ...days]}</>;
   };
 
+  const renderProgressSection = (event: CalendarEvent): React.ReactNode => {
+    const currentStatus = event.status ?? 'notStarted';
+    const checklist = event.checklist ?? [];
+    const doneCount = checklist.filter(item => item.done).length;
+
+    return (
+      <div className={`mb-4 p-3 rounded-lg border ${colors.border} ${colors.inputBg}`}>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className={`text-sm font-semibold ${colors.textPrimary}`}>진행 상태</span>
+          <div className="flex gap-1" role="radiogroup" aria-label="진행 상태">
+            {EVENT_STATUSES.map(status => (
+              <button
+                key={status}
+                type="button"
+                role="radio"
+                aria-checked={currentStatus === status}
+                onClick={() => updateEventProgress(event, { status })}
+                className={`px-2.5 py-1 text-xs font-semibold rounded-md border transition-colors ${currentStatus === status
+                  ? `${colors.accentBg} ${colors.buttonText} border-transparent`
+                  : `${colors.border} ${colors.textSecondary} ${colors.hoverEffect}`
+                  }`}
+              >
+                {EVENT_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={`mt-3 text-xs font-semibold ${colors.textSecondary}`}>
+          체크리스트{checklist.length > 0 ? ` (${doneCount}/${checklist.length})` : ''}
+        </div>
+        {checklist.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {checklist.map(item => (
+              <li key={item.id} className="flex items-center gap-2 group">
+                <input
+                  type="checkbox"
+                  checked={item.done}
+                  onChange={() => toggleChecklistItem(event, item.id)}
+                  className={`h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+                  aria-label={item.text}
+                />
+                <span className={`flex-1 text-sm ${item.done ? `line-through ${colors.textSecondary}` : colors.textPrimary}`}>
+                  {item.text}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeChecklistItem(event, item.id)}
+                  className={`text-xs ${colors.textSecondary} opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity`}
+                  aria-label={`${item.text} 삭제`}
+                >
+                  삭제
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          className="mt-2 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addChecklistItem(event);
+          }}
+        >
+          <input
+            type="text"
+            value={checklistDraftText}
+            onChange={(e) => setChecklistDraftText(e.target.value)}
+            placeholder="세부 할 일 추가"
+            className={`flex-1 ${colors.componentBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+          />
+          <button
+            type="submit"
+            disabled={!checklistDraftText.trim()}
+            className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-1 px-3 rounded-md transition-colors text-xs disabled:opacity-50`}
+          >
+            추가
+          </button>
+        </form>
+      </div>
+    );
+  };
+
   const renderEventModal = (): React.ReactNode => {
     if (!selectedEvent) return null;
 
@@ -1322,6 +3118,15 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     const groundingChunksForEvent = eventGrounding[selectedEvent.id];
     const isSelectedGenerating = isGeneratingDescription && generationTargetEventId === selectedEvent.id;
     const selectedGenerationError = generationTargetEventId === selectedEvent.id ? generationError : null;
+    const selectedEventProjectId = userEvents.find(ev => ev.id === (selectedEvent.seriesId ?? selectedEvent.id))?.projectId;
+    const selectedEventProject = projects.find(project => project.id === selectedEventProjectId);
+    const predecessorTitles = (userEvents.find(ev => ev.id === selectedEvent.id)?.dependencies ?? []).flatMap(
+      ({ predecessorId }) => userEvents.find(ev => ev.id === predecessorId)?.title ?? [],
+    );
+    const successorTitles = userEvents
+      .filter(ev => canHaveDependencies(ev) && ev.dependencies?.some(dependency => dependency.predecessorId === selectedEvent.id))
+      .map(ev => ev.title);
+    const hasDependencyViolation = findDependencyViolations(userEvents, selectedEvent.id).length > 0;
 
     let section1Title = "업무/일정 설명";
     let section1Content = "";
@@ -1331,223 +3136,892 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     let section3Content = "";
     let otherContent = "";
 
-    if (descriptionText) {
-      const text = descriptionText;
+    if (descriptionText) {
+      const text = descriptionText;
+
+      const s1HeaderMatch = text.match(/1\.\s*(?:\*\*)?업무\/일정 설명(?:\*\*)?:?/i);
+      const s2HeaderMatch = text.match(/2\.\s*(?:\*\*)?업무처리절차(?:\*\*)?:?/i);
+      const s3HeaderMatch = text.match(/3\.\s*(?:\*\*)?학교행정업무매뉴얼 참조(?:\*\*)?:?/i);
+
+      let s1StartIdx = s1HeaderMatch ? (s1HeaderMatch.index || 0) + s1HeaderMatch[0].length : -1;
+      let s2StartIdx = s2HeaderMatch ? (s2HeaderMatch.index || 0) + s2HeaderMatch[0].length : -1;
+      let s3StartIdx = s3HeaderMatch ? (s3HeaderMatch.index || 0) + s3HeaderMatch[0].length : -1;
+
+      // Determine end points for each section
+      let s1EndIdx = text.length;
+      if (s2HeaderMatch && (s2HeaderMatch.index || 0) > s1StartIdx && s1StartIdx !== -1) s1EndIdx = Math.min(s1EndIdx, s2HeaderMatch.index || 0);
+      if (s3HeaderMatch && (s3HeaderMatch.index || 0) > s1StartIdx && s1StartIdx !== -1) s1EndIdx = Math.min(s1EndIdx, s3HeaderMatch.index || 0);
+
+      let s2EndIdx = text.length;
+      if (s3HeaderMatch && (s3HeaderMatch.index || 0) > s2StartIdx && s2StartIdx !== -1) s2EndIdx = Math.min(s2EndIdx, s3HeaderMatch.index || 0);
+
+      if (s1StartIdx !== -1) {
+        section1Content = text.substring(s1StartIdx, s1EndIdx).trim();
+      }
+      if (s2StartIdx !== -1 && (!s1HeaderMatch || (s2HeaderMatch?.index || 0) >= s1EndIdx)) {
+        section2Content = text.substring(s2StartIdx, s2EndIdx).trim();
+      }
+      if (s3StartIdx !== -1 && (!s2HeaderMatch || (s3HeaderMatch?.index || 0) >= s2EndIdx)) {
+        section3Content = text.substring(s3StartIdx).trim();
+      }
+
+      if (!s1HeaderMatch && !s2HeaderMatch && !s3HeaderMatch && text) {
+        otherContent = text.trim();
+      } else if (s1HeaderMatch && !section1Content && !section2Content && !section3Content) {
+        // If only S1 header found, S1 content is the rest of the string from S1 header
+        if (s1StartIdx !== -1) section1Content = text.substring(s1StartIdx).trim();
+      }
+    }
+
+    // Function to render markdown content for modal
+    const renderMarkdownModal = (markdownText: string) => {
+      if (!markdownText) return null;
+      const rawHtml = marked.parse(markdownText, { breaks: true, gfm: true }) as string;
+      // Basic styling for lists, can be expanded
+      const styledHtml = rawHtml
+        .replace(/<ul>/g, '<ul class="list-disc list-outside ml-5 space-y-1">')
+        .replace(/<ol>/g, '<ol class="list-decimal list-outside ml-5 space-y-1">')
+        .replace(/<li>/g, `<li class="text-sm ${colors.textSecondary} leading-relaxed">`)
+        .replace(/<p>/g, `<p class="text-sm ${colors.textSecondary} leading-relaxed mb-2">`)
+        .replace(/<strong>/g, `<strong class="font-semibold ${colors.textPrimary}">`)
+        .replace(/<h3>/g, `<h3 class="text-base font-semibold ${colors.accentColor} mt-2 mb-1">`)
+        .replace(/<h4>/g, `<h4 class="text-sm font-semibold ${colors.accentColor} mt-1 mb-1">`);
+      return <div dangerouslySetInnerHTML={{ __html: styledHtml }} />;
+    };
+
+
+    return (
+      <div
+        className={`fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[100]`}
+        onClick={() => setSelectedEvent(null)}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-modal-title"
+      >
+        <div
+          className={`${colors.componentBg} p-5 sm:p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col ${colors.textPrimary} border ${colors.border}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex justify-between items-start mb-4 flex-shrink-0 gap-3">
+            <div className="min-w-0">
+              <h3 id="event-modal-title" className={`text-lg font-semibold ${colors.accentColor} truncate`}>{selectedEvent.title}</h3>
+              <p className={`text-xs ${colors.textSecondary} mt-0.5`}>
+                AI 보고서 · {aiProvider === 'gemini' ? 'Gemini' : aiProvider === 'openrouter' ? 'OpenRouter' : '미설정'}
+                {selectedEvent.category ? ` · ${selectedEvent.category}` : ''}
+              </p>
+              {formatEventTiming(selectedEvent) && (
+                <p className={`text-xs ${colors.textSecondary} mt-0.5`}>일시: {formatEventTiming(selectedEvent)}</p>
+              )}
+              {selectedEvent.recurrence && (
+                <p className={`text-xs ${colors.textSecondary} mt-0.5`}>
+                  반복: {describeRecurrence(selectedEvent.recurrence, userEvents.find(ev => ev.id === selectedEvent.seriesId)?.date ?? selectedEvent.date)}
+                </p>
+              )}
+              {selectedEventProject && (
+                <p className={`text-xs ${colors.textSecondary} mt-0.5`}>
+                  프로젝트:{' '}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSelectedEvent(null);
+                      setProjectPanelId(selectedEventProject.id);
+                    }}
+                    className={`${colors.textPrimary} underline`}
+                  >
+                    {selectedEventProject.name}
+                  </button>
+                </p>
+              )}
+              {predecessorTitles.length > 0 && (
+                <p className={`text-xs ${colors.textSecondary} mt-0.5 truncate`}>선행: {predecessorTitles.join(', ')}</p>
+              )}
+              {successorTitles.length > 0 && (
+                <p className={`text-xs ${colors.textSecondary} mt-0.5 truncate`}>후속: {successorTitles.join(', ')}</p>
+              )}
+              {hasDependencyViolation && (
+                <p className="text-xs text-amber-300 mt-0.5">선행 관계가 어긋난 일정이 있습니다. 날짜를 확인하세요.</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedEvent(null);
+                  openEditEditor(selectedEvent);
+                }}
+                className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-1.5 px-3 rounded-lg transition-colors text-sm`}
+              >
+                수정
+              </button>
+              <button
+                onClick={() => setSelectedEvent(null)}
+                className={`p-1 ${colors.textSecondary} hover:${colors.textPrimary} transition-colors rounded-full ${colors.hoverEffect}`}
+                aria-label="팝업 닫기"
+                type="button"
+              >
+                <CloseIcon />
+              </button>
+            </div>
+          </div>
+
+          <div className={`flex gap-1 mb-3 border-b ${colors.border} flex-shrink-0`} role="tablist">
+            {([['report', 'AI 보고서'], ['notes', '메모'], ['history', '변경 기록']] as const).map(([tab, label]) => (
+              <button
+                key={tab}
+                type="button"
+                role="tab"
+                aria-selected={eventModalTab === tab}
+                onClick={() => setEventModalTab(tab)}
+                className={`px-3 py-1.5 text-sm -mb-px border-b-2 transition-colors ${
+                  eventModalTab === tab
+                    ? `border-cyan-500 ${colors.accentColor} font-semibold`
+                    : `border-transparent ${colors.textSecondary} ${colors.hoverEffect}`
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {eventModalTab === 'history' ? (
+            renderAuditHistory(selectedEvent)
+          ) : eventModalTab === 'notes' ? (
+            renderNotesTab(selectedEvent, renderMarkdownModal)
+          ) : (
+            <div className="overflow-y-auto flex-grow pr-1 scrollbar-thin scrollbar-track-transparent scrollbar-thumb-blue-700 hover:scrollbar-thumb-blue-600 active:scrollbar-thumb-blue-500 scrollbar-thumb-rounded-md">
+              {renderProgressSection(selectedEvent)}
+              {isSelectedGenerating && !descriptionText && !selectedGenerationError && (
+                <div className="text-sm text-slate-300 py-4">
+                  <ul className="space-y-2.5">
+                    {loadingMessages.map((message, index) => (
+                      <li key={index} className="flex items-center space-x-2.5">
+                        {index < loadingStep ? (
+                          <CheckIconMini className="text-green-500 flex-shrink-0" />
+                        ) : index === loadingStep && isGeneratingDescription ? (
+                          <SpinnerIconMini className="flex-shrink-0" />
+                        ) : (
+                          <PendingIconMini className="text-slate-500 flex-shrink-0" />
+                        )}
+                        <span className={`${index < loadingStep ? 'text-slate-500 line-through' : (index === loadingStep && isGeneratingDescription) ? 'text-cyan-400 font-medium' : 'text-slate-400'}`}>
+                          {message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {loadingStep >= loadingMessages.length && isSelectedGenerating && (
+                    <div className="flex items-center space-x-2.5 mt-3">
+                      <SpinnerIconMini className="flex-shrink-0" />
+                      <span className="text-cyan-400 font-medium">마무리 중...</span>
+                    </div>
+                  )}
+                </div>
+              )}
+              {selectedGenerationError && (
+                <div className="text-sm text-red-400 bg-red-900/20 border border-red-700 p-3 rounded-md">
+                  <p className="font-semibold mb-1">오류</p>
+                  {selectedGenerationError}
+                </div>
+              )}
+
+              {!descriptionText && !isSelectedGenerating && !selectedGenerationError && (
+                <div className={`text-sm ${colors.textSecondary} py-4`}>
+                  <p className={`font-semibold ${colors.textPrimary} mb-1`}>AI 보고서를 생성할 수 없습니다.</p>
+                  <p>
+                    상단 <span className={`${colors.textPrimary} font-medium`}>API Key 설정</span>에서 Gemini 또는 OpenRouter 키를 등록한 뒤 다시 생성해주세요.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => fetchEventDescription(selectedEvent)}
+                    className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-3 rounded-lg transition-colors text-xs mt-3`}
+                  >
+                    AI 보고서 생성
+                  </button>
+                </div>
+              )}
+
+              {descriptionText && !selectedGenerationError && (
+                <>
+                  {otherContent && (
+                    <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
+                      {renderMarkdownModal(otherContent)}
+                    </div>
+                  )}
+                  {section1Content && (
+                    <div className="mb-4">
+                      <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section1Title}</h4>
+                      <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
+                        {renderMarkdownModal(section1Content)}
+                      </div>
+                    </div>
+                  )}
+                  {section2Content && (
+                    <div className="mb-4">
+                      <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section2Title}</h4>
+                      <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
+                        {renderMarkdownModal(section2Content)}
+                      </div>
+                    </div>
+                  )}
+                  {section3Content && (
+                    <div className="mb-4">
+                      <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section3Title}</h4>
+                      <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
+                        {renderMarkdownModal(section3Content)}
+                      </div>
+                    </div>
+                  )}
+
+                  {groundingChunksForEvent && groundingChunksForEvent.length > 0 && (
+                    <div className="mt-5 pt-4 border-t border-slate-700">
+                      <h4 className="text-xs font-semibold text-slate-400 mb-2">참고 자료 (Google 검색):</h4>
+                      <ul className="space-y-1.5">
+                        {groundingChunksForEvent.map((chunk, index) => {
+                          if (chunk.web && chunk.web.uri) {
+                            return (
+                              <li key={index} className="text-xs">
+                                <a
+                                  href={chunk.web.uri}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-cyan-500 hover:text-cyan-400 hover:underline"
+                                  title={chunk.web.title || chunk.web.uri}
+                                >
+                                  {chunk.web.title || chunk.web.uri}
+                                </a>
+                              </li>
+                            );
+                          }
+                          return null;
+                        }).filter(Boolean)}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+              {!aiProvider && (!selectedEvent?.id || (!eventDescriptions[selectedEvent!.id] && !isGeneratingDescription && !generationError)) && (
+                <div
+                  className={`text-sm p-3 rounded-md mt-3 border ${
+                    theme === 'dark'
+                      ? 'text-yellow-200 bg-yellow-900/30 border-yellow-700'
+                      : 'text-amber-950 bg-amber-200/80 border-amber-300'
+                  }`}
+                >
+                  AI 기능을 사용하려면 API 키가 필요합니다. 현재 설정되어 있지 않습니다.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderNotesTab = (event: CalendarEvent, renderMarkdown: (markdownText: string) => React.ReactNode): React.ReactNode => {
+    const links = event.links ?? [];
+    const attachments = event.attachments ?? [];
+    const fieldClass = `${colors.componentBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`;
+    const smallButtonClass = `${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-1 px-3 rounded-md transition-colors text-xs disabled:opacity-50`;
+
+    return (
+      <div className="overflow-y-auto flex-grow pr-1 scrollbar-thin space-y-4">
+        {event.seriesId && <p className={`text-xs ${colors.textSecondary}`}>반복 일정 전체에 함께 적용됩니다.</p>}
+        {notesError && (
+          <p className="text-xs text-red-400" role="alert">
+            {notesError}
+          </p>
+        )}
+
+        <section>
+          <div className="flex items-center justify-between mb-1">
+            <span className={`text-sm font-semibold ${colors.textPrimary}`}>메모</span>
+            {notesDraftText === null ? (
+              <button type="button" onClick={() => setNotesDraftText(event.notes ?? '')} className={smallButtonClass}>
+                {event.notes ? '편집' : '작성'}
+              </button>
+            ) : (
+              <div className="flex gap-1">
+                <button type="button" onClick={() => setNotesDraftText(null)} className={`text-xs ${colors.textSecondary} px-2 py-1 rounded-md ${colors.hoverEffect}`}>
+                  취소
+                </button>
+                <button type="button" onClick={() => saveNotesDraft(event)} className={smallButtonClass}>
+                  저장
+                </button>
+              </div>
+            )}
+          </div>
+          {notesDraftText !== null ? (
+            <textarea
+              value={notesDraftText}
+              onChange={(e) => setNotesDraftText(e.target.value)}
+              rows={8}
+              placeholder="마크다운을 쓸 수 있습니다. (예: **굵게**, - 목록, [링크](https://...))"
+              className={`w-full ${fieldClass}`}
+              autoFocus
+            />
+          ) : event.notes ? (
+            <div className={`p-3 rounded-lg border ${colors.border} ${colors.inputBg} break-words`}>
+              {renderMarkdown(toSafeNotesMarkdown(event.notes))}
+            </div>
+          ) : (
+            <p className={`text-sm ${colors.textSecondary}`}>작성된 메모가 없습니다.</p>
+          )}
+        </section>
+
+        <section>
+          <span className={`text-sm font-semibold ${colors.textPrimary}`}>링크{links.length > 0 ? ` (${links.length})` : ''}</span>
+          {links.length > 0 && (
+            <ul className="mt-1 space-y-1">
+              {links.map(link => (
+                <li key={link.id} className="flex items-center gap-2 group">
+                  <a
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`flex-1 min-w-0 truncate text-sm ${colors.accentColor} hover:underline`}
+                    title={link.url}
+                  >
+                    {link.label ?? link.url}
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => removeLink(event, link.id)}
+                    className={`text-xs ${colors.textSecondary} opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity`}
+                    aria-label={`${link.label ?? link.url} 삭제`}
+                  >
+                    삭제
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {canAddLink(event) && (
+            <form
+              className="mt-2 flex flex-wrap gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addLink(event);
+              }}
+            >
+              <input
+                type="text"
+                value={linkDraftUrl}
+                onChange={(e) => setLinkDraftUrl(e.target.value)}
+                placeholder="https://"
+                className={`flex-[2] min-w-[10rem] ${fieldClass}`}
+                aria-label="링크 주소"
+              />
+              <input
+                type="text"
+                value={linkDraftLabel}
+                onChange={(e) => setLinkDraftLabel(e.target.value)}
+                placeholder="이름 (선택)"
+                className={`flex-1 min-w-[6rem] ${fieldClass}`}
+                aria-label="링크 이름"
+              />
+              <button type="submit" disabled={!linkDraftUrl.trim()} className={smallButtonClass}>
+                추가
+              </button>
+            </form>
+          )}
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between">
+            <span className={`text-sm font-semibold ${colors.textPrimary}`}>
+              첨부 파일{attachments.length > 0 ? ` (${attachments.length})` : ''}
+            </span>
+            {canAddAttachment(event) && (
+              <button
+                type="button"
+                onClick={() => attachmentInputRef.current?.click()}
+                disabled={isUploadingAttachment}
+                className={smallButtonClass}
+              >
+                {isUploadingAttachment ? '저장 중...' : '파일 추가'}
+              </button>
+            )}
+            <input ref={attachmentInputRef} type="file" className="hidden" onChange={(e) => handleAttachmentChange(event, e)} />
+          </div>
+          <p className={`text-[11px] ${colors.textSecondary} mt-0.5`}>
+            파일은 이 기기의 브라우저에만 저장됩니다. (파일당 {formatFileSize(MAX_ATTACHMENT_BYTES)}까지, 백업에 포함)
+          </p>
+          {attachments.length > 0 && (
+            <ul className="mt-1 space-y-1">
+              {attachments.map(attachment => (
+                <li key={attachment.id} className="flex items-center gap-2 group">
+                  <button
+                    type="button"
+                    onClick={() => downloadAttachment(attachment)}
+                    className={`flex-1 min-w-0 truncate text-left text-sm ${colors.accentColor} hover:underline`}
+                    title="내려받기"
+                  >
+                    {attachment.name}
+                  </button>
+                  <span className={`text-xs ${colors.textSecondary}`}>{formatFileSize(attachment.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(event, attachment.id)}
+                    className={`text-xs ${colors.textSecondary} opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity`}
+                    aria-label={`${attachment.name} 삭제`}
+                  >
+                    삭제
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    );
+  };
+
+  const renderAuditHistory = (event: CalendarEvent): React.ReactNode => {
+    const projectNames = Object.fromEntries(projects.map(project => [project.id, project.name]));
+    return (
+      <div className="overflow-y-auto flex-grow pr-1 scrollbar-thin">
+        <p className={`text-xs ${colors.textSecondary} mb-2`}>
+          {event.kind === 'builtin'
+            ? '기본 일정은 바꾼 항목만 기록됩니다. (기본값 = 연간 일정표의 내용)'
+            : event.seriesId
+              ? '반복 일정 전체의 변경 기록입니다.'
+              : '이 일정의 생성·수정·삭제 기록입니다.'}
+        </p>
+        {auditEntries === null ? (
+          <p className={`text-sm ${colors.textSecondary} py-4`}>변경 기록을 불러오는 중입니다...</p>
+        ) : auditEntries.length === 0 ? (
+          <p className={`text-sm ${colors.textSecondary} py-4`}>기록된 변경 내역이 없습니다.</p>
+        ) : (
+          <ol className="space-y-2">
+            {[...auditEntries].reverse().map((entry, index) => {
+              const changes = describeAuditChanges(entry, projectNames);
+              return (
+                <li key={`${entry.at}-${index}`} className={`border ${colors.border} rounded-md p-2.5`}>
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+                    <span className={`text-sm font-semibold ${colors.textPrimary}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                    <span className={`text-[11px] px-1.5 py-0.5 rounded ${colors.buttonBg} ${colors.textSecondary}`}>
+                      {AUDIT_ORIGIN_LABELS[entry.origin]}
+                    </span>
+                    <span className={`text-xs ${colors.textSecondary} ml-auto`}>{formatAuditTime(entry.at)}</span>
+                  </div>
+                  {changes.length > 0 && (
+                    <ul className="mt-1.5 space-y-0.5">
+                      {changes.map(change => (
+                        <li key={change.field} className={`text-xs ${colors.textSecondary} break-words`}>
+                          <span className={colors.textPrimary}>{change.label}</span>: {change.before} → {change.after}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    );
+  };
+
+  const renderTimingFields = (): React.ReactNode => {
+    const fieldClass = `w-full p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`;
+    return (
+      <div>
+        <label className={`text-sm ${colors.textPrimary} block mb-1`}>기간 · 시간</label>
+        <div className="grid grid-cols-3 gap-2">
+          <label className={`text-[11px] ${colors.textSecondary}`}>
+            종료일
+            <input type="date" value={draftEndDate} onChange={(e) => setDraftEndDate(e.target.value)} className={fieldClass} />
+          </label>
+          <label className={`text-[11px] ${colors.textSecondary}`}>
+            시작 시각
+            <input
+              type="time"
+              value={draftStartTime}
+              onChange={(e) => {
+                setDraftStartTime(e.target.value);
+                if (!e.target.value) setDraftEndTime('');
+              }}
+              className={fieldClass}
+            />
+          </label>
+          <label className={`text-[11px] ${colors.textSecondary}`}>
+            종료 시각
+            <input
+              type="time"
+              value={draftEndTime}
+              onChange={(e) => setDraftEndTime(e.target.value)}
+              disabled={!draftStartTime}
+              className={`${fieldClass} disabled:opacity-50`}
+            />
+          </label>
+        </div>
+        <p className="text-[11px] text-slate-500 mt-1">종료일을 비우면 하루 일정, 시작 시각을 비우면 종일 일정입니다.</p>
+      </div>
+    );
+  };
 
-      const s1HeaderMatch = text.match(/1\.\s*(?:\*\*)?업무\/일정 설명(?:\*\*)?:?/i);
-      const s2HeaderMatch = text.match(/2\.\s*(?:\*\*)?업무처리절차(?:\*\*)?:?/i);
-      const s3HeaderMatch = text.match(/3\.\s*(?:\*\*)?학교행정업무매뉴얼 참조(?:\*\*)?:?/i);
+  const renderReminderFields = (): React.ReactNode => {
+    const category = resolveCategory(categorySettings, draftCategory);
+    const defaultLeadDays = reminderSettings.categoryLeadDays[category] ?? reminderSettings.defaultLeadDays;
 
-      let s1StartIdx = s1HeaderMatch ? (s1HeaderMatch.index || 0) + s1HeaderMatch[0].length : -1;
-      let s2StartIdx = s2HeaderMatch ? (s2HeaderMatch.index || 0) + s2HeaderMatch[0].length : -1;
-      let s3StartIdx = s3HeaderMatch ? (s3HeaderMatch.index || 0) + s3HeaderMatch[0].length : -1;
+    return (
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <label className={`text-sm ${colors.textPrimary}`} htmlFor="event-reminder">
+            알림 (며칠 전)
+          </label>
+          <label className={`flex items-center gap-1.5 text-xs ${colors.textSecondary}`}>
+            <input
+              type="checkbox"
+              checked={draftReminderUsesDefault}
+              onChange={(e) => setDraftReminderUsesDefault(e.target.checked)}
+              className={`h-3.5 w-3.5 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+            />
+            업무 기본값 ({defaultLeadDays.length > 0 ? `${formatLeadDays(defaultLeadDays)}일 전` : '알림 없음'})
+          </label>
+        </div>
+        {!draftReminderUsesDefault && (
+          <input
+            id="event-reminder"
+            type="text"
+            value={draftReminderText}
+            onChange={(e) => setDraftReminderText(e.target.value)}
+            placeholder="예: 7, 1 (비우면 알림 없음)"
+            className={`w-full p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`}
+          />
+        )}
+        {!reminderSettings.enabled && (
+          <p className={`mt-1 text-[11px] ${colors.textSecondary}`}>알림이 꺼져 있습니다. (API Key 설정 &gt; 알림)</p>
+        )}
+      </div>
+    );
+  };
 
-      // Determine end points for each section
-      let s1EndIdx = text.length;
-      if (s2HeaderMatch && (s2HeaderMatch.index || 0) > s1StartIdx && s1StartIdx !== -1) s1EndIdx = Math.min(s1EndIdx, s2HeaderMatch.index || 0);
-      if (s3HeaderMatch && (s3HeaderMatch.index || 0) > s1StartIdx && s1StartIdx !== -1) s1EndIdx = Math.min(s1EndIdx, s3HeaderMatch.index || 0);
+  const renderDependencyFields = (): React.ReactNode => {
+    const draftDateKey = formatDateKey(new Date(draftYear, draftMonth - 1, draftDay));
+    const fieldClass = `p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`;
+    const linkedIds = new Set(draftDependencies.map(dependency => dependency.predecessorId));
+    // Tasks of the same project come first, as they are the usual predecessors.
+    const candidates = userEvents
+      .filter(ev => ev.id !== draftId && canHaveDependencies(ev) && !linkedIds.has(ev.id))
+      .sort(
+        (a, b) =>
+          Number(b.projectId === draftProjectId && Boolean(draftProjectId)) -
+            Number(a.projectId === draftProjectId && Boolean(draftProjectId)) ||
+          a.date.localeCompare(b.date),
+      );
 
-      let s2EndIdx = text.length;
-      if (s3HeaderMatch && (s3HeaderMatch.index || 0) > s2StartIdx && s2StartIdx !== -1) s2EndIdx = Math.min(s2EndIdx, s3HeaderMatch.index || 0);
+    return (
+      <div>
+        <label className={`text-sm ${colors.textPrimary} block mb-1`} htmlFor="event-dependency">
+          선행 일정
+        </label>
+        {draftDependencies.length > 0 && (
+          <ul className="space-y-1.5 mb-2">
+            {draftDependencies.map(({ predecessorId, lagDays }) => {
+              const predecessor = userEvents.find(ev => ev.id === predecessorId);
+              const earliestStart = predecessor ? getDependencyEarliestStart(predecessor, lagDays) : null;
+              return (
+                <li key={predecessorId} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`flex-1 min-w-0 truncate ${colors.textPrimary}`}>
+                      {predecessor ? `${predecessor.date} ${predecessor.title}` : '삭제된 일정'}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_DEPENDENCY_LAG_DAYS}
+                      value={lagDays}
+                      onChange={(e) => {
+                        const next = Math.min(Math.max(Math.trunc(Number(e.target.value)) || 0, 0), MAX_DEPENDENCY_LAG_DAYS);
+                        setDraftDependencies(prev =>
+                          prev.map(dependency =>
+                            dependency.predecessorId === predecessorId ? { ...dependency, lagDays: next } : dependency,
+                          ),
+                        );
+                      }}
+                      aria-label="선행 일정 종료 후 영업일 수"
+                      className={`w-16 ${fieldClass}`}
+                    />
+                    <span className={`text-xs ${colors.textSecondary} flex-shrink-0`}>영업일 후</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setDraftDependencies(prev => prev.filter(dependency => dependency.predecessorId !== predecessorId))
+                      }
+                      className={`px-1.5 rounded ${colors.textSecondary} ${colors.hoverEffect}`}
+                      aria-label="선행 일정 삭제"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {earliestStart && draftDateKey < earliestStart && (
+                    <p className="mt-0.5 text-[11px] text-amber-300">{earliestStart}부터 시작할 수 있습니다.</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <select
+          id="event-dependency"
+          value=""
+          onChange={(e) => addDraftDependency(e.target.value)}
+          className={`w-full ${fieldClass}`}
+        >
+          <option value="">선행 일정 추가…</option>
+          {candidates.map(ev => (
+            <option key={ev.id} value={ev.id}>
+              {ev.date} {ev.title}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  };
 
-      if (s1StartIdx !== -1) {
-        section1Content = text.substring(s1StartIdx, s1EndIdx).trim();
-      }
-      if (s2StartIdx !== -1 && (!s1HeaderMatch || (s2HeaderMatch?.index || 0) >= s1EndIdx)) {
-        section2Content = text.substring(s2StartIdx, s2EndIdx).trim();
-      }
-      if (s3StartIdx !== -1 && (!s2HeaderMatch || (s3HeaderMatch?.index || 0) >= s2EndIdx)) {
-        section3Content = text.substring(s3StartIdx).trim();
-      }
+  const renderRecurrenceFields = (): React.ReactNode => {
+    const draftDate = new Date(draftYear, draftMonth - 1, draftDay);
+    const draftDateKey = formatDateKey(draftDate);
+    const weekdayLabel = `${KOREAN_DAY_NAMES_SHORT[draftDate.getDay()]}요일`;
+    const nthLabel = ['첫째', '둘째', '셋째', '넷째', '다섯째'][Math.ceil(draftDay / 7) - 1];
+    const previewRule = buildDraftRecurrenceRule(draftDateKey).rule;
+    const fieldClass = `p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`;
 
-      if (!s1HeaderMatch && !s2HeaderMatch && !s3HeaderMatch && text) {
-        otherContent = text.trim();
-      } else if (s1HeaderMatch && !section1Content && !section2Content && !section3Content) {
-        // If only S1 header found, S1 content is the rest of the string from S1 header
-        if (s1StartIdx !== -1) section1Content = text.substring(s1StartIdx).trim();
-      }
-    }
+    return (
+      <div>
+        <label className={`text-sm ${colors.textPrimary} block mb-1`} htmlFor="event-recurrence">
+          반복
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            id="event-recurrence"
+            value={draftRecurrenceFrequency}
+            onChange={(e) => setDraftRecurrenceFrequency(e.target.value as RecurrenceFrequency | 'none')}
+            className={`flex-grow ${fieldClass}`}
+          >
+            <option value="none">반복 안 함</option>
+            <option value="daily">매일</option>
+            <option value="weekly">매주</option>
+            <option value="monthly">매월</option>
+            <option value="yearly">매년</option>
+          </select>
+          {draftRecurrenceFrequency !== 'none' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={draftRecurrenceInterval}
+                onChange={(e) => setDraftRecurrenceInterval(Number(e.target.value))}
+                className={`w-16 ${fieldClass}`}
+                aria-label="반복 간격"
+              />
+              <span className={`text-xs ${colors.textSecondary} whitespace-nowrap`}>
+                {draftRecurrenceFrequency === 'daily' ? '일마다' : draftRecurrenceFrequency === 'weekly' ? '주마다' : draftRecurrenceFrequency === 'monthly' ? '개월마다' : '년마다'}
+              </span>
+            </>
+          )}
+        </div>
 
-    // Function to render markdown content for modal
-    const renderMarkdownModal = (markdownText: string) => {
-      if (!markdownText) return null;
-      const rawHtml = marked.parse(markdownText, { breaks: true, gfm: true }) as string;
-      // Basic styling for lists, can be expanded
-      const styledHtml = rawHtml
-        .replace(/<ul>/g, '<ul class="list-disc list-outside ml-5 space-y-1">')
-        .replace(/<ol>/g, '<ol class="list-decimal list-outside ml-5 space-y-1">')
-        .replace(/<li>/g, `<li class="text-sm ${colors.textSecondary} leading-relaxed">`)
-        .replace(/<p>/g, `<p class="text-sm ${colors.textSecondary} leading-relaxed mb-2">`)
-        .replace(/<strong>/g, `<strong class="font-semibold ${colors.textPrimary}">`)
-        .replace(/<h3>/g, `<h3 class="text-base font-semibold ${colors.accentColor} mt-2 mb-1">`)
-        .replace(/<h4>/g, `<h4 class="text-sm font-semibold ${colors.accentColor} mt-1 mb-1">`);
-      return <div dangerouslySetInnerHTML={{ __html: styledHtml }} />;
-    };
+        {draftRecurrenceFrequency === 'weekly' && (
+          <div className="flex gap-1 mt-2">
+            {KOREAN_DAY_NAMES_SHORT.map((label, weekday) => {
+              const active = draftRecurrenceWeekdays.includes(weekday);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() =>
+                    setDraftRecurrenceWeekdays(prev =>
+                      prev.includes(weekday) ? prev.filter(d => d !== weekday) : [...prev, weekday]
+                    )
+                  }
+                  className={`w-8 h-8 rounded-full text-xs font-semibold border transition-colors ${active
+                    ? `${colors.accentBg} ${colors.buttonText} border-transparent`
+                    : `${colors.inputBg} ${colors.textSecondary} ${colors.border}`
+                    }`}
+                  aria-pressed={active}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {draftRecurrenceFrequency === 'monthly' && (
+          <select
+            value={draftMonthlyMode}
+            onChange={(e) => setDraftMonthlyMode(e.target.value as MonthlyRecurrenceMode)}
+            className={`w-full mt-2 ${fieldClass}`}
+            aria-label="매월 반복 기준"
+          >
+            <option value="dayOfMonth">매월 {draftDay}일</option>
+            {nthLabel && <option value="nthWeekday">매월 {nthLabel} {weekdayLabel}</option>}
+            <option value="lastWeekday">매월 마지막 {weekdayLabel}</option>
+          </select>
+        )}
+
+        {draftRecurrenceFrequency !== 'none' && (
+          <div className="flex items-center gap-2 mt-2">
+            <select
+              value={draftRecurrenceEnd}
+              onChange={(e) => setDraftRecurrenceEnd(e.target.value as 'never' | 'until' | 'count')}
+              className={`flex-grow ${fieldClass}`}
+              aria-label="반복 종료"
+            >
+              <option value="never">종료 없음</option>
+              <option value="until">종료일 지정</option>
+              <option value="count">횟수 지정</option>
+            </select>
+            {draftRecurrenceEnd === 'until' && (
+              <input
+                type="date"
+                value={draftRecurrenceUntil}
+                min={draftDateKey}
+                onChange={(e) => setDraftRecurrenceUntil(e.target.value)}
+                className={fieldClass}
+                aria-label="반복 종료일"
+              />
+            )}
+            {draftRecurrenceEnd === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={draftRecurrenceCount}
+                  onChange={(e) => setDraftRecurrenceCount(Number(e.target.value))}
+                  className={`w-20 ${fieldClass}`}
+                  aria-label="반복 횟수"
+                />
+                <span className={`text-xs ${colors.textSecondary}`}>회</span>
+              </>
+            )}
+          </div>
+        )}
+
+        {previewRule && (
+          <p className="text-[11px] text-slate-500 mt-1">{describeRecurrence(previewRule, draftDateKey)}</p>
+        )}
+        {draftOccurrenceDate && (
+          <p className="text-[11px] text-slate-500 mt-1">
+            반복 규칙을 바꾸면 전체 반복 일정에 적용됩니다. 날짜·내용만 바꾸면 적용 범위를 묻습니다.
+          </p>
+        )}
+      </div>
+    );
+  };
 
+  const renderRecurrenceScopeModal = (): React.ReactNode => {
+    if (!pendingRecurrenceAction) return null;
+
+    const actionLabel =
+      pendingRecurrenceAction.type === 'delete' ? '삭제' : pendingRecurrenceAction.type === 'move' ? '이동' : '수정';
+    const scopes: Array<{ scope: RecurrenceEditScope; label: string }> = [
+      { scope: 'this', label: '이 일정만' },
+      { scope: 'following', label: '이 일정 및 이후 일정' },
+      { scope: 'all', label: '모든 반복 일정' },
+    ];
 
     return (
       <div
-        className={`fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[100]`}
-        onClick={() => setSelectedEvent(null)}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[120]"
+        onClick={() => setPendingRecurrenceAction(null)}
         role="dialog"
         aria-modal="true"
-        aria-labelledby="event-modal-title"
+        aria-labelledby="recurrence-scope-title"
       >
         <div
-          className={`${colors.componentBg} p-5 sm:p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col ${colors.textPrimary} border ${colors.border}`}
+          className={`${colors.componentBg} p-5 rounded-lg shadow-2xl w-full max-w-xs flex flex-col ${colors.textPrimary} border ${colors.border}`}
           onClick={(e) => e.stopPropagation()}
         >
-          <div className="flex justify-between items-start mb-4 flex-shrink-0 gap-3">
-            <div className="min-w-0">
-              <h3 id="event-modal-title" className={`text-lg font-semibold ${colors.accentColor} truncate`}>{selectedEvent.title}</h3>
-              <p className={`text-xs ${colors.textSecondary} mt-0.5`}>
-                AI 보고서 · {aiProvider === 'gemini' ? 'Gemini' : aiProvider === 'openrouter' ? 'OpenRouter' : '미설정'}
-                {selectedEvent.category ? ` · ${selectedEvent.category}` : ''}
-              </p>
-            </div>
-            <div className="flex items-center gap-2 flex-shrink-0">
-              <button
-                type="button"
-                onClick={() => {
-                  setSelectedEvent(null);
-                  openEditEditor(selectedEvent);
-                }}
-                className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-1.5 px-3 rounded-lg transition-colors text-sm`}
-              >
-                수정
-              </button>
+          <h3 id="recurrence-scope-title" className={`text-base font-semibold ${colors.accentColor}`}>
+            반복 일정 {actionLabel}
+          </h3>
+          <p className={`text-xs ${colors.textSecondary} mt-1`}>
+            {pendingRecurrenceAction.change?.date
+              ? `${pendingRecurrenceAction.change.date}(으)로 ${actionLabel}합니다. 적용 범위를 선택하세요.`
+              : `적용 범위를 선택하세요.`}
+          </p>
+          <div className="mt-4 space-y-2">
+            {scopes.map(({ scope, label }) => (
               <button
-                onClick={() => setSelectedEvent(null)}
-                className={`p-1 ${colors.textSecondary} hover:${colors.textPrimary} transition-colors rounded-full ${colors.hoverEffect}`}
-                aria-label="팝업 닫기"
+                key={scope}
                 type="button"
+                onClick={() => applyPendingRecurrenceAction(scope)}
+                className={`w-full text-left ${colors.buttonBg} ${colors.hoverEffect} ${colors.textPrimary} font-medium py-2 px-3 rounded-lg transition-colors text-sm`}
               >
-                <CloseIcon />
+                {label}
               </button>
-            </div>
+            ))}
           </div>
+          <button
+            type="button"
+            onClick={() => setPendingRecurrenceAction(null)}
+            className={`mt-3 text-xs ${colors.textSecondary} hover:${colors.textPrimary} underline self-end`}
+          >
+            취소
+          </button>
+        </div>
+      </div>
+    );
+  };
 
-          <div className="overflow-y-auto flex-grow pr-1 scrollbar-thin scrollbar-track-transparent scrollbar-thumb-blue-700 hover:scrollbar-thumb-blue-600 active:scrollbar-thumb-blue-500 scrollbar-thumb-rounded-md">
-            {isSelectedGenerating && !descriptionText && !selectedGenerationError && (
-              <div className="text-sm text-slate-300 py-4">
-                <ul className="space-y-2.5">
-                  {loadingMessages.map((message, index) => (
-                    <li key={index} className="flex items-center space-x-2.5">
-                      {index < loadingStep ? (
-                        <CheckIconMini className="text-green-500 flex-shrink-0" />
-                      ) : index === loadingStep && isGeneratingDescription ? (
-                        <SpinnerIconMini className="flex-shrink-0" />
-                      ) : (
-                        <PendingIconMini className="text-slate-500 flex-shrink-0" />
-                      )}
-                      <span className={`${index < loadingStep ? 'text-slate-500 line-through' : (index === loadingStep && isGeneratingDescription) ? 'text-cyan-400 font-medium' : 'text-slate-400'}`}>
-                        {message}
-                      </span>
-                    </li>
-                  ))}
-                </ul>
-                {loadingStep >= loadingMessages.length && isSelectedGenerating && (
-                  <div className="flex items-center space-x-2.5 mt-3">
-                    <SpinnerIconMini className="flex-shrink-0" />
-                    <span className="text-cyan-400 font-medium">마무리 중...</span>
-                  </div>
-                )}
-              </div>
-            )}
-            {selectedGenerationError && (
-              <div className="text-sm text-red-400 bg-red-900/20 border border-red-700 p-3 rounded-md">
-                <p className="font-semibold mb-1">오류</p>
-                {selectedGenerationError}
-              </div>
-            )}
-
-            {!descriptionText && !isSelectedGenerating && !selectedGenerationError && (
-              <div className={`text-sm ${colors.textSecondary} py-4`}>
-                <p className={`font-semibold ${colors.textPrimary} mb-1`}>AI 보고서를 생성할 수 없습니다.</p>
-                <p>
-                  상단 <span className={`${colors.textPrimary} font-medium`}>API Key 설정</span>에서 Gemini 또는 OpenRouter 키를 등록한 뒤 다시 생성해주세요.
-                </p>
-                <button
-                  type="button"
-                  onClick={() => fetchEventDescription(selectedEvent)}
-                  className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-3 rounded-lg transition-colors text-xs mt-3`}
-                >
-                  AI 보고서 생성
-                </button>
-              </div>
-            )}
+  const renderDependencyWarningModal = (): React.ReactNode => {
+    if (!pendingDependencyChange) return null;
 
-            {descriptionText && !selectedGenerationError && (
-              <>
-                {otherContent && (
-                  <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
-                    {renderMarkdownModal(otherContent)}
-                  </div>
-                )}
-                {section1Content && (
-                  <div className="mb-4">
-                    <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section1Title}</h4>
-                    <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
-                      {renderMarkdownModal(section1Content)}
-                    </div>
-                  </div>
-                )}
-                {section2Content && (
-                  <div className="mb-4">
-                    <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section2Title}</h4>
-                    <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
-                      {renderMarkdownModal(section2Content)}
-                    </div>
-                  </div>
-                )}
-                {section3Content && (
-                  <div className="mb-4">
-                    <h4 className="text-md font-semibold text-cyan-400 mb-1.5">{section3Title}</h4>
-                    <div className="prose prose-sm prose-invert max-w-none chatbot-message-content">
-                      {renderMarkdownModal(section3Content)}
-                    </div>
-                  </div>
-                )}
+    const titleOf = (id: string) => userEvents.find(ev => ev.id === id)?.title ?? '삭제된 일정';
+    const { violations, shiftedIds } = pendingDependencyChange;
 
-                {groundingChunksForEvent && groundingChunksForEvent.length > 0 && (
-                  <div className="mt-5 pt-4 border-t border-slate-700">
-                    <h4 className="text-xs font-semibold text-slate-400 mb-2">참고 자료 (Google 검색):</h4>
-                    <ul className="space-y-1.5">
-                      {groundingChunksForEvent.map((chunk, index) => {
-                        if (chunk.web && chunk.web.uri) {
-                          return (
-                            <li key={index} className="text-xs">
-                              <a
-                                href={chunk.web.uri}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-cyan-500 hover:text-cyan-400 hover:underline"
-                                title={chunk.web.title || chunk.web.uri}
-                              >
-                                {chunk.web.title || chunk.web.uri}
-                              </a>
-                            </li>
-                          );
-                        }
-                        return null;
-                      }).filter(Boolean)}
-                    </ul>
-                  </div>
-                )}
-              </>
-            )}
-            {!aiProvider && (!selectedEvent?.id || (!eventDescriptions[selectedEvent!.id] && !isGeneratingDescription && !generationError)) && (
-              <div
-                className={`text-sm p-3 rounded-md mt-3 border ${
-                  theme === 'dark'
-                    ? 'text-yellow-200 bg-yellow-900/30 border-yellow-700'
-                    : 'text-amber-950 bg-amber-200/80 border-amber-300'
-                }`}
+    return (
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[120]"
+        onClick={() => setPendingDependencyChange(null)}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="dependency-warning-title"
+      >
+        <div
+          className={`${colors.componentBg} p-5 rounded-lg shadow-2xl w-full max-w-sm flex flex-col ${colors.textPrimary} border ${colors.border}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 id="dependency-warning-title" className={`text-base font-semibold ${colors.accentColor}`}>
+            선행 관계 위반
+          </h3>
+          <ul className={`text-xs ${colors.textSecondary} mt-2 space-y-1`}>
+            {violations.map(violation => (
+              <li key={`${violation.predecessorId}-${violation.successorId}`}>
+                "{titleOf(violation.successorId)}"은(는) "{titleOf(violation.predecessorId)}" 이후{' '}
+                <span className={colors.textPrimary}>{violation.earliestStart}</span>부터 시작할 수 있습니다.
+              </li>
+            ))}
+          </ul>
+          <div className="mt-4 space-y-2">
+            {shiftedIds.length > 0 && (
+              <button
+                type="button"
+                onClick={() => applyPendingDependencyChange(true)}
+                className={`w-full text-left ${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-medium py-2 px-3 rounded-lg transition-colors text-sm`}
               >
-                AI 기능을 사용하려면 API 키가 필요합니다. 현재 설정되어 있지 않습니다.
-              </div>
+                후속 일정 {shiftedIds.length}건도 함께 미루기 (영업일 기준)
+              </button>
             )}
+            <button
+              type="button"
+              onClick={() => applyPendingDependencyChange(false)}
+              className={`w-full text-left ${colors.buttonBg} ${colors.hoverEffect} ${colors.textPrimary} font-medium py-2 px-3 rounded-lg transition-colors text-sm`}
+            >
+              이 일정만 옮기기
+            </button>
           </div>
+          <button
+            type="button"
+            onClick={() => setPendingDependencyChange(null)}
+            className={`mt-3 text-xs ${colors.textSecondary} hover:${colors.textPrimary} underline self-end`}
+          >
+            취소
+          </button>
         </div>
       </div>
     );
@@ -1574,7 +4048,7 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
         aria-labelledby="event-editor-title"
       >
         <div
-          className={`${colors.componentBg} p-5 sm:p-6 rounded-lg shadow-2xl w-full max-w-lg flex flex-col ${colors.textPrimary} border ${colors.border}`}
+          className={`${colors.componentBg} p-5 sm:p-6 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-thin flex flex-col ${colors.textPrimary} border ${colors.border}`}
           onClick={(e) => e.stopPropagation()}
         >
           <div className="flex justify-between items-start gap-3">
@@ -1637,6 +4111,8 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
               <p className="text-[11px] text-slate-500 mt-1">드롭다운으로 날짜를 바꾸면 일정 날짜를 옮길 수 있습니다.</p>
             </div>
 
+            {renderTimingFields()}
+
             <div>
               <label className={`text-sm ${colors.textPrimary} block mb-1`} htmlFor="event-category">
                 업무
@@ -1644,16 +4120,38 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
               <select
                 id="event-category"
                 value={draftCategory}
-                onChange={(e) => setDraftCategory(e.target.value as EventCategory | '')}
+                onChange={(e) => {
+                  isDraftCategoryPickedRef.current = true;
+                  setDraftCategory(e.target.value as EventCategory | '');
+                }}
                 className={`w-full p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`}
               >
                 <option value="">업무 선택(선택)</option>
-                {EVENT_CATEGORIES.map((c) => (
-                  <option key={c} value={c}>{c}</option>
+                {categorySettings.categories.map(({ name, icon }) => (
+                  <option key={name} value={name}>{icon ? `${icon} ${name}` : name}</option>
                 ))}
               </select>
             </div>
 
+            {draftKind === 'user' && (
+              <div>
+                <label className={`text-sm ${colors.textPrimary} block mb-1`} htmlFor="event-project">
+                  프로젝트
+                </label>
+                <select
+                  id="event-project"
+                  value={draftProjectId}
+                  onChange={(e) => setDraftProjectId(e.target.value)}
+                  className={`w-full p-2 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none`}
+                >
+                  <option value="">프로젝트 없음</option>
+                  {sortedProjects.map(project => (
+                    <option key={project.id} value={project.id}>{describeProject(project)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className={`text-sm ${colors.textPrimary} block mb-1`} htmlFor="event-title">
                 일정 내용
@@ -1661,7 +4159,12 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
               <input
                 id="event-title"
                 value={draftTitle}
-                onChange={(e) => setDraftTitle(e.target.value)}
+                onChange={(e) => {
+                  setDraftTitle(e.target.value);
+                  if (editorMode === 'create' && !isDraftCategoryPickedRef.current) {
+                    setDraftCategory(inferCategoryFromTitle(categorySettings, e.target.value) ?? DEFAULT_EVENT_CATEGORY);
+                  }
+                }}
                 placeholder="예: 교육비특별회계 결산 마감"
                 className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none placeholder-slate-600`}
                 autoFocus
@@ -1672,6 +4175,10 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
                 </div>
               )}
             </div>
+
+            {draftKind === 'user' && renderRecurrenceFields()}
+            {draftKind === 'user' && draftRecurrenceFrequency === 'none' && !draftOccurrenceDate && renderDependencyFields()}
+            {renderReminderFields()}
           </div>
 
           <div className="mt-5 flex items-center justify-between gap-3">
@@ -1685,13 +4192,22 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
                   삭제
                 </button>
               ) : (
-                <button
-                  type="button"
-                  onClick={handleDeleteDraft}
-                  className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors`}
-                >
-                  기본값으로 되돌리기
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={handleDeleteDraft}
+                    className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors`}
+                  >
+                    기본값으로 되돌리기
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleToggleDraftHidden}
+                    className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors`}
+                  >
+                    {draftId && builtinEventOverrides[draftId]?.hidden ? '숨김 해제' : '숨기기'}
+                  </button>
+                </div>
               )
             ) : (
               <div />
@@ -1723,6 +4239,19 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
     <div className={`${colors.componentBg} px-4 sm:px-6 py-3 sm:py-5 rounded-xl shadow-2xl flex flex-col w-full h-full border ${colors.border}`}>
       {renderHeader()}
 
+      {storageError && (
+        <div className="flex items-start justify-between gap-2 p-2 text-sm text-red-300 bg-red-900/30 border border-red-700 rounded-md my-1" role="alert">
+          <p>{storageError}</p>
+          <button
+            type="button"
+            onClick={() => setStorageError(null)}
+            className="text-xs px-1 rounded hover:bg-red-900/40 flex-shrink-0"
+            aria-label="저장 오류 닫기"
+          >
+            ✕
+          </button>
+        </div>
+      )}
       {isLoadingSchedule && (
         <div className="text-center p-2 text-sm text-cyan-400 my-1">일정 데이터를 로딩 중입니다...</div>
       )}
@@ -1758,16 +4287,83 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
             {renderCalendarCells()}
           </div>
         </div>
+      ) : viewMode === 'day' ? (
+        <div className="flex-grow flex flex-col min-h-0">
+          <DayView
+            dateKey={formatDateKey(currentDate)}
+            events={filteredEvents}
+            reports={eventDescriptions}
+            generatingReportId={isGeneratingDescription ? generationTargetEventId : null}
+            reportError={generationTargetEventId && generationError ? { eventId: generationTargetEventId, message: generationError } : null}
+            canGenerateReport={Boolean(aiProvider)}
+            shortcutsEnabled={!selectedEvent && !isEditorOpen && !isCategoryManagerOpen && !pendingRecurrenceAction && !pendingDependencyChange && !isSearchOpen}
+            onGenerateReport={fetchEventDescription}
+            onEventClick={handleEventClick}
+            onToggleDone={event => updateEventProgress(event, { status: event.status === 'done' ? 'notStarted' : 'done' })}
+            onReschedule={(event, dateKey) => moveEventToDate(event.id, dateKey)}
+            onCreate={dateKey => openCreateEditor(dateKey)}
+            onStepBusinessDay={stepBusinessDay}
+          />
+        </div>
+      ) : viewMode === 'year' ? (
+        <div className="flex-grow flex flex-col min-h-0">
+          <YearView
+            year={year}
+            events={filteredEvents}
+            onSelectDate={dateKey => {
+              // Opens the day unfolded so items behind "+N개 더보기" are visible too.
+              setCurrentDate(parseDateKey(dateKey));
+              setExpandedDays(new Set([dateKey]));
+              setViewMode('month');
+            }}
+            onSelectMonth={monthIndex => {
+              setCurrentDate(new Date(year, monthIndex, 1));
+              setExpandedDays(new Set());
+              setViewMode('month');
+            }}
+          />
+        </div>
+      ) : viewMode === 'agenda' ? (
+        <div className="flex-grow flex flex-col min-h-0">
+          <AgendaView
+            range={visibleRange}
+            events={filteredEvents}
+            onLoadMore={() => setAgendaMonthCount(prev => prev + AGENDA_MONTHS_PER_PAGE)}
+            onEventClick={handleEventClick}
+            onToggleDone={event => updateEventProgress(event, { status: event.status === 'done' ? 'notStarted' : 'done' })}
+            onRename={renameEvent}
+            onReschedule={(event, dateKey) => moveEventToDate(event.id, dateKey)}
+          />
+        </div>
+      ) : viewMode === 'timeline' ? (
+        <div className="flex-grow flex flex-col min-h-0">
+          <TimelineView
+            range={visibleRange}
+            zoom={timelineZoom}
+            onZoomChange={setTimelineZoom}
+            events={filteredEvents}
+            projects={sortedProjects}
+            onEventClick={handleEventClick}
+            onMoveEvent={(eventId, dateKey) => {
+              editOriginRef.current = 'drag';
+              moveEventToDate(eventId, dateKey);
+            }}
+            onResizeEvent={(eventId, endDateKey) => {
+              editOriginRef.current = 'drag';
+              resizeEventToDate(eventId, endDateKey);
+            }}
+          />
+        </div>
       ) : (
         <div className="flex-grow flex flex-col min-h-0">
           <WeeklyCalendar
             currentDate={currentDate}
             events={filteredEvents}
             onEventClick={handleEventClick}
-            onDateClick={(dateKey) => {
+            onDateClick={(dateKey, time) => {
               if (draggingEventId) return;
               if (didJustDropRef.current) return;
-              openCreateEditor(dateKey);
+              openCreateEditor(dateKey, time);
             }}
             onDragStart={(e, eventId) => {
               setDraggingEventId(eventId);
@@ -1778,11 +4374,15 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
               setDraggingEventId(null);
               setDragOverDateKey(null);
             }}
-            onDrop={(e, dateKey) => {
+            onResizeStart={startEventResize}
+            onResizeTime={(eventId, endTime) => {
+              editOriginRef.current = 'drag';
+              resizeEventEndTime(eventId, endTime);
+            }}
+            onDrop={(e, dateKey, time) => {
               e.preventDefault();
-              const droppedId = e.dataTransfer.getData('text/plain');
-              if (droppedId) {
-                moveEventToDate(droppedId, dateKey);
+              if (e.dataTransfer.getData('text/plain') || e.dataTransfer.getData(RESIZE_DRAG_TYPE)) {
+                handleEventDrop(e, dateKey, time);
                 didJustDropRef.current = true;
                 setTimeout(() => { didJustDropRef.current = false; }, 100);
               }
@@ -1794,6 +4394,56 @@ const Calendar: React.FC<CalendarProps> = ({ scheduleText, manualContextText })
       )}
       {renderEventModal()}
       {renderEditorModal()}
+      {renderRecurrenceScopeModal()}
+      {renderDependencyWarningModal()}
+      {isCategoryManagerOpen && <CategoryManagerModal onClose={() => setIsCategoryManagerOpen(false)} />}
+      {isSearchOpen && (
+        <SearchPalette
+          events={searchableEvents}
+          reports={eventDescriptions}
+          onSelect={handleSearchSelect}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+      {projectPanelId !== null && (
+        <ProjectPanel
+          projects={sortedProjects}
+          userEvents={userEvents}
+          selectedProjectId={projectPanelId}
+          onSelect={setProjectPanelId}
+          onClose={() => setProjectPanelId(null)}
+          onCreate={handleCreateProject}
+          onUpdate={handleUpdateProject}
+          onDelete={handleDeleteProject}
+          onOpenTask={handleOpenProjectTask}
+          onAddTask={project => openCreateEditor(formatDateKey(new Date()), undefined, project.id)}
+        />
+      )}
+      {editToast && (
+        <div
+          className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-40 ${colors.componentBg} border ${colors.border} rounded-lg shadow-2xl px-3 py-2 flex items-center gap-3 text-sm`}
+          role="status"
+          aria-live="polite"
+        >
+          <span className={colors.textPrimary}>{editToast.undone ? `${editToast.label} 취소됨` : editToast.label}</span>
+          <button
+            type="button"
+            onClick={() => applyHistory(editToast.undone ? 'redo' : 'undo')}
+            className={`font-semibold ${colors.accentColor} hover:underline`}
+            title={editToast.undone ? '다시 실행 (Ctrl+Shift+Z)' : '실행 취소 (Ctrl+Z)'}
+          >
+            {editToast.undone ? '다시 실행' : '실행 취소'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditToast(null)}
+            className={`${colors.textSecondary} ${colors.hoverEffect} rounded px-1`}
+            aria-label="알림 닫기"
+          >
+            ✕
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,413 @@
+import React, { useEffect, useState } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CATEGORY_COLORS, CategoryColor, CategoryRule, CategorySettings, DEFAULT_EVENT_CATEGORY, EventCategory } from '../types';
+import {
+  CATEGORY_COLOR_LABELS,
+  MAX_CATEGORY_NAME_LENGTH,
+  addCategory,
+  moveCategoryLeadDays,
+  normalizeCategoryName,
+  parseKeywordsInput,
+  removeCategory,
+  renameCategory,
+  updateCategoryStyle,
+} from '../utils/categories';
+
+type CategoryManagerModalProps = {
+  onClose: () => void;
+};
+
+type RuleDraft = {
+  key: number;
+  category: EventCategory;
+  keywordsText: string;
+};
+
+type RemovalDraft = {
+  name: EventCategory;
+  target: EventCategory;
+  mode: 'merge' | 'delete';
+};
+
+let ruleDraftKey = 0;
+const toRuleDrafts = (rules: CategoryRule[]): RuleDraft[] =>
+  rules.map(rule => ({ key: ++ruleDraftKey, category: rule.category, keywordsText: rule.keywords.join(', ') }));
+
+const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({ onClose }) => {
+  const { colors } = useTheme();
+  const { categorySettings, setCategorySettings, reminderSettings, setReminderSettings } = useApiKey();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<CategoryColor>('blue');
+  const [newIcon, setNewIcon] = useState('');
+  const [renaming, setRenaming] = useState<{ name: EventCategory; draft: string } | null>(null);
+  const [removal, setRemoval] = useState<RemovalDraft | null>(null);
+  const [ruleDrafts, setRuleDrafts] = useState<RuleDraft[]>(() => toRuleDrafts(categorySettings.rules));
+  const [isRulesDirty, setIsRulesDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Renames, merges and edits from another tab change the rule list underneath the draft.
+  const rulesSignature = JSON.stringify(categorySettings.rules);
+  useEffect(() => {
+    setRuleDrafts(toRuleDrafts(categorySettings.rules));
+    setIsRulesDirty(false);
+  }, [rulesSignature]);
+
+  const categoryNames = categorySettings.categories.map(category => category.name);
+
+  const apply = (update: () => CategorySettings, message: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      setCategorySettings(update());
+      setNotice(message);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '업무 분류를 저장하지 못했습니다.');
+      return false;
+    }
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (apply(() => addCategory(categorySettings, name, newColor, newIcon), `'${name}' 업무를 추가했습니다.`)) {
+      setNewName('');
+      setNewIcon('');
+    }
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const { name, draft } = renaming;
+    if (apply(() => renameCategory(categorySettings, name, draft), `'${name}' 업무의 이름을 바꿨습니다.`)) {
+      setReminderSettings(moveCategoryLeadDays(reminderSettings, name, normalizeCategoryName(draft) ?? name));
+      setRenaming(null);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!removal) return;
+    const { name, target, mode } = removal;
+    const message =
+      mode === 'merge' ? `'${name}' 업무를 '${target}'에 합쳤습니다.` : `'${name}' 업무를 삭제하고 일정을 '${target}'(으)로 옮겼습니다.`;
+    if (apply(() => removeCategory(categorySettings, name, target, mode), message)) {
+      setReminderSettings(moveCategoryLeadDays(reminderSettings, name, mode === 'merge' ? target : null));
+      setRemoval(null);
+    }
+  };
+
+  const updateRuleDraft = (key: number, patch: Partial<Omit<RuleDraft, 'key'>>) => {
+    setRuleDrafts(prev => prev.map(rule => (rule.key === key ? { ...rule, ...patch } : rule)));
+    setIsRulesDirty(true);
+  };
+
+  const moveRuleDraft = (index: number, offset: -1 | 1) => {
+    setRuleDrafts(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setIsRulesDirty(true);
+  };
+
+  const removeRuleDraft = (key: number) => {
+    setRuleDrafts(prev => prev.filter(rule => rule.key !== key));
+    setIsRulesDirty(true);
+  };
+
+  const addRuleDraft = () => {
+    setRuleDrafts(prev => [...prev, { key: ++ruleDraftKey, category: DEFAULT_EVENT_CATEGORY, keywordsText: '' }]);
+    setIsRulesDirty(true);
+  };
+
+  const handleSaveRules = () => {
+    const rules = ruleDrafts
+      .map(rule => ({ category: rule.category, keywords: parseKeywordsInput(rule.keywordsText) }))
+      .filter(rule => rule.keywords.length > 0);
+    apply(() => ({ ...categorySettings, rules }), '자동 분류 규칙을 저장했습니다.');
+  };
+
+  const handleClose = () => {
+    if (isRulesDirty && !window.confirm('저장하지 않은 자동 분류 규칙이 있습니다. 닫을까요?')) return;
+    onClose();
+  };
+
+  const inputClass = `${colors.inputBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`;
+  const smallButtonClass = `text-xs px-2 py-1 rounded-md border ${colors.border} ${colors.textSecondary} hover:${colors.textPrimary} disabled:opacity-40 disabled:cursor-not-allowed`;
+
+  const renderColorSelect = (value: CategoryColor, onChange: (color: CategoryColor) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as CategoryColor)}
+      aria-label={label}
+      className={inputClass}
+    >
+      {CATEGORY_COLORS.map(color => (
+        <option key={color} value={color}>{CATEGORY_COLOR_LABELS[color]}</option>
+      ))}
+    </select>
+  );
+
+  const renderRemovalPanel = (draft: RemovalDraft) => (
+    <div className={`mt-2 p-2 rounded-md border ${colors.border} space-y-2 text-xs ${colors.textSecondary}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="radio"
+            name="category-removal-mode"
+            checked={draft.mode === 'merge'}
+            onChange={() => setRemoval({ ...draft, mode: 'merge' })}
+          />
+          합치기(규칙·알림도 옮김)
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="radio"
+            name="category-removal-mode"
+            checked={draft.mode === 'delete'}
+            onChange={() => setRemoval({ ...draft, mode: 'delete' })}
+          />
+          삭제(일정만 옮김)
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="flex-shrink-0">일정을 옮길 업무</span>
+        <select
+          value={draft.target}
+          onChange={(e) => setRemoval({ ...draft, target: e.target.value })}
+          className={`${inputClass} flex-1 min-w-0`}
+        >
+          {categoryNames.filter(name => name !== draft.name).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setRemoval(null)} className={smallButtonClass}>
+          취소
+        </button>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="text-xs px-2 py-1 rounded-md border border-red-700 text-red-300 hover:bg-red-900/30"
+        >
+          {draft.mode === 'merge' ? '합치기' : '삭제'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[120] p-4" onClick={handleClose}>
+      <div
+        className={`w-full max-w-2xl max-h-[90vh] overflow-y-auto scrollbar-thin ${colors.componentBg} border ${colors.border} rounded-xl shadow-xl p-5 space-y-5`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className={`text-lg font-semibold ${colors.accentColor}`}>업무 분류 관리</h2>
+          <p className={`text-xs ${colors.textSecondary} mt-1`}>
+            업무 이름을 바꾸거나 합치면 기존 일정도 새 업무로 표시됩니다. '{DEFAULT_EVENT_CATEGORY}'는 분류되지 않은 일정이 모이는 곳이라 바꿀 수 없습니다.
+          </p>
+        </div>
+
+        <section className="space-y-2">
+          <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>업무 추가</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              maxLength={MAX_CATEGORY_NAME_LENGTH}
+              placeholder="업무 이름"
+              aria-label="새 업무 이름"
+              className={`${inputClass} flex-1 min-w-[8rem]`}
+            />
+            {renderColorSelect(newColor, setNewColor, '새 업무 색상')}
+            <input
+              type="text"
+              value={newIcon}
+              onChange={(e) => setNewIcon(e.target.value)}
+              placeholder="아이콘"
+              aria-label="새 업무 아이콘"
+              className={`${inputClass} w-20`}
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+              className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} text-sm font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              추가
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>업무 목록</h3>
+          <ul className="space-y-2">
+            {categorySettings.categories.map(({ name, color, icon }) => {
+              const isDefault = name === DEFAULT_EVENT_CATEGORY;
+              return (
+                <li key={name} className={`p-2 rounded-lg border ${colors.border}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`h-3 w-3 rounded-full flex-shrink-0 ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+                    {renaming?.name === name ? (
+                      <>
+                        <input
+                          type="text"
+                          value={renaming.draft}
+                          onChange={(e) => setRenaming({ name, draft: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          maxLength={MAX_CATEGORY_NAME_LENGTH}
+                          aria-label={`${name} 새 이름`}
+                          autoFocus
+                          className={`${inputClass} flex-1 min-w-[6rem]`}
+                        />
+                        <button type="button" onClick={handleRename} className={smallButtonClass}>
+                          저장
+                        </button>
+                        <button type="button" onClick={() => setRenaming(null)} className={smallButtonClass}>
+                          취소
+                        </button>
+                      </>
+                    ) : (
+                      <span className={`flex-1 min-w-[6rem] text-sm ${colors.textPrimary} truncate`}>{name}</span>
+                    )}
+                    {renderColorSelect(
+                      color,
+                      (nextColor) => setCategorySettings(updateCategoryStyle(categorySettings, name, { color: nextColor })),
+                      `${name} 색상`,
+                    )}
+                    <input
+                      type="text"
+                      value={icon}
+                      onChange={(e) => setCategorySettings(updateCategoryStyle(categorySettings, name, { icon: e.target.value }))}
+                      placeholder="아이콘"
+                      aria-label={`${name} 아이콘`}
+                      className={`${inputClass} w-16`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRemoval(null);
+                        setRenaming({ name, draft: name });
+                      }}
+                      disabled={isDefault || renaming?.name === name}
+                      className={smallButtonClass}
+                    >
+                      이름 변경
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRenaming(null);
+                        setRemoval({ name, target: DEFAULT_EVENT_CATEGORY, mode: 'merge' });
+                      }}
+                      disabled={isDefault}
+                      className={smallButtonClass}
+                    >
+                      합치기·삭제
+                    </button>
+                  </div>
+                  {removal?.name === name && renderRemovalPanel(removal)}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>자동 분류 규칙</h3>
+            <button type="button" onClick={addRuleDraft} className={smallButtonClass}>
+              규칙 추가
+            </button>
+          </div>
+          <p className={`text-[11px] ${colors.textSecondary}`}>
+            새 일정의 제목에 키워드가 들어 있으면 위에서부터 처음 맞는 규칙의 업무로 분류합니다. 키워드는 쉼표로 구분합니다.
+          </p>
+          <ul className="space-y-1">
+            {ruleDrafts.map((rule, index) => (
+              <li key={rule.key} className="flex items-center gap-2">
+                <select
+                  value={rule.category}
+                  onChange={(e) => updateRuleDraft(rule.key, { category: e.target.value })}
+                  aria-label={`규칙 ${index + 1} 업무`}
+                  className={`${inputClass} w-28 flex-shrink-0`}
+                >
+                  {categoryNames.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.keywordsText}
+                  onChange={(e) => updateRuleDraft(rule.key, { keywordsText: e.target.value })}
+                  placeholder="예: 계약, 입찰"
+                  aria-label={`규칙 ${index + 1} 키워드`}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <button
+                  type="button"
+                  onClick={() => moveRuleDraft(index, -1)}
+                  disabled={index === 0}
+                  className={smallButtonClass}
+                  aria-label="위로"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveRuleDraft(index, 1)}
+                  disabled={index === ruleDrafts.length - 1}
+                  className={smallButtonClass}
+                  aria-label="아래로"
+                >
+                  ↓
+                </button>
+                <button type="button" onClick={() => removeRuleDraft(rule.key)} className={smallButtonClass} aria-label="규칙 삭제">
+                  ✕
+                </button>
+              </li>
+            ))}
+            {ruleDrafts.length === 0 && <li className={`text-xs ${colors.textSecondary}`}>규칙이 없습니다.</li>}
+          </ul>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSaveRules}
+              disabled={!isRulesDirty}
+              className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} text-sm font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              규칙 저장
+            </button>
+          </div>
+        </section>
+
+        {error && <div className="text-xs p-2 rounded-md border text-red-200 bg-red-900/20 border-red-700">{error}</div>}
+        {notice && !error && <div className={`text-xs ${colors.textSecondary}`}>{notice}</div>}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleClose}
+            className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors`}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManagerModal;
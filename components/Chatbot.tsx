@@ -1,37 +1,39 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Chat, GenerateContentResponse, GroundingChunk } from "@google/genai";
+import { GoogleGenAI, Chat, Content, GenerateContentResponse, GroundingChunk } from "@google/genai";
 import { marked } from 'marked';
 import { nanoid } from 'nanoid';
 import { useApiKey } from '../contexts/ApiKeyContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { openRouterChatCompletion, OpenRouterMessage } from '../utils/openRouter';
 import {
-  CalendarEventSource,
+  CALENDAR_EDIT_RECORDED_EVENT,
+  CHAT_HISTORY_STORAGE_KEY,
   DEFAULT_EVENT_CATEGORY,
-  EVENT_CATEGORIES,
   EventCategory,
-  USER_EVENTS_STORAGE_KEY,
+  PROJECTS_UPDATED_EVENT,
+  Project,
+  RecordedCalendarEdit,
   USER_EVENTS_UPDATED_EVENT,
 } from '../types';
-
-type StoredUserEvent = {
-  id: string;
-  date: string;
-  title: string;
-  category: EventCategory;
-  source: CalendarEventSource;
-};
+import { findCategory, getCategoryNames, inferCategoryFromTitle } from '../utils/categories';
+import { StoredUserEvent, loadProjects, loadUserEventsOnDates, putProjects, putUserEvents } from '../utils/eventRepository';
+import { shiftEventDates } from '../utils/eventTime';
+import { describeProject, normalizeProjectFields, sortProjects } from '../utils/projects';
+import { subscribeTabSync } from '../utils/tabSync';
 
 type ScheduleProposalItem = {
   date: string;
+  endDate?: string; // inclusive; set on the spanning execution item
   title: string;
   category: EventCategory;
 };
 
 type ScheduleProposal = {
-  project: string;
+  project: string; // name of the project created on apply when `projectId` is unset
+  projectId?: string; // existing project the items join
   deadline: string | null;
+  executionWindow?: ExecutionWindow;
   items: ScheduleProposalItem[];
   selected: boolean[];
   applied?: boolean;
@@ -56,16 +58,6 @@ const isValidDateKey = (dateKey: string): boolean => {
   return obj.getFullYear() === y && obj.getMonth() === m - 1 && obj.getDate() === d;
 };
 
-const asEventCategory = (value: unknown): EventCategory | null => {
-  if (typeof value !== 'string') return null;
-  return EVENT_CATEGORIES.includes(value as EventCategory) ? (value as EventCategory) : null;
-};
-
-const asCalendarEventSource = (value: unknown): CalendarEventSource | null => {
-  if (value === 'manual' || value === 'ai') return value;
-  return null;
-};
-
 type ExecutionWindow = { start: string; end: string };
 
 const compareDateKey = (a: string, b: string) => a.localeCompare(b);
@@ -161,46 +153,6 @@ const isPostWorkTitle = (title: string) => {
   return keywords.some(k => title.includes(k));
 };
 
-const loadUserEventsFromStorage = (): StoredUserEvent[] => {
-  try {
-    const raw = localStorage.getItem(USER_EVENTS_STORAGE_KEY);
-    if (!raw) return [];
-    const parsed: unknown = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-
-    return parsed
-      .map((item): StoredUserEvent | null => {
-        if (!item || typeof item !== 'object') return null;
-        const candidate = item as Record<string, unknown>;
-        const id = candidate.id;
-        const date = candidate.date;
-        const title = candidate.title;
-        const category = candidate.category;
-        const source = candidate.source;
-
-        if (typeof id !== 'string') return null;
-        if (typeof title !== 'string' || !title.trim()) return null;
-        if (typeof date !== 'string' || !isValidDateKey(date)) return null;
-        const parsedCategory = asEventCategory(category) ?? DEFAULT_EVENT_CATEGORY;
-        const parsedSource = asCalendarEventSource(source) ?? 'manual';
-
-        return { id, date, title: title.trim(), category: parsedCategory, source: parsedSource };
-      })
-      .filter((v): v is StoredUserEvent => Boolean(v));
-  } catch {
-    return [];
-  }
-};
-
-const saveUserEventsToStorage = (events: StoredUserEvent[]) => {
-  try {
-    const payload = events.map(({ id, date, title, category, source }) => ({ id, date, title, category, source }));
-    localStorage.setItem(USER_EVENTS_STORAGE_KEY, JSON.stringify(payload));
-  } catch {
-    // ignore
-  }
-};
-
 const extractFirstJsonObject = (text: string): string | null => {
   const start = text.indexOf('{');
   if (start < 0) return null;
@@ -268,16 +220,63 @@ interface ChatMessage {
   scheduleProposal?: ScheduleProposal;
 }
 
+const GREETING_MESSAGE: ChatMessage = {
+  id: 'initial-ai-message',
+  text: '안녕하세요! 학교 행정 업무에 대해 무엇이든 물어보세요.',
+  isUser: false,
+};
+const MAX_STORED_CHAT_MESSAGES = 100;
+const MAX_RESTORED_CHAT_TURNS = 12;
+
+const loadChatHistory = (): ChatMessage[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(CHAT_HISTORY_STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((item): item is ChatMessage => {
+      if (!item || typeof item !== 'object') return false;
+      const candidate = item as Record<string, unknown>;
+      return typeof candidate.id === 'string' && typeof candidate.text === 'string' && typeof candidate.isUser === 'boolean';
+    });
+  } catch {
+    return [];
+  }
+};
+
+const saveChatHistory = (messages: ChatMessage[]) => {
+  // Greetings and the no-key notice are recreated on load, so only the conversation itself is kept.
+  const conversation = messages.filter(msg => !msg.id.startsWith('initial-') && msg.text).slice(-MAX_STORED_CHAT_MESSAGES);
+  try {
+    if (conversation.length > 0) localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(conversation));
+    else localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+  } catch {
+    // ignore storage errors (e.g., private mode / quota)
+  }
+};
+
+// Gemini chat history must alternate user/model turns and start with a user turn.
+const toGeminiHistory = (messages: ChatMessage[]): Content[] => {
+  const history: Content[] = [];
+  for (const msg of messages) {
+    if (!msg.text.trim() || msg.text.startsWith('오류:')) continue;
+    const role = msg.isUser ? 'user' : 'model';
+    if (history.length === 0 ? role !== 'user' : history[history.length - 1].role === role) continue;
+    history.push({ role, parts: [{ text: msg.text }] });
+  }
+  if (history.length > 0 && history[history.length - 1].role === 'user') history.pop();
+  const recent = history.slice(-MAX_RESTORED_CHAT_TURNS * 2);
+  return recent[0]?.role === 'model' ? recent.slice(1) : recent;
+};
+
 interface ChatbotProps {
   manualContextText?: string;
 }
 
 const Chatbot: React.FC<ChatbotProps> = ({ manualContextText }) => {
-  const { apiKey, openRouterApiKey, aiProviderPreference, openRouterModel } = useApiKey();
+  const { apiKey, openRouterApiKey, aiProviderPreference, openRouterModel, categorySettings } = useApiKey();
   const { colors, theme } = useTheme();
   const [ai, setAi] = useState<GoogleGenAI | null>(null);
   const [chat, setChat] = useState<Chat | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(loadChatHistory);
   const [userInput, setUserInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -285,6 +284,8 @@ const Chatbot: React.FC<ChatbotProps> = ({ manualContextText }) => {
   const [isScheduleAddMode, setIsScheduleAddMode] = useState(false);
   const [activeProposalDateEditor, setActiveProposalDateEditor] = useState<null | { messageId: string; index: number }>(null);
   const [scrollTarget, setScrollTarget] = useState<null | { id: string; align?: ScrollLogicalPosition }>(null);
+  const [chatSessionKey, setChatSessionKey] = useState(0);
+  const [projects, setProjects] = useState<Project[]>([]);
 
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
   const inputRef = useRef<null | HTMLInputElement>(null);
@@ -308,14 +309,13 @@ const Chatbot: React.FC<ChatbotProps> = ({ manualContextText }) => {
       setChat(null);
       setError(null);
       setApiKeyAvailable(true);
-      setMessages([
-        { id: 'initial-ai-message', text: '안녕하세요! 학교 행정 업무에 대해 무엇이든 물어보세요.', isUser: false },
-      ]);
+      setMessages(prev => (prev.some(msg => !msg.id.startsWith('initial-')) ? prev : [GREETING_MESSAGE]));
     } else {
       console.warn("API_KEY for chatbot is not set. Chatbot AI features will be disabled.");
       setAi(null);
       setChat(null);
-      setMessages([
+      setMessages(prev => [
+        ...prev.filter(msg => !msg.id.startsWith('initial-')),
         {
           id: 'initial-no-key',
           text: 'API 키를 설정하면 챗봇을 사용할 수 있습니다. 상단의 **API Key 설정**에서 키를 입력해주세요.',
@@ -342,18 +342,50 @@ const Chatbot: React.FC<ChatbotProps> = ({ manualContextText }) => {
             systemInstruction: systemInstructionContent,
             tools: [{ googleSearch: {} }],
           },
+          history: toGeminiHistory(loadChatHistory()),
         });
         setChat(newChat);
-        setMessages([
-          { id: 'initial-ai-message', text: '안녕하세요! 학교 행정 업무에 대해 무엇이든 물어보세요.', isUser: false }
-        ]);
+        setMessages(prev => (prev.some(msg => !msg.id.startsWith('initial-')) ? prev : [GREETING_MESSAGE]));
         inputRef.current?.focus();
       } catch (e) {
         console.error("Failed to create chat session:", e);
         setError("챗봇 세션 시작에 실패했습니다. 네트워크 연결 또는 API 설정을 확인해주세요.");
       }
     }
-  }, [ai, apiKeyAvailable, manualContextText]);
+  }, [ai, apiKeyAvailable, manualContextText, chatSessionKey]);
+
+  useEffect(() => {
+    if (!isLoading) saveChatHistory(messages);
+  }, [messages, isLoading]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      loadProjects()
+        .then(loaded => {
+          if (!cancelled) setProjects(sortProjects(loaded));
+        })
+        .catch(error => console.error('Failed to load projects', error));
+    };
+    refresh();
+    window.addEventListener(PROJECTS_UPDATED_EVENT, refresh);
+    const unsubscribe = subscribeTabSync(message => {
+      if (message.type === 'projects') refresh();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PROJECTS_UPDATED_EVENT, refresh);
+      unsubscribe();
+    };
+  }, []);
+
+  const handleClearHistory = () => {
+    if (!window.confirm('대화 기록을 모두 지울까요?')) return;
+    saveChatHistory([]);
+    setMessages([GREETING_MESSAGE]);
+    // The Gemini session still remembers the old turns; recreating it starts from the now-empty history.
+    setChatSessionKey(prev => prev + 1);
+  };
 
   const scrollToTarget = useCallback((target: { id: string; align?: ScrollLogicalPosition } | null) => {
     if (!target) return;
@@ -423,72 +455,127 @@ const Chatbot: React.FC<ChatbotProps> = ({ manualContextText }) => {
         if (index < 0 || index >= msg.scheduleProposal.items.length) return msg;
 
         const nextItems = msg.scheduleProposal.items.slice();
-        nextItems[index] = { ...nextItems[index], date: nextDateKey };
+        // A spanning item keeps its length when its start date is edited.
+        nextItems[index] = { ...nextItems[index], ...shiftEventDates(nextItems[index], nextDateKey) };
         return { ...msg, scheduleProposal: { ...msg.scheduleProposal, items: nextItems } };
       })
     );
     setActiveProposalDateEditor(null);
   }, []);
 
-  const applyScheduleProposal = useCallback((messageId: string) => {
+  const updateScheduleProposalProject = useCallback((messageId: string, projectId: string) => {
     suppressAutoScrollRef.current = true;
-    setMessages(prev => {
-      const target = prev.find(msg => msg.id === messageId);
-      if (!target?.scheduleProposal) return prev;
-      if (target.scheduleProposal.applied) return prev;
+    setMessages(prev =>
+      prev.map(msg => {
+        if (msg.id !== messageId) return msg;
+        if (!msg.scheduleProposal) return msg;
+        if (msg.scheduleProposal.applied) return msg;
+        const { projectId: _previous, ...rest } = msg.scheduleProposal;
+        return { ...msg, scheduleProposal: projectId ? { ...rest, projectId } : rest };
+      }),
+    );
+  }, []);
 
-      const proposal = target.scheduleProposal;
-      const selectedItems = proposal.items.filter((_, idx) => proposal.selected[idx]);
-      if (selectedItems.length === 0) return prev;
+  const applyScheduleProposal = useCallback(async (messageId: string) => {
+    const target = messages.find(msg => msg.id === messageId);
+    if (!target?.scheduleProposal) return;
+    if (target.scheduleProposal.applied) return;
+
+    const proposal = target.scheduleProposal;
+    const selectedItems = proposal.items.filter((_, idx) => proposal.selected[idx]);
+    if (selectedItems.length === 0) return;
+
+    // The picked project may have been deleted since; the proposal then starts a new one.
+    const existingProject = projects.find(project => project.id === proposal.projectId);
+    const newProjectFields = existingProject
+      ? null
+      : normalizeProjectFields({
+        name: proposal.project,
+        deadline: proposal.deadline,
+        executionStart: proposal.executionWindow?.start,
+        executionEnd: proposal.executionWindow?.end,
+      });
+    const newProject = newProjectFields ? { id: `project-${nanoid(10)}`, ...newProjectFields } : null;
+    const project = existingProject ?? newProject;
 
-      const existing = loadUserEventsFromStorage();
-      const existingKeySet = new Set(existing.map(ev => `${ev.date}::${ev.title}`));
+    const added: StoredUserEvent[] = [];
+    try {
+      const existing = await loadUserEventsOnDates(selectedItems.map(item => item.date));
+      // Titles no longer carry the project name, so the same task of another project is not a duplicate.
+      const toKey = (date: string, title: string, projectId: string | undefined) => `${date}::${title}::${projectId ?? ''}`;
+      const existingKeySet = new Set(existing.map(ev => toKey(ev.date, ev.title, ev.projectId)));
 
-      const added: StoredUserEvent[] = [];
       for (const item of selectedItems) {
-        const key = `${item.date}::${item.title}`;
+        const key = toKey(item.date, item.title, project?.id);
         if (existingKeySet.has(key)) continue;
         existingKeySet.add(key);
+        // The items are in 품의 → 계약 → 검수 → 지출 order, so each one waits for the one before it.
+        const previous = added[added.length - 1];
+        const followsPrevious = previous && compareDateKey(item.date, previous.endDate ?? previous.date) >= 0;
         added.push({
           id: `user-${nanoid(10)}`,
           date: item.date,
+          ...(item.endDate ? { endDate: item.endDate } : {}),
           title: item.title,
           category: item.category,
           source: 'ai',
+          ...(project ? { projectId: project.id } : {}),
+          ...(followsPrevious ? { dependencies: [{ predecessorId: previous.id, lagDays: 0 }] } : {}),
         });
       }
 
-      const nextEvents = [...added, ...existing];
-      saveUserEventsToStorage(nextEvents);
-      window.dispatchEvent(new CustomEvent(USER_EVENTS_UPDATED_EVENT));
-
-      const summaryLines: string[] = [];
-      summaryLines.push(`적용 완료: **${added.length}개** 일정이 캘린더에 추가됐어요.`);
-      if (proposal.project) summaryLines.push(`- 프로젝트: **${proposal.project}**`);
-      if (proposal.deadline) summaryLines.push(`- 마감: **${proposal.deadline}**`);
-      if (added.length > 0) {
-        summaryLines.push('');
-        summaryLines.push(...added.map(ev => `- ${ev.date} ${ev.title}`));
-      } else {
-        summaryLines.push('');
-        summaryLines.push('선택한 일정이 이미 등록되어 있어 새로 추가된 일정이 없어요.');
-      }
+      if (newProject && added.length > 0) await putProjects([newProject], 'ai');
+      await putUserEvents(added, 'ai');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '일정을 저장하지 못했습니다.');
+      return;
+    }
+    const createdProject = newProject && added.length > 0 ? newProject : null;
+    if (createdProject) window.dispatchEvent(new CustomEvent(PROJECTS_UPDATED_EVENT));
+    window.dispatchEvent(new CustomEvent(USER_EVENTS_UPDATED_EVENT));
+    if (added.length > 0) {
+      window.dispatchEvent(
+        new CustomEvent<RecordedCalendarEdit>(CALENDAR_EDIT_RECORDED_EVENT, {
+          detail: {
+            label: `AI 제안 일정 ${added.length}건 추가`,
+            addedUserEvents: added.map(event => ({ ...event, kind: 'user' })),
+            addedProjects: createdProject ? [createdProject] : [],
+          },
+        }),
+      );
+    }
+
+    const summaryLines: string[] = [];
+    summaryLines.push(`적용 완료: **${added.length}개** 일정이 캘린더에 추가됐어요.`);
+    const linkedProject = existingProject ?? createdProject;
+    if (linkedProject) summaryLines.push(`- 프로젝트: **${linkedProject.name}**${createdProject ? ' (새로 만듦)' : ''}`);
+    if (proposal.deadline) summaryLines.push(`- 마감: **${proposal.deadline}**`);
+    if (added.length > 0) {
+      summaryLines.push('');
+      summaryLines.push(...added.map(ev => `- ${ev.date}${ev.endDate ? ` ~ ${ev.endDate}` : ''} ${ev.title}`));
+    } else {
+      summaryLines.push('');
+      summaryLines.push('선택한 일정이 이미 등록되어 있어 새로 추가된 일정이 없어요.');
+    }
 
-      return prev.map(msg => {
+    suppressAutoScrollRef.current = true;
+    setMessages(prev =>
+      prev.map(msg => {
         if (msg.id !== messageId) return msg;
         return {
           ...msg,
           text: `${msg.text}\n\n${summaryLines.join('\n')}`.trim(),
           scheduleProposal: {
             ...proposal,
+            ...(linkedProject ? { projectId: linkedProject.id } : {}),
             applied: true,
             appliedCount: added.length,
             skippedCount: Math.max(0, selectedItems.length - added.length),
           },
         };
-      });
-    });
-  }, []);
+      }),
+    );
+  }, [messages, projects]);
 
   const handleSendMessage = useCallback(async () => {
     if (!userInput.trim() || isLoading || !apiKeyAvailable) return;
@@ -543,20 +630,20 @@ ${searchInstruction}
 }
 
 규칙:
-- title은 반드시 "\${project}: \${task}" 형태.
+- title은 task와 같게, 프로젝트 이름을 붙이지 않는다. (일정은 프로젝트에 따로 연결된다)
 - date는 모두 ISO(YYYY-MM-DD).
 - 사용자가 연도를 말하지 않으면 오늘(${todayKey}, KST) 기준으로 가장 가까운 '미래' 날짜로 결정.
 - events는 **중요한 것만 3~4개**. (가능하면 3개, 꼭 필요할 때만 4개) 중복 task 금지.
 - events는 date 오름차순으로 정렬.
 - 마감(deadline)이 있으면 events를 마감일까지 분산 배치(마감이 임박하면 같은 날짜에 여러 개 배치 가능).
 - category는 아래 중 하나만 허용(모르면 null):
-  ${EVENT_CATEGORIES.join(', ')}
+  ${getCategoryNames(categorySettings).join(', ')}
 
 작업 기간이 주어진 경우(예: "12월 20~24일 공사"):
 - executionStart: ${executionStartKey ?? 'null'}
 - executionEnd: ${executionEndKey ?? 'null'}
 - **품의/원인행위/업체선정/계약/발주/입찰/견적 등 사전 절차는 executionStart 이전 날짜에만 배치**한다.
-- **공사/설치/시공 등 실행 작업은 executionStart~executionEnd 기간 안**에 배치한다.
+- **공사/설치/시공 등 실행 작업은 하나만** 만들고 date를 executionStart로 둔다. (캘린더에는 executionStart~executionEnd 기간 일정으로 표시된다)
 - **검수/준공/정산/지출 등 사후 절차는 executionEnd 당일 또는 이후**에 배치한다.
 - 일정 순서를 스스로 검증해, "공사 시작(실행) 전에 계약/발주가 끝나도록" 날짜를 역산해 배치한다.
 
@@ -640,12 +727,15 @@ ${searchInstruction}
 
               if (!taskCandidate) return null;
 
+              // Models sometimes still prefix the project name the way titles used to be written.
               const projectPrefix = `${project}:`;
-              const normalizedTask = taskCandidate.startsWith(projectPrefix)
+              const title = taskCandidate.startsWith(projectPrefix)
                 ? taskCandidate.slice(projectPrefix.length).trim()
                 : taskCandidate;
-              const title = project ? `${project}: ${normalizedTask}` : normalizedTask;
-              const category = asEventCategory(ev?.category) ?? DEFAULT_EVENT_CATEGORY;
+              const category =
+                findCategory(categorySettings, ev?.category) ??
+                inferCategoryFromTitle(categorySettings, title) ??
+                DEFAULT_EVENT_CATEGORY;
 
               if (!isValidDateKey(date)) return null;
               if (!title) return null;
@@ -680,15 +770,23 @@ ${searchInstruction}
               date = clampMaxDateKey(date, preWorkLatestKey);
             } else if (postWork) {
               date = clampMinDateKey(date, postWorkEarliestKey);
-            } else {
-              if (compareDateKey(date, executionStartKey) < 0) date = executionStartKey;
-              if (compareDateKey(date, executionEndKey) > 0) date = executionEndKey;
             }
 
             date = clampMinDateKey(date, todayKey);
             return { ...item, date };
           });
 
+          // The execution work itself becomes one event spanning the whole window.
+          const executionItems = proposedItems.filter(item => !isPreWorkTitle(item.title) && !isPostWorkTitle(item.title));
+          const executionDate = clampMinDateKey(executionStartKey, todayKey);
+          const executionItem: ScheduleProposalItem = {
+            date: executionDate,
+            ...(compareDateKey(executionEndKey, executionDate) > 0 ? { endDate: executionEndKey } : {}),
+            title: executionItems[0]?.title ?? '실행',
+            category: executionItems[0]?.category ?? proposedItems[0]?.category ?? DEFAULT_EVENT_CATEGORY,
+          };
+          proposedItems = [...proposedItems.filter(item => !executionItems.includes(item)), executionItem];
+
           const preWorkRank = (title: string) => {
             if (title.includes('품의') || title.includes('상신') || title.includes('결재')) return 0;
             if (title.includes('견적') || title.includes('업체') || title.includes('선정') || title.includes('입찰')) return 1;
@@ -735,8 +833,11 @@ ${searchInstruction}
 
         proposedItems.sort((a, b) => compareDateKey(a.date, b.date));
 
+        // A project of the same name is joined by default rather than duplicated.
+        const matchingProject = projects.find(existing => existing.name === project);
+
         const summaryLines: string[] = [];
-        if (project) summaryLines.push(`- 프로젝트: **${project}**`);
+        if (project) summaryLines.push(`- 프로젝트: **${project}**${matchingProject ? '' : ' (새 프로젝트)'}`);
         if (deadline) summaryLines.push(`- 마감: **${deadline}**`);
 
         if (executionStartKey && executionEndKey) {
@@ -761,7 +862,9 @@ ${searchInstruction}
                   sources: groundingChunks,
                   scheduleProposal: {
                     project,
+                    ...(matchingProject ? { projectId: matchingProject.id } : {}),
                     deadline,
+                    ...(executionWindow ? { executionWindow } : {}),
                     items: proposedItems,
                     selected: proposedItems.map(() => true),
                     applied: false,
@@ -881,7 +984,7 @@ ${searchInstruction}
       setIsLoading(false);
       inputRef.current?.focus();
     }
-  }, [userInput, chat, ai, isLoading, apiKeyAvailable, isScheduleAddMode, apiKey, openRouterApiKey, aiProviderPreference, openRouterModel, manualContextText, messages]);
+  }, [userInput, chat, ai, isLoading, apiKeyAvailable, isScheduleAddMode, apiKey, openRouterApiKey, aiProviderPreference, openRouterModel, manualContextText, messages, categorySettings, projects]);
 
 
   const handleKeyPress = (event: React.KeyboardEvent<HTMLInputElement>) => {
@@ -902,9 +1005,22 @@ ${searchInstruction}
 
   return (
     <div className={`${colors.componentBg} p-3 sm:p-4 rounded-xl shadow-xl flex flex-col h-full border ${colors.border} ${colors.textPrimary}`}>
-      <h2 className={`text-lg font-semibold ${colors.accentColor} mb-3 text-center border-b ${colors.border} pb-2 flex-shrink-0`}>
-        AI 학교행정 도우미
-      </h2>
+      <div className={`relative mb-3 border-b ${colors.border} pb-2 flex-shrink-0`}>
+        <h2 className={`text-lg font-semibold ${colors.accentColor} text-center`}>
+          AI 학교행정 도우미
+        </h2>
+        {messages.some(msg => !msg.id.startsWith('initial-')) && (
+          <button
+            type="button"
+            onClick={handleClearHistory}
+            disabled={isLoading}
+            className={`absolute right-0 top-0.5 text-xs px-2 py-1 rounded-md ${colors.textSecondary} ${colors.hoverEffect} disabled:opacity-50`}
+            title="대화 기록 지우기"
+          >
+            기록 지우기
+          </button>
+        )}
+      </div>
 
       {!apiKeyAvailable && error && (
         <div
@@ -951,6 +1067,23 @@ ${searchInstruction}
                 </div>
                 {!msg.isUser && msg.scheduleProposal && (
                   <div className={`mt-3 pt-2 border-t ${colors.border}`}>
+                    {!msg.scheduleProposal.applied && (
+                      <label className={`flex items-center gap-2 mb-2 text-xs ${colors.textSecondary}`}>
+                        프로젝트
+                        <select
+                          value={projects.some(project => project.id === msg.scheduleProposal?.projectId) ? msg.scheduleProposal.projectId : ''}
+                          onChange={(e) => updateScheduleProposalProject(msg.id, e.target.value)}
+                          className={`flex-1 min-w-0 px-2 py-1 rounded-md ${colors.inputBg} ${colors.textPrimary} border ${colors.border} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+                        >
+                          <option value="">새 프로젝트: {msg.scheduleProposal.project}</option>
+                          {projects.map(project => (
+                            <option key={project.id} value={project.id}>
+                              {describeProject(project)}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
                     <div className="space-y-2">
                       {msg.scheduleProposal.items.map((item, idx) => {
                         const checked = Boolean(msg.scheduleProposal?.selected?.[idx]);
@@ -980,7 +1113,7 @@ ${searchInstruction}
                                     disabled={disabled}
                                     onClick={() => openScheduleProposalDateEditor(msg.id, idx)}
                                   >
-                                    {item.date}
+                                    {item.endDate ? `${item.date} ~ ${item.endDate}` : item.date}
                                   </button>
                                   {isDateEditorOpen && !disabled && (
                                     <div className={`absolute z-50 top-full left-0 mt-1 w-44 rounded-lg border ${colors.border} ${colors.componentBg} p-2 shadow-xl`}>
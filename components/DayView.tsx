@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { EVENT_STATUS_LABELS, KOREAN_DAY_NAMES_SHORT } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CalendarEvent } from '../types';
+import { getKoreanHoliday, isBusinessDay } from '../utils/businessDays';
+import { getCategoryDefinition } from '../utils/categories';
+import { diffDateKeysInDays, parseDateKey } from '../utils/dateKey';
+import { CARRY_OVER_LOOKBACK_DAYS, getCarryOverItems, getDayItems } from '../utils/dayFocus';
+import { formatEventTiming, getEventEndDate } from '../utils/eventTime';
+
+interface DayViewProps {
+  dateKey: string;
+  events: CalendarEvent[];
+  reports: Record<string, string>;
+  generatingReportId: string | null;
+  reportError: { eventId: string; message: string } | null;
+  canGenerateReport: boolean;
+  // False while a modal is open, so the arrow keys stay with it.
+  shortcutsEnabled: boolean;
+  onGenerateReport: (event: CalendarEvent) => void;
+  onEventClick: (event: CalendarEvent) => void;
+  onToggleDone: (event: CalendarEvent) => void;
+  onReschedule: (event: CalendarEvent, dateKey: string) => void;
+  onCreate: (dateKey: string) => void;
+  onStepBusinessDay: (offset: number) => void;
+}
+
+const REPORT_PREVIEW_LENGTH = 180;
+
+// The report's "1. 업무/일정 설명" section (or its start) as plain text.
+const summarizeReport = (text: string) => {
+  const sectionStart = text.search(/1\.\s*(?:\*\*)?업무\/일정 설명(?:\*\*)?:?/i);
+  const section = sectionStart === -1 ? text : text.slice(sectionStart).replace(/^1\.\s*(?:\*\*)?업무\/일정 설명(?:\*\*)?:?/i, '');
+  const sectionEnd = section.search(/\n\s*2\.\s/);
+  const plain = (sectionEnd === -1 ? section : section.slice(0, sectionEnd))
+    .replace(/[*#`>]/g, '')
+    .replace(/^\s*[-+]\s+/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return plain.length > REPORT_PREVIEW_LENGTH ? `${plain.slice(0, REPORT_PREVIEW_LENGTH)}…` : plain;
+};
+
+const DayView: React.FC<DayViewProps> = ({
+  dateKey,
+  events,
+  reports,
+  generatingReportId,
+  reportError,
+  canGenerateReport,
+  shortcutsEnabled,
+  onGenerateReport,
+  onEventClick,
+  onToggleDone,
+  onReschedule,
+  onCreate,
+  onStepBusinessDay,
+}) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const onStepBusinessDayRef = useRef(onStepBusinessDay);
+  onStepBusinessDayRef.current = onStepBusinessDay;
+
+  const { allDay, timed } = useMemo(() => getDayItems(events, dateKey), [events, dateKey]);
+  const carryOver = useMemo(() => getCarryOverItems(events, dateKey), [events, dateKey]);
+  const date = parseDateKey(dateKey);
+  const holiday = getKoreanHoliday(dateKey);
+
+  // ← / → jump to the previous / next business day; text fields keep their own arrow keys.
+  useEffect(() => {
+    if (!shortcutsEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.shiftKey) return;
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      e.preventDefault();
+      onStepBusinessDayRef.current(e.key === 'ArrowLeft' ? -1 : 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutsEnabled]);
+
+  const renderReportPreview = (event: CalendarEvent) => {
+    const report = reports[event.id];
+    if (report) {
+      return (
+        <button
+          type="button"
+          onClick={() => onEventClick(event)}
+          className={`mt-1.5 w-full text-left text-xs leading-relaxed ${colors.textSecondary} hover:${colors.textPrimary}`}
+          title="AI 보고서 전체 보기"
+        >
+          <span className={`mr-1 font-semibold ${colors.accentColor}`}>AI</span>
+          {summarizeReport(report)}
+        </button>
+      );
+    }
+    if (generatingReportId === event.id) {
+      return <p className={`mt-1.5 text-xs ${colors.textSecondary} animate-pulse`}>AI 보고서를 작성하고 있습니다…</p>;
+    }
+    return (
+      <div className="mt-1.5 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onGenerateReport(event)}
+          disabled={!canGenerateReport}
+          className={`text-xs font-medium ${colors.accentColor} hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed`}
+          title={canGenerateReport ? undefined : 'API Key를 설정하면 사용할 수 있습니다.'}
+        >
+          AI 보고서 미리보기
+        </button>
+        {reportError?.eventId === event.id && <span className="text-xs text-red-500">{reportError.message}</span>}
+      </div>
+    );
+  };
+
+  const renderItem = (event: CalendarEvent, isCarryOver = false) => {
+    const { color, icon } = getCategoryDefinition(categorySettings, event.category);
+    const isDone = event.status === 'done';
+    const timing = formatEventTiming(event);
+    const overdueDays = isCarryOver ? diffDateKeysInDays(getEventEndDate(event), dateKey) : 0;
+    return (
+      <li
+        key={event.id}
+        className={`flex gap-3 p-3 rounded-lg border ${colors.border} ${colors.componentBg} ${event.hidden ? 'opacity-50 italic' : ''}`}
+      >
+        <div className={`w-12 flex-shrink-0 pt-0.5 text-xs font-semibold ${colors.textSecondary}`}>
+          {isCarryOver ? `${overdueDays}일 전` : event.startTime && event.date === dateKey ? event.startTime : '종일'}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={isDone}
+              onChange={() => onToggleDone(event)}
+              className={`h-4 w-4 flex-shrink-0 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+              aria-label={`${event.title} ${isDone ? '완료 취소' : '완료'}`}
+            />
+            <span className={`h-2 w-2 flex-shrink-0 rounded-full ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+            <button
+              type="button"
+              onClick={() => onEventClick(event)}
+              className={`min-w-0 text-left text-sm font-semibold truncate ${isDone ? `line-through ${colors.textSecondary}` : colors.textPrimary} hover:underline`}
+            >
+              {icon && <span className="mr-1" aria-hidden="true">{icon}</span>}
+              {event.title}
+            </button>
+            {event.status === 'inProgress' && (
+              <span className="flex-shrink-0 text-[11px] font-semibold text-amber-500">{EVENT_STATUS_LABELS.inProgress}</span>
+            )}
+            {isCarryOver && (
+              <button
+                type="button"
+                onClick={() => onReschedule(event, dateKey)}
+                className={`ml-auto flex-shrink-0 text-xs px-2 py-0.5 rounded border ${colors.border} ${colors.textSecondary} ${colors.hoverEffect}`}
+              >
+                이 날로 옮기기
+              </button>
+            )}
+          </div>
+          <div className={`mt-0.5 text-xs ${colors.textSecondary}`}>
+            {[event.category, timing, event.seriesId ? '반복' : ''].filter(Boolean).join(' · ')}
+          </div>
+          {renderReportPreview(event)}
+        </div>
+      </li>
+    );
+  };
+
+  const renderSection = (title: string, items: CalendarEvent[], isCarryOver = false) =>
+    items.length > 0 && (
+      <section className="mb-5">
+        <h3 className={`mb-2 text-sm font-bold ${colors.textPrimary}`}>
+          {title} <span className={`font-normal ${colors.textSecondary}`}>{items.length}건</span>
+        </h3>
+        <ul className="space-y-2">{items.map(event => renderItem(event, isCarryOver))}</ul>
+      </section>
+    );
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex-shrink-0 flex flex-wrap items-center justify-between gap-2 mb-2 px-1">
+        <div className="flex items-baseline gap-2">
+          <span className={`text-sm font-semibold ${holiday || date.getDay() === 0 ? 'text-red-500' : date.getDay() === 6 ? 'text-blue-500' : colors.textPrimary}`}>
+            {KOREAN_DAY_NAMES_SHORT[date.getDay()]}요일
+          </span>
+          {holiday && <span className="text-xs text-red-500">{holiday.name}</span>}
+          {!isBusinessDay(dateKey) && <span className={`text-xs ${colors.textSecondary}`}>휴무일</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`hidden sm:inline text-xs ${colors.textSecondary}`}>← → 이전/다음 영업일</span>
+          <button
+            type="button"
+            onClick={() => onCreate(dateKey)}
+            className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-1 px-3 rounded-lg transition-colors text-xs`}
+          >
+            일정 추가
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex-grow min-h-0 overflow-y-auto scrollbar-thin ${colors.mainBg} rounded-xl border ${colors.border}/50 p-3 sm:p-4`}>
+        {renderSection('종일', allDay)}
+        {renderSection('시간 일정', timed)}
+        {allDay.length === 0 && timed.length === 0 && (
+          <p className={`text-sm ${colors.textSecondary} text-center py-6`}>이 날에는 일정이 없습니다.</p>
+        )}
+        {renderSection(`지난 ${CARRY_OVER_LOOKBACK_DAYS}일간 끝내지 못한 일`, carryOver, true)}
+      </div>
+    </div>
+  );
+};
+
+export default DayView;
@@ -0,0 +1,339 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EVENT_STATUS_LABELS } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { Project, UserCalendarEvent } from '../types';
+import { getCategoryDefinition } from '../utils/categories';
+import { formatEventTiming } from '../utils/eventTime';
+import { describeRecurrence } from '../utils/recurrence';
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  ProjectFields,
+  getProjectProgress,
+  getProjectTasks,
+  normalizeProjectFields,
+} from '../utils/projects';
+
+type ProjectPanelProps = {
+  projects: Project[]; // already sorted
+  userEvents: UserCalendarEvent[];
+  // Project whose tasks are shown; '' lists all projects.
+  selectedProjectId: string;
+  onSelect: (projectId: string) => void;
+  onClose: () => void;
+  onCreate: (fields: ProjectFields) => void;
+  onUpdate: (project: Project) => void;
+  onDelete: (projectId: string) => void;
+  onOpenTask: (event: UserCalendarEvent) => void;
+  onAddTask: (project: Project) => void;
+};
+
+type ProjectDraft = Record<keyof ProjectFields, string>;
+
+const EMPTY_DRAFT: ProjectDraft = {
+  name: '',
+  owner: '',
+  deadline: '',
+  executionStart: '',
+  executionEnd: '',
+  budgetLine: '',
+};
+
+const toDraft = (project: Project): ProjectDraft => ({
+  name: project.name,
+  owner: project.owner ?? '',
+  deadline: project.deadline ?? '',
+  executionStart: project.executionStart ?? '',
+  executionEnd: project.executionEnd ?? '',
+  budgetLine: project.budgetLine ?? '',
+});
+
+const buildProjectFields = (draft: ProjectDraft): { fields?: ProjectFields; error?: string } => {
+  if (!draft.name.trim()) return { error: '프로젝트 이름을 입력해주세요.' };
+  if (Boolean(draft.executionStart) !== Boolean(draft.executionEnd)) {
+    return { error: '실행 기간은 시작일과 종료일을 모두 입력해주세요.' };
+  }
+  if (draft.executionStart && draft.executionEnd < draft.executionStart) {
+    return { error: '실행 종료일은 시작일 이후 날짜로 선택해주세요.' };
+  }
+  const fields = normalizeProjectFields(draft);
+  return fields ? { fields } : { error: '프로젝트 이름을 입력해주세요.' };
+};
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projects,
+  userEvents,
+  selectedProjectId,
+  onSelect,
+  onClose,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onOpenTask,
+  onAddTask,
+}) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const selectedProject = projects.find(project => project.id === selectedProjectId) ?? null;
+  // Form values while a project is created or edited; null otherwise.
+  const [draft, setDraft] = useState<ProjectDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [selectedProjectId]);
+
+  const tasksByProject = useMemo(() => {
+    const map = new Map<string, UserCalendarEvent[]>();
+    for (const project of projects) map.set(project.id, getProjectTasks(project.id, userEvents));
+    return map;
+  }, [projects, userEvents]);
+
+  const handleSave = () => {
+    if (!draft) return;
+    const { fields, error: draftError } = buildProjectFields(draft);
+    if (!fields) {
+      setError(draftError ?? null);
+      return;
+    }
+    if (selectedProject) onUpdate({ id: selectedProject.id, ...fields });
+    else onCreate(fields);
+    setDraft(null);
+    setError(null);
+  };
+
+  const inputClass = `w-full ${colors.inputBg} border ${colors.border} rounded-md px-2 py-1 text-sm ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`;
+
+  const renderProgress = (tasks: UserCalendarEvent[]) => {
+    const { done, total, percent } = getProjectProgress(tasks);
+    return (
+      <div className="flex items-center gap-2">
+        <div className={`flex-1 h-1.5 rounded-full ${colors.inputBg} overflow-hidden`}>
+          <div className="h-full bg-cyan-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <span className={`text-[11px] tabular-nums ${colors.textSecondary}`}>
+          {done}/{total}
+        </span>
+      </div>
+    );
+  };
+
+  const renderField = (key: keyof ProjectFields, label: string, type: 'text' | 'date' = 'text') =>
+    draft && (
+      <label className={`block text-xs ${colors.textSecondary}`}>
+        {label}
+        <input
+          type={type}
+          value={draft[key]}
+          onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+          maxLength={key === 'name' ? MAX_PROJECT_NAME_LENGTH : undefined}
+          className={`${inputClass} mt-0.5`}
+        />
+      </label>
+    );
+
+  const renderForm = () =>
+    draft && (
+      <div className={`p-3 rounded-lg border ${colors.border} space-y-2`}>
+        {renderField('name', '이름')}
+        {renderField('owner', '담당자')}
+        {renderField('deadline', '마감', 'date')}
+        <div className="grid grid-cols-2 gap-2">
+          {renderField('executionStart', '실행 시작', 'date')}
+          {renderField('executionEnd', '실행 종료', 'date')}
+        </div>
+        {renderField('budgetLine', '예산 과목')}
+        {error && <div className="text-xs p-2 rounded-md border text-red-200 bg-red-900/20 border-red-700">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(null);
+              setError(null);
+            }}
+            className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} text-sm font-semibold py-1 px-3 rounded-md transition-colors`}
+          >
+            취소
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} text-sm font-semibold py-1 px-3 rounded-md transition-colors`}
+          >
+            저장
+          </button>
+        </div>
+      </div>
+    );
+
+  const renderProjectList = () => (
+    <>
+      {draft ? (
+        renderForm()
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className={`w-full ${colors.accentBg} hover:opacity-90 ${colors.buttonText} text-sm font-semibold py-1.5 rounded-md transition-colors`}
+        >
+          새 프로젝트
+        </button>
+      )}
+      {projects.length === 0 && !draft && (
+        <p className={`text-xs ${colors.textSecondary}`}>
+          프로젝트가 없습니다. 챗봇의 일정 추가 모드에서 제안을 적용하거나 여기서 직접 만들 수 있습니다.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {projects.map(project => {
+          const tasks = tasksByProject.get(project.id) ?? [];
+          return (
+            <li key={project.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(project.id)}
+                className={`w-full text-left p-2 rounded-lg border ${colors.border} ${colors.hoverEffect} space-y-1`}
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className={`text-sm font-semibold ${colors.textPrimary} truncate`}>{project.name}</span>
+                  {project.deadline && (
+                    <span className={`text-[11px] ${colors.textSecondary} flex-shrink-0`}>마감 {project.deadline}</span>
+                  )}
+                </div>
+                {renderProgress(tasks)}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+
+  const renderProjectDetail = (project: Project) => {
+    const tasks = tasksByProject.get(project.id) ?? [];
+    const details: Array<[string, string | undefined]> = [
+      ['담당자', project.owner],
+      ['마감', project.deadline],
+      ['실행 기간', project.executionStart && `${project.executionStart} ~ ${project.executionEnd}`],
+      ['예산 과목', project.budgetLine],
+    ];
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => onSelect('')}
+          className={`text-xs ${colors.textSecondary} hover:${colors.textPrimary} underline`}
+        >
+          ← 프로젝트 목록
+        </button>
+        {draft ? (
+          renderForm()
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <h3 className={`text-base font-semibold ${colors.textPrimary} break-all`}>{project.name}</h3>
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(project))}
+                  className={`text-xs px-2 py-1 rounded-md border ${colors.border} ${colors.textSecondary} hover:${colors.textPrimary}`}
+                >
+                  수정
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(project.id)}
+                  className="text-xs px-2 py-1 rounded-md border border-red-700 text-red-300 hover:bg-red-900/30"
+                >
+                  삭제
+                </button>
+              </div>
+            </div>
+            <dl className={`grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs ${colors.textSecondary}`}>
+              {details
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt>{label}</dt>
+                    <dd className={`${colors.textPrimary} break-all`}>{value}</dd>
+                  </React.Fragment>
+                ))}
+            </dl>
+            {renderProgress(tasks)}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <h4 className={`text-sm font-semibold ${colors.textPrimary}`}>할 일 {tasks.length}건</h4>
+          <button
+            type="button"
+            onClick={() => onAddTask(project)}
+            className={`text-xs px-2 py-1 rounded-md border ${colors.border} ${colors.textSecondary} hover:${colors.textPrimary}`}
+          >
+            할 일 추가
+          </button>
+        </div>
+        <ol className="space-y-1">
+          {tasks.map(task => {
+            const { icon } = getCategoryDefinition(categorySettings, task.category);
+            const timing = formatEventTiming(task);
+            return (
+              <li key={task.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpenTask(task)}
+                  className={`w-full text-left px-2 py-1.5 rounded-md ${colors.hoverEffect} flex items-start gap-2`}
+                >
+                  <span className={`text-[11px] tabular-nums ${colors.textSecondary} flex-shrink-0 pt-0.5`}>{task.date}</span>
+                  <span className="flex-1 min-w-0">
+                    <span
+                      className={`block text-sm ${colors.textPrimary} truncate ${task.status === 'done' ? 'line-through opacity-60' : ''}`}
+                    >
+                      {icon && <span className="mr-1" aria-hidden="true">{icon}</span>}
+                      {task.title}
+                    </span>
+                    <span className={`block text-[11px] ${colors.textSecondary} truncate`}>
+                      {[
+                        EVENT_STATUS_LABELS[task.status ?? 'notStarted'],
+                        timing,
+                        task.recurrence ? describeRecurrence(task.recurrence, task.date) : '',
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+          {tasks.length === 0 && <li className={`text-xs ${colors.textSecondary}`}>연결된 일정이 없습니다.</li>}
+        </ol>
+      </>
+    );
+  };
+
+  return (
+    <aside
+      className={`fixed top-0 right-0 h-full w-full max-w-sm ${colors.componentBg} border-l ${colors.border} shadow-2xl z-[90] flex flex-col`}
+      aria-label="프로젝트"
+    >
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${colors.border} flex-shrink-0`}>
+        <h2 className={`text-lg font-semibold ${colors.accentColor}`}>프로젝트</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className={`px-2 py-1 rounded ${colors.textSecondary} ${colors.hoverEffect}`}
+          aria-label="프로젝트 패널 닫기"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-4 space-y-3">
+        {selectedProject ? renderProjectDetail(selectedProject) : renderProjectList()}
+      </div>
+    </aside>
+  );
+};
+
+export default ProjectPanel;
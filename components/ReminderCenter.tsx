@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  CALENDAR_EVENT_ACTION_EVENT,
+  CalendarEvent,
+  CalendarEventAction,
+  UserCalendarEvent,
+} from '../types';
+import { addDaysToDateKey, compareDateKeys, formatDateKey } from '../utils/dateKey';
+import { DueReminder, collectDueReminders, describeReminder } from '../utils/reminders';
+
+type ReminderCenterProps = {
+  builtinEvents: CalendarEvent[];
+  userEvents: UserCalendarEvent[];
+};
+
+type ReminderToast = {
+  id: string;
+  reminder: DueReminder;
+};
+
+const FIRED_REMINDERS_STORAGE_KEY = 'smartcalendar:firedReminders';
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Fired keys are kept a while past the event date so a late re-check never fires them again.
+const FIRED_KEY_RETENTION_DAYS = 7;
+const MAX_TOASTS = 5;
+
+// key -> event date, so entries can be pruned once the event is well past.
+const loadFiredReminders = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(FIRED_REMINDERS_STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+    );
+  } catch {
+    return {};
+  }
+};
+
+const saveFiredReminders = (fired: Record<string, string>) => {
+  try {
+    localStorage.setItem(FIRED_REMINDERS_STORAGE_KEY, JSON.stringify(fired));
+  } catch (error) {
+    console.error('Failed to persist fired reminders', error);
+  }
+};
+
+const pruneFiredReminders = (fired: Record<string, string>, todayKey: string) => {
+  const cutoff = addDaysToDateKey(todayKey, -FIRED_KEY_RETENTION_DAYS);
+  return Object.fromEntries(Object.entries(fired).filter(([, date]) => compareDateKeys(date, cutoff) >= 0));
+};
+
+const dispatchCalendarEventAction = (action: CalendarEventAction) => {
+  window.dispatchEvent(new CustomEvent<CalendarEventAction>(CALENDAR_EVENT_ACTION_EVENT, { detail: action }));
+};
+
+const ReminderCenter: React.FC<ReminderCenterProps> = ({ builtinEvents, userEvents }) => {
+  const { colors } = useTheme();
+  const { reminderSettings } = useApiKey();
+  const [toasts, setToasts] = useState<ReminderToast[]>([]);
+
+  const sourcesRef = useRef({ builtinEvents, userEvents });
+  sourcesRef.current = { builtinEvents, userEvents };
+
+  const notify = useCallback((reminder: DueReminder) => {
+    const useDesktop =
+      reminderSettings.desktopNotifications && 'Notification' in window && Notification.permission === 'granted';
+    if (useDesktop) {
+      try {
+        const notification = new Notification('스마트캘린더 알림', {
+          body: describeReminder(reminder),
+          tag: reminder.keys[reminder.keys.length - 1],
+        });
+        notification.onclick = () => {
+          window.focus();
+          dispatchCalendarEventAction({ type: 'openReport', event: reminder.event });
+          notification.close();
+        };
+        return;
+      } catch (error) {
+        // Some browsers (e.g. Android Chrome) only allow notifications from a service worker.
+        console.error('Desktop notification failed, falling back to in-app reminder', error);
+      }
+    }
+    setToasts(prev => [{ id: reminder.keys.join('|'), reminder }, ...prev].slice(0, MAX_TOASTS));
+  }, [reminderSettings.desktopNotifications]);
+
+  const checkReminders = useCallback(() => {
+    const { builtinEvents: builtin, userEvents: user } = sourcesRef.current;
+    // Calendar reports its sources after the first load; until then there is nothing to check.
+    if (builtin.length === 0 && user.length === 0) return;
+
+    const now = new Date();
+    const todayKey = formatDateKey(now);
+    const fired = pruneFiredReminders(loadFiredReminders(), todayKey);
+    const due = collectDueReminders(builtin, user, reminderSettings, new Set(Object.keys(fired)), now);
+    if (due.length === 0) {
+      saveFiredReminders(fired);
+      return;
+    }
+
+    // Persist before notifying so another open tab does not fire the same reminders.
+    for (const reminder of due) {
+      for (const key of reminder.keys) fired[key] = reminder.event.date;
+    }
+    saveFiredReminders(fired);
+    due.forEach(notify);
+  }, [reminderSettings, notify]);
+
+  useEffect(() => {
+    checkReminders();
+  }, [builtinEvents, userEvents, checkReminders]);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(checkReminders, CHECK_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkReminders();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [checkReminders]);
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(toast => toast.id !== id));
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+      {toasts.map(({ id, reminder }) => (
+        <div key={id} className={`${colors.componentBg} border ${colors.border} rounded-lg shadow-2xl p-3 flex items-start gap-2`}>
+          <button
+            type="button"
+            onClick={() => {
+              dispatchCalendarEventAction({ type: 'openReport', event: reminder.event });
+              dismissToast(id);
+            }}
+            className="flex-1 min-w-0 text-left"
+            title="AI 보고서 열기"
+          >
+            <div className={`text-xs font-semibold ${colors.accentColor}`}>
+              {reminder.leadDays === 0 ? '오늘 마감' : `D-${reminder.leadDays} 알림`}
+            </div>
+            <div className={`text-sm ${colors.textPrimary} leading-snug break-words`}>{reminder.event.title}</div>
+            <div className={`text-[11px] ${colors.textSecondary}`}>{reminder.event.date} · {reminder.event.category}</div>
+          </button>
+          <button
+            type="button"
+            onClick={() => dismissToast(id)}
+            className={`${colors.textSecondary} ${colors.hoverEffect} rounded px-1 text-sm flex-shrink-0`}
+            aria-label="알림 닫기"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReminderCenter;
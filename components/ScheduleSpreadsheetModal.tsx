@@ -0,0 +1,498 @@
+import React, { useMemo, useState } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { scheduleData } from '../data/scheduleData';
+import { BASE_SCHEDULE_END_YEAR, CalendarEvent, UserCalendarEvent } from '../types';
+import {
+  RekeyedEventData,
+  describeKeptConflicts,
+  loadLocalEventData,
+  rekeyBuiltinEventData,
+  saveLocalEventData,
+} from '../utils/backup';
+import { findCategory } from '../utils/categories';
+import { compareDateKeys } from '../utils/dateKey';
+import { expandRecurringEvent } from '../utils/recurrence';
+import {
+  REQUIRED_SCHEDULE_COLUMNS,
+  SCHEDULE_COLUMNS,
+  SCHEDULE_COLUMN_LABELS,
+  ScheduleColumn,
+  ScheduleColumnMapping,
+  defaultScheduleColumns,
+  detectScheduleColumns,
+  formatScheduleLine,
+  isBuiltinScheduleRow,
+  listScheduleEntries,
+  mapScheduleEventIds,
+  parseScheduleLine,
+  readScheduleRow,
+  toScheduleRowCells,
+} from '../utils/scheduleText';
+import { SheetRows, buildCsv, buildXlsx, readSpreadsheetFile } from '../utils/spreadsheet';
+
+type ScheduleSpreadsheetModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  userEvents: UserCalendarEvent[];
+};
+
+type ImportMode = 'replace' | 'append';
+
+type ImportedSheet = {
+  fileName: string;
+  rows: SheetRows;
+};
+
+type PreviewRow = {
+  rowNumber: number; // 1-based, as shown in the spreadsheet
+  line: string;
+  error?: string;
+  warning?: string;
+  skipped?: string;
+};
+
+const EXPORT_HEADER = SCHEDULE_COLUMNS.map(column => SCHEDULE_COLUMN_LABELS[column]);
+const EXPORT_COLUMN_WIDTHS = [6, 8, 10, 60, 12, 8];
+const MAX_VALID_PREVIEW_ROWS = 5;
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+const sourceLabel = (event: CalendarEvent) => (event.source === 'ai' ? 'AI' : '사용자');
+
+const describeDroppedData = ({ droppedOverrides, droppedDependencies }: RekeyedEventData) =>
+  [
+    droppedOverrides > 0 ? `기본일정 수정·숨김·진행 상태 ${droppedOverrides}건` : '',
+    droppedDependencies > 0 ? `선행 일정 연결 ${droppedDependencies}건` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+const ScheduleSpreadsheetModal: React.FC<ScheduleSpreadsheetModalProps> = ({ isOpen, onClose, userEvents }) => {
+  const { colors } = useTheme();
+  const { customScheduleText, setCustomScheduleText, categorySettings } = useApiKey();
+  const currentYear = new Date().getFullYear();
+  const [exportYear, setExportYear] = useState(currentYear);
+  const [sheet, setSheet] = useState<ImportedSheet | null>(null);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [mapping, setMapping] = useState<ScheduleColumnMapping>(() => defaultScheduleColumns(0));
+  const [importMode, setImportMode] = useState<ImportMode>('append');
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const exportYears = useMemo(() => {
+    const years: number[] = [];
+    for (let y = currentYear; y <= Math.max(currentYear, BASE_SCHEDULE_END_YEAR); y++) years.push(y);
+    return years;
+  }, [currentYear]);
+
+  const columnCount = useMemo(() => Math.max(0, ...(sheet?.rows.map(row => row.length) ?? [])), [sheet]);
+
+  const preview = useMemo(() => {
+    if (!sheet) return null;
+    const dataRows = hasHeaderRow ? sheet.rows.slice(1) : sheet.rows;
+    const firstRowNumber = hasHeaderRow ? 2 : 1;
+    const rows: PreviewRow[] = [];
+    dataRows.forEach((cells, i) => {
+      if (cells.every(cell => cell.trim() === '')) return;
+      const scheduleRow = readScheduleRow(cells, mapping);
+      const line = formatScheduleLine(scheduleRow);
+      if (!isBuiltinScheduleRow(scheduleRow)) {
+        // Exported user/AI events would otherwise come back as builtin lines.
+        rows.push({
+          rowNumber: firstRowNumber + i,
+          line,
+          skipped: `출처가 "${scheduleRow.source.trim()}"인 행은 일정표에 넣지 않습니다.`,
+        });
+        return;
+      }
+      const parsed = parseScheduleLine(line);
+      const category = scheduleRow.category.trim();
+      rows.push({
+        rowNumber: firstRowNumber + i,
+        line,
+        error: parsed.ok ? undefined : parsed.reason,
+        warning:
+          parsed.ok && category && !findCategory(categorySettings, category)
+            ? `업무분류 "${category}"이(가) 없어 제목으로 분류를 추정합니다.`
+            : undefined,
+      });
+    });
+    return {
+      valid: rows.filter(row => !row.error && !row.skipped),
+      rejected: rows.filter(row => row.error),
+      skipped: rows.filter(row => row.skipped),
+      warnings: rows.filter(row => row.warning),
+    };
+  }, [sheet, hasHeaderRow, mapping, categorySettings]);
+
+  const missingColumns = REQUIRED_SCHEDULE_COLUMNS.filter(column => mapping[column] < 0);
+
+  if (!isOpen) return null;
+
+  // Builtin rows are the schedule text's own lines, so a re-import reproduces every year's dates;
+  // the year's user events follow for reference and are skipped on import by their 출처.
+  const buildExportRows = (): SheetRows => {
+    const scheduleRows = (customScheduleText || scheduleData).split('\n').flatMap(line => {
+      const parsed = parseScheduleLine(line);
+      return parsed.ok ? [toScheduleRowCells(parsed.line)] : [];
+    });
+
+    const start = `${exportYear}-01-01`;
+    const end = `${exportYear}-12-31`;
+    const inYear = (ev: CalendarEvent) => compareDateKeys(ev.date, start) >= 0 && compareDateKeys(ev.date, end) <= 0;
+    const events = userEvents
+      .flatMap((ev): CalendarEvent[] => (ev.recurrence ? expandRecurringEvent(ev, start, end) : inYear(ev) ? [ev] : []))
+      .sort((a, b) => compareDateKeys(a.date, b.date) || a.title.localeCompare(b.title, 'ko'));
+
+    return [
+      EXPORT_HEADER,
+      ...scheduleRows,
+      ...events.map(ev => {
+        const [, m, d] = ev.date.split('-').map(Number);
+        return [`${m}월`, `${d}일`, ev.category, ev.title, '', sourceLabel(ev)];
+      }),
+    ];
+  };
+
+  // Builtin ids number the schedule lines in order, so a new text moves the stored overrides and
+  // dependency links of each year/month/day/title onto its new id.
+  const rekeyForScheduleText = async (nextText: string) => {
+    const lastYear = Math.max(currentYear, BASE_SCHEDULE_END_YEAR);
+    const previous = listScheduleEntries(customScheduleText || scheduleData, currentYear, lastYear);
+    const next = listScheduleEntries(nextText || scheduleData, currentYear, lastYear);
+    return rekeyBuiltinEventData(
+      await loadLocalEventData(),
+      new Set(previous.map(entry => entry.id)),
+      mapScheduleEventIds(previous, next),
+    );
+  };
+
+  /** Applies the text after confirming; resolves to the status note, or null when cancelled. */
+  const applyScheduleText = async (nextText: string, question: string): Promise<string | null> => {
+    const rekeyed = await rekeyForScheduleText(nextText);
+    const dropped = describeDroppedData(rekeyed);
+    const warning = dropped ? `\n새 일정표에 날짜·제목이 같은 일정이 없어 ${dropped}이 삭제됩니다.` : '';
+    if (!window.confirm(`${question}${warning}`)) return null;
+    const { keptConflictCount } = await saveLocalEventData(rekeyed.data);
+    setCustomScheduleText(nextText);
+    return `${dropped ? ` ${dropped}을 삭제했습니다.` : ''}${describeKeptConflicts(keptConflictCount)}`;
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    setStatus(null);
+    const rows = buildExportRows();
+    if (rows.length <= 1) {
+      setStatus({ type: 'error', message: `${exportYear}년에 내보낼 일정이 없습니다.` });
+      return;
+    }
+    const filename = `smart-calendar-schedule-${exportYear}.${format}`;
+    if (format === 'csv') {
+      downloadBlob(filename, new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+    } else {
+      downloadBlob(filename, buildXlsx(rows, `${exportYear}년 일정`, EXPORT_COLUMN_WIDTHS));
+    }
+    setStatus({ type: 'success', message: `일정표와 ${exportYear}년 사용자 일정 ${rows.length - 1}줄을 ${format.toUpperCase()}로 내보냈습니다.` });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setStatus(null);
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (rows.length === 0) throw new Error('파일에 내용이 없습니다.');
+      const detected = detectScheduleColumns(rows[0]);
+      setHasHeaderRow(detected !== null);
+      setMapping(detected ?? defaultScheduleColumns(Math.max(...rows.map(row => row.length))));
+      setSheet({ fileName: file.name, rows });
+    } catch (error) {
+      setSheet(null);
+      setStatus({
+        type: 'error',
+        message: error instanceof Error ? error.message : '파일을 읽지 못했습니다.',
+      });
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!preview || preview.valid.length === 0 || missingColumns.length > 0) return;
+    const importedText = preview.valid.map(row => row.line).join('\n');
+    const excluded = [
+      preview.rejected.length > 0 ? `오류 ${preview.rejected.length}줄` : '',
+      preview.skipped.length > 0 ? `사용자 일정 ${preview.skipped.length}줄` : '',
+    ]
+      .filter(Boolean)
+      .join(', ');
+    const excludedNote = excluded ? ` (${excluded} 제외)` : '';
+    try {
+      if (importMode === 'append') {
+        // Appending keeps the ids (and thus overrides) of the existing lines, which depend on line order.
+        setCustomScheduleText(`${(customScheduleText || scheduleData).trimEnd()}\n${importedText}`);
+        setStatus({ type: 'success', message: `${preview.valid.length}줄을 일정표에 추가했습니다.${excludedNote}` });
+      } else {
+        const note = await applyScheduleText(importedText, '연간 일정표를 가져온 내용으로 교체할까요?');
+        if (note === null) return;
+        setStatus({ type: 'success', message: `${preview.valid.length}줄로 일정표를 교체했습니다.${excludedNote}${note}` });
+      }
+      setSheet(null);
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : '일정표를 적용하지 못했습니다.' });
+    }
+  };
+
+  const handleResetSchedule = async () => {
+    try {
+      const note = await applyScheduleText('', '가져온 일정표를 지우고 기본 일정표로 되돌릴까요?');
+      if (note === null) return;
+      setStatus({ type: 'success', message: `기본 일정표로 되돌렸습니다.${note}` });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : '일정표를 되돌리지 못했습니다.' });
+    }
+  };
+
+  const customLineCount = customScheduleText ? customScheduleText.split('\n').filter(line => line.trim()).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`w-full max-w-2xl max-h-[90vh] overflow-y-auto scrollbar-thin ${colors.componentBg} border ${colors.border} rounded-xl shadow-xl p-5 ${colors.textPrimary}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className={`text-lg font-semibold ${colors.accentColor}`}>연간 일정표 (CSV / XLSX)</h2>
+            <p className={`text-xs ${colors.textSecondary} mt-1`}>
+              엑셀로 관리하는 업무 일정을 가져오거나, 현재 일정을 같은 양식으로 내보냅니다.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`${colors.textSecondary} ${colors.hoverEffect} rounded-md px-2 py-1 text-sm`}
+            aria-label="닫기"
+          >
+            닫기
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-5">
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>내보내기</h3>
+              <span className={`text-[11px] ${colors.textSecondary}`}>일정표 규칙(모든 연도) + 선택한 연도의 사용자 일정(참고용)</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div>
+                <label className={`text-xs ${colors.textSecondary} block mb-1`} htmlFor="schedule-export-year">
+                  사용자 일정 연도
+                </label>
+                <select
+                  id="schedule-export-year"
+                  value={exportYear}
+                  onChange={(e) => setExportYear(Number(e.target.value))}
+                  className={`w-full p-2.5 ${colors.inputBg} border ${colors.border} rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none text-sm`}
+                >
+                  {exportYears.map(y => (
+                    <option key={y} value={y}>{y}년</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleExport('xlsx')}
+                className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm w-full`}
+              >
+                XLSX 내보내기
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('csv')}
+                className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm w-full`}
+              >
+                CSV 내보내기
+              </button>
+            </div>
+          </section>
+
+          <section className={`space-y-2 pt-4 border-t ${colors.border}`}>
+            <div className="flex items-center justify-between gap-3">
+              <h3 className={`text-sm font-semibold ${colors.textPrimary}`}>가져오기</h3>
+              <span className={`text-[11px] ${colors.textSecondary}`}>
+                {customScheduleText ? `가져온 일정표 사용 중 (${customLineCount}줄)` : '기본 일정표 사용 중'}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <label
+                className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors text-sm text-center cursor-pointer`}
+              >
+                <input type="file" accept=".csv,.tsv,.txt,.xlsx" className="hidden" onChange={handleFileChange} />
+                파일 선택
+              </label>
+              {customScheduleText && (
+                <button
+                  type="button"
+                  onClick={handleResetSchedule}
+                  className={`${colors.buttonBg} ${colors.hoverEffect} ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors text-sm`}
+                >
+                  기본 일정표로 되돌리기
+                </button>
+              )}
+            </div>
+            <p className={`text-[11px] ${colors.textSecondary} leading-relaxed`}>
+              열 순서: 월 | 일 | 업무분류 | 일정 | 적용대상(선택, 예: @중 @고) | 출처(선택). 출처가 사용자·AI인 행은 건너뜁니다. 일 뒤의 &gt;/&lt; 표시(주말·공휴일이면 다음/이전 영업일)와
+              한 칸에 쉼표로 적은 여러 일정도 그대로 인식합니다. 엑셀 .xls는 .xlsx 또는 CSV로 저장해주세요.
+            </p>
+
+            {sheet && preview && (
+              <div className={`mt-2 p-3 rounded-lg border ${colors.border} space-y-3`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold truncate">{sheet.fileName}</span>
+                  <label className={`flex items-center gap-2 text-xs ${colors.textSecondary} flex-shrink-0`}>
+                    <input
+                      type="checkbox"
+                      checked={hasHeaderRow}
+                      onChange={(e) => setHasHeaderRow(e.target.checked)}
+                      className={`h-4 w-4 rounded border ${colors.border} ${colors.inputBg} text-cyan-500 focus:ring-cyan-400`}
+                    />
+                    첫 행은 제목 행
+                  </label>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+                  {SCHEDULE_COLUMNS.map((column: ScheduleColumn) => (
+                    <div key={column}>
+                      <label className={`text-[11px] ${colors.textSecondary} block mb-0.5`} htmlFor={`schedule-column-${column}`}>
+                        {SCHEDULE_COLUMN_LABELS[column]}
+                        {REQUIRED_SCHEDULE_COLUMNS.includes(column) ? ' *' : ''}
+                      </label>
+                      <select
+                        id={`schedule-column-${column}`}
+                        value={mapping[column]}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [column]: Number(e.target.value) }))}
+                        className={`w-full p-1.5 ${colors.inputBg} border ${colors.border} rounded-md text-xs`}
+                      >
+                        <option value={-1}>(없음)</option>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <option key={i} value={i}>
+                            {i + 1}열{hasHeaderRow && sheet.rows[0][i] ? ` · ${sheet.rows[0][i]}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {missingColumns.length > 0 ? (
+                  <p className="text-xs text-red-400">
+                    필수 열을 지정해주세요: {missingColumns.map(column => SCHEDULE_COLUMN_LABELS[column]).join(', ')}
+                  </p>
+                ) : (
+                  <>
+                    <div className="text-xs">
+                      <span className="text-green-400">정상 {preview.valid.length}줄</span>
+                      {' · '}
+                      <span className={preview.rejected.length > 0 ? 'text-red-400' : colors.textSecondary}>
+                        오류 {preview.rejected.length}줄
+                      </span>
+                      {preview.skipped.length > 0 && (
+                        <span className={colors.textSecondary}> · 건너뜀 {preview.skipped.length}줄</span>
+                      )}
+                      {preview.warnings.length > 0 && <span className="text-amber-400"> · 확인 필요 {preview.warnings.length}줄</span>}
+                    </div>
+
+                    {preview.valid.length > 0 && (
+                      <div>
+                        <div className={`text-[11px] font-semibold ${colors.textSecondary} mb-1`}>변환 예시</div>
+                        <ul className={`text-[11px] font-mono ${colors.textSecondary} space-y-0.5`}>
+                          {preview.valid.slice(0, MAX_VALID_PREVIEW_ROWS).map(row => (
+                            <li key={row.rowNumber} className="truncate">
+                              {row.rowNumber}행: {row.line.replace(/\t;\t/g, ' ; ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {(preview.rejected.length > 0 || preview.skipped.length > 0 || preview.warnings.length > 0) && (
+                      <div className="max-h-48 overflow-y-auto scrollbar-thin">
+                        <table className="w-full text-[11px]">
+                          <thead>
+                            <tr className={colors.textSecondary}>
+                              <th className="text-left font-semibold pr-2 py-1">행</th>
+                              <th className="text-left font-semibold pr-2 py-1">내용</th>
+                              <th className="text-left font-semibold py-1">사유</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {[...preview.rejected, ...preview.skipped, ...preview.warnings]
+                              .sort((a, b) => a.rowNumber - b.rowNumber)
+                              .map(row => (
+                                <tr key={row.rowNumber} className={`border-t ${colors.border} align-top`}>
+                                  <td className="pr-2 py-1 font-mono">{row.rowNumber}</td>
+                                  <td className="pr-2 py-1 break-all">{row.line.replace(/\t;\t/g, ' ; ') || '(빈 행)'}</td>
+                                  <td className={`py-1 ${row.error ? 'text-red-400' : row.skipped ? colors.textSecondary : 'text-amber-400'}`}>
+                                    {row.error ?? row.skipped ?? row.warning}
+                                  </td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className={`flex gap-3 text-xs ${colors.textSecondary}`}>
+                        {(['append', 'replace'] as ImportMode[]).map(mode => (
+                          <label key={mode} className="flex items-center gap-1.5">
+                            <input
+                              type="radio"
+                              name="schedule-import-mode"
+                              checked={importMode === mode}
+                              onChange={() => setImportMode(mode)}
+                            />
+                            {mode === 'append' ? '현재 일정표에 추가' : '일정표 교체'}
+                          </label>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleApplyImport}
+                        disabled={preview.valid.length === 0}
+                        className={`${colors.accentBg} hover:opacity-90 ${colors.buttonText} font-semibold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-50`}
+                      >
+                        {preview.valid.length}줄 적용
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {status && (
+              <div
+                className={`text-xs p-2 rounded-md border ${status.type === 'success'
+                  ? 'text-green-200 bg-green-900/20 border-green-700'
+                  : 'text-red-200 bg-red-900/20 border-red-700'
+                  }`}
+              >
+                {status.message}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSpreadsheetModal;
@@ -0,0 +1,222 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { KOREAN_DAY_NAMES_SHORT } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CalendarEvent, EventCategory } from '../types';
+import { getCategoryDefinition, getCategoryNames } from '../utils/categories';
+import { parseDateKey } from '../utils/dateKey';
+import {
+  SEARCH_ORIGINS,
+  SEARCH_ORIGIN_LABELS,
+  SearchOrigin,
+  SearchResult,
+  getSearchOrigin,
+  groupSearchResultsByMonth,
+  searchEvents,
+} from '../utils/globalSearch';
+import { findKoreanMatch } from '../utils/koreanSearch';
+
+type SearchPaletteProps = {
+  events: CalendarEvent[];
+  reports: Record<string, string>;
+  onSelect: (event: CalendarEvent) => void;
+  onClose: () => void;
+};
+
+const FIELD_LABELS: Record<SearchResult['field'], string> = {
+  title: '',
+  details: '메모·링크',
+  report: 'AI 보고서',
+};
+
+const toggleInSet = <T,>(set: Set<T>, value: T) => {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+};
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ events, reports, onSelect, onClose }) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const [query, setQuery] = useState('');
+  // Empty sets mean "all".
+  const [categoryFilter, setCategoryFilter] = useState<Set<EventCategory>>(new Set());
+  const [originFilter, setOriginFilter] = useState<Set<SearchOrigin>>(new Set());
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const deferredQuery = useDeferredValue(query);
+
+  const categoryNames = useMemo(() => getCategoryNames(categorySettings), [categorySettings]);
+  const { results, total } = useMemo(() => {
+    const candidates = events.filter(
+      event =>
+        (categoryFilter.size === 0 || categoryFilter.has(event.category)) &&
+        (originFilter.size === 0 || originFilter.has(getSearchOrigin(event))),
+    );
+    return searchEvents(candidates, reports, deferredQuery);
+  }, [events, reports, deferredQuery, categoryFilter, originFilter]);
+  const months = useMemo(() => groupSearchResultsByMonth(results), [results]);
+
+  useEffect(() => setActiveIndex(0), [results]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-result-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + results.length) % results.length);
+    } else if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      const result = results[activeIndex];
+      if (result) onSelect(result.event);
+    }
+  };
+
+  const renderHighlighted = (text: string) => {
+    const index = findKoreanMatch(text, deferredQuery);
+    const length = deferredQuery.trim().length;
+    if (index === -1 || length === 0) return text;
+    return (
+      <>
+        {text.slice(0, index)}
+        <mark className="bg-amber-300/60 text-inherit rounded-sm">{text.slice(index, index + length)}</mark>
+        {text.slice(index + length)}
+      </>
+    );
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `px-2 py-0.5 text-xs rounded-full border transition-colors ${isActive
+      ? `${colors.accentBg} ${colors.buttonText} border-transparent`
+      : `${colors.border} ${colors.textSecondary} ${colors.hoverEffect}`
+    }`;
+
+  let resultIndex = -1;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center p-4 pt-[10vh] z-[100]"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="일정 전체 검색"
+    >
+      <div
+        className={`${colors.componentBg} rounded-lg shadow-2xl w-full max-w-2xl max-h-[75vh] flex flex-col ${colors.textPrimary} border ${colors.border}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className={`p-3 border-b ${colors.border} flex-shrink-0`}>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+            placeholder="제목·메모·AI 보고서 검색 (초성 가능: ㅅㅁ → 석면)"
+            aria-label="검색어"
+            className={`w-full px-3 py-2 text-sm rounded-md border ${colors.border} ${colors.inputBg} ${colors.textPrimary} focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+          />
+          <div className="mt-2 flex flex-wrap gap-1">
+            {SEARCH_ORIGINS.map(origin => (
+              <button
+                key={origin}
+                type="button"
+                onClick={() => setOriginFilter(prev => toggleInSet(prev, origin))}
+                aria-pressed={originFilter.has(origin)}
+                className={chipClass(originFilter.has(origin))}
+              >
+                {SEARCH_ORIGIN_LABELS[origin]}
+              </button>
+            ))}
+          </div>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {categoryNames.map(name => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setCategoryFilter(prev => toggleInSet(prev, name))}
+                aria-pressed={categoryFilter.has(name)}
+                className={chipClass(categoryFilter.has(name))}
+              >
+                {getCategoryDefinition(categorySettings, name).icon} {name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div ref={listRef} className="flex-grow min-h-0 overflow-y-auto scrollbar-thin p-2">
+          {!deferredQuery.trim() ? (
+            <p className={`text-sm ${colors.textSecondary} text-center py-6`}>
+              모든 연도의 기본 일정·내 일정과 저장된 AI 보고서에서 찾습니다. ↑↓로 고르고 Enter로 이동합니다.
+            </p>
+          ) : results.length === 0 ? (
+            <p className={`text-sm ${colors.textSecondary} text-center py-6`}>검색 결과가 없습니다.</p>
+          ) : (
+            months.map(month => (
+              <section key={month.key} className="mb-2">
+                <h3 className={`px-2 py-1 text-xs font-bold ${colors.accentColor}`}>
+                  {month.key.slice(0, 4)}년 {Number(month.key.slice(5, 7))}월
+                </h3>
+                <ul>
+                  {month.results.map(({ event, field, snippet }) => {
+                    resultIndex += 1;
+                    const index = resultIndex;
+                    const date = parseDateKey(event.date);
+                    const { color } = getCategoryDefinition(categorySettings, event.category);
+                    return (
+                      <li key={event.id}>
+                        <button
+                          type="button"
+                          data-result-index={index}
+                          onClick={() => onSelect(event)}
+                          onMouseMove={() => setActiveIndex(index)}
+                          className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-md ${index === activeIndex ? 'bg-cyan-500/15' : ''}`}
+                        >
+                          <span className={`w-16 flex-shrink-0 text-xs ${colors.textSecondary} pt-0.5`}>
+                            {date.getMonth() + 1}/{date.getDate()} ({KOREAN_DAY_NAMES_SHORT[date.getDay()]})
+                          </span>
+                          <span className="flex-1 min-w-0">
+                            <span className="flex items-center gap-1.5">
+                              <span className={`h-2 w-2 flex-shrink-0 rounded-full ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+                              <span className={`text-sm truncate ${colors.textPrimary}`}>
+                                {renderHighlighted(event.title)}
+                              </span>
+                              {event.seriesId && <span className={`text-xs ${colors.textSecondary}`}>↻</span>}
+                              <span className={`ml-auto flex-shrink-0 text-[11px] ${colors.textSecondary}`}>
+                                {SEARCH_ORIGIN_LABELS[getSearchOrigin(event)]}
+                              </span>
+                            </span>
+                            {snippet && (
+                              <span className={`block mt-0.5 text-xs truncate ${colors.textSecondary}`}>
+                                {FIELD_LABELS[field]}: {renderHighlighted(snippet)}
+                              </span>
+                            )}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))
+          )}
+        </div>
+        {total > results.length && (
+          <p className={`px-3 py-2 text-xs ${colors.textSecondary} border-t ${colors.border} flex-shrink-0`}>
+            결과 {total}건 중 {results.length}건만 표시합니다. 검색어나 필터를 좁혀 보세요.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
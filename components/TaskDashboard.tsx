@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  CALENDAR_EVENT_ACTION_EVENT,
+  CalendarEvent,
+  CalendarEventAction,
+  EventCategory,
+  UserCalendarEvent,
+} from '../types';
+import { getCategoryDefinition, resolveCategory } from '../utils/categories';
+import { addDaysToDateKey, compareDateKeys, formatDateKey } from '../utils/dateKey';
+import { isOpenTask } from '../utils/eventProgress';
+import { eventCoversDate, eventOverlapsRange, getEventEndDate, isMultiDayEvent } from '../utils/eventTime';
+import { expandRecurringEvent } from '../utils/recurrence';
+
+type TaskDashboardProps = {
+  builtinEvents: CalendarEvent[];
+  userEvents: UserCalendarEvent[];
+};
+
+type UpcomingWindow = 7 | 30;
+
+// Overdue items older than this stay folded behind "더 보기" so a long backlog doesn't bury the rest.
+const RECENT_OVERDUE_DAYS = 30;
+
+const dispatchCalendarEventAction = (action: CalendarEventAction) => {
+  window.dispatchEvent(new CustomEvent<CalendarEventAction>(CALENDAR_EVENT_ACTION_EVENT, { detail: action }));
+};
+
+const sortByDateThenTitle = (a: CalendarEvent, b: CalendarEvent) =>
+  compareDateKeys(a.date, b.date) || a.title.localeCompare(b.title, 'ko');
+
+const formatShortDate = (dateKey: string) => {
+  const [, m, d] = dateKey.split('-').map(Number);
+  return `${m}/${d}`;
+};
+
+const TaskDashboard: React.FC<TaskDashboardProps> = ({ builtinEvents, userEvents }) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [upcomingWindow, setUpcomingWindow] = useState<UpcomingWindow>(7);
+  const [snoozeTargetId, setSnoozeTargetId] = useState<string | null>(null);
+  const [snoozeDate, setSnoozeDate] = useState('');
+  const [showOlderOverdue, setShowOlderOverdue] = useState(false);
+
+  const todayKey = formatDateKey(new Date());
+
+  const { overdue, olderOverdue, today, upcomingByCategory, upcomingCount } = useMemo(() => {
+    const rangeEnd = addDaysToDateKey(todayKey, upcomingWindow);
+    const inRange = (ev: CalendarEvent) => eventOverlapsRange(ev, todayKey, rangeEnd);
+
+    const events = [
+      ...builtinEvents.filter(inRange),
+      ...userEvents.flatMap((ev): CalendarEvent[] =>
+        ev.recurrence ? expandRecurringEvent(ev, todayKey, rangeEnd) : inRange(ev) ? [ev] : [],
+      ),
+    ].sort(sortByDateThenTitle);
+
+    // Every open item that ended before today, however long ago.
+    const yesterdayKey = addDaysToDateKey(todayKey, -1);
+    const isOverdue = (ev: CalendarEvent) => compareDateKeys(getEventEndDate(ev), todayKey) < 0 && isOpenTask(ev);
+    const overdueEvents = [
+      ...builtinEvents.filter(isOverdue),
+      ...userEvents.flatMap((ev): CalendarEvent[] =>
+        (ev.recurrence ? expandRecurringEvent(ev, ev.date, yesterdayKey) : [ev]).filter(isOverdue),
+      ),
+    ].sort(sortByDateThenTitle);
+    const recentStart = addDaysToDateKey(todayKey, -RECENT_OVERDUE_DAYS);
+    const isRecent = (ev: CalendarEvent) => compareDateKeys(getEventEndDate(ev), recentStart) >= 0;
+
+    const grouped = new Map<EventCategory, CalendarEvent[]>();
+    let count = 0;
+    for (const ev of events) {
+      if (compareDateKeys(ev.date, todayKey) <= 0 || !isOpenTask(ev)) continue;
+      const category = resolveCategory(categorySettings, ev.category);
+      grouped.set(category, [...(grouped.get(category) ?? []), ev]);
+      count++;
+    }
+
+    // Multi-day events count as today's work until their last day has passed.
+    return {
+      overdue: overdueEvents.filter(isRecent),
+      olderOverdue: overdueEvents.filter(ev => !isRecent(ev)),
+      today: events.filter(ev => eventCoversDate(ev, todayKey)),
+      upcomingByCategory: categorySettings.categories
+        .filter(c => grouped.has(c.name))
+        .map(c => ({ category: c.name, events: grouped.get(c.name) as CalendarEvent[] })),
+      upcomingCount: count,
+    };
+  }, [builtinEvents, userEvents, todayKey, upcomingWindow, categorySettings]);
+
+  const openSnooze = (ev: CalendarEvent) => {
+    setSnoozeTargetId(ev.id);
+    setSnoozeDate(addDaysToDateKey(compareDateKeys(ev.date, todayKey) < 0 ? todayKey : ev.date, 1));
+  };
+
+  const confirmSnooze = (ev: CalendarEvent) => {
+    if (snoozeDate) dispatchCalendarEventAction({ type: 'snooze', event: ev, date: snoozeDate });
+    setSnoozeTargetId(null);
+  };
+
+  const renderEventRow = (ev: CalendarEvent) => {
+    const isDone = ev.status === 'done';
+    return (
+      <li key={ev.id} className="py-1">
+        <div className="flex items-start gap-2">
+          <span className={`font-mono text-[11px] ${colors.textSecondary} flex-shrink-0 mt-0.5`}>
+            {formatShortDate(ev.date)}
+            {isMultiDayEvent(ev) ? `~${formatShortDate(getEventEndDate(ev))}` : ev.startTime ? ` ${ev.startTime}` : ''}
+          </span>
+          <button
+            type="button"
+            onClick={() => dispatchCalendarEventAction({ type: 'openReport', event: ev })}
+            className={`flex-1 min-w-0 text-left text-xs leading-snug hover:underline ${isDone ? `line-through ${colors.textSecondary}` : colors.textPrimary}`}
+            title="AI 보고서 열기"
+          >
+            {ev.title}
+          </button>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {!isDone && (
+              <button
+                type="button"
+                onClick={() => dispatchCalendarEventAction({ type: 'markDone', event: ev })}
+                className={`text-[11px] px-1.5 py-0.5 rounded ${colors.buttonBg} ${colors.hoverEffect} ${colors.textPrimary}`}
+                aria-label={`${ev.title} 완료 처리`}
+              >
+                완료
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => (snoozeTargetId === ev.id ? setSnoozeTargetId(null) : openSnooze(ev))}
+              className={`text-[11px] px-1.5 py-0.5 rounded ${colors.buttonBg} ${colors.hoverEffect} ${colors.textPrimary}`}
+              aria-label={`${ev.title} 미루기`}
+            >
+              미루기
+            </button>
+          </div>
+        </div>
+        {snoozeTargetId === ev.id && (
+          <div className="mt-1 flex items-center gap-1 justify-end">
+            <input
+              type="date"
+              value={snoozeDate}
+              onChange={(e) => setSnoozeDate(e.target.value)}
+              className={`${colors.inputBg} border ${colors.border} rounded px-1.5 py-0.5 text-[11px] ${colors.textPrimary}`}
+            />
+            <button
+              type="button"
+              onClick={() => confirmSnooze(ev)}
+              disabled={!snoozeDate}
+              className={`text-[11px] px-1.5 py-0.5 rounded ${colors.accentBg} ${colors.buttonText} hover:opacity-90 disabled:opacity-50`}
+            >
+              이동
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderSection = (title: string, events: CalendarEvent[], emptyText: string, tone?: string, footer?: React.ReactNode) => (
+    <section className="mt-2">
+      <h3 className={`text-xs font-semibold ${tone ?? colors.textSecondary}`}>
+        {title} <span className="font-normal">({events.length})</span>
+      </h3>
+      {events.length === 0 && !footer ? (
+        <p className={`text-[11px] ${colors.textSecondary} py-1`}>{emptyText}</p>
+      ) : (
+        <ul className={`divide-y ${colors.border}`}>{events.map(ev => renderEventRow(ev))}</ul>
+      )}
+      {footer}
+    </section>
+  );
+
+  return (
+    <div className={`${colors.componentBg} p-3 rounded-xl shadow-xl border ${colors.border} ${colors.textPrimary} flex flex-col min-h-0`} data-tour="task-dashboard">
+      <div className="flex items-center justify-between gap-2 flex-shrink-0">
+        <h2 className={`text-sm font-semibold ${colors.accentColor}`}>
+          업무 현황
+          {overdue.length + olderOverdue.length > 0 && (
+            <span className="ml-2 text-xs text-red-400">지연 {overdue.length + olderOverdue.length}</span>
+          )}
+        </h2>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(prev => !prev)}
+          className={`text-xs ${colors.textSecondary} px-2 py-0.5 rounded ${colors.hoverEffect}`}
+          aria-expanded={!isCollapsed}
+        >
+          {isCollapsed ? '펼치기' : '접기'}
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="mt-1 overflow-y-auto min-h-0 pr-1 scrollbar-thin">
+          {renderSection(
+            '지연',
+            showOlderOverdue ? [...olderOverdue, ...overdue] : overdue,
+            '지연된 일정이 없습니다.',
+            'text-red-400',
+            olderOverdue.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowOlderOverdue(prev => !prev)}
+                className={`mt-1 text-[11px] ${colors.textSecondary} hover:underline`}
+                aria-expanded={showOlderOverdue}
+              >
+                {showOlderOverdue ? `${RECENT_OVERDUE_DAYS}일 지난 지연 접기` : `${RECENT_OVERDUE_DAYS}일 넘게 지난 지연 ${olderOverdue.length}건 더 보기`}
+              </button>
+            ),
+          )}
+          {renderSection('오늘', today, '오늘 일정이 없습니다.')}
+
+          <section className="mt-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className={`text-xs font-semibold ${colors.textSecondary}`}>
+                다가오는 일정 <span className="font-normal">({upcomingCount})</span>
+              </h3>
+              <div className="flex gap-1">
+                {([7, 30] as UpcomingWindow[]).map(days => (
+                  <button
+                    key={days}
+                    type="button"
+                    onClick={() => setUpcomingWindow(days)}
+                    className={`text-[11px] px-1.5 py-0.5 rounded ${upcomingWindow === days
+                      ? `${colors.accentBg} ${colors.buttonText}`
+                      : `${colors.textSecondary} ${colors.hoverEffect}`
+                      }`}
+                  >
+                    {days}일
+                  </button>
+                ))}
+              </div>
+            </div>
+            {upcomingByCategory.length === 0 ? (
+              <p className={`text-[11px] ${colors.textSecondary} py-1`}>{upcomingWindow}일 안에 남은 일정이 없습니다.</p>
+            ) : (
+              upcomingByCategory.map(group => (
+                <div key={group.category} className="mt-1">
+                  <div className={`text-[11px] font-semibold ${colors.accentColor}`}>
+                    {getCategoryDefinition(categorySettings, group.category).icon} {group.category} · {group.events.length}
+                  </div>
+                  <ul className={`divide-y ${colors.border}`}>{group.events.map(ev => renderEventRow(ev))}</ul>
+                </div>
+              ))
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskDashboard;
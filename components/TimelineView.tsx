@@ -0,0 +1,466 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EVENT_STATUS_LABELS, KOREAN_DAY_NAMES_SHORT } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CalendarEvent, Project } from '../types';
+import { getKoreanHoliday, isWeekendDateKey } from '../utils/businessDays';
+import { getCategoryDefinition, getCategoryNames } from '../utils/categories';
+import { addDaysToDateKey, compareDateKeys, diffDateKeysInDays, formatDateKey, parseDateKey } from '../utils/dateKey';
+import { getDependencyEarliestStart } from '../utils/dependencies';
+import { formatEventTiming, getEventEndDate, isMultiDayEvent } from '../utils/eventTime';
+import {
+  TIMELINE_ZOOMS,
+  TimelineGroup,
+  TimelineGroupBy,
+  TimelineRow,
+  TimelineZoom,
+  buildTimelineGroups,
+} from '../utils/timeline';
+
+interface TimelineViewProps {
+  range: { start: string; end: string };
+  zoom: TimelineZoom;
+  onZoomChange: (zoom: TimelineZoom) => void;
+  events: CalendarEvent[];
+  projects: Project[]; // already sorted
+  onEventClick: (event: CalendarEvent) => void;
+  onMoveEvent: (eventId: string, dateKey: string) => void;
+  onResizeEvent: (eventId: string, endDateKey: string) => void;
+}
+
+const ROW_HEIGHT = 28; // px
+const HEADER_HEIGHT = 40; // px
+const DIAMOND_HALF_WIDTH = 6; // px, half the diagonal of a deadline diamond
+
+type TimelineItem = { type: 'group'; group: TimelineGroup } | { type: 'row'; row: TimelineRow };
+
+type BarDrag = { event: CalendarEvent; mode: 'move' | 'resize'; pointerX: number; dayWidth: number };
+
+// Where an event is drawn, in days from the start of the range (clipped to it).
+type EventSpan = { startIndex: number; endIndex: number; isMilestone: boolean };
+
+const describeEvent = (event: CalendarEvent) =>
+  [event.title, event.category, formatEventTiming(event), event.status ? EVENT_STATUS_LABELS[event.status] : '']
+    .filter(Boolean)
+    .join(' · ');
+
+const TimelineView: React.FC<TimelineViewProps> = ({
+  range,
+  zoom,
+  onZoomChange,
+  events,
+  projects,
+  onEventClick,
+  onMoveEvent,
+  onResizeEvent,
+}) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const [groupBy, setGroupBy] = useState<TimelineGroupBy>('project');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const [dragDays, setDragDays] = useState(0);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const didJustDragRef = useRef(false);
+  const onMoveEventRef = useRef(onMoveEvent);
+  onMoveEventRef.current = onMoveEvent;
+  const onResizeEventRef = useRef(onResizeEvent);
+  onResizeEventRef.current = onResizeEvent;
+
+  const dayCount = diffDateKeysInDays(range.start, range.end) + 1;
+  const dayKeys = useMemo(
+    () => Array.from({ length: dayCount }, (_, i) => addDaysToDateKey(range.start, i)),
+    [range.start, dayCount],
+  );
+  const dayWidth = trackWidth / dayCount;
+  const todayKey = formatDateKey(new Date());
+
+  const groups = useMemo(
+    () => buildTimelineGroups(events, range, groupBy, projects, getCategoryNames(categorySettings)),
+    [events, range, groupBy, projects, categorySettings],
+  );
+  const items = useMemo(
+    () =>
+      groups.flatMap((group): TimelineItem[] => [
+        { type: 'group', group },
+        ...(collapsedGroups.has(group.key) ? [] : group.rows.map((row): TimelineItem => ({ type: 'row', row }))),
+      ]),
+    [groups, collapsedGroups],
+  );
+
+  useEffect(() => {
+    const track = trackRef.current;
+    if (!track) return;
+    const observer = new ResizeObserver(([entry]) => setTrackWidth(entry.contentRect.width));
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!drag) return;
+    let days = 0;
+    const handlePointerMove = (e: PointerEvent) => {
+      days = drag.dayWidth > 0 ? Math.round((e.clientX - drag.pointerX) / drag.dayWidth) : 0;
+      if (drag.mode === 'resize') days = Math.max(days, diffDateKeysInDays(getEventEndDate(drag.event), drag.event.date));
+      setDragDays(days);
+    };
+    const handlePointerUp = () => {
+      if (days !== 0) {
+        if (drag.mode === 'move') onMoveEventRef.current(drag.event.id, addDaysToDateKey(drag.event.date, days));
+        else onResizeEventRef.current(drag.event.id, addDaysToDateKey(getEventEndDate(drag.event), days));
+        didJustDragRef.current = true;
+        window.setTimeout(() => {
+          didJustDragRef.current = false;
+        }, 0);
+      }
+      setDrag(null);
+      setDragDays(0);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag]);
+
+  // A dragged bar is drawn where it would land.
+  const getEventSpan = (event: CalendarEvent): EventSpan => {
+    const isDragged = drag?.event.id === event.id;
+    const startKey = isDragged && drag.mode === 'move' ? addDaysToDateKey(event.date, dragDays) : event.date;
+    const endKey = isDragged ? addDaysToDateKey(getEventEndDate(event), dragDays) : getEventEndDate(event);
+    return {
+      startIndex: Math.max(0, diffDateKeysInDays(range.start, startKey)),
+      endIndex: Math.min(dayCount - 1, diffDateKeysInDays(range.start, endKey)),
+      isMilestone: !isMultiDayEvent(event) && !(isDragged && drag.mode === 'resize' && dragDays > 0),
+    };
+  };
+
+  const startBarDrag = (e: React.PointerEvent, event: CalendarEvent, mode: BarDrag['mode']) => {
+    if (e.button !== 0 || dayWidth <= 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ event, mode, pointerX: e.clientX, dayWidth });
+    setDragDays(0);
+  };
+
+  const handleBarClick = (e: React.MouseEvent, event: CalendarEvent) => {
+    e.stopPropagation();
+    if (didJustDragRef.current) return;
+    onEventClick(event);
+  };
+
+  const toggleGroup = (key: string) =>
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const percent = (days: number) => `${(days / dayCount) * 100}%`;
+
+  const colorClasses = (event: CalendarEvent) =>
+    CATEGORY_COLOR_CLASSES[getCategoryDefinition(categorySettings, event.category).color];
+
+  const renderEventMark = (event: CalendarEvent) => {
+    const { startIndex, endIndex, isMilestone } = getEventSpan(event);
+    if (endIndex < 0 || startIndex > dayCount - 1) return null;
+    const statusClass = event.status === 'done' ? 'opacity-50' : event.status === 'inProgress' ? 'ring-1 ring-amber-400' : '';
+    const dragClass = drag?.event.id === event.id ? 'opacity-80 shadow-lg' : '';
+
+    if (isMilestone) {
+      return (
+        <button
+          key={event.id}
+          type="button"
+          onPointerDown={(e) => startBarDrag(e, event, 'move')}
+          onClick={(e) => handleBarClick(e, event)}
+          title={describeEvent(event)}
+          aria-label={describeEvent(event)}
+          className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 p-1 cursor-grab active:cursor-grabbing touch-none"
+          style={{ left: percent(startIndex + 0.5) }}
+        >
+          <span
+            className={`block w-2.5 h-2.5 rotate-45 ${colorClasses(event)[event.kind === 'user' ? 'solid' : 'soft']} ${event.kind === 'builtin' ? 'border border-current' : ''} ${statusClass} ${dragClass}`}
+          />
+        </button>
+      );
+    }
+
+    return (
+      <div
+        key={event.id}
+        className={`absolute top-1 bottom-1 rounded-md flex items-center text-[11px] leading-none overflow-hidden ${colorClasses(event)[event.kind === 'user' ? 'solid' : 'soft']} ${statusClass} ${dragClass}`}
+        style={{ left: percent(startIndex), width: percent(endIndex - startIndex + 1) }}
+      >
+        <button
+          type="button"
+          onPointerDown={(e) => startBarDrag(e, event, 'move')}
+          onClick={(e) => handleBarClick(e, event)}
+          title={describeEvent(event)}
+          className={`flex-1 min-w-0 h-full px-1.5 text-left truncate cursor-grab active:cursor-grabbing touch-none ${event.status === 'done' ? 'line-through' : ''}`}
+        >
+          {event.title}
+        </button>
+        {!event.seriesId && compareDateKeys(getEventEndDate(event), range.end) <= 0 && (
+          <span
+            onPointerDown={(e) => startBarDrag(e, event, 'resize')}
+            className="w-1.5 h-full flex-shrink-0 cursor-ew-resize bg-black/10 hover:bg-black/30 touch-none"
+            title="끝 날짜 조절"
+            aria-hidden="true"
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderGroupMarks = (group: TimelineGroup) => {
+    const project = group.project;
+    if (!project) return null;
+    const inRange = (dateKey: string) => compareDateKeys(dateKey, range.start) >= 0 && compareDateKeys(dateKey, range.end) <= 0;
+    const windowStart = project.executionStart && Math.max(0, diffDateKeysInDays(range.start, project.executionStart));
+    const windowEnd = project.executionEnd && Math.min(dayCount - 1, diffDateKeysInDays(range.start, project.executionEnd));
+    return (
+      <>
+        {typeof windowStart === 'number' && typeof windowEnd === 'number' && windowEnd >= 0 && windowStart < dayCount && (
+          <div
+            className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-cyan-500/40"
+            style={{ left: percent(windowStart), width: percent(windowEnd - windowStart + 1) }}
+            title={`실행 기간 ${project.executionStart} ~ ${project.executionEnd}`}
+          />
+        )}
+        {project.deadline && inRange(project.deadline) && (
+          <span
+            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 block w-3 h-3 rotate-45 bg-red-500"
+            style={{ left: percent(diffDateKeysInDays(range.start, project.deadline) + 0.5) }}
+            title={`마감 ${project.deadline}`}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderDependencyArrows = () => {
+    if (dayWidth <= 0) return null;
+    // Edges of every drawn event, in px within the track.
+    const anchors = new Map<string, { left: number; right: number; y: number; event: CalendarEvent }>();
+    items.forEach((item, index) => {
+      if (item.type !== 'row') return;
+      for (const event of item.row.events) {
+        const { startIndex, endIndex, isMilestone } = getEventSpan(event);
+        const y = index * ROW_HEIGHT + ROW_HEIGHT / 2;
+        anchors.set(
+          event.id,
+          isMilestone
+            ? { left: (startIndex + 0.5) * dayWidth - DIAMOND_HALF_WIDTH, right: (startIndex + 0.5) * dayWidth + DIAMOND_HALF_WIDTH, y, event }
+            : { left: startIndex * dayWidth, right: (endIndex + 1) * dayWidth, y, event },
+        );
+      }
+    });
+
+    const arrows: React.ReactNode[] = [];
+    for (const { left, y, event } of anchors.values()) {
+      for (const { predecessorId, lagDays } of event.dependencies ?? []) {
+        const from = anchors.get(predecessorId);
+        if (!from) continue;
+        const isLate = compareDateKeys(event.date, getDependencyEarliestStart(from.event, lagDays)) < 0;
+        const elbowX = from.right + 6;
+        arrows.push(
+          <path
+            key={`${predecessorId}->${event.id}`}
+            d={`M ${from.right} ${from.y} H ${elbowX} V ${y} H ${left - 1}`}
+            fill="none"
+            strokeWidth={1.25}
+            className={isLate ? 'stroke-red-500' : 'stroke-slate-400'}
+            markerEnd={`url(#timeline-arrow${isLate ? '-late' : ''})`}
+          />,
+        );
+      }
+    }
+    if (arrows.length === 0) return null;
+
+    return (
+      <svg className="absolute inset-0 pointer-events-none overflow-visible" width={trackWidth} height={items.length * ROW_HEIGHT} aria-hidden="true">
+        <defs>
+          <marker id="timeline-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 6 3 L 0 6 z" className="fill-slate-400" />
+          </marker>
+          <marker id="timeline-arrow-late" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 6 3 L 0 6 z" className="fill-red-500" />
+          </marker>
+        </defs>
+        {arrows}
+      </svg>
+    );
+  };
+
+  const renderDayHeader = () => {
+    if (zoom === 'quarter') {
+      const months: Array<{ key: string; startIndex: number; length: number }> = [];
+      dayKeys.forEach((dateKey, index) => {
+        const monthKey = dateKey.slice(0, 7);
+        const last = months[months.length - 1];
+        if (last?.key === monthKey) last.length += 1;
+        else months.push({ key: monthKey, startIndex: index, length: 1 });
+      });
+      return months.map(({ key, startIndex, length }) => (
+        <div
+          key={key}
+          className={`absolute inset-y-0 flex items-center justify-center border-r ${colors.border} text-xs font-semibold ${colors.textPrimary}`}
+          style={{ left: percent(startIndex), width: percent(length) }}
+        >
+          {Number(key.slice(5))}월
+        </div>
+      ));
+    }
+    return dayKeys.map((dateKey, index) => {
+      const date = parseDateKey(dateKey);
+      const holiday = getKoreanHoliday(dateKey);
+      const dayColor = holiday || date.getDay() === 0 ? 'text-red-500' : date.getDay() === 6 ? 'text-blue-500' : colors.textSecondary;
+      return (
+        <div
+          key={dateKey}
+          className={`absolute inset-y-0 flex flex-col items-center justify-center leading-tight ${dayColor} ${dateKey === todayKey ? 'bg-cyan-500/15 rounded' : ''}`}
+          style={{ left: percent(index), width: percent(1) }}
+          title={holiday?.name}
+        >
+          {zoom === 'week' && <span className="text-[10px]">{KOREAN_DAY_NAMES_SHORT[date.getDay()]}</span>}
+          <span className="text-[11px] font-semibold">{date.getDate()}</span>
+        </div>
+      );
+    });
+  };
+
+  const renderDayBackground = () => (
+    <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+      {dayKeys.map((dateKey, index) =>
+        getKoreanHoliday(dateKey) || isWeekendDateKey(dateKey) ? (
+          <div key={dateKey} className="absolute inset-y-0 bg-slate-500/10" style={{ left: percent(index), width: percent(1) }} />
+        ) : null,
+      )}
+      {compareDateKeys(todayKey, range.start) >= 0 && compareDateKeys(todayKey, range.end) <= 0 && (
+        <div
+          className="absolute inset-y-0 w-px bg-cyan-500"
+          style={{ left: percent(diffDateKeysInDays(range.start, todayKey) + 0.5) }}
+        />
+      )}
+    </div>
+  );
+
+  const renderRowLabel = (row: TimelineRow) => {
+    const [first] = row.events;
+    const { icon } = getCategoryDefinition(categorySettings, first.category);
+    return (
+      <button
+        type="button"
+        onClick={() => onEventClick(first)}
+        title={describeEvent(first)}
+        className={`w-full h-full px-2 text-left text-xs truncate ${colors.textPrimary} ${colors.hoverEffect} ${first.status === 'done' ? 'line-through opacity-60' : ''}`}
+      >
+        {icon && <span className="mr-1" aria-hidden="true">{icon}</span>}
+        {first.title}
+        {first.recurrence && <span className={`ml-1 ${colors.textSecondary}`}>↻</span>}
+      </button>
+    );
+  };
+
+  const renderGroupLabel = (group: TimelineGroup) => {
+    const isCollapsed = collapsedGroups.has(group.key);
+    const color = group.category ? getCategoryDefinition(categorySettings, group.category).color : null;
+    return (
+      <button
+        type="button"
+        onClick={() => toggleGroup(group.key)}
+        aria-expanded={!isCollapsed}
+        className={`w-full h-full px-2 flex items-center gap-1.5 text-left text-xs font-semibold ${colors.textPrimary} ${colors.hoverEffect}`}
+      >
+        <span className={colors.textSecondary} aria-hidden="true">{isCollapsed ? '▸' : '▾'}</span>
+        {color && <span className={`h-2 w-2 rounded-full flex-shrink-0 ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />}
+        <span className="truncate">{group.label}</span>
+        <span className={`ml-auto font-normal ${colors.textSecondary}`}>{group.rows.length}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex-shrink-0 flex flex-wrap items-center justify-between gap-2 mb-2 px-1">
+        <div className={`flex ${colors.inputBg} rounded-lg p-0.5 border ${colors.border}`}>
+          {TIMELINE_ZOOMS.map(option => (
+            <button
+              key={option.zoom}
+              type="button"
+              onClick={() => onZoomChange(option.zoom)}
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-md transition-colors ${zoom === option.zoom ? `${colors.activeTabBg} ${colors.buttonText}` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className={`flex ${colors.inputBg} rounded-lg p-0.5 border ${colors.border}`}>
+          {([['project', '프로젝트별'], ['category', '업무별']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setGroupBy(value)}
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-md transition-colors ${groupBy === value ? `${colors.activeTabBg} ${colors.buttonText}` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`flex-grow min-h-0 overflow-y-auto scrollbar-thin ${colors.mainBg} rounded-xl border ${colors.border}/50`}>
+        <div className="flex">
+          <div className={`w-36 sm:w-48 flex-shrink-0 border-r ${colors.border}`}>
+            <div
+              className={`sticky top-0 z-10 ${colors.componentBg} border-b ${colors.border} px-2 flex items-center text-xs ${colors.textSecondary}`}
+              style={{ height: HEADER_HEIGHT }}
+            >
+              {groupBy === 'project' ? '프로젝트 / 일정' : '업무 / 일정'}
+            </div>
+            {items.map(item => (
+              <div
+                key={item.type === 'group' ? item.group.key : item.row.key}
+                className={item.type === 'group' ? `border-t ${colors.border}` : ''}
+                style={{ height: ROW_HEIGHT }}
+              >
+                {item.type === 'group' ? renderGroupLabel(item.group) : renderRowLabel(item.row)}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0" ref={trackRef}>
+            <div
+              className={`sticky top-0 z-10 ${colors.componentBg} border-b ${colors.border}`}
+              style={{ height: HEADER_HEIGHT }}
+            >
+              {renderDayHeader()}
+            </div>
+            <div className="relative" style={{ height: items.length * ROW_HEIGHT }}>
+              {renderDayBackground()}
+              {items.map((item, index) => (
+                <div
+                  key={item.type === 'group' ? item.group.key : item.row.key}
+                  className={`absolute inset-x-0 ${item.type === 'group' ? `border-t ${colors.border}` : ''}`}
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  {item.type === 'group' ? renderGroupMarks(item.group) : item.row.events.map(renderEventMark)}
+                </div>
+              ))}
+              {renderDependencyArrows()}
+            </div>
+          </div>
+        </div>
+        {items.length === 0 && (
+          <p className={`text-sm ${colors.textSecondary} text-center py-10`}>이 기간에 표시할 일정이 없습니다.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -1,18 +1,41 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { CalendarEvent } from '../types';
-import { KOREAN_DAY_NAMES_SHORT } from '../constants';
-import { useTheme } from '../contexts/ThemeContext';
+import { EVENT_STATUS_LABELS, KOREAN_DAY_NAMES_SHORT } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { getKoreanHoliday } from '../utils/businessDays';
+import { getCategoryDefinition } from '../utils/categories';
+import { diffDateKeysInDays } from '../utils/dateKey';
+import {
+    MINUTES_PER_DAY,
+    assignSpanLanes,
+    assignTimedColumns,
+    eventOverlapsRange,
+    formatEventTiming,
+    getEventEndDate,
+    getTimedRange,
+    minutesToTime,
+} from '../utils/eventTime';
 
 interface WeeklyCalendarProps {
     currentDate: Date;
     events: CalendarEvent[];
     onEventClick: (event: CalendarEvent) => void;
-    onDateClick: (dateKey: string) => void;
+    // `time` is the clicked slot on the time axis; undefined for the all-day row.
+    onDateClick: (dateKey: string, time?: string) => void;
     onDragStart?: (e: React.DragEvent, eventId: string) => void;
     onDragEnd?: () => void;
-    onDrop?: (e: React.DragEvent, dateKey: string) => void;
+    // `time` is the "HH:mm" slot the event was dropped on, or null for the all-day row.
+    onDrop?: (e: React.DragEvent, dateKey: string, time: string | null) => void;
+    onResizeStart?: (e: React.DragEvent, eventId: string) => void;
+    onResizeTime?: (eventId: string, endTime: string) => void;
 }
 
+const HOUR_HEIGHT = 48; // px per hour on the time axis
+const SNAP_MINUTES = 30;
+const INITIAL_SCROLL_HOUR = 8;
+const GRID_COLUMNS = 'grid-cols-[3rem_repeat(7,minmax(0,1fr))]';
+
 const formatDateKey = (date: Date): string => {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -20,6 +43,16 @@ const formatDateKey = (date: Date): string => {
     return `${year}-${month}-${day}`;
 };
 
+const snapMinutes = (minutes: number) =>
+    Math.min(Math.max(Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES, 0), MINUTES_PER_DAY - SNAP_MINUTES);
+
+const describeEvent = (event: CalendarEvent) =>
+    [event.title, event.category, formatEventTiming(event), event.status ? EVENT_STATUS_LABELS[event.status] : '']
+        .filter(Boolean)
+        .join(' · ');
+
+type TimeResize = { eventId: string; start: number; end: number; pointerY: number };
+
 const WeeklyCalendar: React.FC<WeeklyCalendarProps> = ({
     currentDate,
     events,
@@ -27,9 +60,21 @@ const WeeklyCalendar: React.FC<WeeklyCalendarProps> = ({
     onDateClick,
     onDragStart,
     onDragEnd,
-    onDrop
+    onDrop,
+    onResizeStart,
+    onResizeTime
 }) => {
     const { colors } = useTheme();
+    const { categorySettings } = useApiKey();
+    const scrollRef = useRef<HTMLDivElement | null>(null);
+    // Where inside a timed block it was grabbed, so the drop keeps the block under the pointer.
+    const dragOffsetMinutesRef = useRef(0);
+    const [timeResize, setTimeResize] = useState<TimeResize | null>(null);
+    const [resizePreviewEnd, setResizePreviewEnd] = useState<number | null>(null);
+    const didJustResizeRef = useRef(false);
+    const onResizeTimeRef = useRef(onResizeTime);
+    onResizeTimeRef.current = onResizeTime;
+
     // Calculate start of the week (Sunday)
     const startOfWeek = new Date(currentDate);
     const dayOfWeek = startOfWeek.getDay(); // 0 (Sun) - 6 (Sat)
@@ -40,70 +85,259 @@ const WeeklyCalendar: React.FC<WeeklyCalendarProps> = ({
         d.setDate(startOfWeek.getDate() + i);
         return d;
     });
+    const weekStartKey = formatDateKey(weekDays[0]);
+    const weekEndKey = formatDateKey(weekDays[6]);
 
     const todayKey = formatDateKey(new Date());
 
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * HOUR_HEIGHT;
+    }, []);
+
+    useEffect(() => {
+        if (!timeResize) return;
+        let end = timeResize.end;
+        const handlePointerMove = (e: PointerEvent) => {
+            const deltaMinutes = ((e.clientY - timeResize.pointerY) / HOUR_HEIGHT) * 60;
+            end = Math.min(
+                Math.max(Math.round((timeResize.end + deltaMinutes) / SNAP_MINUTES) * SNAP_MINUTES, timeResize.start + SNAP_MINUTES),
+                MINUTES_PER_DAY,
+            );
+            setResizePreviewEnd(end);
+        };
+        const handlePointerUp = () => {
+            if (end !== timeResize.end) onResizeTimeRef.current?.(timeResize.eventId, minutesToTime(end));
+            didJustResizeRef.current = true;
+            window.setTimeout(() => {
+                didJustResizeRef.current = false;
+            }, 0);
+            setTimeResize(null);
+            setResizePreviewEnd(null);
+        };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+        };
+    }, [timeResize]);
+
+    const weekEvents = events.filter(event => eventOverlapsRange(event, weekStartKey, weekEndKey));
+    const allDayEvents = weekEvents.filter(event => !getTimedRange(event));
+    const allDayLanes = assignSpanLanes(allDayEvents, weekStartKey, weekEndKey);
+
+    const slotTimeAt = (e: React.MouseEvent<HTMLElement>, offsetMinutes = 0) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 - offsetMinutes;
+        return minutesToTime(snapMinutes(minutes));
+    };
+
+    const dayIndexAt = (e: React.MouseEvent<HTMLElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return Math.min(6, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * 7)));
+    };
+
+    const eventColorClass = (event: CalendarEvent) =>
+        `${CATEGORY_COLOR_CLASSES[getCategoryDefinition(categorySettings, event.category).color][event.kind === 'user' ? 'solid' : 'soft']
+        } border-transparent hover:opacity-90 ${event.hidden ? 'opacity-50 italic' : ''} ${event.status === 'done' ? 'line-through opacity-60' : event.status === 'inProgress' ? 'ring-1 ring-amber-400' : ''}`;
+
+    const categoryIcon = (event: CalendarEvent) => {
+        const { icon } = getCategoryDefinition(categorySettings, event.category);
+        return icon ? <span className="mr-0.5" aria-hidden="true">{icon}</span> : null;
+    };
+
+    const handleEventClick = (e: React.MouseEvent, event: CalendarEvent) => {
+        e.stopPropagation();
+        if (didJustResizeRef.current) return;
+        onEventClick(event);
+    };
+
     return (
         <div className="flex flex-col h-full overflow-hidden">
             {/* Header Row */}
-            <div className={`grid grid-cols-7 border-b ${colors.border} ${colors.componentBg}/80 flex-shrink-0`}>
+            <div className={`grid ${GRID_COLUMNS} border-b ${colors.border} ${colors.componentBg}/80 flex-shrink-0`}>
+                <div className={`border-r ${colors.border}`} />
                 {weekDays.map((day, idx) => {
                     const dateKey = formatDateKey(day);
                     const isToday = dateKey === todayKey;
+                    const holiday = getKoreanHoliday(dateKey);
+                    const dayColor = holiday || idx === 0 ? 'text-red-500' : idx === 6 ? 'text-blue-500' : colors.textPrimary;
                     return (
-                        <div key={dateKey} className={`p-3 text-center border-r ${colors.border} last:border-r-0 ${isToday ? `${colors.accentBg}/20` : ''}`}>
+                        <div key={dateKey} className={`p-3 text-center border-r ${colors.border} last:border-r-0 ${isToday ? `${colors.accentBg}/20` : holiday ? 'bg-red-500/10' : ''}`}>
                             <div className={`text-xs ${colors.textSecondary} font-medium mb-1`}>{KOREAN_DAY_NAMES_SHORT[idx]}</div>
-                            <div className={`text-lg font-bold ${isToday ? colors.accentColor : colors.textPrimary}`}>
+                            <div className={`text-lg font-bold ${isToday ? colors.accentColor : dayColor}`}>
                                 {day.getDate()}
                             </div>
+                            {holiday && (
+                                <div className="text-[10px] text-red-500 truncate" title={holiday.name}>{holiday.name}</div>
+                            )}
                         </div>
                     );
                 })}
             </div>
 
-            {/* Body Row (Full Height columns) */}
-            <div className="flex-grow grid grid-cols-7 min-h-0 overflow-hidden">
-                {weekDays.map((day) => {
-                    const dateKey = formatDateKey(day);
-                    const dayEvents = events.filter(e => e.date === dateKey);
-                    const isToday = dateKey === todayKey;
+            {/* All-day Row: multi-day events span their columns */}
+            <div className={`grid ${GRID_COLUMNS} border-b ${colors.border} flex-shrink-0`}>
+                <div className={`border-r ${colors.border} text-[10px] ${colors.textSecondary} text-right pr-1 pt-1.5`}>종일</div>
+                <div className="col-span-7 relative max-h-32 overflow-y-auto scrollbar-thin">
+                    <div className="absolute inset-0 grid grid-cols-7 pointer-events-none" aria-hidden="true">
+                        {weekDays.map(day => (
+                            <div key={formatDateKey(day)} className={`border-r ${colors.border} last:border-r-0`} />
+                        ))}
+                    </div>
+                    <div
+                        className="relative grid grid-cols-7 auto-rows-[1.5rem] gap-y-1 py-1 min-h-[2rem]"
+                        onClick={(e) => onDateClick(formatDateKey(weekDays[dayIndexAt(e)]))}
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = 'move';
+                        }}
+                        onDrop={(e) => onDrop && onDrop(e, formatDateKey(weekDays[dayIndexAt(e)]), null)}
+                    >
+                        {allDayEvents.map(event => {
+                            const endKey = getEventEndDate(event);
+                            const startColumn = Math.max(0, diffDateKeysInDays(weekStartKey, event.date));
+                            const endColumn = Math.min(6, diffDateKeysInDays(weekStartKey, endKey));
+                            const startsThisWeek = startColumn === diffDateKeysInDays(weekStartKey, event.date);
+                            const endsThisWeek = endColumn === diffDateKeysInDays(weekStartKey, endKey);
+                            return (
+                                <div
+                                    key={event.id}
+                                    data-tour="calendar-event"
+                                    draggable={Boolean(onDragStart)}
+                                    onDragStart={(e) => {
+                                        dragOffsetMinutesRef.current = 0;
+                                        onDragStart?.(e, event.id);
+                                    }}
+                                    onDragEnd={onDragEnd}
+                                    style={{
+                                        gridColumn: `${startColumn + 1} / span ${endColumn - startColumn + 1}`,
+                                        gridRow: (allDayLanes.get(event.id) ?? 0) + 1,
+                                    }}
+                                    className={`relative mx-1 px-2 flex items-center text-xs cursor-grab active:cursor-grabbing shadow-sm border transition-shadow truncate font-medium ${startsThisWeek ? 'rounded-l-md' : 'rounded-l-none -ml-px'} ${endsThisWeek ? 'rounded-r-md' : 'rounded-r-none -mr-px'} ${eventColorClass(event)}`}
+                                    onClick={(e) => handleEventClick(e, event)}
+                                    title={describeEvent(event)}
+                                >
+                                    <span className="truncate">
+                                        {categoryIcon(event)}
+                                        {event.startTime && startsThisWeek && <span className="font-normal mr-1">{event.startTime}</span>}
+                                        {event.title}
+                                    </span>
+                                    {endsThisWeek && onResizeStart && !event.seriesId && (
+                                        <span
+                                            draggable
+                                            onDragStart={(e) => onResizeStart(e, event.id)}
+                                            onDragEnd={onDragEnd}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize rounded-r-md hover:bg-white/40"
+                                            title="끝을 끌어 기간 조절"
+                                            aria-hidden="true"
+                                        />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
 
-                    return (
-                        <div
-                            key={dateKey}
-                            className={`border-r ${colors.border} last:border-r-0 p-2 overflow-y-auto scrollbar-thin ${colors.hoverEffect} transition-colors h-full ${isToday ? `${colors.accentBg}/10` : ''}`}
-                            onClick={() => onDateClick(dateKey)}
-                            onDragOver={(e) => {
-                                e.preventDefault();
-                                e.dataTransfer.dropEffect = 'move';
-                            }}
-                            onDrop={(e) => onDrop && onDrop(e, dateKey)}
-                        >
-                            <div className="space-y-2">
-                                {dayEvents.map(event => (
+            {/* Time Axis */}
+            <div ref={scrollRef} className="flex-grow min-h-0 overflow-y-auto scrollbar-thin">
+                <div className={`grid ${GRID_COLUMNS}`} style={{ height: 24 * HOUR_HEIGHT }}>
+                    <div className={`relative border-r ${colors.border}`}>
+                        {Array.from({ length: 23 }, (_, idx) => idx + 1).map(hour => (
+                            <div
+                                key={hour}
+                                className={`absolute right-1 -translate-y-1/2 text-[10px] ${colors.textSecondary}`}
+                                style={{ top: hour * HOUR_HEIGHT }}
+                            >
+                                {String(hour).padStart(2, '0')}:00
+                            </div>
+                        ))}
+                    </div>
+                    {weekDays.map((day) => {
+                        const dateKey = formatDateKey(day);
+                        const isToday = dateKey === todayKey;
+                        const isHoliday = Boolean(getKoreanHoliday(dateKey));
+                        const timedEvents = weekEvents.flatMap(event => {
+                            const range = event.date === dateKey ? getTimedRange(event) : null;
+                            return range ? [{ event, ...range }] : [];
+                        });
+                        const columns = assignTimedColumns(timedEvents.map(({ event, start, end }) => ({ id: event.id, start, end })));
+
+                        return (
+                            <div
+                                key={dateKey}
+                                className={`relative border-r ${colors.border} last:border-r-0 ${colors.hoverEffect} transition-colors ${isToday ? `${colors.accentBg}/10` : isHoliday ? 'bg-red-500/5' : ''}`}
+                                onClick={(e) => onDateClick(dateKey, slotTimeAt(e))}
+                                onDragOver={(e) => {
+                                    e.preventDefault();
+                                    e.dataTransfer.dropEffect = 'move';
+                                }}
+                                onDrop={(e) => onDrop && onDrop(e, dateKey, slotTimeAt(e, dragOffsetMinutesRef.current))}
+                            >
+                                {Array.from({ length: 23 }, (_, idx) => idx + 1).map(hour => (
                                     <div
-                                        key={event.id}
-                                        data-tour="calendar-event"
-                                        draggable={Boolean(onDragStart)}
-                                        onDragStart={(e) => onDragStart?.(e, event.id)}
-                                        onDragEnd={onDragEnd}
-                                        className={`px-2 py-1.5 rounded-md text-sm cursor-grab active:cursor-grabbing shadow-sm border transition-shadow truncate font-medium ${event.kind === 'user'
-                                            ? 'bg-accent-primary text-white border-transparent hover:opacity-90'
-                                            : 'bg-tertiary text-text-primary border-transparent hover:opacity-90'
-                                            }`}
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onEventClick(event);
-                                        }}
-                                        title={event.title}
-                                    >
-                                        <div className="font-medium truncate">{event.title}</div>
-                                    </div>
+                                        key={hour}
+                                        className="absolute left-0 right-0 border-t border-border-secondary/30 pointer-events-none"
+                                        style={{ top: hour * HOUR_HEIGHT }}
+                                        aria-hidden="true"
+                                    />
                                 ))}
+                                {timedEvents.map(({ event, start, end }) => {
+                                    const layout = columns.get(event.id) ?? { column: 0, columns: 1 };
+                                    const shownEnd = timeResize?.eventId === event.id && resizePreviewEnd !== null ? resizePreviewEnd : end;
+                                    return (
+                                        <div
+                                            key={event.id}
+                                            data-tour="calendar-event"
+                                            draggable={Boolean(onDragStart) && !timeResize}
+                                            onDragStart={(e) => {
+                                                const rect = e.currentTarget.getBoundingClientRect();
+                                                dragOffsetMinutesRef.current = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+                                                onDragStart?.(e, event.id);
+                                            }}
+                                            onDragEnd={() => {
+                                                dragOffsetMinutesRef.current = 0;
+                                                onDragEnd?.();
+                                            }}
+                                            style={{
+                                                top: (start / 60) * HOUR_HEIGHT,
+                                                height: Math.max(((shownEnd - start) / 60) * HOUR_HEIGHT, 18),
+                                                left: `calc(${(layout.column / layout.columns) * 100}% + 2px)`,
+                                                width: `calc(${100 / layout.columns}% - 4px)`,
+                                            }}
+                                            className={`absolute overflow-hidden px-1.5 py-0.5 rounded-md text-xs cursor-grab active:cursor-grabbing shadow-sm border transition-shadow ${eventColorClass(event)}`}
+                                            onClick={(e) => handleEventClick(e, event)}
+                                            title={describeEvent(event)}
+                                        >
+                                            <div className="font-medium truncate">
+                                                {categoryIcon(event)}
+                                                {event.title}
+                                            </div>
+                                            <div className="text-[10px] opacity-80 truncate">
+                                                {minutesToTime(start)}~{minutesToTime(shownEnd)}
+                                            </div>
+                                            {onResizeTime && !event.seriesId && (
+                                                <div
+                                                    onPointerDown={(e) => {
+                                                        e.preventDefault();
+                                                        e.stopPropagation();
+                                                        setTimeResize({ eventId: event.id, start, end, pointerY: e.clientY });
+                                                    }}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize hover:bg-white/40"
+                                                    title="끝을 끌어 시간 조절"
+                                                    aria-hidden="true"
+                                                />
+                                            )}
+                                        </div>
+                                    );
+                                })}
                             </div>
-                        </div>
-                    );
-                })}
+                        );
+                    })}
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { KOREAN_DAY_NAMES_SHORT, KOREAN_MONTH_NAMES } from '../constants';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { CATEGORY_COLOR_CLASSES, useTheme } from '../contexts/ThemeContext';
+import { CalendarEvent } from '../types';
+import { getKoreanHoliday } from '../utils/businessDays';
+import { getCategoryDefinition, getCategoryNames } from '../utils/categories';
+import { daysInMonth, formatDateKey } from '../utils/dateKey';
+import { formatEventTiming } from '../utils/eventTime';
+import { MAX_LOAD_LEVEL, YearColorMode, buildYearDayLoads, getDominantCategory, getLoadLevel } from '../utils/yearOverview';
+
+interface YearViewProps {
+  year: number;
+  events: CalendarEvent[];
+  onSelectDate: (dateKey: string) => void;
+  onSelectMonth: (monthIndex: number) => void;
+}
+
+// Opacity of the day shading by load level (index 0 is unused: empty days are not shaded).
+const LOAD_LEVEL_OPACITY = ['', 'opacity-25', 'opacity-50', 'opacity-75', 'opacity-100'];
+const MAX_HOVER_ITEMS = 8;
+
+type HoveredDay = { dateKey: string; left: number; top: number };
+
+const YearView: React.FC<YearViewProps> = ({ year, events, onSelectDate, onSelectMonth }) => {
+  const { colors } = useTheme();
+  const { categorySettings } = useApiKey();
+  const [colorMode, setColorMode] = useState<YearColorMode>('count');
+  const [hoveredDay, setHoveredDay] = useState<HoveredDay | null>(null);
+
+  const categoryNames = useMemo(() => getCategoryNames(categorySettings), [categorySettings]);
+  const dayLoads = useMemo(() => buildYearDayLoads(events, year), [events, year]);
+  const todayKey = formatDateKey(new Date());
+
+  const showDay = (e: React.MouseEvent | React.FocusEvent, dateKey: string) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoveredDay({ dateKey, left: rect.left + rect.width / 2, top: rect.bottom + 4 });
+  };
+
+  const renderDay = (month: number, day: number) => {
+    const dateKey = formatDateKey(new Date(year, month, day));
+    const dayEvents = dayLoads.get(dateKey) ?? [];
+    const level = getLoadLevel(dayEvents.length);
+    const dominant = colorMode === 'category' ? getDominantCategory(dayEvents, categoryNames) : null;
+    const shadeClass = dominant ? CATEGORY_COLOR_CLASSES[getCategoryDefinition(categorySettings, dominant).color].dot : 'bg-cyan-500';
+    const weekday = new Date(year, month, day).getDay();
+    const dayColor = level >= 3 ? 'text-white' : getKoreanHoliday(dateKey) || weekday === 0 ? 'text-red-500' : weekday === 6 ? 'text-blue-500' : colors.textSecondary;
+
+    return (
+      <button
+        key={dateKey}
+        type="button"
+        onClick={() => onSelectDate(dateKey)}
+        onMouseEnter={(e) => showDay(e, dateKey)}
+        onMouseLeave={() => setHoveredDay(null)}
+        onFocus={(e) => showDay(e, dateKey)}
+        onBlur={() => setHoveredDay(null)}
+        className={`relative aspect-square rounded-sm text-[9px] sm:text-[10px] leading-none flex items-center justify-center ${colors.hoverEffect} ${dateKey === todayKey ? 'ring-1 ring-cyan-400' : ''}`}
+        aria-label={`${month + 1}월 ${day}일 일정 ${dayEvents.length}건`}
+      >
+        {level > 0 && <span className={`absolute inset-0 rounded-sm ${shadeClass} ${LOAD_LEVEL_OPACITY[level]}`} aria-hidden="true" />}
+        <span className={`relative ${dayColor}`}>{day}</span>
+      </button>
+    );
+  };
+
+  const renderMonth = (month: number) => {
+    const firstWeekday = new Date(year, month, 1).getDay();
+    const dayCount = daysInMonth(year, month);
+    const monthPrefix = `${year}-${String(month + 1).padStart(2, '0')}`;
+    const eventCount = new Set(
+      [...dayLoads.entries()].filter(([dateKey]) => dateKey.startsWith(monthPrefix)).flatMap(([, dayEvents]) => dayEvents.map(event => event.id)),
+    ).size;
+
+    return (
+      <section key={month} className={`p-2 rounded-lg border ${colors.border} ${colors.componentBg}`}>
+        <button
+          type="button"
+          onClick={() => onSelectMonth(month)}
+          className={`w-full flex items-baseline justify-between mb-1 px-0.5 text-sm font-semibold ${colors.textPrimary} hover:underline`}
+        >
+          {KOREAN_MONTH_NAMES[month]}
+          <span className={`text-[11px] font-normal ${colors.textSecondary}`}>{eventCount}건</span>
+        </button>
+        <div className="grid grid-cols-7 gap-0.5">
+          {KOREAN_DAY_NAMES_SHORT.map(name => (
+            <div key={name} className="text-center text-[9px] text-text-tertiary">{name}</div>
+          ))}
+          {Array.from({ length: firstWeekday }, (_, i) => <div key={`blank-${i}`} />)}
+          {Array.from({ length: dayCount }, (_, i) => renderDay(month, i + 1))}
+        </div>
+      </section>
+    );
+  };
+
+  const renderHoverList = () => {
+    if (!hoveredDay) return null;
+    const dayEvents = dayLoads.get(hoveredDay.dateKey) ?? [];
+    const [, m, d] = hoveredDay.dateKey.split('-').map(Number);
+    const holiday = getKoreanHoliday(hoveredDay.dateKey);
+    return (
+      <div
+        className={`fixed z-[80] w-64 -translate-x-1/2 p-2 rounded-lg shadow-xl border ${colors.border} ${colors.componentBg} pointer-events-none`}
+        style={{ left: Math.min(Math.max(hoveredDay.left, 136), window.innerWidth - 136), top: hoveredDay.top }}
+        role="tooltip"
+      >
+        <div className={`text-xs font-semibold ${colors.textPrimary} mb-1`}>
+          {m}월 {d}일 · {dayEvents.length}건{holiday && <span className="ml-1 text-red-500">{holiday.name}</span>}
+        </div>
+        {dayEvents.length === 0 ? (
+          <p className={`text-xs ${colors.textSecondary}`}>일정이 없습니다.</p>
+        ) : (
+          <ul className="space-y-0.5">
+            {dayEvents.slice(0, MAX_HOVER_ITEMS).map(event => {
+              const { color, icon } = getCategoryDefinition(categorySettings, event.category);
+              const timing = formatEventTiming(event);
+              return (
+                <li key={event.id} className={`flex items-center gap-1.5 text-xs ${colors.textPrimary}`}>
+                  <span className={`h-2 w-2 flex-shrink-0 rounded-full ${CATEGORY_COLOR_CLASSES[color].dot}`} aria-hidden="true" />
+                  <span className={`truncate ${event.status === 'done' ? `line-through ${colors.textSecondary}` : ''}`}>
+                    {icon && <span className="mr-0.5" aria-hidden="true">{icon}</span>}
+                    {event.title}
+                  </span>
+                  {timing && <span className={`ml-auto flex-shrink-0 ${colors.textSecondary}`}>{timing}</span>}
+                </li>
+              );
+            })}
+            {dayEvents.length > MAX_HOVER_ITEMS && (
+              <li className={`text-xs ${colors.textSecondary}`}>외 {dayEvents.length - MAX_HOVER_ITEMS}건</li>
+            )}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const legendCategories = useMemo(() => {
+    const present = new Set(events.map(event => event.category));
+    return categoryNames.filter(name => present.has(name));
+  }, [events, categoryNames]);
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex-shrink-0 flex flex-wrap items-center justify-between gap-2 mb-2 px-1">
+        {colorMode === 'count' ? (
+          <div className={`flex items-center gap-1 text-[11px] ${colors.textSecondary}`}>
+            적음
+            {Array.from({ length: MAX_LOAD_LEVEL }, (_, i) => (
+              <span key={i} className={`h-3 w-3 rounded-sm bg-cyan-500 ${LOAD_LEVEL_OPACITY[i + 1]}`} aria-hidden="true" />
+            ))}
+            많음
+          </div>
+        ) : (
+          <div className={`flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] ${colors.textSecondary}`}>
+            {legendCategories.map(name => (
+              <span key={name} className="flex items-center gap-1">
+                <span className={`h-2.5 w-2.5 rounded-sm ${CATEGORY_COLOR_CLASSES[getCategoryDefinition(categorySettings, name).color].dot}`} aria-hidden="true" />
+                {name}
+              </span>
+            ))}
+          </div>
+        )}
+        <div className={`flex ${colors.inputBg} rounded-lg p-0.5 border ${colors.border}`}>
+          {([['count', '건수'], ['category', '주요 업무']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setColorMode(value)}
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-md transition-colors ${colorMode === value ? `${colors.activeTabBg} ${colors.buttonText}` : `${colors.textSecondary} hover:${colors.textPrimary}`}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div
+        className="flex-grow min-h-0 overflow-y-auto scrollbar-thin grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3 content-start"
+        onScroll={() => setHoveredDay(null)}
+      >
+        {Array.from({ length: 12 }, (_, month) => renderMonth(month))}
+      </div>
+      {renderHoverList()}
+    </div>
+  );
+};
+
+export default YearView;
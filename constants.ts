@@ -1,3 +1,5 @@
+import { AuditAction, AuditOrigin, EventStatus } from "./types";
+
 
 export const KOREAN_MONTH_NAMES: string[] = [
   "1월", "2월", "3월", "4월", "5월", "6월", 
@@ -5,3 +7,25 @@ export const KOREAN_MONTH_NAMES: string[] = [
 ];
 
 export const KOREAN_DAY_NAMES_SHORT: string[] = ["일", "월", "화", "수", "목", "금", "토"];
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  notStarted: "시작 전",
+  inProgress: "진행 중",
+  done: "완료",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "생성",
+  update: "수정",
+  delete: "삭제",
+};
+
+export const AUDIT_ORIGIN_LABELS: Record<AuditOrigin, string> = {
+  manual: "직접 변경",
+  editor: "수정 창",
+  drag: "드래그 이동",
+  dashboard: "업무 현황",
+  ai: "AI 제안",
+  import: "가져오기",
+  undo: "실행 취소/다시 실행",
+};
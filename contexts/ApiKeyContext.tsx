@@ -1,4 +1,21 @@
-import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  AI_PROVIDER_STORAGE_KEY,
+  CATEGORY_SETTINGS_STORAGE_KEY,
+  CUSTOM_SCHEDULE_STORAGE_KEY,
+  CategorySettings,
+  GEMINI_STORAGE_KEY,
+  OPENROUTER_MODEL_STORAGE_KEY,
+  OPENROUTER_STORAGE_KEY,
+  REMINDER_SETTINGS_STORAGE_KEY,
+  ReminderSettings,
+  SCHOOL_PROFILE_STORAGE_KEY,
+  SchoolProfile,
+} from '../types';
+import { normalizeCategorySettings } from '../utils/categories';
+import { normalizeReminderSettings } from '../utils/reminders';
+import { normalizeSchoolProfile } from '../utils/schoolProfile';
+import { subscribeTabSync, writeSyncedStorage } from '../utils/tabSync';
 
 export type AiProviderPreference = 'auto' | 'gemini' | 'openrouter';
 
@@ -7,72 +24,162 @@ type ApiKeyContextValue = {
   openRouterApiKey: string;
   aiProviderPreference: AiProviderPreference;
   openRouterModel: string;
+  schoolProfile: SchoolProfile;
+  reminderSettings: ReminderSettings;
+  categorySettings: CategorySettings;
+  // Annual schedule imported from a spreadsheet, in scheduleData line format ('' = bundled schedule).
+  customScheduleText: string;
   setApiKey: (nextKey: string) => void;
   setOpenRouterApiKey: (nextKey: string) => void;
   setAiProviderPreference: (nextProvider: AiProviderPreference) => void;
   setOpenRouterModel: (nextModel: string) => void;
+  setSchoolProfile: (nextProfile: SchoolProfile) => void;
+  setReminderSettings: (nextSettings: ReminderSettings) => void;
+  setCategorySettings: (nextSettings: CategorySettings) => void;
+  setCustomScheduleText: (nextText: string) => void;
   clearApiKey: () => void;
   clearOpenRouterApiKey: () => void;
 };
 
-const GEMINI_STORAGE_KEY = 'smartcalendar:geminiApiKey';
-const OPENROUTER_STORAGE_KEY = 'smartcalendar:openRouterApiKey';
-const AI_PROVIDER_STORAGE_KEY = 'smartcalendar:aiProviderPreference';
-const OPENROUTER_MODEL_STORAGE_KEY = 'smartcalendar:openRouterModel';
-
 const ApiKeyContext = createContext<ApiKeyContextValue | undefined>(undefined);
 
+const readTrimmedSetting = (key: string) => (localStorage.getItem(key) ?? '').trim();
+
+const readAiProviderPreference = (): AiProviderPreference => {
+  const existing = readTrimmedSetting(AI_PROVIDER_STORAGE_KEY);
+  if (existing === 'auto' || existing === 'gemini' || existing === 'openrouter') return existing;
+  return 'auto';
+};
+
+const readSchoolProfile = (): SchoolProfile => {
+  try {
+    return normalizeSchoolProfile(JSON.parse(localStorage.getItem(SCHOOL_PROFILE_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return normalizeSchoolProfile(null);
+  }
+};
+
+const readReminderSettings = (): ReminderSettings => {
+  try {
+    return normalizeReminderSettings(JSON.parse(localStorage.getItem(REMINDER_SETTINGS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return normalizeReminderSettings(null);
+  }
+};
+
+const readCategorySettings = (): CategorySettings => {
+  try {
+    return normalizeCategorySettings(JSON.parse(localStorage.getItem(CATEGORY_SETTINGS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return normalizeCategorySettings(null);
+  }
+};
+
 export function ApiKeyProvider({ children }: { children: React.ReactNode }) {
-  const [apiKey, setApiKeyState] = useState(() => {
-    const existing = localStorage.getItem(GEMINI_STORAGE_KEY);
-    return (existing ?? '').trim();
-  });
-  const [openRouterApiKey, setOpenRouterApiKeyState] = useState(() => {
-    const existing = localStorage.getItem(OPENROUTER_STORAGE_KEY);
-    return (existing ?? '').trim();
-  });
-  const [aiProviderPreference, setAiProviderPreferenceState] = useState<AiProviderPreference>(() => {
-    const existing = (localStorage.getItem(AI_PROVIDER_STORAGE_KEY) ?? '').trim();
-    if (existing === 'auto' || existing === 'gemini' || existing === 'openrouter') return existing;
-    return 'auto';
-  });
-  const [openRouterModel, setOpenRouterModelState] = useState(() => {
-    const existing = localStorage.getItem(OPENROUTER_MODEL_STORAGE_KEY);
-    return (existing ?? '').trim();
-  });
+  const [apiKey, setApiKeyState] = useState(() => readTrimmedSetting(GEMINI_STORAGE_KEY));
+  const [openRouterApiKey, setOpenRouterApiKeyState] = useState(() => readTrimmedSetting(OPENROUTER_STORAGE_KEY));
+  const [aiProviderPreference, setAiProviderPreferenceState] = useState<AiProviderPreference>(readAiProviderPreference);
+  const [openRouterModel, setOpenRouterModelState] = useState(() => readTrimmedSetting(OPENROUTER_MODEL_STORAGE_KEY));
+  const [schoolProfile, setSchoolProfileState] = useState<SchoolProfile>(readSchoolProfile);
+  const [reminderSettings, setReminderSettingsState] = useState<ReminderSettings>(readReminderSettings);
+  const [categorySettings, setCategorySettingsState] = useState<CategorySettings>(readCategorySettings);
+  const [customScheduleText, setCustomScheduleTextState] = useState(() => readTrimmedSetting(CUSTOM_SCHEDULE_STORAGE_KEY));
+
+  // Another tab changed a setting: re-read it from storage.
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type !== 'storage') return;
+        switch (message.key) {
+          case GEMINI_STORAGE_KEY:
+            setApiKeyState(readTrimmedSetting(GEMINI_STORAGE_KEY));
+            break;
+          case OPENROUTER_STORAGE_KEY:
+            setOpenRouterApiKeyState(readTrimmedSetting(OPENROUTER_STORAGE_KEY));
+            break;
+          case AI_PROVIDER_STORAGE_KEY:
+            setAiProviderPreferenceState(readAiProviderPreference());
+            break;
+          case OPENROUTER_MODEL_STORAGE_KEY:
+            setOpenRouterModelState(readTrimmedSetting(OPENROUTER_MODEL_STORAGE_KEY));
+            break;
+          case SCHOOL_PROFILE_STORAGE_KEY:
+            setSchoolProfileState(readSchoolProfile());
+            break;
+          case REMINDER_SETTINGS_STORAGE_KEY:
+            setReminderSettingsState(readReminderSettings());
+            break;
+          case CATEGORY_SETTINGS_STORAGE_KEY:
+            setCategorySettingsState(readCategorySettings());
+            break;
+          case CUSTOM_SCHEDULE_STORAGE_KEY:
+            setCustomScheduleTextState(readTrimmedSetting(CUSTOM_SCHEDULE_STORAGE_KEY));
+            break;
+        }
+      }),
+    [],
+  );
 
   const setApiKey = useCallback((nextKey: string) => {
     const cleaned = nextKey.trim();
     setApiKeyState(cleaned);
-    if (cleaned) {
-      localStorage.setItem(GEMINI_STORAGE_KEY, cleaned);
-    } else {
-      localStorage.removeItem(GEMINI_STORAGE_KEY);
-    }
+    writeSyncedStorage(GEMINI_STORAGE_KEY, cleaned || null);
   }, []);
 
   const setOpenRouterApiKey = useCallback((nextKey: string) => {
     const cleaned = nextKey.trim();
     setOpenRouterApiKeyState(cleaned);
-    if (cleaned) {
-      localStorage.setItem(OPENROUTER_STORAGE_KEY, cleaned);
-    } else {
-      localStorage.removeItem(OPENROUTER_STORAGE_KEY);
-    }
+    writeSyncedStorage(OPENROUTER_STORAGE_KEY, cleaned || null);
   }, []);
 
   const setAiProviderPreference = useCallback((nextProvider: AiProviderPreference) => {
     setAiProviderPreferenceState(nextProvider);
-    localStorage.setItem(AI_PROVIDER_STORAGE_KEY, nextProvider);
+    writeSyncedStorage(AI_PROVIDER_STORAGE_KEY, nextProvider);
   }, []);
 
   const setOpenRouterModel = useCallback((nextModel: string) => {
     const cleaned = nextModel.trim();
     setOpenRouterModelState(cleaned);
-    if (cleaned) {
-      localStorage.setItem(OPENROUTER_MODEL_STORAGE_KEY, cleaned);
-    } else {
-      localStorage.removeItem(OPENROUTER_MODEL_STORAGE_KEY);
+    writeSyncedStorage(OPENROUTER_MODEL_STORAGE_KEY, cleaned || null);
+  }, []);
+
+  const setSchoolProfile = useCallback((nextProfile: SchoolProfile) => {
+    const cleaned = normalizeSchoolProfile(nextProfile);
+    setSchoolProfileState(cleaned);
+    try {
+      writeSyncedStorage(SCHOOL_PROFILE_STORAGE_KEY, JSON.stringify(cleaned));
+    } catch {
+      // ignore storage errors (e.g., private mode / quota)
+    }
+  }, []);
+
+  const setReminderSettings = useCallback((nextSettings: ReminderSettings) => {
+    const cleaned = normalizeReminderSettings(nextSettings);
+    setReminderSettingsState(cleaned);
+    try {
+      writeSyncedStorage(REMINDER_SETTINGS_STORAGE_KEY, JSON.stringify(cleaned));
+    } catch {
+      // ignore storage errors (e.g., private mode / quota)
+    }
+  }, []);
+
+  const setCategorySettings = useCallback((nextSettings: CategorySettings) => {
+    const cleaned = normalizeCategorySettings(nextSettings);
+    setCategorySettingsState(cleaned);
+    try {
+      writeSyncedStorage(CATEGORY_SETTINGS_STORAGE_KEY, JSON.stringify(cleaned));
+    } catch {
+      // ignore storage errors (e.g., private mode / quota)
+    }
+  }, []);
+
+  const setCustomScheduleText = useCallback((nextText: string) => {
+    const cleaned = nextText.trim();
+    setCustomScheduleTextState(cleaned);
+    try {
+      writeSyncedStorage(CUSTOM_SCHEDULE_STORAGE_KEY, cleaned || null);
+    } catch {
+      // ignore storage errors (e.g., private mode / quota)
     }
   }, []);
 
@@ -90,10 +197,18 @@ export function ApiKeyProvider({ children }: { children: React.ReactNode }) {
       openRouterApiKey,
       aiProviderPreference,
       openRouterModel,
+      schoolProfile,
+      reminderSettings,
+      categorySettings,
+      customScheduleText,
       setApiKey,
       setOpenRouterApiKey,
       setAiProviderPreference,
       setOpenRouterModel,
+      setSchoolProfile,
+      setReminderSettings,
+      setCategorySettings,
+      setCustomScheduleText,
       clearApiKey,
       clearOpenRouterApiKey,
     }),
@@ -102,10 +217,18 @@ export function ApiKeyProvider({ children }: { children: React.ReactNode }) {
       openRouterApiKey,
       aiProviderPreference,
       openRouterModel,
+      schoolProfile,
+      reminderSettings,
+      categorySettings,
+      customScheduleText,
       setApiKey,
       setOpenRouterApiKey,
       setAiProviderPreference,
       setOpenRouterModel,
+      setSchoolProfile,
+      setReminderSettings,
+      setCategorySettings,
+      setCustomScheduleText,
       clearApiKey,
       clearOpenRouterApiKey,
     ],
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { CategoryColor, THEME_STORAGE_KEY } from '../types';
+import { subscribeTabSync, writeSyncedStorage } from '../utils/tabSync';
 
 export type ThemeType = 'dark' | 'light' | 'beige';
 export type Theme = ThemeType;
@@ -32,8 +34,6 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const THEME_STORAGE_KEY = 'smartcalendar:theme';
-
 const COLORS: ThemeColors = {
   mainBg: 'bg-main',
   headerBg: 'bg-secondary',
@@ -55,17 +55,44 @@ const COLORS: ThemeColors = {
   scrollbarThumb: '',
 };
 
+// Category colours: `solid` for user events, `soft` for builtin ones, `dot` for legends. Full class
+// names so Tailwind keeps them.
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, { solid: string; soft: string; dot: string }> = {
+  slate: { solid: 'bg-slate-500 text-white', soft: 'bg-slate-500/20 text-text-primary', dot: 'bg-slate-500' },
+  red: { solid: 'bg-red-500 text-white', soft: 'bg-red-500/20 text-text-primary', dot: 'bg-red-500' },
+  orange: { solid: 'bg-orange-500 text-white', soft: 'bg-orange-500/20 text-text-primary', dot: 'bg-orange-500' },
+  amber: { solid: 'bg-amber-500 text-white', soft: 'bg-amber-500/20 text-text-primary', dot: 'bg-amber-500' },
+  lime: { solid: 'bg-lime-600 text-white', soft: 'bg-lime-500/20 text-text-primary', dot: 'bg-lime-500' },
+  green: { solid: 'bg-green-600 text-white', soft: 'bg-green-500/20 text-text-primary', dot: 'bg-green-500' },
+  teal: { solid: 'bg-teal-600 text-white', soft: 'bg-teal-500/20 text-text-primary', dot: 'bg-teal-500' },
+  sky: { solid: 'bg-sky-600 text-white', soft: 'bg-sky-500/20 text-text-primary', dot: 'bg-sky-500' },
+  blue: { solid: 'bg-blue-600 text-white', soft: 'bg-blue-500/20 text-text-primary', dot: 'bg-blue-500' },
+  indigo: { solid: 'bg-indigo-600 text-white', soft: 'bg-indigo-500/20 text-text-primary', dot: 'bg-indigo-500' },
+  violet: { solid: 'bg-violet-600 text-white', soft: 'bg-violet-500/20 text-text-primary', dot: 'bg-violet-500' },
+  pink: { solid: 'bg-pink-600 text-white', soft: 'bg-pink-500/20 text-text-primary', dot: 'bg-pink-500' },
+};
+
+const readStoredTheme = (): ThemeType => {
+  const saved = (localStorage.getItem(THEME_STORAGE_KEY) ?? '').trim();
+  return saved === 'light' || saved === 'beige' || saved === 'dark' ? saved : 'beige';
+};
+
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [theme, setTheme] = useState<ThemeType>(() => {
-    const saved = (localStorage.getItem(THEME_STORAGE_KEY) ?? '').trim();
-    return saved === 'light' || saved === 'beige' || saved === 'dark' ? saved : 'beige';
-  });
+  const [theme, setTheme] = useState<ThemeType>(readStoredTheme);
 
   useEffect(() => {
-    localStorage.setItem(THEME_STORAGE_KEY, theme);
+    writeSyncedStorage(THEME_STORAGE_KEY, theme);
     document.documentElement.setAttribute('data-theme', theme);
   }, [theme]);
 
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type === 'storage' && message.key === THEME_STORAGE_KEY) setTheme(readStoredTheme());
+      }),
+    [],
+  );
+
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
   }, []);
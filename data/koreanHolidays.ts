@@ -0,0 +1,156 @@
+// 관공서의 공휴일에 관한 규정 기준 공휴일 (대체공휴일·임시공휴일·선거일 포함).
+// 음력 공휴일(설날·부처님오신날·추석)은 연도별 양력 날짜로 미리 계산해 둔다.
+// 표에 없는 연도는 utils/businessDays.ts에서 양력 고정 공휴일만으로 판단한다.
+export type KoreanHolidayEntry = {
+  date: string; // YYYY-MM-DD
+  name: string;
+  substitute?: boolean; // 대체공휴일
+};
+
+export const KOREAN_HOLIDAY_TABLE_YEARS = { start: 2024, end: 2030 } as const;
+
+export const koreanHolidays: KoreanHolidayEntry[] = [
+  // 2024
+  { date: '2024-01-01', name: '신정' },
+  { date: '2024-02-09', name: '설날 연휴' },
+  { date: '2024-02-10', name: '설날' },
+  { date: '2024-02-11', name: '설날 연휴' },
+  { date: '2024-02-12', name: '대체공휴일(설날)', substitute: true },
+  { date: '2024-03-01', name: '삼일절' },
+  { date: '2024-04-10', name: '제22대 국회의원선거' },
+  { date: '2024-05-05', name: '어린이날' },
+  { date: '2024-05-06', name: '대체공휴일(어린이날)', substitute: true },
+  { date: '2024-05-15', name: '부처님오신날' },
+  { date: '2024-06-06', name: '현충일' },
+  { date: '2024-08-15', name: '광복절' },
+  { date: '2024-09-16', name: '추석 연휴' },
+  { date: '2024-09-17', name: '추석' },
+  { date: '2024-09-18', name: '추석 연휴' },
+  { date: '2024-10-01', name: '임시공휴일(국군의날)' },
+  { date: '2024-10-03', name: '개천절' },
+  { date: '2024-10-09', name: '한글날' },
+  { date: '2024-12-25', name: '성탄절' },
+
+  // 2025
+  { date: '2025-01-01', name: '신정' },
+  { date: '2025-01-27', name: '임시공휴일' },
+  { date: '2025-01-28', name: '설날 연휴' },
+  { date: '2025-01-29', name: '설날' },
+  { date: '2025-01-30', name: '설날 연휴' },
+  { date: '2025-03-01', name: '삼일절' },
+  { date: '2025-03-03', name: '대체공휴일(삼일절)', substitute: true },
+  { date: '2025-05-05', name: '어린이날·부처님오신날' },
+  { date: '2025-05-06', name: '대체공휴일(어린이날·부처님오신날)', substitute: true },
+  { date: '2025-06-03', name: '제21대 대통령선거' },
+  { date: '2025-06-06', name: '현충일' },
+  { date: '2025-08-15', name: '광복절' },
+  { date: '2025-10-03', name: '개천절' },
+  { date: '2025-10-05', name: '추석 연휴' },
+  { date: '2025-10-06', name: '추석' },
+  { date: '2025-10-07', name: '추석 연휴' },
+  { date: '2025-10-08', name: '대체공휴일(추석)', substitute: true },
+  { date: '2025-10-09', name: '한글날' },
+  { date: '2025-12-25', name: '성탄절' },
+
+  // 2026
+  { date: '2026-01-01', name: '신정' },
+  { date: '2026-02-16', name: '설날 연휴' },
+  { date: '2026-02-17', name: '설날' },
+  { date: '2026-02-18', name: '설날 연휴' },
+  { date: '2026-03-01', name: '삼일절' },
+  { date: '2026-03-02', name: '대체공휴일(삼일절)', substitute: true },
+  { date: '2026-05-05', name: '어린이날' },
+  { date: '2026-05-24', name: '부처님오신날' },
+  { date: '2026-05-25', name: '대체공휴일(부처님오신날)', substitute: true },
+  { date: '2026-06-03', name: '제9회 전국동시지방선거' },
+  { date: '2026-06-06', name: '현충일' },
+  { date: '2026-08-15', name: '광복절' },
+  { date: '2026-08-17', name: '대체공휴일(광복절)', substitute: true },
+  { date: '2026-09-24', name: '추석 연휴' },
+  { date: '2026-09-25', name: '추석' },
+  { date: '2026-09-26', name: '추석 연휴' },
+  { date: '2026-10-03', name: '개천절' },
+  { date: '2026-10-05', name: '대체공휴일(개천절)', substitute: true },
+  { date: '2026-10-09', name: '한글날' },
+  { date: '2026-12-25', name: '성탄절' },
+
+  // 2027
+  { date: '2027-01-01', name: '신정' },
+  { date: '2027-02-06', name: '설날 연휴' },
+  { date: '2027-02-07', name: '설날' },
+  { date: '2027-02-08', name: '설날 연휴' },
+  { date: '2027-02-09', name: '대체공휴일(설날)', substitute: true },
+  { date: '2027-03-01', name: '삼일절' },
+  { date: '2027-05-05', name: '어린이날' },
+  { date: '2027-05-13', name: '부처님오신날' },
+  { date: '2027-06-06', name: '현충일' },
+  { date: '2027-08-15', name: '광복절' },
+  { date: '2027-08-16', name: '대체공휴일(광복절)', substitute: true },
+  { date: '2027-09-14', name: '추석 연휴' },
+  { date: '2027-09-15', name: '추석' },
+  { date: '2027-09-16', name: '추석 연휴' },
+  { date: '2027-10-03', name: '개천절' },
+  { date: '2027-10-04', name: '대체공휴일(개천절)', substitute: true },
+  { date: '2027-10-09', name: '한글날' },
+  { date: '2027-10-11', name: '대체공휴일(한글날)', substitute: true },
+  { date: '2027-12-25', name: '성탄절' },
+  { date: '2027-12-27', name: '대체공휴일(성탄절)', substitute: true },
+
+  // 2028
+  { date: '2028-01-01', name: '신정' },
+  { date: '2028-01-26', name: '설날 연휴' },
+  { date: '2028-01-27', name: '설날' },
+  { date: '2028-01-28', name: '설날 연휴' },
+  { date: '2028-03-01', name: '삼일절' },
+  { date: '2028-04-12', name: '제23대 국회의원선거' },
+  { date: '2028-05-02', name: '부처님오신날' },
+  { date: '2028-05-05', name: '어린이날' },
+  { date: '2028-06-06', name: '현충일' },
+  { date: '2028-08-15', name: '광복절' },
+  { date: '2028-10-02', name: '추석 연휴' },
+  { date: '2028-10-03', name: '추석·개천절' },
+  { date: '2028-10-04', name: '추석 연휴' },
+  { date: '2028-10-05', name: '대체공휴일(추석)', substitute: true },
+  { date: '2028-10-09', name: '한글날' },
+  { date: '2028-12-25', name: '성탄절' },
+
+  // 2029
+  { date: '2029-01-01', name: '신정' },
+  { date: '2029-02-12', name: '설날 연휴' },
+  { date: '2029-02-13', name: '설날' },
+  { date: '2029-02-14', name: '설날 연휴' },
+  { date: '2029-03-01', name: '삼일절' },
+  { date: '2029-05-05', name: '어린이날' },
+  { date: '2029-05-07', name: '대체공휴일(어린이날)', substitute: true },
+  { date: '2029-05-20', name: '부처님오신날' },
+  { date: '2029-05-21', name: '대체공휴일(부처님오신날)', substitute: true },
+  { date: '2029-06-06', name: '현충일' },
+  { date: '2029-08-15', name: '광복절' },
+  { date: '2029-09-21', name: '추석 연휴' },
+  { date: '2029-09-22', name: '추석' },
+  { date: '2029-09-23', name: '추석 연휴' },
+  { date: '2029-09-24', name: '대체공휴일(추석)', substitute: true },
+  { date: '2029-10-03', name: '개천절' },
+  { date: '2029-10-09', name: '한글날' },
+  { date: '2029-12-25', name: '성탄절' },
+
+  // 2030
+  { date: '2030-01-01', name: '신정' },
+  { date: '2030-02-02', name: '설날 연휴' },
+  { date: '2030-02-03', name: '설날' },
+  { date: '2030-02-04', name: '설날 연휴' },
+  { date: '2030-02-05', name: '대체공휴일(설날)', substitute: true },
+  { date: '2030-03-01', name: '삼일절' },
+  { date: '2030-05-05', name: '어린이날' },
+  { date: '2030-05-06', name: '대체공휴일(어린이날)', substitute: true },
+  { date: '2030-05-09', name: '부처님오신날' },
+  { date: '2030-06-05', name: '제10회 전국동시지방선거' },
+  { date: '2030-06-06', name: '현충일' },
+  { date: '2030-08-15', name: '광복절' },
+  { date: '2030-09-11', name: '추석 연휴' },
+  { date: '2030-09-12', name: '추석' },
+  { date: '2030-09-13', name: '추석 연휴' },
+  { date: '2030-10-03', name: '개천절' },
+  { date: '2030-10-09', name: '한글날' },
+  { date: '2030-12-25', name: '성탄절' },
+];
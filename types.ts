@@ -1,17 +1,5 @@
-export type EventCategory =
-  | '예산'
-  | '급여'
-  | '지출'
-  | '계약'
-  | '시설'
-  | '민원'
-  | '회의'
-  | '학운위'
-  | '공유재산'
-  | '세입'
-  | '물품'
-  | '인사'
-  | '기타';
+// Category names are user-defined (see utils/categories); EVENT_CATEGORIES is what a new install starts with.
+export type EventCategory = string;
 
 export const EVENT_CATEGORIES: EventCategory[] = [
   '예산',
@@ -29,12 +17,79 @@ export const EVENT_CATEGORIES: EventCategory[] = [
   '기타',
 ];
 
+// Fallback for unknown or deleted categories; it can be restyled but not renamed or deleted.
 export const DEFAULT_EVENT_CATEGORY: EventCategory = '기타';
 
+export type CategoryColor =
+  | 'slate'
+  | 'red'
+  | 'orange'
+  | 'amber'
+  | 'lime'
+  | 'green'
+  | 'teal'
+  | 'sky'
+  | 'blue'
+  | 'indigo'
+  | 'violet'
+  | 'pink';
+
+export const CATEGORY_COLORS: CategoryColor[] = [
+  'slate',
+  'red',
+  'orange',
+  'amber',
+  'lime',
+  'green',
+  'teal',
+  'sky',
+  'blue',
+  'indigo',
+  'violet',
+  'pink',
+];
+
+export interface CategoryDefinition {
+  name: EventCategory;
+  color: CategoryColor;
+  icon: string; // a short emoji, '' for none
+}
+
+// Titles containing any keyword get the rule's category; rules are tried in order.
+export interface CategoryRule {
+  category: EventCategory;
+  keywords: string[];
+}
+
+export interface CategorySettings {
+  categories: CategoryDefinition[];
+  rules: CategoryRule[];
+  // Former names (renamed, merged or deleted) mapped to the category that took over their events.
+  aliases: Record<string, EventCategory>;
+}
+
 export const USER_EVENTS_STORAGE_KEY = 'smartcalendar:userEvents';
 export const BUILTIN_EVENT_OVERRIDES_STORAGE_KEY = 'smartcalendar:builtinEventOverrides';
+export const EVENT_FILTERS_STORAGE_KEY = 'smartcalendar:eventFilters';
+export const THEME_STORAGE_KEY = 'smartcalendar:theme';
+export const CHAT_HISTORY_STORAGE_KEY = 'smartcalendar:chatHistory';
+export const GEMINI_STORAGE_KEY = 'smartcalendar:geminiApiKey';
+export const OPENROUTER_STORAGE_KEY = 'smartcalendar:openRouterApiKey';
+export const AI_PROVIDER_STORAGE_KEY = 'smartcalendar:aiProviderPreference';
+export const OPENROUTER_MODEL_STORAGE_KEY = 'smartcalendar:openRouterModel';
+export const SCHOOL_PROFILE_STORAGE_KEY = 'smartcalendar:schoolProfile';
+export const REMINDER_SETTINGS_STORAGE_KEY = 'smartcalendar:reminderSettings';
+export const CATEGORY_SETTINGS_STORAGE_KEY = 'smartcalendar:categorySettings';
+export const PROJECTS_STORAGE_KEY = 'smartcalendar:projects';
+export const FILTER_PRESETS_STORAGE_KEY = 'smartcalendar:filterPresets';
+export const CUSTOM_SCHEDULE_STORAGE_KEY = 'smartcalendar:customScheduleText';
 export const USER_EVENTS_UPDATED_EVENT = 'smartcalendar:userEventsUpdated';
 export const BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT = 'smartcalendar:builtinEventOverridesUpdated';
+export const PROJECTS_UPDATED_EVENT = 'smartcalendar:projectsUpdated';
+// Dispatched by panels outside Calendar (e.g. the dashboard) to act on an event through Calendar's state.
+export const CALENDAR_EVENT_ACTION_EVENT = 'smartcalendar:calendarEventAction';
+// Dispatched after events were written outside Calendar (e.g. an applied AI proposal), so Calendar can undo them.
+export const CALENDAR_EDIT_RECORDED_EVENT = 'smartcalendar:calendarEditRecorded';
 export const BASE_SCHEDULE_END_YEAR = 2029;
 
 // "kind" is internal to the app: builtin (from schedule data) vs user (stored in localStorage).
@@ -45,13 +100,121 @@ export type CalendarEventSource = 'manual' | 'ai';
 
 export const CALENDAR_EVENT_SOURCES: CalendarEventSource[] = ['manual', 'ai'];
 
+export type EventStatus = 'notStarted' | 'inProgress' | 'done';
+
+export const EVENT_STATUSES: EventStatus[] = ['notStarted', 'inProgress', 'done'];
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+};
+
+export type EventLink = {
+  id: string;
+  url: string; // http(s) only
+  label?: string;
+};
+
+// Metadata only; the file itself is kept in IndexedDB under the same id.
+export type EventAttachment = {
+  id: string;
+  name: string;
+  type: string; // MIME type, '' when unknown
+  size: number; // bytes
+};
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Monthly rules repeat either on the same day of month (clamped to month end) or on the
+// Nth / last weekday of the series start date (e.g. "매월 둘째 월요일").
+export type MonthlyRecurrenceMode = 'dayOfMonth' | 'nthWeekday' | 'lastWeekday';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export type RecurrenceOccurrenceOverride = {
+  date?: string;
+  title?: string;
+  category?: EventCategory;
+  // Progress is tracked per occurrence, not per series.
+  status?: EventStatus;
+  checklist?: ChecklistItem[];
+};
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days/weeks/months/years
+  weekdays?: number[]; // weekly only: 0 (Sun) - 6 (Sat)
+  monthlyMode?: MonthlyRecurrenceMode;
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // total occurrences (exceptions still count, as in RFC 5545)
+  exceptions?: string[]; // original occurrence dates that were removed
+  overrides?: Record<string, RecurrenceOccurrenceOverride>; // keyed by original occurrence date
+}
+
 export interface CalendarEvent {
   id: string;
   date: string; // YYYY-MM-DD format
+  // Last day of a multi-day event (inclusive, after `date`); missing for single-day events.
+  endDate?: string;
+  // Local "HH:mm"; endTime falls on endDate. Events without startTime are all-day.
+  startTime?: string;
+  endTime?: string;
   title: string;
   kind: CalendarEventKind;
   category: EventCategory;
   source: CalendarEventSource;
+  recurrence?: RecurrenceRule;
+  // Set on expanded occurrences of a recurring user event.
+  seriesId?: string;
+  occurrenceDate?: string;
+  // Builtin items the user hid via overrides; only shown with "숨긴 일정 보기".
+  hidden?: boolean;
+  // Missing status means 'notStarted'.
+  status?: EventStatus;
+  checklist?: ChecklistItem[];
+  // Days before the event to remind; overrides the category default ([] turns reminders off).
+  reminderLeadDays?: number[];
+  // Markdown notes (품의 번호, 업체 연락처 등), reference links and local files.
+  notes?: string;
+  links?: EventLink[];
+  attachments?: EventAttachment[];
+  // User events only; occurrences of a recurring event belong to the series' project.
+  projectId?: string;
+  // Finish-to-start links to earlier tasks; only between non-recurring user events.
+  dependencies?: EventDependency[];
+}
+
+// The event starts no earlier than `lagDays` business days after the predecessor ends
+// (0 allows the same day).
+export interface EventDependency {
+  predecessorId: string;
+  lagDays: number;
+}
+
+// A group of related tasks (e.g. "현수막 제작·설치"). Events refer to it by id, so renaming the
+// project leaves their titles alone.
+export interface Project {
+  id: string;
+  name: string;
+  owner?: string; // 담당자
+  deadline?: string; // YYYY-MM-DD
+  // 실행(공사·설치 등) 기간, inclusive; both set or both missing.
+  executionStart?: string;
+  executionEnd?: string;
+  budgetLine?: string; // 예산 과목, e.g. "학교운영비 > 일반운영비 > 운영비"
+}
+
+// A named filter combination (e.g. "급여 담당") switched to from the header. Like the saved
+// filters, it lists the categories turned off so categories added later start out visible.
+export interface FilterPreset {
+  id: string;
+  name: string;
+  hiddenCategories: EventCategory[];
+  sources: CalendarEventSource[];
+  showHidden: boolean;
+  openOnly: boolean;
+  searchQuery: string;
 }
 
 export type UserCalendarEvent = CalendarEvent & {
@@ -61,3 +224,47 @@ export type UserCalendarEvent = CalendarEvent & {
 export type BuiltinCalendarEvent = CalendarEvent & {
   kind: 'builtin';
 };
+
+export type SchoolLevel = '초' | '중' | '고' | '특수';
+
+export const SCHOOL_LEVELS: SchoolLevel[] = ['초', '중', '고', '특수'];
+
+// 시도교육청 (short names, also used as "@경기"-style tags in scheduleData).
+export const EDUCATION_OFFICES = [
+  '서울', '부산', '대구', '인천', '광주', '대전', '울산', '세종', '경기',
+  '강원', '충북', '충남', '전북', '전남', '경북', '경남', '제주',
+] as const;
+
+export type EducationOffice = (typeof EDUCATION_OFFICES)[number];
+
+// Unset fields mean "no filtering" / "keep the month or day written in scheduleData".
+export interface SchoolProfile {
+  schoolLevel: SchoolLevel | null;
+  educationOffice: EducationOffice | null;
+  buildingApprovalMonth: number | null; // 건축물사용승인일이 속하는 달 (1-12)
+  fireInspectionMonth: number | null; // 소방 종합정밀점검 월, 비어 있으면 건축물사용승인월
+  payDay: number | null; // 급여 지급일 (1-31)
+}
+
+export type RecordedCalendarEdit = {
+  label: string;
+  addedUserEvents: UserCalendarEvent[];
+  // Projects created along with the events; undo removes them too.
+  addedProjects?: Project[];
+};
+
+// Where a stored change came from, as recorded in the audit log.
+export type AuditOrigin = 'manual' | 'editor' | 'drag' | 'dashboard' | 'ai' | 'import' | 'undo';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type CalendarEventAction =
+  | { type: 'openReport'; event: CalendarEvent }
+  | { type: 'markDone'; event: CalendarEvent }
+  | { type: 'snooze'; event: CalendarEvent; date: string };
+
+export interface ReminderSettings {
+  enabled: boolean;
+  desktopNotifications: boolean;
+  defaultLeadDays: number[];
+  categoryLeadDays: Partial<Record<EventCategory, number[]>>;
+}
@@ -0,0 +1,83 @@
+import { BASE_SCHEDULE_END_YEAR, CalendarEvent } from '../types';
+import { compareDateKeys, formatDateKey } from './dateKey';
+import { compareEventTiming, eventOverlapsRange } from './eventTime';
+
+// Layout helpers for the agenda (list) view. The list starts at the month on screen and grows a
+// few months at a time while scrolling, up to the last year the builtin schedule covers.
+
+export type AgendaGroupBy = 'day' | 'category';
+
+export const AGENDA_INITIAL_MONTHS = 3;
+export const AGENDA_MONTHS_PER_PAGE = 3;
+export const AGENDA_END_DATE_KEY = `${BASE_SCHEDULE_END_YEAR}-12-31`;
+
+export type AgendaGroup = {
+  key: string;
+  dateKey?: string;
+  category?: string;
+  events: CalendarEvent[];
+};
+
+export type AgendaMonth = {
+  key: string; // YYYY-MM
+  groups: AgendaGroup[];
+};
+
+/** From the first day of `date`'s month through `monthCount` months, cut off at AGENDA_END_DATE_KEY. */
+export const getAgendaRange = (date: Date, monthCount: number): { start: string; end: string } => {
+  const start = formatDateKey(new Date(date.getFullYear(), date.getMonth(), 1));
+  const end = formatDateKey(new Date(date.getFullYear(), date.getMonth() + monthCount, 0));
+  return {
+    start: compareDateKeys(start, AGENDA_END_DATE_KEY) > 0 ? AGENDA_END_DATE_KEY : start,
+    end: compareDateKeys(end, AGENDA_END_DATE_KEY) > 0 ? AGENDA_END_DATE_KEY : end,
+  };
+};
+
+const compareAgendaEvents = (a: CalendarEvent, b: CalendarEvent) =>
+  compareDateKeys(a.date, b.date) || compareEventTiming(a, b) || a.title.localeCompare(b.title, 'ko');
+
+/**
+ * Events between `start` and `end`, chronologically by month. Within a month they are grouped by
+ * day or by category (in `categoryNames` order). An event that began before `start` is listed on
+ * `start`.
+ */
+export const buildAgendaMonths = (
+  events: CalendarEvent[],
+  range: { start: string; end: string },
+  groupBy: AgendaGroupBy,
+  categoryNames: string[],
+): AgendaMonth[] => {
+  const listedDate = (event: CalendarEvent) => (compareDateKeys(event.date, range.start) < 0 ? range.start : event.date);
+  const visible = events
+    .filter(event => eventOverlapsRange(event, range.start, range.end))
+    .sort((a, b) => compareDateKeys(listedDate(a), listedDate(b)) || compareAgendaEvents(a, b));
+
+  const months = new Map<string, CalendarEvent[]>();
+  for (const event of visible) {
+    const key = listedDate(event).slice(0, 7);
+    months.set(key, [...(months.get(key) ?? []), event]);
+  }
+
+  return [...months.entries()].map(([key, monthEvents]) => {
+    if (groupBy === 'day') {
+      const days = new Map<string, CalendarEvent[]>();
+      for (const event of monthEvents) {
+        const dateKey = listedDate(event);
+        days.set(dateKey, [...(days.get(dateKey) ?? []), event]);
+      }
+      return { key, groups: [...days.entries()].map(([dateKey, dayEvents]) => ({ key: dateKey, dateKey, events: dayEvents })) };
+    }
+
+    const order = [...new Set([...categoryNames, ...monthEvents.map(event => event.category)])];
+    return {
+      key,
+      groups: order
+        .map(category => ({
+          key: `${key}:${category}`,
+          category,
+          events: monthEvents.filter(event => event.category === category),
+        }))
+        .filter(group => group.events.length > 0),
+    };
+  });
+};
@@ -0,0 +1,108 @@
+import { EVENT_STATUS_LABELS } from '../constants';
+import { ChecklistItem, EventAttachment, EventDependency, EventLink, EventStatus, RecurrenceRule } from '../types';
+import { AuditEntry } from './eventRepository';
+import { describeRecurrence } from './recurrence';
+import { formatLeadDays } from './reminders';
+
+// Display helpers for the per-event change history.
+
+export type AuditFieldChange = {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  date: '날짜',
+  endDate: '종료일',
+  startTime: '시작 시각',
+  endTime: '종료 시각',
+  title: '제목',
+  category: '업무',
+  source: '출처',
+  recurrence: '반복',
+  status: '상태',
+  checklist: '체크리스트',
+  reminderLeadDays: '알림',
+  notes: '메모',
+  links: '링크',
+  attachments: '첨부 파일',
+  projectId: '프로젝트',
+  dependencies: '선행 일정',
+  hidden: '숨김',
+  name: '프로젝트 이름',
+  owner: '담당자',
+  deadline: '마감',
+  executionStart: '실행 시작',
+  executionEnd: '실행 종료',
+  budgetLine: '예산 과목',
+};
+
+const AUDIT_FIELD_ORDER = Object.keys(AUDIT_FIELD_LABELS);
+
+const formatAuditValue = (
+  entry: AuditEntry,
+  field: string,
+  value: unknown,
+  projectNames: Record<string, string>,
+): string => {
+  // Builtin overrides only store what differs from the schedule data.
+  if (value === undefined) return entry.recordType === 'builtinEventOverride' ? '기본값' : '없음';
+  switch (field) {
+    case 'status':
+      return EVENT_STATUS_LABELS[value as EventStatus] ?? String(value);
+    case 'checklist': {
+      const items = value as ChecklistItem[];
+      return `${items.filter(item => item.done).length}/${items.length} 완료`;
+    }
+    case 'reminderLeadDays': {
+      const days = value as number[];
+      return days.length > 0 ? `${formatLeadDays(days)}일 전` : '알림 없음';
+    }
+    case 'recurrence': {
+      const { date } = { ...entry.before, ...entry.after } as { date?: string };
+      return describeRecurrence(value as RecurrenceRule, date ?? '');
+    }
+    case 'notes': {
+      const notes = value as string;
+      return notes.length > 40 ? `${notes.slice(0, 40)}…` : notes;
+    }
+    case 'links':
+      return (value as EventLink[]).map(link => link.label ?? link.url).join(', ');
+    case 'attachments':
+      return (value as EventAttachment[]).map(attachment => attachment.name).join(', ');
+    case 'projectId':
+      return projectNames[value as string] ?? '삭제된 프로젝트';
+    case 'dependencies':
+      return `${(value as EventDependency[]).length}건`;
+    case 'source':
+      return value === 'ai' ? 'AI' : '직접 입력';
+    case 'hidden':
+      return value ? '숨김' : '표시';
+    default:
+      return String(value);
+  }
+};
+
+/** Field-level before/after values of one audit entry, in a fixed field order. */
+export const describeAuditChanges = (
+  entry: AuditEntry,
+  projectNames: Record<string, string> = {},
+): AuditFieldChange[] => {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  return AUDIT_FIELD_ORDER.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field])).map(field => ({
+    field,
+    label: AUDIT_FIELD_LABELS[field],
+    before: formatAuditValue(entry, field, before[field], projectNames),
+    after: formatAuditValue(entry, field, after[field], projectNames),
+  }));
+};
+
+/** Local "YYYY-MM-DD HH:mm" for an audit timestamp. */
+export const formatAuditTime = (at: string) => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
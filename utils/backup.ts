@@ -0,0 +1,578 @@
+import {
+  AI_PROVIDER_STORAGE_KEY,
+  BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT,
+  CATEGORY_SETTINGS_STORAGE_KEY,
+  CHAT_HISTORY_STORAGE_KEY,
+  CUSTOM_SCHEDULE_STORAGE_KEY,
+  EVENT_FILTERS_STORAGE_KEY,
+  FILTER_PRESETS_STORAGE_KEY,
+  GEMINI_STORAGE_KEY,
+  OPENROUTER_MODEL_STORAGE_KEY,
+  OPENROUTER_STORAGE_KEY,
+  PROJECTS_UPDATED_EVENT,
+  Project,
+  REMINDER_SETTINGS_STORAGE_KEY,
+  SCHOOL_PROFILE_STORAGE_KEY,
+  THEME_STORAGE_KEY,
+  USER_EVENTS_UPDATED_EVENT,
+} from '../types';
+import { isDateKeyLike } from './dateKey';
+import {
+  AuditEntry,
+  StoredBuiltinEventOverride,
+  StoredBuiltinEventOverrides,
+  StoredUserEvent,
+  confirmOverwriteConflicts,
+  loadAttachmentFiles,
+  loadAuditLog,
+  loadBuiltinOverrides,
+  loadProjects,
+  loadUserEvents,
+  normalizeAuditEntries,
+  normalizeStoredBuiltinOverrides,
+  normalizeStoredProjects,
+  normalizeStoredUserEvents,
+  putProjects,
+  saveAttachmentFiles,
+  saveBuiltinOverrides,
+  saveProjects,
+  saveUserEvents,
+} from './eventRepository';
+import { writeSyncedStorage } from './tabSync';
+
+// Backup files: v0 (unversioned) and v1 held a single year; v2 adds full backups with settings.
+export const BACKUP_FILE_VERSION = 2 as const;
+
+export type BackupScope = { type: 'all' } | { type: 'year'; year: number };
+
+export type BackupEventData = {
+  userEvents: StoredUserEvent[];
+  builtinEventOverrides: StoredBuiltinEventOverrides;
+};
+
+export type BackupApiKeys = {
+  gemini?: string;
+  openRouter?: string;
+};
+
+// Attachment file contents, base64-encoded; the events carry name and size.
+export type BackupAttachmentFile = {
+  id: string;
+  type: string;
+  data: string;
+};
+
+export type BackupFile = BackupEventData & {
+  version: typeof BACKUP_FILE_VERSION;
+  createdAt: string;
+  scope: BackupScope;
+  // Full backups only: raw localStorage values of BACKUP_SETTINGS_STORAGE_KEYS.
+  settings?: Record<string, string>;
+  chatHistory?: unknown[];
+  apiKeys?: BackupApiKeys;
+  auditLog?: AuditEntry[];
+  attachmentFiles?: BackupAttachmentFile[];
+  // Projects the backed-up events belong to (all projects for full backups).
+  projects?: Project[];
+};
+
+// Settings restored by "replace everything"; API keys are handled separately since they are opt-in.
+const BACKUP_SETTINGS_STORAGE_KEYS = [
+  THEME_STORAGE_KEY,
+  EVENT_FILTERS_STORAGE_KEY,
+  FILTER_PRESETS_STORAGE_KEY,
+  AI_PROVIDER_STORAGE_KEY,
+  OPENROUTER_MODEL_STORAGE_KEY,
+  SCHOOL_PROFILE_STORAGE_KEY,
+  REMINDER_SETTINGS_STORAGE_KEY,
+  CATEGORY_SETTINGS_STORAGE_KEY,
+  CUSTOM_SCHEDULE_STORAGE_KEY,
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const yearFromDateKey = (dateKey: string): number | null => {
+  if (!isDateKeyLike(dateKey)) return null;
+  const year = Number(dateKey.slice(0, 4));
+  return Number.isFinite(year) ? year : null;
+};
+
+const BUILTIN_EVENT_ID_PATTERN = /^event-(\d{4})-(\d{1,2})-(\d{1,2})-(.*)-\d+$/;
+
+const yearFromBuiltinEventId = (eventId: string): number | null => {
+  const match = BUILTIN_EVENT_ID_PATTERN.exec(eventId);
+  if (!match) return null;
+  const year = Number(match[1]);
+  return Number.isFinite(year) ? year : null;
+};
+
+const builtinOverrideYear = (id: string, override: StoredBuiltinEventOverride): number | null =>
+  (override.date ? yearFromDateKey(override.date) : null) ?? yearFromBuiltinEventId(id);
+
+/** Restricts events and overrides to one year (null = keep everything). */
+const filterEventDataByYear = (data: BackupEventData, year: number | null): BackupEventData => {
+  if (year === null) return data;
+  return {
+    userEvents: data.userEvents.filter(event => yearFromDateKey(event.date) === year),
+    builtinEventOverrides: Object.fromEntries(
+      Object.entries(data.builtinEventOverrides).filter(([id, override]) => builtinOverrideYear(id, override) === year),
+    ),
+  };
+};
+
+export const loadLocalEventData = async (): Promise<BackupEventData> => ({
+  userEvents: await loadUserEvents(),
+  builtinEventOverrides: await loadBuiltinOverrides(),
+});
+
+/**
+ * Writes the event data. Records another tab changed in the meantime are overwritten only if the
+ * user agrees; returns how many of them kept the other tab's version.
+ */
+export const saveLocalEventData = async (data: BackupEventData): Promise<{ keptConflictCount: number }> => {
+  let results = [
+    await saveUserEvents(data.userEvents, 'import'),
+    await saveBuiltinOverrides(data.builtinEventOverrides, 'import'),
+  ];
+  const conflictCount = results.reduce((sum, result) => sum + result.conflictIds.length, 0);
+  if (conflictCount > 0 && confirmOverwriteConflicts(conflictCount)) {
+    results = [await results[0].keepMine(), await results[1].keepMine()];
+  }
+  window.dispatchEvent(new CustomEvent(USER_EVENTS_UPDATED_EVENT));
+  window.dispatchEvent(new CustomEvent(BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT));
+  return { keptConflictCount: results.reduce((sum, result) => sum + result.conflictIds.length, 0) };
+};
+
+export const describeKeptConflicts = (count: number) =>
+  count > 0 ? ` 다른 탭에서 먼저 수정한 일정 ${count}건은 다른 탭의 내용을 유지했습니다.` : '';
+
+const collectAttachmentIds = (data: BackupEventData) =>
+  new Set(
+    [...data.userEvents, ...Object.values(data.builtinEventOverrides)].flatMap(
+      record => record.attachments?.map(attachment => attachment.id) ?? [],
+    ),
+  );
+
+const collectProjectIds = (data: BackupEventData) =>
+  new Set(data.userEvents.flatMap(event => (event.projectId ? [event.projectId] : [])));
+
+const blobToBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large files do not overflow the argument limit of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBlob = (data: string, type: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const loadBackupAttachmentFiles = async (data: BackupEventData): Promise<BackupAttachmentFile[]> => {
+  const referencedIds = collectAttachmentIds(data);
+  if (referencedIds.size === 0) return [];
+  const files = (await loadAttachmentFiles()).filter(file => referencedIds.has(file.id));
+  return Promise.all(files.map(async file => ({ id: file.id, type: file.blob.type, data: await blobToBase64(file.blob) })));
+};
+
+const normalizeBackupAttachmentFiles = (value: unknown[]): BackupAttachmentFile[] =>
+  value.filter(
+    (file): file is BackupAttachmentFile =>
+      isPlainObject(file) && typeof file.id === 'string' && Boolean(file.id) && typeof file.data === 'string',
+  ).map(file => ({ id: file.id, type: typeof file.type === 'string' ? file.type : '', data: file.data }));
+
+const loadChatHistory = (): unknown[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(CHAT_HISTORY_STORAGE_KEY) ?? 'null');
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeBackupApiKeys = (value: unknown): BackupApiKeys | undefined => {
+  if (!isPlainObject(value)) return undefined;
+  const gemini = typeof value.gemini === 'string' ? value.gemini.trim() : '';
+  const openRouter = typeof value.openRouter === 'string' ? value.openRouter.trim() : '';
+  if (!gemini && !openRouter) return undefined;
+  return {
+    ...(gemini ? { gemini } : {}),
+    ...(openRouter ? { openRouter } : {}),
+  };
+};
+
+export const buildBackup = async (scope: BackupScope, options: { includeApiKeys?: boolean } = {}): Promise<BackupFile> => {
+  const year = scope.type === 'year' ? scope.year : null;
+  const backup: BackupFile = {
+    version: BACKUP_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    scope,
+    ...filterEventDataByYear(await loadLocalEventData(), year),
+  };
+  const attachmentFiles = await loadBackupAttachmentFiles(backup);
+  if (attachmentFiles.length > 0) backup.attachmentFiles = attachmentFiles;
+  const projectIds = collectProjectIds(backup);
+  const projects = (await loadProjects()).filter(project => year === null || projectIds.has(project.id));
+  if (projects.length > 0) backup.projects = projects;
+  if (scope.type === 'year') return backup;
+
+  const settings: Record<string, string> = {};
+  for (const key of BACKUP_SETTINGS_STORAGE_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  }
+  backup.settings = settings;
+
+  const chatHistory = loadChatHistory();
+  if (chatHistory) backup.chatHistory = chatHistory;
+
+  const auditLog = await loadAuditLog();
+  if (auditLog.length > 0) backup.auditLog = auditLog;
+
+  if (options.includeApiKeys) {
+    const apiKeys = normalizeBackupApiKeys({
+      gemini: localStorage.getItem(GEMINI_STORAGE_KEY),
+      openRouter: localStorage.getItem(OPENROUTER_STORAGE_KEY),
+    });
+    if (apiKeys) backup.apiKeys = apiKeys;
+  }
+  return backup;
+};
+
+type BackupMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+// BACKUP_MIGRATIONS[n] upgrades a version-n payload to version n + 1.
+const BACKUP_MIGRATIONS: BackupMigration[] = [
+  payload => ({
+    ...payload,
+    version: 1,
+    userEvents: payload.userEvents ?? payload.events,
+    builtinEventOverrides: payload.builtinEventOverrides ?? payload.builtinOverrides ?? payload.overrides,
+  }),
+  payload => {
+    const { year, ...rest } = payload;
+    if (typeof year !== 'number' || !Number.isFinite(year)) {
+      throw new Error('백업 파일 형식이 올바르지 않습니다. (year)');
+    }
+    return { ...rest, version: 2, scope: { type: 'year', year: Math.trunc(year) } };
+  },
+];
+
+const normalizeBackupScope = (value: unknown): BackupScope | null => {
+  if (!isPlainObject(value)) return null;
+  if (value.type === 'all') return { type: 'all' };
+  if (value.type === 'year' && typeof value.year === 'number' && Number.isFinite(value.year)) {
+    return { type: 'year', year: Math.trunc(value.year) };
+  }
+  return null;
+};
+
+/** Migrates a parsed backup file of any supported version to the current schema. */
+export const parseBackupFile = (payload: unknown): BackupFile => {
+  if (!isPlainObject(payload)) {
+    throw new Error('백업 파일 형식이 올바르지 않습니다.');
+  }
+
+  const version = payload.version === undefined ? 0 : payload.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || version > BACKUP_FILE_VERSION) {
+    throw new Error('지원하지 않는 백업 파일 버전입니다.');
+  }
+
+  let candidate = payload;
+  for (let v = version; v < BACKUP_FILE_VERSION; v++) {
+    candidate = BACKUP_MIGRATIONS[v](candidate);
+  }
+
+  const scope = normalizeBackupScope(candidate.scope);
+  if (!scope) {
+    throw new Error('백업 파일 형식이 올바르지 않습니다. (scope)');
+  }
+  if (!Array.isArray(candidate.userEvents)) {
+    throw new Error('백업 파일 형식이 올바르지 않습니다. (userEvents)');
+  }
+  const overridesRaw = candidate.builtinEventOverrides;
+  if (overridesRaw !== undefined && !isPlainObject(overridesRaw)) {
+    throw new Error('백업 파일 형식이 올바르지 않습니다. (builtinEventOverrides)');
+  }
+
+  const eventData = filterEventDataByYear(
+    {
+      userEvents: normalizeStoredUserEvents(candidate.userEvents),
+      builtinEventOverrides: overridesRaw ? normalizeStoredBuiltinOverrides(overridesRaw) : {},
+    },
+    scope.type === 'year' ? scope.year : null,
+  );
+
+  const backup: BackupFile = {
+    version: BACKUP_FILE_VERSION,
+    createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date().toISOString(),
+    scope,
+    ...eventData,
+  };
+  if (Array.isArray(candidate.attachmentFiles)) {
+    const referencedIds = collectAttachmentIds(eventData);
+    const attachmentFiles = normalizeBackupAttachmentFiles(candidate.attachmentFiles).filter(file => referencedIds.has(file.id));
+    if (attachmentFiles.length > 0) backup.attachmentFiles = attachmentFiles;
+  }
+  if (Array.isArray(candidate.projects)) {
+    const projects = normalizeStoredProjects(candidate.projects);
+    if (projects.length > 0) backup.projects = projects;
+  }
+  if (scope.type === 'all') {
+    if (isPlainObject(candidate.settings)) {
+      backup.settings = Object.fromEntries(
+        Object.entries(candidate.settings).filter(
+          (entry): entry is [string, string] => BACKUP_SETTINGS_STORAGE_KEYS.includes(entry[0]) && typeof entry[1] === 'string',
+        ),
+      );
+    }
+    if (Array.isArray(candidate.chatHistory)) backup.chatHistory = candidate.chatHistory;
+    const apiKeys = normalizeBackupApiKeys(candidate.apiKeys);
+    if (apiKeys) backup.apiKeys = apiKeys;
+    if (Array.isArray(candidate.auditLog)) backup.auditLog = normalizeAuditEntries(candidate.auditLog);
+  }
+  return backup;
+};
+
+/** Years that have user events or builtin overrides in the data, ascending. */
+export const collectBackupYears = (data: BackupEventData): number[] => {
+  const years = new Set<number>();
+  for (const event of data.userEvents) {
+    const year = yearFromDateKey(event.date);
+    if (year !== null) years.add(year);
+  }
+  for (const [id, override] of Object.entries(data.builtinEventOverrides)) {
+    const year = builtinOverrideYear(id, override);
+    if (year !== null) years.add(year);
+  }
+  return [...years].sort((a, b) => a - b);
+};
+
+export type BackupDiffEntry = {
+  kind: 'user' | 'builtin';
+  id: string;
+  date: string;
+  title: string;
+  // Fields that differ from the local copy (changed/conflicting only).
+  fields: string[];
+};
+
+export type BackupDiff = {
+  // Only in the backup.
+  added: BackupDiffEntry[];
+  // In both; the backup only fills fields the local copy leaves empty.
+  changed: BackupDiffEntry[];
+  // In both with different values for the same field.
+  conflicting: BackupDiffEntry[];
+  // Only on this device.
+  localOnly: BackupDiffEntry[];
+  // Backup events whose date and title already exist locally under another id; merge skips them.
+  duplicates: BackupDiffEntry[];
+  unchangedCount: number;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const compareFields = (local: Record<string, unknown>, backup: Record<string, unknown>) => {
+  const differing: string[] = [];
+  let conflicting = false;
+  for (const field of new Set([...Object.keys(local), ...Object.keys(backup)])) {
+    if (sameValue(local[field], backup[field])) continue;
+    differing.push(field);
+    if (local[field] !== undefined) conflicting = true;
+  }
+  return { differing, conflicting };
+};
+
+const describeBuiltinOverride = (id: string, override: StoredBuiltinEventOverride) => {
+  const match = BUILTIN_EVENT_ID_PATTERN.exec(id);
+  const idDate = match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : '';
+  // Builtin ids only carry the first few characters of the title.
+  return { date: override.date ?? idDate, title: override.title ?? (match ? `${match[4]}…` : id) };
+};
+
+const userEventSignature = (event: { date: string; title: string }) => `${event.date}::${event.title}`;
+
+/** Compares backup data with local data, both restricted to one year when given. */
+export const diffBackup = (backupData: BackupEventData, localData: BackupEventData, year: number | null): BackupDiff => {
+  const backup = filterEventDataByYear(backupData, year);
+  const local = filterEventDataByYear(localData, year);
+  const diff: BackupDiff = { added: [], changed: [], conflicting: [], localOnly: [], duplicates: [], unchangedCount: 0 };
+
+  const classify = (entry: Omit<BackupDiffEntry, 'fields'>, localValue: object | undefined, backupValue: object) => {
+    if (!localValue) {
+      diff.added.push({ ...entry, fields: [] });
+      return;
+    }
+    const { differing, conflicting } = compareFields(
+      localValue as Record<string, unknown>,
+      backupValue as Record<string, unknown>,
+    );
+    if (differing.length === 0) diff.unchangedCount += 1;
+    else (conflicting ? diff.conflicting : diff.changed).push({ ...entry, fields: differing });
+  };
+
+  const localUserById = new Map(local.userEvents.map(event => [event.id, event]));
+  const backupUserIds = new Set(backup.userEvents.map(event => event.id));
+  const localSignatures = new Set(localData.userEvents.map(userEventSignature));
+  for (const event of backup.userEvents) {
+    const entry = { kind: 'user' as const, id: event.id, date: event.date, title: event.title };
+    const localEvent = localUserById.get(event.id);
+    if (!localEvent && localSignatures.has(userEventSignature(event))) {
+      diff.duplicates.push({ ...entry, fields: [] });
+      continue;
+    }
+    classify(entry, localEvent, event);
+  }
+  for (const event of local.userEvents) {
+    if (!backupUserIds.has(event.id)) {
+      diff.localOnly.push({ kind: 'user', id: event.id, date: event.date, title: event.title, fields: [] });
+    }
+  }
+
+  for (const [id, override] of Object.entries(backup.builtinEventOverrides)) {
+    classify({ kind: 'builtin', id, ...describeBuiltinOverride(id, override) }, local.builtinEventOverrides[id], override);
+  }
+  for (const [id, override] of Object.entries(local.builtinEventOverrides)) {
+    if (!backup.builtinEventOverrides[id]) {
+      diff.localOnly.push({ kind: 'builtin', id, ...describeBuiltinOverride(id, override), fields: [] });
+    }
+  }
+
+  return diff;
+};
+
+export type BackupConflictResolution = 'local' | 'backup';
+
+/** Adds new backup entries and fills in changed ones; conflicts follow the given resolution. */
+export const mergeBackupData = (
+  backup: BackupEventData,
+  local: BackupEventData,
+  conflictResolution: BackupConflictResolution,
+): BackupEventData => {
+  const diff = diffBackup(backup, local, null);
+  const skipped = conflictResolution === 'local' ? [...diff.duplicates, ...diff.conflicting] : diff.duplicates;
+  const skippedIds = new Set(skipped.map(entry => `${entry.kind}:${entry.id}`));
+
+  const userEvents = local.userEvents.slice();
+  const userIndexById = new Map(userEvents.map((event, index) => [event.id, index]));
+  for (const event of backup.userEvents) {
+    if (skippedIds.has(`user:${event.id}`)) continue;
+    const index = userIndexById.get(event.id);
+    if (index === undefined) userEvents.push(event);
+    else userEvents[index] = event;
+  }
+
+  const builtinEventOverrides = { ...local.builtinEventOverrides };
+  for (const [id, override] of Object.entries(backup.builtinEventOverrides)) {
+    if (skippedIds.has(`builtin:${id}`)) continue;
+    builtinEventOverrides[id] = override;
+  }
+
+  return { userEvents, builtinEventOverrides };
+};
+
+/** Replaces one year of local data with the backup's (null = replace everything). */
+export const replaceBackupData = (backup: BackupEventData, local: BackupEventData, year: number | null): BackupEventData => {
+  if (year === null) return backup;
+  const incoming = filterEventDataByYear(backup, year);
+  const kept = local.userEvents.filter(event => yearFromDateKey(event.date) !== year);
+  const keptOverrides = Object.fromEntries(
+    Object.entries(local.builtinEventOverrides).filter(([id, override]) => builtinOverrideYear(id, override) !== year),
+  );
+  return {
+    userEvents: [...incoming.userEvents, ...kept],
+    builtinEventOverrides: { ...keptOverrides, ...incoming.builtinEventOverrides },
+  };
+};
+
+export type RekeyedEventData = {
+  data: BackupEventData;
+  droppedOverrides: number;
+  droppedDependencies: number;
+};
+
+/**
+ * Follows a schedule text change: overrides of and dependency links to the old builtin ids move to
+ * the ids in `idMap`. Old ids without a counterpart are dropped (and counted); ids outside
+ * `previousIds` belong to other years and are left alone.
+ */
+export const rekeyBuiltinEventData = (
+  data: BackupEventData,
+  previousIds: Set<string>,
+  idMap: Map<string, string>,
+): RekeyedEventData => {
+  let droppedOverrides = 0;
+  let droppedDependencies = 0;
+
+  const kept: StoredBuiltinEventOverrides = {};
+  const moved: StoredBuiltinEventOverrides = {};
+  for (const [id, override] of Object.entries(data.builtinEventOverrides)) {
+    if (!previousIds.has(id)) kept[id] = override;
+    else if (idMap.has(id)) moved[idMap.get(id) as string] = override;
+    else droppedOverrides++;
+  }
+
+  const userEvents = data.userEvents.map(event => {
+    if (!event.dependencies?.some(dependency => previousIds.has(dependency.predecessorId))) return event;
+    const dependencies = event.dependencies.flatMap(dependency => {
+      if (!previousIds.has(dependency.predecessorId)) return [dependency];
+      const predecessorId = idMap.get(dependency.predecessorId);
+      if (predecessorId) return [{ ...dependency, predecessorId }];
+      droppedDependencies++;
+      return [];
+    });
+    return { ...event, dependencies: dependencies.length > 0 ? dependencies : undefined };
+  });
+
+  return {
+    data: { userEvents, builtinEventOverrides: { ...kept, ...moved } },
+    droppedOverrides,
+    droppedDependencies,
+  };
+};
+
+/** Writes a full backup's settings, chat history and API keys; the caller reloads the app afterwards. */
+export const restoreBackupSettings = (backup: BackupFile) => {
+  if (backup.settings) {
+    for (const key of BACKUP_SETTINGS_STORAGE_KEYS) {
+      const value = backup.settings[key];
+      writeSyncedStorage(key, value ?? null);
+    }
+  }
+  if (backup.chatHistory) localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(backup.chatHistory));
+  else localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+  if (backup.apiKeys?.gemini) writeSyncedStorage(GEMINI_STORAGE_KEY, backup.apiKeys.gemini);
+  if (backup.apiKeys?.openRouter) writeSyncedStorage(OPENROUTER_STORAGE_KEY, backup.apiKeys.openRouter);
+};
+
+/** Stores the backup's attachment files; files already on this device are overwritten with the same contents. */
+export const restoreBackupAttachments = async (backup: BackupFile) => {
+  if (!backup.attachmentFiles) return;
+  try {
+    await saveAttachmentFiles(backup.attachmentFiles.map(file => ({ id: file.id, blob: base64ToBlob(file.data, file.type) })));
+  } catch (e) {
+    throw new Error(`첨부 파일을 복원하지 못했습니다. ${e instanceof Error ? e.message : ''}`.trim());
+  }
+};
+
+/**
+ * Adds the backup's projects. Projects already on this device keep their local version unless
+ * everything is being replaced, in which case the local list becomes the backup's.
+ */
+export const restoreBackupProjects = async (backup: BackupFile, replaceAll: boolean) => {
+  const incoming = backup.projects ?? [];
+  if (replaceAll) {
+    await saveProjects(incoming, 'import');
+  } else {
+    const localIds = new Set((await loadProjects()).map(project => project.id));
+    await putProjects(incoming.filter(project => !localIds.has(project.id)), 'import');
+  }
+  window.dispatchEvent(new CustomEvent(PROJECTS_UPDATED_EVENT));
+};
@@ -0,0 +1,60 @@
+import { KOREAN_HOLIDAY_TABLE_YEARS, KoreanHolidayEntry, koreanHolidays } from '../data/koreanHolidays';
+import { addDaysToDateKey, parseDateKey } from './dateKey';
+
+export type DeadlineShiftRule = 'forward' | 'backward';
+
+// Solar holidays used for years the bundled table does not cover (no lunar or substitute days).
+const FIXED_SOLAR_HOLIDAYS: Array<{ monthDay: string; name: string }> = [
+  { monthDay: '01-01', name: '신정' },
+  { monthDay: '03-01', name: '삼일절' },
+  { monthDay: '05-05', name: '어린이날' },
+  { monthDay: '06-06', name: '현충일' },
+  { monthDay: '08-15', name: '광복절' },
+  { monthDay: '10-03', name: '개천절' },
+  { monthDay: '10-09', name: '한글날' },
+  { monthDay: '12-25', name: '성탄절' },
+];
+
+const holidayByDate = new Map<string, KoreanHolidayEntry>(koreanHolidays.map(entry => [entry.date, entry]));
+
+// Safety net for shifting across long holiday runs; real runs never exceed a week or so.
+const MAX_SHIFT_DAYS = 31;
+
+export const getKoreanHoliday = (dateKey: string): KoreanHolidayEntry | undefined => {
+  const year = Number(dateKey.slice(0, 4));
+  if (year >= KOREAN_HOLIDAY_TABLE_YEARS.start && year <= KOREAN_HOLIDAY_TABLE_YEARS.end) {
+    return holidayByDate.get(dateKey);
+  }
+  const fixed = FIXED_SOLAR_HOLIDAYS.find(h => h.monthDay === dateKey.slice(5));
+  return fixed ? { date: dateKey, name: fixed.name } : undefined;
+};
+
+export const isWeekendDateKey = (dateKey: string) => {
+  const day = parseDateKey(dateKey).getDay();
+  return day === 0 || day === 6;
+};
+
+export const isBusinessDay = (dateKey: string) => !isWeekendDateKey(dateKey) && !getKoreanHoliday(dateKey);
+
+/**
+ * Moves a deadline that falls on a weekend or public holiday to the next (forward) or
+ * previous (backward) business day, as statutory deadlines do. Business days are returned as-is.
+ */
+export const shiftToBusinessDay = (dateKey: string, rule: DeadlineShiftRule): string => {
+  const step = rule === 'forward' ? 1 : -1;
+  let candidate = dateKey;
+  for (let i = 0; i < MAX_SHIFT_DAYS && !isBusinessDay(candidate); i++) {
+    candidate = addDaysToDateKey(candidate, step);
+  }
+  return candidate;
+};
+
+/** The date `days` business days after (or, when negative, before) `dateKey`; 0 returns `dateKey` itself. */
+export const addBusinessDays = (dateKey: string, days: number): string => {
+  const rule: DeadlineShiftRule = days < 0 ? 'backward' : 'forward';
+  let candidate = dateKey;
+  for (let remaining = Math.abs(days); remaining > 0; remaining--) {
+    candidate = shiftToBusinessDay(addDaysToDateKey(candidate, rule === 'forward' ? 1 : -1), rule);
+  }
+  return candidate;
+};
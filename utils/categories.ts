@@ -0,0 +1,293 @@
+import {
+  CATEGORY_COLORS,
+  CalendarEvent,
+  CategoryColor,
+  CategoryDefinition,
+  CategoryRule,
+  CategorySettings,
+  DEFAULT_EVENT_CATEGORY,
+  EventCategory,
+  ReminderSettings,
+} from '../types';
+
+// User-defined categories. Stored events keep the name they were saved with; renamed, merged and
+// deleted names stay as aliases so builtin schedule data, older records and backups still resolve.
+
+export const MAX_CATEGORY_NAME_LENGTH = 20;
+const MAX_CATEGORIES = 40;
+const MAX_CATEGORY_ICON_LENGTH = 8;
+const MAX_CATEGORY_RULES = 100;
+
+export const CATEGORY_COLOR_LABELS: Record<CategoryColor, string> = {
+  slate: '회색',
+  red: '빨강',
+  orange: '주황',
+  amber: '노랑',
+  lime: '연두',
+  green: '초록',
+  teal: '청록',
+  sky: '하늘',
+  blue: '파랑',
+  indigo: '남색',
+  violet: '보라',
+  pink: '분홍',
+};
+
+export const DEFAULT_CATEGORY_SETTINGS: CategorySettings = {
+  categories: [
+    { name: '예산', color: 'amber', icon: '💰' },
+    { name: '급여', color: 'green', icon: '💵' },
+    { name: '지출', color: 'orange', icon: '🧾' },
+    { name: '계약', color: 'blue', icon: '📝' },
+    { name: '시설', color: 'teal', icon: '🏫' },
+    { name: '민원', color: 'red', icon: '📞' },
+    { name: '회의', color: 'indigo', icon: '👥' },
+    { name: '학운위', color: 'violet', icon: '🏛️' },
+    { name: '공유재산', color: 'lime', icon: '🏢' },
+    { name: '세입', color: 'sky', icon: '📥' },
+    { name: '물품', color: 'pink', icon: '📦' },
+    { name: '인사', color: 'indigo', icon: '🪪' },
+    { name: DEFAULT_EVENT_CATEGORY, color: 'slate', icon: '📌' },
+  ],
+  rules: [
+    { category: '학운위', keywords: ['학운위', '학교운영위원회', '운영위원회'] },
+    { category: '공유재산', keywords: ['공유재산'] },
+    { category: '민원', keywords: ['민원'] },
+    { category: '회의', keywords: ['회의', '협의', '심의', '정담회'] },
+    { category: '계약', keywords: ['계약', '입찰', '발주', '용역', '나라장터', '견적'] },
+    { category: '물품', keywords: ['물품', '구매', '수급관리', '인증신제품', 'NEP'] },
+    { category: '세입', keywords: ['세입', '징수', '전입금', '수입', '수납'] },
+    { category: '예산', keywords: ['예산', '추경', '세출예산', '집행률', '발전기금', '본예산', '결산', '정산', '이월금', '명시이월'] },
+    { category: '급여', keywords: ['급여', '연말정산', '근로소득', '4대보험', '퇴직금', '가족수당', '자녀학비', '초과근무', '시간외수당', '일용근로', '인건비', '강사'] },
+    { category: '지출', keywords: ['지출', '공공요금', '업무추진비', '신용카드', '카드', '지급'] },
+    { category: '인사', keywords: ['인사', '전보', '발령', '복무', '휴직', '근무성적', '교육공무직', '지방공무원', '교직원'] },
+    { category: '시설', keywords: ['시설', '소방', '전기', '가스', '석면', '승강기', '저수조', '공기정화', '화재', '동파', '폭설', '안전점검', '정기안전점검', '보수', '유지보수'] },
+  ],
+  aliases: {},
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isCategoryColor = (value: unknown): value is CategoryColor =>
+  typeof value === 'string' && (CATEGORY_COLORS as string[]).includes(value);
+
+export const normalizeCategoryName = (value: unknown): EventCategory | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name && name.length <= MAX_CATEGORY_NAME_LENGTH ? name : null;
+};
+
+const normalizeCategoryIcon = (value: unknown) =>
+  typeof value === 'string' ? value.trim().slice(0, MAX_CATEGORY_ICON_LENGTH) : '';
+
+// Whitespace is ignored on both sides so "학교 운영위원회" still matches "운영위원회".
+const compactText = (text: string) => text.replace(/[\s\u00A0\u200B\uFEFF]+/g, '');
+
+export const parseKeywordsInput = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,\n]/).map(keyword => compactText(keyword)).filter(Boolean)));
+
+const cloneDefaults = (): CategorySettings => ({
+  categories: DEFAULT_CATEGORY_SETTINGS.categories.map(category => ({ ...category })),
+  rules: DEFAULT_CATEGORY_SETTINGS.rules.map(rule => ({ ...rule, keywords: [...rule.keywords] })),
+  aliases: {},
+});
+
+export const normalizeCategorySettings = (value: unknown): CategorySettings => {
+  if (!isPlainObject(value) || !Array.isArray(value.categories)) return cloneDefaults();
+
+  const categories: CategoryDefinition[] = [];
+  const names = new Set<string>();
+  for (const raw of value.categories) {
+    if (!isPlainObject(raw)) continue;
+    const name = normalizeCategoryName(raw.name);
+    if (!name || names.has(name)) continue;
+    names.add(name);
+    categories.push({
+      name,
+      color: isCategoryColor(raw.color) ? raw.color : 'slate',
+      icon: normalizeCategoryIcon(raw.icon),
+    });
+    if (categories.length >= MAX_CATEGORIES) break;
+  }
+  if (!names.has(DEFAULT_EVENT_CATEGORY)) {
+    categories.push({ ...DEFAULT_CATEGORY_SETTINGS.categories.find(c => c.name === DEFAULT_EVENT_CATEGORY)! });
+    names.add(DEFAULT_EVENT_CATEGORY);
+  }
+
+  const rules: CategoryRule[] = [];
+  for (const raw of Array.isArray(value.rules) ? value.rules : []) {
+    if (!isPlainObject(raw) || typeof raw.category !== 'string' || !names.has(raw.category)) continue;
+    const keywords = Array.isArray(raw.keywords)
+      ? parseKeywordsInput(raw.keywords.filter((keyword): keyword is string => typeof keyword === 'string').join(','))
+      : [];
+    if (keywords.length > 0) rules.push({ category: raw.category, keywords });
+    if (rules.length >= MAX_CATEGORY_RULES) break;
+  }
+
+  const aliases: Record<string, EventCategory> = {};
+  if (isPlainObject(value.aliases)) {
+    for (const [from, to] of Object.entries(value.aliases)) {
+      if (names.has(from) || typeof to !== 'string') continue;
+      aliases[from] = names.has(to) ? to : DEFAULT_EVENT_CATEGORY;
+    }
+  }
+
+  return { categories, rules, aliases };
+};
+
+export const getCategoryNames = (settings: CategorySettings): EventCategory[] =>
+  settings.categories.map(category => category.name);
+
+/** The defined category a stored name refers to, or null when the name is unknown. */
+export const findCategory = (settings: CategorySettings, name: unknown): EventCategory | null => {
+  if (typeof name !== 'string') return null;
+  if (settings.categories.some(category => category.name === name)) return name;
+  return settings.aliases[name] ?? null;
+};
+
+export const resolveCategory = (settings: CategorySettings, name: unknown): EventCategory =>
+  findCategory(settings, name) ?? DEFAULT_EVENT_CATEGORY;
+
+export const getCategoryDefinition = (settings: CategorySettings, name: unknown): CategoryDefinition => {
+  const resolved = resolveCategory(settings, name);
+  return (
+    settings.categories.find(category => category.name === resolved) ?? { name: resolved, color: 'slate', icon: '' }
+  );
+};
+
+/**
+ * The event with its category (and those of changed occurrences, for a series) resolved against the
+ * current settings; the same object when nothing changes.
+ */
+export const withResolvedCategory = <T extends Pick<CalendarEvent, 'category' | 'recurrence'>>(
+  event: T,
+  settings: CategorySettings,
+): T => {
+  const category = resolveCategory(settings, event.category);
+  const overrides = event.recurrence?.overrides;
+  const staleOverride =
+    overrides &&
+    Object.values(overrides).some(override => override.category && resolveCategory(settings, override.category) !== override.category);
+  if (category === event.category && !staleOverride) return event;
+  return {
+    ...event,
+    category,
+    ...(staleOverride && event.recurrence
+      ? {
+          recurrence: {
+            ...event.recurrence,
+            overrides: Object.fromEntries(
+              Object.entries(overrides).map(([date, override]) => [
+                date,
+                override.category ? { ...override, category: resolveCategory(settings, override.category) } : override,
+              ]),
+            ),
+          },
+        }
+      : {}),
+  };
+};
+
+export const inferCategoryFromTitle = (settings: CategorySettings, title: string): EventCategory | null => {
+  const normalized = compactText(title);
+  if (!normalized) return null;
+  for (const rule of settings.rules) {
+    if (rule.keywords.some(keyword => normalized.includes(keyword))) return rule.category;
+  }
+  return null;
+};
+
+const withoutAlias = (aliases: Record<string, EventCategory>, name: string) => {
+  const { [name]: _removed, ...rest } = aliases;
+  return rest;
+};
+
+// Points `from` and every alias that led to it at `to`.
+const redirectAliases = (aliases: Record<string, EventCategory>, from: string, to: string) => ({
+  ...Object.fromEntries(Object.entries(aliases).map(([alias, target]) => [alias, target === from ? to : target])),
+  [from]: to,
+});
+
+const assertNewName = (settings: CategorySettings, value: string) => {
+  const name = normalizeCategoryName(value);
+  if (!name) throw new Error(`업무 이름은 1~${MAX_CATEGORY_NAME_LENGTH}자로 입력해주세요.`);
+  if (settings.categories.some(category => category.name === name)) throw new Error(`'${name}' 업무가 이미 있습니다.`);
+  return name;
+};
+
+/** A name that used to be an alias becomes a category of its own again. */
+export const addCategory = (settings: CategorySettings, value: string, color: CategoryColor, icon: string): CategorySettings => {
+  if (settings.categories.length >= MAX_CATEGORIES) throw new Error(`업무는 ${MAX_CATEGORIES}개까지 만들 수 있습니다.`);
+  const name = assertNewName(settings, value);
+  return {
+    ...settings,
+    categories: [...settings.categories, { name, color, icon: normalizeCategoryIcon(icon) }],
+    aliases: withoutAlias(settings.aliases, name),
+  };
+};
+
+export const updateCategoryStyle = (
+  settings: CategorySettings,
+  name: EventCategory,
+  style: Partial<Pick<CategoryDefinition, 'color' | 'icon'>>,
+): CategorySettings => ({
+  ...settings,
+  categories: settings.categories.map(category =>
+    category.name === name
+      ? {
+          ...category,
+          ...(style.color ? { color: style.color } : {}),
+          ...(style.icon !== undefined ? { icon: normalizeCategoryIcon(style.icon) } : {}),
+        }
+      : category,
+  ),
+});
+
+export const renameCategory = (settings: CategorySettings, from: EventCategory, value: string): CategorySettings => {
+  if (from === DEFAULT_EVENT_CATEGORY) throw new Error(`'${DEFAULT_EVENT_CATEGORY}' 업무는 이름을 바꿀 수 없습니다.`);
+  const to = assertNewName(settings, value);
+  return {
+    categories: settings.categories.map(category => (category.name === from ? { ...category, name: to } : category)),
+    rules: settings.rules.map(rule => (rule.category === from ? { ...rule, category: to } : rule)),
+    aliases: redirectAliases(withoutAlias(settings.aliases, to), from, to),
+  };
+};
+
+/**
+ * Removes `from` and sends its events to `to`. Merging also hands its keyword rules over;
+ * deleting drops them.
+ */
+export const removeCategory = (
+  settings: CategorySettings,
+  from: EventCategory,
+  to: EventCategory,
+  mode: 'merge' | 'delete',
+): CategorySettings => {
+  if (from === DEFAULT_EVENT_CATEGORY) throw new Error(`'${DEFAULT_EVENT_CATEGORY}' 업무는 삭제할 수 없습니다.`);
+  if (from === to || !settings.categories.some(category => category.name === to)) {
+    throw new Error('일정을 옮길 다른 업무를 선택해주세요.');
+  }
+  return {
+    categories: settings.categories.filter(category => category.name !== from),
+    rules:
+      mode === 'merge'
+        ? settings.rules.map(rule => (rule.category === from ? { ...rule, category: to } : rule))
+        : settings.rules.filter(rule => rule.category !== from),
+    aliases: redirectAliases(settings.aliases, from, to),
+  };
+};
+
+/**
+ * Category reminder defaults after `from` was renamed or merged into `to` (the target keeps its own
+ * setting when it has one), or deleted (to = null).
+ */
+export const moveCategoryLeadDays = (
+  settings: ReminderSettings,
+  from: EventCategory,
+  to: EventCategory | null,
+): ReminderSettings => {
+  const { [from]: moved, ...rest } = settings.categoryLeadDays;
+  const categoryLeadDays = to && moved && !rest[to] ? { ...rest, [to]: moved } : rest;
+  return { ...settings, categoryLeadDays };
+};
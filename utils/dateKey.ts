@@ -0,0 +1,42 @@
+// Helpers for "YYYY-MM-DD" date keys (local time, no timezone conversion).
+
+export const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const isDateKeyLike = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const isValidDateKey = (value: unknown): value is string => {
+  if (!isDateKeyLike(value)) return false;
+  const [y, m, d] = value.split('-').map(Number);
+  const obj = new Date(y, m - 1, d);
+  return obj.getFullYear() === y && obj.getMonth() === m - 1 && obj.getDate() === d;
+};
+
+export const addDaysToDateKey = (dateKey: string, deltaDays: number): string => {
+  const next = parseDateKey(dateKey);
+  next.setDate(next.getDate() + deltaDays);
+  return formatDateKey(next);
+};
+
+// Whole days from `from` to `to` (negative when `to` is earlier).
+export const diffDateKeysInDays = (from: string, to: string): number => {
+  const a = parseDateKey(from);
+  const b = parseDateKey(to);
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / 86400000);
+};
+
+export const compareDateKeys = (a: string, b: string) => a.localeCompare(b);
+
+export const daysInMonth = (year: number, monthIndex: number) => new Date(year, monthIndex + 1, 0).getDate();
@@ -0,0 +1,34 @@
+import { CalendarEvent } from '../types';
+import { addDaysToDateKey, compareDateKeys } from './dateKey';
+import { isOpenTask } from './eventProgress';
+import { compareEventTiming, eventCoversDate, getEventEndDate } from './eventTime';
+
+// Items for the day view: what is on the day itself, plus unfinished items from the days before it.
+
+// How far back unfinished items are carried over to the day on screen.
+export const CARRY_OVER_LOOKBACK_DAYS = 14;
+
+export const getCarryOverStart = (dateKey: string) => addDaysToDateKey(dateKey, -CARRY_OVER_LOOKBACK_DAYS);
+
+const compareDayItems = (a: CalendarEvent, b: CalendarEvent) =>
+  compareEventTiming(a, b) || a.title.localeCompare(b.title, 'ko');
+
+/** Events covering `dateKey`: all-day ones (including multi-day spans) first, then by start time. */
+export const getDayItems = (events: CalendarEvent[], dateKey: string): { allDay: CalendarEvent[]; timed: CalendarEvent[] } => {
+  const items = events.filter(event => eventCoversDate(event, dateKey)).sort(compareDayItems);
+  return {
+    allDay: items.filter(event => !event.startTime || event.date !== dateKey),
+    timed: items.filter(event => event.startTime && event.date === dateKey),
+  };
+};
+
+/** Open items that ended within the lookback window before `dateKey`, oldest first. */
+export const getCarryOverItems = (events: CalendarEvent[], dateKey: string): CalendarEvent[] => {
+  const start = getCarryOverStart(dateKey);
+  return events
+    .filter(event => {
+      const end = getEventEndDate(event);
+      return isOpenTask(event) && compareDateKeys(end, dateKey) < 0 && compareDateKeys(end, start) >= 0;
+    })
+    .sort((a, b) => compareDateKeys(getEventEndDate(a), getEventEndDate(b)) || compareDayItems(a, b));
+};
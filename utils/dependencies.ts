@@ -0,0 +1,128 @@
+import { CalendarEvent, EventDependency } from '../types';
+import { addBusinessDays, shiftToBusinessDay } from './businessDays';
+import { compareDateKeys } from './dateKey';
+import { shiftEventDates } from './eventTime';
+
+// Finish-to-start dependencies between user events (품의 → 견적 → 계약 → 검수 → 정산 → 지출).
+// Recurring events never take part, and links to deleted events are ignored rather than removed.
+
+export const MAX_DEPENDENCY_LAG_DAYS = 365;
+const MAX_DEPENDENCIES = 20;
+// Cycles are refused when links are added, but a restored backup may still contain one.
+const MAX_CASCADE_STEPS = 1000;
+
+type DependentEvent = Pick<CalendarEvent, 'id' | 'date' | 'endDate' | 'recurrence' | 'dependencies'>;
+
+export type DependencyViolation = {
+  successorId: string;
+  predecessorId: string;
+  earliestStart: string;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const normalizeDependencies = (value: unknown, ownId?: string): EventDependency[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const dependencies: EventDependency[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of value) {
+    if (!isPlainObject(raw)) continue;
+    const { predecessorId, lagDays } = raw;
+    if (typeof predecessorId !== 'string' || !predecessorId || predecessorId === ownId || seenIds.has(predecessorId)) continue;
+    seenIds.add(predecessorId);
+    const lag = typeof lagDays === 'number' && Number.isInteger(lagDays) ? lagDays : 0;
+    dependencies.push({ predecessorId, lagDays: Math.min(Math.max(lag, 0), MAX_DEPENDENCY_LAG_DAYS) });
+    if (dependencies.length >= MAX_DEPENDENCIES) break;
+  }
+  return dependencies.length > 0 ? dependencies : undefined;
+};
+
+export const canHaveDependencies = (event: Pick<CalendarEvent, 'kind' | 'recurrence' | 'seriesId'>) =>
+  event.kind === 'user' && !event.recurrence && !event.seriesId;
+
+/** First date a task may start on when it depends on `predecessor`. */
+export const getDependencyEarliestStart = (predecessor: DependentEvent, lagDays: number) =>
+  addBusinessDays(predecessor.endDate ?? predecessor.date, lagDays);
+
+const indexLinkableEvents = <T extends DependentEvent>(events: T[]) =>
+  new Map(events.filter(event => !event.recurrence).map(event => [event.id, event]));
+
+const getEarliestStart = <T extends DependentEvent>(event: T, byId: Map<string, T>): string | null => {
+  let earliest: string | null = null;
+  for (const { predecessorId, lagDays } of event.dependencies ?? []) {
+    const predecessor = byId.get(predecessorId);
+    if (!predecessor) continue;
+    const start = getDependencyEarliestStart(predecessor, lagDays);
+    if (!earliest || compareDateKeys(start, earliest) > 0) earliest = start;
+  }
+  return earliest;
+};
+
+/** Dependencies the current dates break; with `eventId`, only those the event takes part in. */
+export const findDependencyViolations = (events: DependentEvent[], eventId?: string): DependencyViolation[] => {
+  const byId = indexLinkableEvents(events);
+  const violations: DependencyViolation[] = [];
+  for (const successor of byId.values()) {
+    for (const { predecessorId, lagDays } of successor.dependencies ?? []) {
+      if (eventId && successor.id !== eventId && predecessorId !== eventId) continue;
+      const predecessor = byId.get(predecessorId);
+      if (!predecessor) continue;
+      const earliestStart = getDependencyEarliestStart(predecessor, lagDays);
+      if (compareDateKeys(successor.date, earliestStart) < 0) {
+        violations.push({ successorId: successor.id, predecessorId, earliestStart });
+      }
+    }
+  }
+  return violations;
+};
+
+/**
+ * Pushes the tasks that depend on `changedId`, directly or through other tasks, to the first
+ * business day their predecessors allow, keeping their length. Tasks already late enough stay put,
+ * and the changed task itself is never moved.
+ */
+export const cascadeDependencies = <T extends DependentEvent>(
+  events: T[],
+  changedId: string,
+): { events: T[]; shiftedIds: string[] } => {
+  const byId = indexLinkableEvents(events);
+  const successorIds = new Map<string, string[]>();
+  for (const event of byId.values()) {
+    for (const { predecessorId } of event.dependencies ?? []) {
+      successorIds.set(predecessorId, [...(successorIds.get(predecessorId) ?? []), event.id]);
+    }
+  }
+
+  const shiftedIds = new Set<string>();
+  const queue = [changedId];
+  for (let steps = 0; queue.length > 0 && steps < MAX_CASCADE_STEPS; steps++) {
+    const id = queue.shift() as string;
+    for (const successorId of successorIds.get(id) ?? []) {
+      const successor = byId.get(successorId);
+      if (!successor || successorId === changedId) continue;
+      const earliest = getEarliestStart(successor, byId);
+      if (!earliest || compareDateKeys(successor.date, earliest) >= 0) continue;
+      const { date, endDate } = shiftEventDates(successor, shiftToBusinessDay(earliest, 'forward'));
+      byId.set(successorId, { ...successor, date, ...(endDate ? { endDate } : {}) });
+      shiftedIds.add(successorId);
+      queue.push(successorId);
+    }
+  }
+  return { events: events.map(event => byId.get(event.id) ?? event), shiftedIds: [...shiftedIds] };
+};
+
+/** Whether making `predecessorId` a predecessor of `successorId` would close a loop. */
+export const wouldCreateDependencyCycle = (events: DependentEvent[], successorId: string, predecessorId: string) => {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const pending = [predecessorId];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (id === successorId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    for (const { predecessorId: next } of byId.get(id)?.dependencies ?? []) pending.push(next);
+  }
+  return false;
+};
@@ -0,0 +1,138 @@
+import { Project, UserCalendarEvent } from '../types';
+import { StoredBuiltinEventOverride, StoredBuiltinEventOverrides } from './eventRepository';
+
+// Undo/redo for calendar edits. Entries hold per-record patches rather than whole snapshots, so
+// undoing one edit never reverts unrelated changes that arrived from other tabs in between.
+
+export type EditableEventState = {
+  userEvents: UserCalendarEvent[];
+  builtinEventOverrides: StoredBuiltinEventOverrides;
+};
+
+// id -> value to write; null removes the record.
+export type EditPatch = {
+  userEvents: Record<string, UserCalendarEvent | null>;
+  builtinEventOverrides: Record<string, StoredBuiltinEventOverride | null>;
+  // Only edits reported from elsewhere (see RecordedCalendarEdit) touch projects.
+  projects?: Record<string, Project | null>;
+};
+
+export type EditHistoryEntry = {
+  id: string;
+  label: string;
+  undo: EditPatch;
+  redo: EditPatch;
+};
+
+export const MAX_EDIT_HISTORY = 50;
+
+const isSameRecord = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffRecords = <T>(before: Record<string, T>, after: Record<string, T>) => {
+  const undo: Record<string, T | null> = {};
+  const redo: Record<string, T | null> = {};
+  for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const previous = before[id];
+    const next = after[id];
+    if (isSameRecord(previous, next)) continue;
+    undo[id] = previous ?? null;
+    redo[id] = next ?? null;
+  }
+  return { undo, redo };
+};
+
+const byId = (events: UserCalendarEvent[]) => Object.fromEntries(events.map(event => [event.id, event]));
+
+const isEmptyPatch = (patch: EditPatch) =>
+  Object.keys(patch.userEvents).length === 0 && Object.keys(patch.builtinEventOverrides).length === 0;
+
+/** Patches that turn `before` into `after` and back, or null when nothing changed. */
+export const diffEventState = (
+  before: EditableEventState,
+  after: EditableEventState,
+): Pick<EditHistoryEntry, 'undo' | 'redo'> | null => {
+  if (before.userEvents === after.userEvents && before.builtinEventOverrides === after.builtinEventOverrides) return null;
+  const userEvents = diffRecords(byId(before.userEvents), byId(after.userEvents));
+  const overrides = diffRecords(before.builtinEventOverrides, after.builtinEventOverrides);
+  const undo: EditPatch = { userEvents: userEvents.undo, builtinEventOverrides: overrides.undo };
+  if (isEmptyPatch(undo)) return null;
+  return { undo, redo: { userEvents: userEvents.redo, builtinEventOverrides: overrides.redo } };
+};
+
+export const applyEditPatch = (state: EditableEventState, patch: EditPatch): EditableEventState => {
+  const userEventIds = Object.keys(patch.userEvents);
+  let userEvents = state.userEvents;
+  if (userEventIds.length > 0) {
+    const replaced = new Set<string>();
+    userEvents = state.userEvents.flatMap(event => {
+      if (!(event.id in patch.userEvents)) return [event];
+      replaced.add(event.id);
+      const next = patch.userEvents[event.id];
+      return next ? [next] : [];
+    });
+    // Records that no longer exist (e.g. deleted, then restored by undo) go back on top.
+    const restored = userEventIds
+      .filter(id => !replaced.has(id))
+      .map(id => patch.userEvents[id])
+      .filter((event): event is UserCalendarEvent => Boolean(event));
+    userEvents = [...restored, ...userEvents];
+  }
+
+  let builtinEventOverrides = state.builtinEventOverrides;
+  const overrideIds = Object.keys(patch.builtinEventOverrides);
+  if (overrideIds.length > 0) {
+    builtinEventOverrides = { ...state.builtinEventOverrides };
+    for (const id of overrideIds) {
+      const next = patch.builtinEventOverrides[id];
+      if (next) builtinEventOverrides[id] = next;
+      else delete builtinEventOverrides[id];
+    }
+  }
+
+  return { userEvents, builtinEventOverrides };
+};
+
+export const applyProjectPatch = (projects: Project[], patch: EditPatch): Project[] => {
+  const changes = patch.projects;
+  if (!changes || Object.keys(changes).length === 0) return projects;
+  const kept = projects.flatMap(project => {
+    if (!(project.id in changes)) return [project];
+    const next = changes[project.id];
+    return next ? [next] : [];
+  });
+  const existingIds = new Set(projects.map(project => project.id));
+  // Projects removed by undo come back on redo.
+  const restored = Object.values(changes).flatMap(project => (project && !existingIds.has(project.id) ? [project] : []));
+  return [...kept, ...restored];
+};
+
+/** Short Korean label for an edit, used on the undo toast. */
+export const describeEdit = (redo: EditPatch, before: EditableEventState): string => {
+  const changes = [...Object.values(redo.userEvents), ...Object.values(redo.builtinEventOverrides)];
+  const userIds = Object.keys(redo.userEvents);
+  const previousUserEvents = byId(before.userEvents);
+
+  const added = userIds.filter(id => redo.userEvents[id] && !previousUserEvents[id]).length;
+  const removed = userIds.filter(id => !redo.userEvents[id]).length;
+  if (added === changes.length) return added > 1 ? `일정 ${added}건 추가` : '일정 추가';
+  if (removed === changes.length) return removed > 1 ? `일정 ${removed}건 삭제` : '일정 삭제';
+
+  // Moving a multi-day event shifts its end date along with its start.
+  const onlyDateChanged = userIds.every(id => {
+    const previous = previousUserEvents[id];
+    const next = redo.userEvents[id];
+    return (
+      previous &&
+      next &&
+      previous.date !== next.date &&
+      isSameRecord({ ...previous, date: next.date, endDate: next.endDate }, next)
+    );
+  });
+  const overrideIds = Object.keys(redo.builtinEventOverrides);
+  const overridesOnlyMoved = overrideIds.every(id => {
+    const previous = before.builtinEventOverrides[id] ?? {};
+    const next = redo.builtinEventOverrides[id] ?? {};
+    return previous.date !== next.date && isSameRecord({ ...previous, date: next.date, endDate: next.endDate }, next);
+  });
+  return onlyDateChanged && overridesOnlyMoved ? '일정 이동' : '일정 수정';
+};
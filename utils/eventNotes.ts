@@ -0,0 +1,109 @@
+import { CalendarEvent, EventAttachment, EventLink } from '../types';
+import { matchesKoreanQuery } from './koreanSearch';
+
+// Notes, links and attachment metadata of an event. Attachment files themselves live in the
+// event repository; events only carry their metadata.
+
+const MAX_NOTES_LENGTH = 10000;
+const MAX_LINKS = 20;
+const MAX_ATTACHMENTS = 20;
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export type EventNotes = Pick<CalendarEvent, 'notes' | 'links' | 'attachments'>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Typed without a scheme (e.g. "www.g2b.go.kr"), links are assumed to be https.
+export const normalizeLinkUrl = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const url = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return isHttpUrl(url) ? url : null;
+};
+
+export const normalizeNotes = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const notes = value.trim().slice(0, MAX_NOTES_LENGTH);
+  return notes || undefined;
+};
+
+export const normalizeLinks = (value: unknown): EventLink[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const links: EventLink[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of value) {
+    if (!isPlainObject(raw)) continue;
+    if (typeof raw.id !== 'string' || !raw.id || seenIds.has(raw.id)) continue;
+    if (typeof raw.url !== 'string' || !isHttpUrl(raw.url)) continue;
+    seenIds.add(raw.id);
+    const label = typeof raw.label === 'string' ? raw.label.trim() : '';
+    links.push({ id: raw.id, url: raw.url, ...(label ? { label } : {}) });
+    if (links.length >= MAX_LINKS) break;
+  }
+  return links.length > 0 ? links : undefined;
+};
+
+export const normalizeAttachments = (value: unknown): EventAttachment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const attachments: EventAttachment[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of value) {
+    if (!isPlainObject(raw)) continue;
+    if (typeof raw.id !== 'string' || !raw.id || seenIds.has(raw.id)) continue;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) continue;
+    if (typeof raw.size !== 'number' || !Number.isFinite(raw.size) || raw.size < 0) continue;
+    seenIds.add(raw.id);
+    attachments.push({
+      id: raw.id,
+      name: raw.name.trim(),
+      type: typeof raw.type === 'string' ? raw.type : '',
+      size: raw.size,
+    });
+    if (attachments.length >= MAX_ATTACHMENTS) break;
+  }
+  return attachments.length > 0 ? attachments : undefined;
+};
+
+export const canAddLink = (event: EventNotes) => (event.links?.length ?? 0) < MAX_LINKS;
+export const canAddAttachment = (event: EventNotes) => (event.attachments?.length ?? 0) < MAX_ATTACHMENTS;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+/**
+ * Notes may come from an imported backup, so raw HTML is escaped and only http(s)/mailto link
+ * targets survive before the markdown is rendered.
+ */
+export const toSafeNotesMarkdown = (notes: string) =>
+  notes
+    .replace(/<(?!(?:https?|mailto):[^\s<>]*>)/gi, '&lt;')
+    .replace(/\]\(\s*(?!https?:|mailto:)(?:[^()]|\([^()]*\))*\)/gi, '](#)')
+    .replace(/^(\s*\[[^\]]+\]:\s*)(?!https?:|mailto:)\S+/gim, '$1#');
+
+/** Title, notes, link labels/URLs and attachment names as searched text. */
+export const getEventSearchTexts = (event: CalendarEvent) => [
+  event.title,
+  event.notes ?? '',
+  ...(event.links ?? []).flatMap(link => [link.label ?? '', link.url]),
+  ...(event.attachments ?? []).map(attachment => attachment.name),
+];
+
+/** Case-insensitive (and 초성-aware) match on the title, notes, link labels/URLs and attachment names. */
+export const matchesEventSearch = (event: CalendarEvent, query: string) => {
+  if (!query.trim()) return true;
+  return getEventSearchTexts(event).some(text => matchesKoreanQuery(text, query));
+};
@@ -0,0 +1,40 @@
+import { ChecklistItem, EVENT_STATUSES, EventStatus } from '../types';
+
+const MAX_CHECKLIST_ITEMS = 50;
+
+export const isEventStatus = (value: unknown): value is EventStatus =>
+  typeof value === 'string' && EVENT_STATUSES.includes(value as EventStatus);
+
+// 'notStarted' is the default and is never stored.
+export const normalizeEventStatus = (value: unknown): EventStatus | undefined =>
+  isEventStatus(value) && value !== 'notStarted' ? value : undefined;
+
+export const normalizeChecklist = (value: unknown): ChecklistItem[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items: ChecklistItem[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) continue;
+    const candidate = raw as Record<string, unknown>;
+    if (typeof candidate.id !== 'string' || !candidate.id || seenIds.has(candidate.id)) continue;
+    if (typeof candidate.text !== 'string' || !candidate.text.trim()) continue;
+    seenIds.add(candidate.id);
+    items.push({ id: candidate.id, text: candidate.text.trim(), done: candidate.done === true });
+    if (items.length >= MAX_CHECKLIST_ITEMS) break;
+  }
+  return items.length > 0 ? items : undefined;
+};
+
+/**
+ * Status implied by ticking checklist items: all done -> done, some done -> in progress.
+ * A manually chosen status is kept when the checklist does not contradict it.
+ */
+export const deriveStatusFromChecklist = (checklist: ChecklistItem[], current: EventStatus): EventStatus => {
+  if (checklist.length === 0) return current;
+  const doneCount = checklist.filter(item => item.done).length;
+  if (doneCount === checklist.length) return 'done';
+  if (doneCount > 0) return 'inProgress';
+  return current === 'done' ? 'notStarted' : current;
+};
+
+export const isOpenTask = (event: { status?: EventStatus }) => event.status !== 'done';
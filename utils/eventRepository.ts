@@ -0,0 +1,914 @@
+import {
+  AuditAction,
+  AuditOrigin,
+  BUILTIN_EVENT_OVERRIDES_STORAGE_KEY,
+  BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT,
+  CalendarEventSource,
+  ChecklistItem,
+  DEFAULT_EVENT_CATEGORY,
+  EventAttachment,
+  EventCategory,
+  EventDependency,
+  EventLink,
+  EventStatus,
+  PROJECTS_STORAGE_KEY,
+  PROJECTS_UPDATED_EVENT,
+  Project,
+  RecurrenceRule,
+  USER_EVENTS_STORAGE_KEY,
+  USER_EVENTS_UPDATED_EVENT,
+} from '../types';
+import { isDateKeyLike, isValidDateKey } from './dateKey';
+import { normalizeDependencies } from './dependencies';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_TOTAL_ATTACHMENT_BYTES,
+  formatFileSize,
+  normalizeAttachments,
+  normalizeLinks,
+  normalizeNotes,
+} from './eventNotes';
+import { normalizeCategoryName } from './categories';
+import { normalizeChecklist, normalizeEventStatus } from './eventProgress';
+import { isTimeLike, normalizeEventTiming } from './eventTime';
+import { normalizeRecurrenceRule } from './recurrence';
+import { normalizeProject } from './projects';
+import { normalizeLeadDays } from './reminders';
+import { broadcastTabSync } from './tabSync';
+
+// Single access point for user events, builtin-event overrides and projects. IndexedDB is the
+// primary backend; localStorage is kept as a fallback where IndexedDB cannot be opened.
+
+export type StoredUserEvent = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  title: string;
+  category: EventCategory;
+  source: CalendarEventSource;
+  recurrence?: RecurrenceRule;
+  status?: EventStatus;
+  checklist?: ChecklistItem[];
+  reminderLeadDays?: number[];
+  notes?: string;
+  links?: EventLink[];
+  attachments?: EventAttachment[];
+  projectId?: string;
+  dependencies?: EventDependency[];
+};
+
+export type StoredBuiltinEventOverride = {
+  date?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  title?: string;
+  category?: EventCategory;
+  hidden?: boolean;
+  status?: EventStatus;
+  checklist?: ChecklistItem[];
+  reminderLeadDays?: number[];
+  notes?: string;
+  links?: EventLink[];
+  attachments?: EventAttachment[];
+};
+
+export type StoredBuiltinEventOverrides = Record<string, StoredBuiltinEventOverride>;
+
+const isCalendarEventSource = (value: unknown): value is CalendarEventSource => value === 'manual' || value === 'ai';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isEmptyStoredOverride = (override: StoredBuiltinEventOverride) =>
+  !override.date &&
+  !override.endDate &&
+  !override.startTime &&
+  !override.endTime &&
+  !override.title &&
+  !override.category &&
+  !override.hidden &&
+  !override.status &&
+  !override.checklist &&
+  !override.reminderLeadDays &&
+  !override.notes &&
+  !override.links &&
+  !override.attachments;
+
+export const normalizeStoredUserEvent = (value: unknown): StoredUserEvent | null => {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+  const { id, date, title, category, source } = candidate;
+
+  if (typeof id !== 'string' || !id) return null;
+  if (!isDateKeyLike(date)) return null;
+  if (typeof title !== 'string' || !title.trim()) return null;
+
+  const recurrence = normalizeRecurrenceRule(candidate.recurrence);
+  const status = normalizeEventStatus(candidate.status);
+  const checklist = normalizeChecklist(candidate.checklist);
+  const reminderLeadDays = normalizeLeadDays(candidate.reminderLeadDays);
+  const notes = normalizeNotes(candidate.notes);
+  const links = normalizeLinks(candidate.links);
+  const attachments = normalizeAttachments(candidate.attachments);
+  const projectId = typeof candidate.projectId === 'string' && candidate.projectId ? candidate.projectId : undefined;
+  const dependencies = normalizeDependencies(candidate.dependencies, id);
+  const { endDate, startTime, endTime } = normalizeEventTiming(date, candidate);
+  return {
+    id,
+    date,
+    ...(endDate ? { endDate } : {}),
+    ...(startTime ? { startTime } : {}),
+    ...(endTime ? { endTime } : {}),
+    title: title.trim(),
+    // Names no longer defined are kept and resolved on display (see utils/categories).
+    category: normalizeCategoryName(category) ?? DEFAULT_EVENT_CATEGORY,
+    source: isCalendarEventSource(source) ? source : 'manual',
+    ...(recurrence ? { recurrence } : {}),
+    ...(status ? { status } : {}),
+    ...(checklist ? { checklist } : {}),
+    ...(reminderLeadDays ? { reminderLeadDays } : {}),
+    ...(notes ? { notes } : {}),
+    ...(links ? { links } : {}),
+    ...(attachments ? { attachments } : {}),
+    ...(projectId ? { projectId } : {}),
+    ...(dependencies ? { dependencies } : {}),
+  };
+};
+
+export const normalizeStoredBuiltinOverride = (value: unknown): StoredBuiltinEventOverride | null => {
+  if (!isPlainObject(value)) return null;
+
+  const next: StoredBuiltinEventOverride = {};
+  if (isDateKeyLike(value.date)) next.date = value.date;
+  // Checked against the event's date once the override is applied to its builtin event.
+  if (isValidDateKey(value.endDate)) next.endDate = value.endDate;
+  if (isTimeLike(value.startTime)) next.startTime = value.startTime;
+  if (isTimeLike(value.endTime)) next.endTime = value.endTime;
+  if (typeof value.title === 'string' && value.title.trim()) next.title = value.title.trim();
+  const category = normalizeCategoryName(value.category);
+  if (category) next.category = category;
+  if (value.hidden === true) next.hidden = true;
+  const status = normalizeEventStatus(value.status);
+  if (status) next.status = status;
+  const checklist = normalizeChecklist(value.checklist);
+  if (checklist) next.checklist = checklist;
+  const reminderLeadDays = normalizeLeadDays(value.reminderLeadDays);
+  if (reminderLeadDays) next.reminderLeadDays = reminderLeadDays;
+  const notes = normalizeNotes(value.notes);
+  if (notes) next.notes = notes;
+  const links = normalizeLinks(value.links);
+  if (links) next.links = links;
+  const attachments = normalizeAttachments(value.attachments);
+  if (attachments) next.attachments = attachments;
+
+  return isEmptyStoredOverride(next) ? null : next;
+};
+
+export const normalizeStoredUserEvents = (value: unknown[]): StoredUserEvent[] =>
+  value.map(normalizeStoredUserEvent).filter((event): event is StoredUserEvent => event !== null);
+
+export const normalizeStoredBuiltinOverrides = (value: Record<string, unknown>): StoredBuiltinEventOverrides => {
+  const overrides: StoredBuiltinEventOverrides = {};
+  for (const [id, raw] of Object.entries(value)) {
+    const override = normalizeStoredBuiltinOverride(raw);
+    if (override) overrides[id] = override;
+  }
+  return overrides;
+};
+
+/** Keeps only the persisted fields, e.g. drops Calendar's `kind`. */
+export const toStoredUserEvent = ({
+  id,
+  date,
+  endDate,
+  startTime,
+  endTime,
+  title,
+  category,
+  source,
+  recurrence,
+  status,
+  checklist,
+  reminderLeadDays,
+  notes,
+  links,
+  attachments,
+  projectId,
+  dependencies,
+}: StoredUserEvent): StoredUserEvent => ({
+  id,
+  date,
+  ...(endDate ? { endDate } : {}),
+  ...(startTime ? { startTime } : {}),
+  ...(endTime ? { endTime } : {}),
+  title,
+  category,
+  source,
+  ...(recurrence ? { recurrence } : {}),
+  ...(status ? { status } : {}),
+  ...(checklist ? { checklist } : {}),
+  ...(reminderLeadDays ? { reminderLeadDays } : {}),
+  ...(notes ? { notes } : {}),
+  ...(links ? { links } : {}),
+  ...(attachments ? { attachments } : {}),
+  ...(projectId ? { projectId } : {}),
+  ...(dependencies ? { dependencies } : {}),
+});
+
+export const normalizeStoredProjects = (value: unknown[]): Project[] =>
+  value.map(normalizeProject).filter((project): project is Project => project !== null);
+
+/** Keeps only the persisted fields, e.g. drops the stored revision. */
+const toStoredProject = ({ id, name, owner, deadline, executionStart, executionEnd, budgetLine }: Project): Project => ({
+  id,
+  name,
+  ...(owner ? { owner } : {}),
+  ...(deadline ? { deadline } : {}),
+  ...(executionStart && executionEnd ? { executionStart, executionEnd } : {}),
+  ...(budgetLine ? { budgetLine } : {}),
+});
+
+export type AuditRecordType = 'userEvent' | 'builtinEventOverride' | 'project';
+
+const AUDIT_RECORD_TYPES: AuditRecordType[] = ['userEvent', 'builtinEventOverride', 'project'];
+
+// One create/update/delete of a stored record, written in the same transaction as the change.
+export type AuditEntry = {
+  at: string; // ISO timestamp
+  recordType: AuditRecordType;
+  recordId: string; // user event id (series id for recurring events), builtin event id or project id
+  action: AuditAction;
+  origin: AuditOrigin;
+  before: StoredUserEvent | StoredBuiltinEventOverride | Project | null;
+  after: StoredUserEvent | StoredBuiltinEventOverride | Project | null;
+};
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+const AUDIT_ORIGINS: AuditOrigin[] = ['manual', 'editor', 'drag', 'dashboard', 'ai', 'import', 'undo'];
+
+const normalizeAuditValue = (recordType: AuditRecordType, value: unknown) => {
+  if (recordType === 'userEvent') return normalizeStoredUserEvent(value);
+  if (recordType === 'project') return normalizeProject(value);
+  return normalizeStoredBuiltinOverride(value);
+};
+
+export const normalizeAuditEntry = (value: unknown): AuditEntry | null => {
+  if (!isPlainObject(value)) return null;
+  const { at, recordType, recordId, action, origin } = value;
+  if (typeof at !== 'string' || Number.isNaN(Date.parse(at))) return null;
+  if (!AUDIT_RECORD_TYPES.includes(recordType as AuditRecordType)) return null;
+  if (typeof recordId !== 'string' || !recordId) return null;
+  if (!AUDIT_ACTIONS.includes(action as AuditAction)) return null;
+  return {
+    at,
+    recordType: recordType as AuditRecordType,
+    recordId,
+    action: action as AuditAction,
+    origin: AUDIT_ORIGINS.includes(origin as AuditOrigin) ? (origin as AuditOrigin) : 'manual',
+    before: normalizeAuditValue(recordType as AuditRecordType, value.before),
+    after: normalizeAuditValue(recordType as AuditRecordType, value.after),
+  };
+};
+
+export const normalizeAuditEntries = (value: unknown[]): AuditEntry[] =>
+  value.map(normalizeAuditEntry).filter((entry): entry is AuditEntry => entry !== null);
+
+const toAuditEntry = (
+  recordType: AuditRecordType,
+  id: string,
+  current: unknown,
+  next: object | null,
+  origin: AuditOrigin,
+  at: string,
+): AuditEntry => {
+  const before = current === undefined ? null : normalizeAuditValue(recordType, current);
+  const after = next === null ? null : normalizeAuditValue(recordType, next);
+  return { at, recordType, recordId: id, action: !before ? 'create' : after ? 'update' : 'delete', origin, before, after };
+};
+
+const auditEntryKey = (entry: AuditEntry) => `${entry.at}|${entry.recordType}|${entry.recordId}|${entry.action}`;
+
+// Each stored record carries a revision that grows on every write (absent record = 0). A write
+// names the revision it was based on; if another tab wrote in between, the record is left alone.
+type RecordChange<T> = {
+  id: string;
+  value: T | null; // null deletes the record
+  baseRevision: number;
+};
+
+type WriteOutcome = {
+  applied: Array<{ id: string; revision: number }>;
+  conflictIds: string[];
+};
+
+type EventStoreBackend = {
+  readUserEvents: () => Promise<unknown[]>;
+  readUserEventsOnDates: (dateKeys: string[]) => Promise<unknown[]>;
+  writeUserEvents: (changes: RecordChange<StoredUserEvent>[], origin: AuditOrigin) => Promise<WriteOutcome>;
+  readBuiltinOverrides: () => Promise<Record<string, unknown>>;
+  writeBuiltinOverrides: (changes: RecordChange<StoredBuiltinEventOverride>[], origin: AuditOrigin) => Promise<WriteOutcome>;
+  readProjects: () => Promise<unknown[]>;
+  writeProjects: (changes: RecordChange<Project>[], origin: AuditOrigin) => Promise<WriteOutcome>;
+  readAuditLog: (recordId: string | null) => Promise<unknown[]>;
+  appendAuditLog: (entries: AuditEntry[]) => Promise<void>;
+  readAttachment: (id: string) => Promise<StoredAttachmentFile | null>;
+  readAttachments: () => Promise<StoredAttachmentFile[]>;
+  writeAttachments: (files: StoredAttachmentFile[]) => Promise<void>;
+  deleteAttachments: (ids: string[]) => Promise<void>;
+};
+
+export type StoredAttachmentFile = {
+  id: string;
+  blob: Blob;
+};
+
+const DB_NAME = 'smartcalendar';
+const DB_VERSION = 4;
+const USER_EVENTS_STORE = 'userEvents';
+const BUILTIN_OVERRIDES_STORE = 'builtinEventOverrides';
+const AUDIT_LOG_STORE = 'auditLog';
+const ATTACHMENTS_STORE = 'attachments';
+const PROJECTS_STORE = 'projects';
+// Audit log of the localStorage fallback backend.
+const AUDIT_LOG_STORAGE_KEY = 'smartcalendar:auditLog';
+
+const readRevision = (record: unknown): number =>
+  isPlainObject(record) && typeof record.revision === 'number' && Number.isInteger(record.revision) && record.revision > 0
+    ? record.revision
+    : 0;
+
+type ResolvedChange =
+  | { action: 'put'; record: object; revision: number }
+  | { action: 'delete' }
+  | { action: 'none' }
+  | { action: 'conflict' };
+
+const resolveChange = <T extends object>(change: RecordChange<T>, current: unknown): ResolvedChange => {
+  if (change.value === null && current === undefined) return { action: 'none' };
+  const currentRevision = current === undefined ? 0 : readRevision(current);
+  if (currentRevision !== change.baseRevision) return { action: 'conflict' };
+  if (change.value === null) return { action: 'delete' };
+  return { action: 'put', record: { ...change.value, revision: currentRevision + 1 }, revision: currentRevision + 1 };
+};
+
+const recordOutcome = (outcome: WriteOutcome, id: string, resolved: ResolvedChange) => {
+  if (resolved.action === 'conflict') outcome.conflictIds.push(id);
+  else outcome.applied.push({ id, revision: resolved.action === 'put' ? resolved.revision : 0 });
+};
+
+const readLegacyStorage = () => {
+  const parseJson = (key: string): unknown => {
+    try {
+      return JSON.parse(localStorage.getItem(key) ?? 'null');
+    } catch {
+      return null;
+    }
+  };
+  const userEvents = parseJson(USER_EVENTS_STORAGE_KEY);
+  const overrides = parseJson(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY);
+  return {
+    userEvents: Array.isArray(userEvents) ? (userEvents as unknown[]) : [],
+    builtinEventOverrides: isPlainObject(overrides) ? overrides : {},
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openEventDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedFromLocalStorage = false;
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const userEvents = db.createObjectStore(USER_EVENTS_STORE, { keyPath: 'id' });
+        userEvents.createIndex('date', 'date');
+        userEvents.createIndex('category', 'category');
+        const overrides = db.createObjectStore(BUILTIN_OVERRIDES_STORE);
+
+        // One-time copy of the data stored before IndexedDB, inside the upgrade transaction.
+        const legacy = readLegacyStorage();
+        for (const userEvent of normalizeStoredUserEvents(legacy.userEvents)) userEvents.put(userEvent);
+        for (const [id, override] of Object.entries(normalizeStoredBuiltinOverrides(legacy.builtinEventOverrides))) {
+          overrides.put(override, id);
+        }
+        migratedFromLocalStorage = true;
+      }
+      if (event.oldVersion < 2) {
+        // Auto-incremented keys keep the entries in the order they were written.
+        const auditLog = db.createObjectStore(AUDIT_LOG_STORE, { autoIncrement: true });
+        auditLog.createIndex('recordId', 'recordId');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (migratedFromLocalStorage) {
+        try {
+          localStorage.removeItem(USER_EVENTS_STORAGE_KEY);
+          localStorage.removeItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY);
+        } catch {
+          // the copies are harmless; IndexedDB is read from now on
+        }
+      }
+      // Another tab upgrading the schema must not be blocked by this connection.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbBackend = (db: IDBDatabase): EventStoreBackend => {
+  // Revision checks and writes share one transaction, so no other tab can write in between.
+  // The audit entries go into the same transaction, so the log never disagrees with the data.
+  const write = <T extends object>(
+    storeName: string,
+    recordType: AuditRecordType,
+    changes: RecordChange<T>[],
+    origin: AuditOrigin,
+  ) =>
+    new Promise<WriteOutcome>((resolve, reject) => {
+      const transaction = db.transaction([storeName, AUDIT_LOG_STORE], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      const auditLog = transaction.objectStore(AUDIT_LOG_STORE);
+      const outcome: WriteOutcome = { applied: [], conflictIds: [] };
+      const at = new Date().toISOString();
+      for (const change of changes) {
+        const request = store.get(change.id);
+        request.onsuccess = () => {
+          const resolved = resolveChange(change, request.result);
+          if (resolved.action === 'put') {
+            if (store.keyPath) store.put(resolved.record);
+            else store.put(resolved.record, change.id);
+          } else if (resolved.action === 'delete') {
+            store.delete(change.id);
+          }
+          if (resolved.action === 'put' || resolved.action === 'delete') {
+            auditLog.add(toAuditEntry(recordType, change.id, request.result, change.value, origin, at));
+          }
+          recordOutcome(outcome, change.id, resolved);
+        };
+      }
+      transaction.oncomplete = () => resolve(outcome);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+  return {
+    readUserEvents: () => requestToPromise(db.transaction(USER_EVENTS_STORE).objectStore(USER_EVENTS_STORE).getAll()),
+    readUserEventsOnDates: async dateKeys => {
+      const index = db.transaction(USER_EVENTS_STORE).objectStore(USER_EVENTS_STORE).index('date');
+      const results = await Promise.all(dateKeys.map(dateKey => requestToPromise(index.getAll(dateKey))));
+      return results.flat();
+    },
+    writeUserEvents: (changes, origin) => write(USER_EVENTS_STORE, 'userEvent', changes, origin),
+    readBuiltinOverrides: async () => {
+      const transaction = db.transaction(BUILTIN_OVERRIDES_STORE);
+      const store = transaction.objectStore(BUILTIN_OVERRIDES_STORE);
+      const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+      return Object.fromEntries(keys.map((key, i) => [String(key), values[i] as unknown]));
+    },
+    writeBuiltinOverrides: (changes, origin) => write(BUILTIN_OVERRIDES_STORE, 'builtinEventOverride', changes, origin),
+    readProjects: () => requestToPromise(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()),
+    writeProjects: (changes, origin) => write(PROJECTS_STORE, 'project', changes, origin),
+    readAuditLog: recordId => {
+      const store = db.transaction(AUDIT_LOG_STORE).objectStore(AUDIT_LOG_STORE);
+      return requestToPromise(recordId === null ? store.getAll() : store.index('recordId').getAll(recordId));
+    },
+    appendAuditLog: entries =>
+      new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+        const store = transaction.objectStore(AUDIT_LOG_STORE);
+        for (const entry of entries) store.add(entry);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+      }),
+    readAttachment: async id =>
+      (await requestToPromise(db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).get(id))) ?? null,
+    readAttachments: () => requestToPromise(db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).getAll()),
+    writeAttachments: files => updateAttachments(store => files.forEach(file => store.put(file))),
+    deleteAttachments: ids => updateAttachments(store => ids.forEach(id => store.delete(id))),
+  };
+
+  function updateAttachments(update: (store: IDBObjectStore) => void) {
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+      update(transaction.objectStore(ATTACHMENTS_STORE));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+  }
+};
+
+const readLocalAuditLog = (): unknown[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(AUDIT_LOG_STORAGE_KEY) ?? 'null');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const appendLocalAuditLog = (entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  localStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify([...readLocalAuditLog(), ...entries]));
+};
+
+const readLocalRecords = (key: string): unknown[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Records with an `id`, stored as one array under `key`.
+const writeLocalRecords = <T extends object>(
+  key: string,
+  recordType: AuditRecordType,
+  changes: RecordChange<T>[],
+  origin: AuditOrigin,
+): WriteOutcome => {
+  const byId = new Map<string, unknown>();
+  for (const record of readLocalRecords(key)) {
+    if (isPlainObject(record) && typeof record.id === 'string') byId.set(record.id, record);
+  }
+  const outcome: WriteOutcome = { applied: [], conflictIds: [] };
+  const auditEntries: AuditEntry[] = [];
+  const at = new Date().toISOString();
+  for (const change of changes) {
+    const current = byId.get(change.id);
+    const resolved = resolveChange(change, current);
+    if (resolved.action === 'put') byId.set(change.id, resolved.record);
+    else if (resolved.action === 'delete') byId.delete(change.id);
+    if (resolved.action === 'put' || resolved.action === 'delete') {
+      auditEntries.push(toAuditEntry(recordType, change.id, current, change.value, origin, at));
+    }
+    recordOutcome(outcome, change.id, resolved);
+  }
+  localStorage.setItem(key, JSON.stringify([...byId.values()]));
+  appendLocalAuditLog(auditEntries);
+  return outcome;
+};
+
+// Whole-blob storage, as before IndexedDB; only used when IndexedDB is unavailable.
+const createLocalStorageBackend = (): EventStoreBackend => ({
+  readUserEvents: async () => readLegacyStorage().userEvents,
+  readUserEventsOnDates: async dateKeys =>
+    readLegacyStorage().userEvents.filter(event => isPlainObject(event) && dateKeys.includes(String(event.date))),
+  writeUserEvents: async (changes, origin) => writeLocalRecords(USER_EVENTS_STORAGE_KEY, 'userEvent', changes, origin),
+  readBuiltinOverrides: async () => readLegacyStorage().builtinEventOverrides,
+  writeBuiltinOverrides: async (changes, origin) => {
+    const overrides = { ...readLegacyStorage().builtinEventOverrides };
+    const outcome: WriteOutcome = { applied: [], conflictIds: [] };
+    const auditEntries: AuditEntry[] = [];
+    const at = new Date().toISOString();
+    for (const change of changes) {
+      const current = overrides[change.id];
+      const resolved = resolveChange(change, current);
+      if (resolved.action === 'put') overrides[change.id] = resolved.record;
+      else if (resolved.action === 'delete') delete overrides[change.id];
+      if (resolved.action === 'put' || resolved.action === 'delete') {
+        auditEntries.push(toAuditEntry('builtinEventOverride', change.id, current, change.value, origin, at));
+      }
+      recordOutcome(outcome, change.id, resolved);
+    }
+    localStorage.setItem(BUILTIN_EVENT_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+    appendLocalAuditLog(auditEntries);
+    return outcome;
+  },
+  readProjects: async () => readLocalRecords(PROJECTS_STORAGE_KEY),
+  writeProjects: async (changes, origin) => writeLocalRecords(PROJECTS_STORAGE_KEY, 'project', changes, origin),
+  readAuditLog: async recordId => {
+    const entries = readLocalAuditLog();
+    return recordId === null ? entries : entries.filter(entry => isPlainObject(entry) && entry.recordId === recordId);
+  },
+  appendAuditLog: async entries => appendLocalAuditLog(entries),
+  // Files are too large for localStorage, so attachments need IndexedDB.
+  readAttachment: async () => null,
+  readAttachments: async () => [],
+  writeAttachments: async () => {
+    throw new Error('이 브라우저에서는 첨부 파일을 저장할 수 없습니다. (IndexedDB 사용 불가)');
+  },
+  deleteAttachments: async () => {},
+});
+
+let backendPromise: Promise<EventStoreBackend> | null = null;
+
+const getBackend = () => {
+  backendPromise ??= (async () => {
+    if (typeof indexedDB === 'undefined') return createLocalStorageBackend();
+    try {
+      return createIndexedDbBackend(await openEventDatabase());
+    } catch (error) {
+      console.error('IndexedDB is unavailable, falling back to localStorage', error);
+      return createLocalStorageBackend();
+    }
+  })();
+  return backendPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const toStorageError = (error: unknown) => {
+  console.error('Failed to write calendar events', error);
+  return new Error(
+    isQuotaError(error)
+      ? '저장 공간이 부족해 일정을 저장하지 못했습니다. 오래된 일정을 정리하거나 백업 후 삭제해주세요.'
+      : '일정을 저장하지 못했습니다. 새로고침 후 다시 시도해주세요.',
+  );
+};
+
+type EventRecordKind = 'userEvents' | 'builtinEventOverrides' | 'projects';
+
+// Last persisted value (as JSON) and revision per id, so saves only write what actually changed
+// and know which revision each change is based on.
+type PersistedRecord = { json: string; revision: number };
+
+const persistedRecords: Record<EventRecordKind, Map<string, PersistedRecord>> = {
+  userEvents: new Map(),
+  builtinEventOverrides: new Map(),
+  projects: new Map(),
+};
+
+const UPDATED_EVENTS: Record<EventRecordKind, string> = {
+  userEvents: USER_EVENTS_UPDATED_EVENT,
+  builtinEventOverrides: BUILTIN_EVENT_OVERRIDES_UPDATED_EVENT,
+  projects: PROJECTS_UPDATED_EVENT,
+};
+
+export type SaveResult = {
+  // Records another tab changed first. Nothing is written for them until the caller picks a side.
+  conflictIds: string[];
+  /** Writes this tab's version of the conflicting records over the other tab's. */
+  keepMine: () => Promise<SaveResult>;
+  /** Reloads so this tab shows the other tab's version of the conflicting records. */
+  keepTheirs: () => void;
+};
+
+/** The editor's question for records another tab saved first: true keeps this tab's version. */
+export const confirmOverwriteConflicts = (count: number, noun = '일정') =>
+  window.confirm(
+    `다른 탭에서 ${noun} ${count}건이 먼저 수정되었습니다. 내 변경으로 덮어쓸까요?\n취소하면 다른 탭에서 수정한 내용이 유지됩니다.`,
+  );
+
+const NO_CONFLICTS: SaveResult = { conflictIds: [], keepMine: async () => NO_CONFLICTS, keepTheirs: () => {} };
+
+/** Current stored revision per id, read past this tab's persisted records. */
+const readStoredRevisions = async (kind: EventRecordKind): Promise<Map<string, number>> => {
+  const backend = await getBackend();
+  if (kind === 'builtinEventOverrides') {
+    return new Map(Object.entries(await backend.readBuiltinOverrides()).map(([id, record]) => [id, readRevision(record)]));
+  }
+  const records = kind === 'userEvents' ? await backend.readUserEvents() : await backend.readProjects();
+  return new Map(
+    records.flatMap((record): Array<[string, number]> =>
+      isPlainObject(record) && typeof record.id === 'string' ? [[record.id, readRevision(record)]] : [],
+    ),
+  );
+};
+
+const rememberPersisted = (kind: EventRecordKind, entries: Array<[string, object, number]>) => {
+  const persisted = persistedRecords[kind];
+  persisted.clear();
+  for (const [id, value, revision] of entries) persisted.set(id, { json: JSON.stringify(value), revision });
+};
+
+const writeChanges = async <T extends object>(
+  kind: EventRecordKind,
+  changes: RecordChange<T>[],
+  write: (changes: RecordChange<T>[]) => Promise<WriteOutcome>,
+): Promise<SaveResult> => {
+  if (changes.length === 0) return NO_CONFLICTS;
+
+  let outcome: WriteOutcome;
+  try {
+    outcome = await write(changes);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+
+  const persisted = persistedRecords[kind];
+  const changesById = new Map(changes.map(change => [change.id, change]));
+  for (const { id, revision } of outcome.applied) {
+    const value = changesById.get(id)?.value;
+    if (value) persisted.set(id, { json: JSON.stringify(value), revision });
+    else persisted.delete(id);
+  }
+  if (outcome.applied.length > 0) {
+    broadcastTabSync({ type: kind, ids: outcome.applied.map(({ id }) => id) });
+  }
+  if (outcome.conflictIds.length === 0) return NO_CONFLICTS;
+
+  const conflictIds = new Set(outcome.conflictIds);
+  const conflicting = changes.filter(change => conflictIds.has(change.id));
+  return {
+    conflictIds: outcome.conflictIds,
+    keepMine: async () => {
+      let revisions: Map<string, number>;
+      try {
+        revisions = await readStoredRevisions(kind);
+      } catch (error) {
+        throw toStorageError(error);
+      }
+      return writeChanges(
+        kind,
+        conflicting.map(change => ({ ...change, baseRevision: revisions.get(change.id) ?? 0 })),
+        write,
+      );
+    },
+    keepTheirs: () => window.dispatchEvent(new CustomEvent(UPDATED_EVENTS[kind])),
+  };
+};
+
+/** Changes that turn the persisted records into `next`: changed values are put, missing ids deleted. */
+const diffAgainstPersisted = <T extends object>(kind: EventRecordKind, next: Array<[string, T]>): RecordChange<T>[] => {
+  const persisted = persistedRecords[kind];
+  const nextIds = new Set(next.map(([id]) => id));
+  const changes: RecordChange<T>[] = [];
+  for (const [id, value] of next) {
+    const previous = persisted.get(id);
+    if (previous?.json === JSON.stringify(value)) continue;
+    changes.push({ id, value, baseRevision: previous?.revision ?? 0 });
+  }
+  for (const [id, previous] of persisted) {
+    if (!nextIds.has(id)) changes.push({ id, value: null, baseRevision: previous.revision });
+  }
+  return changes;
+};
+
+export const loadUserEvents = async (): Promise<StoredUserEvent[]> => {
+  const raw = await (await getBackend()).readUserEvents();
+  const entries: Array<[string, StoredUserEvent, number]> = [];
+  for (const record of raw) {
+    const event = normalizeStoredUserEvent(record);
+    if (event) entries.push([event.id, event, readRevision(record)]);
+  }
+  rememberPersisted('userEvents', entries);
+  return entries.map(([, event]) => event);
+};
+
+/** User events whose (first) date is one of `dateKeys`, read through the date index. */
+export const loadUserEventsOnDates = async (dateKeys: string[]): Promise<StoredUserEvent[]> => {
+  const backend = await getBackend();
+  return normalizeStoredUserEvents(await backend.readUserEventsOnDates([...new Set(dateKeys)]));
+};
+
+/** Replaces the stored user events with `events`, writing only added, changed and removed records. */
+export const saveUserEvents = (events: StoredUserEvent[], origin: AuditOrigin = 'manual') =>
+  writeChanges(
+    'userEvents',
+    diffAgainstPersisted('userEvents', events.map(event => [event.id, toStoredUserEvent(event)])),
+    async changes => (await getBackend()).writeUserEvents(changes, origin),
+  );
+
+/** Adds or updates the given user events without touching the others. */
+export const putUserEvents = (events: StoredUserEvent[], origin: AuditOrigin = 'manual') =>
+  writeChanges(
+    'userEvents',
+    events.map(event => ({
+      id: event.id,
+      value: toStoredUserEvent(event),
+      baseRevision: persistedRecords.userEvents.get(event.id)?.revision ?? 0,
+    })),
+    async changes => (await getBackend()).writeUserEvents(changes, origin),
+  );
+
+export const loadBuiltinOverrides = async (): Promise<StoredBuiltinEventOverrides> => {
+  const raw = await (await getBackend()).readBuiltinOverrides();
+  const overrides: StoredBuiltinEventOverrides = {};
+  const entries: Array<[string, StoredBuiltinEventOverride, number]> = [];
+  for (const [id, record] of Object.entries(raw)) {
+    const override = normalizeStoredBuiltinOverride(record);
+    if (!override) continue;
+    overrides[id] = override;
+    entries.push([id, override, readRevision(record)]);
+  }
+  rememberPersisted('builtinEventOverrides', entries);
+  return overrides;
+};
+
+/** Replaces the stored builtin-event overrides, writing only what changed. */
+export const saveBuiltinOverrides = (overrides: StoredBuiltinEventOverrides, origin: AuditOrigin = 'manual') =>
+  writeChanges(
+    'builtinEventOverrides',
+    diffAgainstPersisted('builtinEventOverrides', Object.entries(overrides)),
+    async changes => (await getBackend()).writeBuiltinOverrides(changes, origin),
+  );
+
+export const loadProjects = async (): Promise<Project[]> => {
+  const raw = await (await getBackend()).readProjects();
+  const entries: Array<[string, Project, number]> = [];
+  for (const record of raw) {
+    const project = normalizeProject(record);
+    if (project) entries.push([project.id, toStoredProject(project), readRevision(record)]);
+  }
+  rememberPersisted('projects', entries);
+  return entries.map(([, project]) => project);
+};
+
+/** Replaces the stored projects, writing only what changed. */
+export const saveProjects = (projects: Project[], origin: AuditOrigin = 'manual') =>
+  writeChanges(
+    'projects',
+    diffAgainstPersisted('projects', projects.map(project => [project.id, toStoredProject(project)])),
+    async changes => (await getBackend()).writeProjects(changes, origin),
+  );
+
+/** Adds or updates the given projects without touching the others. */
+export const putProjects = (projects: Project[], origin: AuditOrigin = 'manual') =>
+  writeChanges(
+    'projects',
+    projects.map(project => ({
+      id: project.id,
+      value: toStoredProject(project),
+      baseRevision: persistedRecords.projects.get(project.id)?.revision ?? 0,
+    })),
+    async changes => (await getBackend()).writeProjects(changes, origin),
+  );
+
+/** Revision of a record as last loaded or saved by this tab (0 = not stored). */
+export const getUserEventRevision = (id: string) => persistedRecords.userEvents.get(id)?.revision ?? 0;
+
+export const getBuiltinOverrideRevision = (id: string) => persistedRecords.builtinEventOverrides.get(id)?.revision ?? 0;
+
+/** Audit entries of one record (null = all records), oldest first. */
+export const loadAuditLog = async (recordId: string | null = null): Promise<AuditEntry[]> =>
+  normalizeAuditEntries(await (await getBackend()).readAuditLog(recordId)).sort((a, b) => a.at.localeCompare(b.at));
+
+/** Adds entries from a backup, skipping ones already in the log. */
+export const importAuditLog = async (entries: AuditEntry[]) => {
+  const existingKeys = new Set((await loadAuditLog()).map(auditEntryKey));
+  const incoming = entries
+    .filter(entry => !existingKeys.has(auditEntryKey(entry)))
+    .sort((a, b) => a.at.localeCompare(b.at));
+  if (incoming.length === 0) return;
+  try {
+    await (await getBackend()).appendAuditLog(incoming);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
+
+const toAttachmentError = (error: unknown) => {
+  if (error instanceof Error && !(error instanceof DOMException)) return error;
+  console.error('Failed to write attachments', error);
+  return new Error(
+    isQuotaError(error)
+      ? '저장 공간이 부족해 첨부 파일을 저장하지 못했습니다.'
+      : '첨부 파일을 저장하지 못했습니다. 새로고침 후 다시 시도해주세요.',
+  );
+};
+
+/** Stores files for new attachments, enforcing the per-file and total size caps. */
+export const saveAttachmentFiles = async (files: StoredAttachmentFile[]) => {
+  const tooLarge = files.find(file => file.blob.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) throw new Error(`첨부 파일은 ${formatFileSize(MAX_ATTACHMENT_BYTES)}까지 저장할 수 있습니다.`);
+  try {
+    const backend = await getBackend();
+    const existing = await backend.readAttachments();
+    const incomingIds = new Set(files.map(file => file.id));
+    const usedBytes = existing.filter(file => !incomingIds.has(file.id)).reduce((sum, file) => sum + file.blob.size, 0);
+    const addedBytes = files.reduce((sum, file) => sum + file.blob.size, 0);
+    if (usedBytes + addedBytes > MAX_TOTAL_ATTACHMENT_BYTES) {
+      throw new Error(
+        `첨부 파일 저장 공간(${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)})이 부족합니다. 사용하지 않는 첨부 파일을 삭제해주세요.`,
+      );
+    }
+    await backend.writeAttachments(files);
+  } catch (error) {
+    throw toAttachmentError(error);
+  }
+};
+
+export const loadAttachmentFile = async (id: string): Promise<Blob | null> =>
+  (await (await getBackend()).readAttachment(id))?.blob ?? null;
+
+export const loadAttachmentFiles = async (): Promise<StoredAttachmentFile[]> => (await getBackend()).readAttachments();
+
+/**
+ * Deletes files no event refers to any more. Removing an attachment only drops its metadata so
+ * undo can bring it back; the file goes once a fresh load shows nothing uses it.
+ */
+export const pruneAttachmentFiles = async (referencedIds: Set<string>) => {
+  const backend = await getBackend();
+  const orphanIds = (await backend.readAttachments()).map(file => file.id).filter(id => !referencedIds.has(id));
+  if (orphanIds.length > 0) await backend.deleteAttachments(orphanIds);
+};
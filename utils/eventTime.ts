@@ -0,0 +1,157 @@
+import { CalendarEvent } from '../types';
+import { addDaysToDateKey, compareDateKeys, diffDateKeysInDays, isValidDateKey, parseDateKey } from './dateKey';
+
+// Time-of-day and multi-day spans. An event without startTime is all-day; endDate is only set
+// when the event runs past its first day, and endTime (if any) falls on that last day.
+
+export type EventTiming = Pick<CalendarEvent, 'endDate' | 'startTime' | 'endTime'>;
+type TimedEvent = Pick<CalendarEvent, 'date'> & EventTiming;
+
+export const MINUTES_PER_DAY = 24 * 60;
+// Length assumed for a timed event that has no end time.
+export const DEFAULT_EVENT_DURATION_MINUTES = 60;
+
+export const isTimeLike = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+export const timeToMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export const minutesToTime = (minutes: number) => {
+  const clamped = Math.min(Math.max(Math.round(minutes), 0), MINUTES_PER_DAY - 1);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(clamped / 60))}:${pad(clamped % 60)}`;
+};
+
+/** Keeps the timing fields that are valid for an event starting on `date`. */
+export const normalizeEventTiming = (date: string, value: Record<string, unknown>): EventTiming => {
+  const timing: EventTiming = {};
+  if (isValidDateKey(value.endDate) && compareDateKeys(value.endDate, date) > 0) timing.endDate = value.endDate;
+  if (isTimeLike(value.startTime)) {
+    timing.startTime = value.startTime;
+    const { endTime } = value;
+    if (isTimeLike(endTime) && (timing.endDate || timeToMinutes(endTime) > timeToMinutes(value.startTime))) {
+      timing.endTime = endTime;
+    }
+  }
+  return timing;
+};
+
+export const getEventEndDate = (event: TimedEvent) => event.endDate ?? event.date;
+
+export const isMultiDayEvent = (event: TimedEvent) =>
+  Boolean(event.endDate) && compareDateKeys(getEventEndDate(event), event.date) > 0;
+
+/** Number of days the event covers (1 for single-day events). */
+export const getEventSpanDays = (event: TimedEvent) => diffDateKeysInDays(event.date, getEventEndDate(event)) + 1;
+
+export const eventCoversDate = (event: TimedEvent, dateKey: string) =>
+  compareDateKeys(dateKey, event.date) >= 0 && compareDateKeys(dateKey, getEventEndDate(event)) <= 0;
+
+export const eventOverlapsRange = (event: TimedEvent, start: string, end: string) =>
+  compareDateKeys(event.date, end) <= 0 && compareDateKeys(getEventEndDate(event), start) >= 0;
+
+/** Date fields after moving the event to start on `nextDate`, keeping its length. */
+export const shiftEventDates = (event: TimedEvent, nextDate: string): Pick<CalendarEvent, 'date' | 'endDate'> => ({
+  date: nextDate,
+  endDate: event.endDate ? addDaysToDateKey(event.endDate, diffDateKeysInDays(event.date, nextDate)) : undefined,
+});
+
+/**
+ * Date and time fields after dropping the event on `nextDate`. A `time` moves the start and keeps
+ * the duration, null makes the event all-day and undefined keeps its times.
+ */
+export const moveEventTiming = (
+  event: TimedEvent,
+  nextDate: string,
+  time?: string | null,
+): Pick<CalendarEvent, 'date'> & EventTiming => {
+  const dates = shiftEventDates(event, nextDate);
+  if (time === undefined) return { ...dates, startTime: event.startTime, endTime: event.endTime };
+  if (time === null) return dates;
+  const range = getTimedRange(event);
+  if (!range || !event.endTime) return { ...dates, startTime: time, endTime: range ? undefined : event.endTime };
+  return { ...dates, startTime: time, endTime: minutesToTime(timeToMinutes(time) + range.end - range.start) };
+};
+
+export const isSameEventTiming = (a: TimedEvent, b: TimedEvent) =>
+  a.date === b.date && a.endDate === b.endDate && a.startTime === b.startTime && a.endTime === b.endTime;
+
+/**
+ * Start/end minutes of a single-day timed event, for the hourly axis. All-day and multi-day
+ * events return null.
+ */
+export const getTimedRange = (event: TimedEvent): { start: number; end: number } | null => {
+  if (!event.startTime || isMultiDayEvent(event)) return null;
+  const start = timeToMinutes(event.startTime);
+  const end = event.endTime ? timeToMinutes(event.endTime) : start + DEFAULT_EVENT_DURATION_MINUTES;
+  return { start, end: Math.min(Math.max(end, start + 15), MINUTES_PER_DAY) };
+};
+
+const formatShortDate = (dateKey: string) => {
+  const date = parseDateKey(dateKey);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+/** "15:00", "15:00~16:30", "3/2~3/4", "3/2 09:00~3/4 12:00"; empty for single-day all-day events. */
+export const formatEventTiming = (event: TimedEvent) => {
+  const { startTime, endTime } = event;
+  if (!isMultiDayEvent(event)) {
+    if (!startTime) return '';
+    return endTime ? `${startTime}~${endTime}` : startTime;
+  }
+  const start = [formatShortDate(event.date), startTime].filter(Boolean).join(' ');
+  const end = [formatShortDate(getEventEndDate(event)), endTime].filter(Boolean).join(' ');
+  return `${start}~${end}`;
+};
+
+/** Orders events on the same day: multi-day first, then all-day, then by start time. */
+export const compareEventTiming = (a: TimedEvent, b: TimedEvent) => {
+  const spanDiff = getEventSpanDays(b) - getEventSpanDays(a);
+  if (spanDiff !== 0) return spanDiff;
+  if (!a.startTime || !b.startTime) return a.startTime ? 1 : b.startTime ? -1 : 0;
+  return timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+};
+
+/**
+ * Stacks the bars of events overlapping [rangeStart, rangeEnd] into lanes, so a bar keeps the
+ * same lane on every day it covers within the range.
+ */
+export const assignSpanLanes = (events: Array<TimedEvent & { id: string }>, rangeStart: string, rangeEnd: string) => {
+  const startInRange = (event: TimedEvent) => (compareDateKeys(event.date, rangeStart) < 0 ? rangeStart : event.date);
+  const sorted = events
+    .filter(event => eventOverlapsRange(event, rangeStart, rangeEnd))
+    .sort((a, b) => compareDateKeys(startInRange(a), startInRange(b)) || compareEventTiming(a, b));
+  const laneEnds: string[] = [];
+  const lanes = new Map<string, number>();
+  for (const event of sorted) {
+    const start = startInRange(event);
+    let lane = laneEnds.findIndex(end => compareDateKeys(end, start) < 0);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = getEventEndDate(event);
+    lanes.set(event.id, lane);
+  }
+  return lanes;
+};
+
+/** Side-by-side columns for the overlapping timed events of one day. */
+export const assignTimedColumns = (items: Array<{ id: string; start: number; end: number }>) => {
+  const sorted = [...items].sort((a, b) => a.start - b.start || b.end - a.end);
+  const layout = new Map<string, { column: number; columns: number }>();
+  let cluster: string[] = [];
+  let columnEnds: number[] = [];
+  const closeCluster = () => {
+    for (const id of cluster) layout.set(id, { column: layout.get(id)?.column ?? 0, columns: columnEnds.length });
+    cluster = [];
+    columnEnds = [];
+  };
+  for (const item of sorted) {
+    if (cluster.length > 0 && item.start >= Math.max(...columnEnds)) closeCluster();
+    let column = columnEnds.findIndex(end => end <= item.start);
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = item.end;
+    cluster.push(item.id);
+    layout.set(item.id, { column, columns: 1 });
+  }
+  closeCluster();
+  return layout;
+};
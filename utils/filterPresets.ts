@@ -0,0 +1,86 @@
+import { CALENDAR_EVENT_SOURCES, EventCategory, FILTER_PRESETS_STORAGE_KEY, FilterPreset } from '../types';
+import { writeSyncedStorage } from './tabSync';
+
+// Named filter presets, stored per browser. The header switches between them; a view link carries
+// the preset's name along with its filter values.
+
+export type FilterValues = Omit<FilterPreset, 'id' | 'name'>;
+
+export const MAX_FILTER_PRESETS = 20;
+export const MAX_FILTER_PRESET_NAME_LENGTH = 20;
+const MAX_SEARCH_QUERY_LENGTH = 100;
+
+export const DEFAULT_FILTER_VALUES: FilterValues = {
+  hiddenCategories: [],
+  sources: [...CALENDAR_EVENT_SOURCES],
+  showHidden: false,
+  openOnly: false,
+  searchQuery: '',
+};
+
+export const normalizeFilterPresetName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name && name.length <= MAX_FILTER_PRESET_NAME_LENGTH ? name : null;
+};
+
+export const normalizeFilterValues = (value: Record<string, unknown>): FilterValues => ({
+  hiddenCategories: Array.isArray(value.hiddenCategories)
+    ? [...new Set(value.hiddenCategories.filter((c): c is EventCategory => typeof c === 'string' && c.length > 0))]
+    : [],
+  sources: Array.isArray(value.sources)
+    ? CALENDAR_EVENT_SOURCES.filter(source => (value.sources as unknown[]).includes(source))
+    : [...CALENDAR_EVENT_SOURCES],
+  showHidden: value.showHidden === true,
+  openOnly: value.openOnly === true,
+  searchQuery: typeof value.searchQuery === 'string' ? value.searchQuery.slice(0, MAX_SEARCH_QUERY_LENGTH) : '',
+});
+
+/** Drops malformed entries and later duplicates of an id or name. */
+export const normalizeFilterPresets = (value: unknown): FilterPreset[] => {
+  if (!Array.isArray(value)) return [];
+  const presets: FilterPreset[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) continue;
+    const candidate = raw as Record<string, unknown>;
+    const name = normalizeFilterPresetName(candidate.name);
+    if (typeof candidate.id !== 'string' || !candidate.id || !name) continue;
+    if (presets.some(preset => preset.id === candidate.id || preset.name === name)) continue;
+    presets.push({ id: candidate.id, name, ...normalizeFilterValues(candidate) });
+    if (presets.length >= MAX_FILTER_PRESETS) break;
+  }
+  return presets;
+};
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  try {
+    return normalizeFilterPresets(JSON.parse(localStorage.getItem(FILTER_PRESETS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return [];
+  }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+  try {
+    writeSyncedStorage(FILTER_PRESETS_STORAGE_KEY, presets.length > 0 ? JSON.stringify(presets) : null);
+  } catch {
+    // ignore storage errors (e.g., private mode / quota)
+  }
+};
+
+export const toFilterValues = ({ hiddenCategories, sources, showHidden, openOnly, searchQuery }: FilterPreset): FilterValues => ({
+  hiddenCategories,
+  sources,
+  showHidden,
+  openOnly,
+  searchQuery,
+});
+
+const sameMembers = <T>(a: T[], b: T[]) => a.length === b.length && a.every(item => b.includes(item));
+
+export const isSameFilterValues = (a: FilterValues, b: FilterValues) =>
+  sameMembers(a.hiddenCategories, b.hiddenCategories) &&
+  sameMembers(a.sources, b.sources) &&
+  a.showHidden === b.showHidden &&
+  a.openOnly === b.openOnly &&
+  a.searchQuery.trim() === b.searchQuery.trim();
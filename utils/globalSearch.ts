@@ -0,0 +1,114 @@
+import { CalendarEvent, CalendarEventSource, CategorySettings, UserCalendarEvent } from '../types';
+import { withResolvedCategory } from './categories';
+import { compareDateKeys } from './dateKey';
+import { getEventSearchTexts } from './eventNotes';
+import { compareEventTiming } from './eventTime';
+import { findKoreanMatch } from './koreanSearch';
+import { expandRecurringEvent } from './recurrence';
+
+// Search across every year for the Ctrl+K palette: builtin items (with the user's overrides), user
+// events and the cached AI report text.
+
+export type SearchOrigin = 'builtin' | CalendarEventSource;
+
+export const SEARCH_ORIGINS: SearchOrigin[] = ['builtin', 'manual', 'ai'];
+
+export const SEARCH_ORIGIN_LABELS: Record<SearchOrigin, string> = {
+  builtin: '기본 일정',
+  manual: '사용자 입력',
+  ai: 'AI 입력',
+};
+
+export const MAX_SEARCH_RESULTS = 200;
+
+const SNIPPET_RADIUS = 30;
+
+export type SearchMatchField = 'title' | 'details' | 'report';
+
+export type SearchResult = {
+  event: CalendarEvent;
+  field: SearchMatchField;
+  // Text around the match, for matches outside the title.
+  snippet?: string;
+};
+
+export type SearchResultMonth = {
+  key: string; // YYYY-MM
+  results: SearchResult[];
+};
+
+export const getSearchOrigin = (event: CalendarEvent): SearchOrigin => (event.kind === 'builtin' ? 'builtin' : event.source);
+
+/**
+ * Everything the palette can find. A recurring series is represented by a single occurrence: the
+ * next one from `todayKey`, or the last one when the series has ended.
+ */
+export const buildSearchableEvents = (
+  builtinEvents: CalendarEvent[],
+  userEvents: UserCalendarEvent[],
+  settings: CategorySettings,
+  todayKey: string,
+  endDateKey: string,
+): CalendarEvent[] => [
+  ...builtinEvents,
+  ...userEvents.flatMap((ev): CalendarEvent[] => {
+    const resolved = withResolvedCategory(ev, settings);
+    if (!resolved.recurrence) return [resolved];
+    const [next] = expandRecurringEvent(resolved, compareDateKeys(todayKey, resolved.date) > 0 ? todayKey : resolved.date, endDateKey);
+    if (next) return [next];
+    const past = expandRecurringEvent(resolved, resolved.date, todayKey);
+    return past.length > 0 ? [past[past.length - 1]] : [];
+  }),
+];
+
+const buildSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/[*#`>]/g, '').replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+};
+
+const matchEvent = (event: CalendarEvent, query: string, report: string | undefined): SearchResult | null => {
+  if (findKoreanMatch(event.title, query) !== -1) return { event, field: 'title' };
+  const length = query.trim().length;
+  for (const text of getEventSearchTexts(event).slice(1)) {
+    const index = findKoreanMatch(text, query);
+    if (index !== -1) return { event, field: 'details', snippet: buildSnippet(text, index, length) };
+  }
+  if (report) {
+    const index = findKoreanMatch(report, query);
+    if (index !== -1) return { event, field: 'report', snippet: buildSnippet(report, index, length) };
+  }
+  return null;
+};
+
+/** Matches ordered by date, title matches first within a day; at most MAX_SEARCH_RESULTS plus the total. */
+export const searchEvents = (
+  events: CalendarEvent[],
+  reports: Record<string, string>,
+  query: string,
+): { results: SearchResult[]; total: number } => {
+  if (!query.trim()) return { results: [], total: 0 };
+  const fieldRank: Record<SearchMatchField, number> = { title: 0, details: 1, report: 2 };
+  const matches = events
+    .flatMap(event => matchEvent(event, query, reports[event.id]) ?? [])
+    .sort(
+      (a, b) =>
+        compareDateKeys(a.event.date, b.event.date) ||
+        fieldRank[a.field] - fieldRank[b.field] ||
+        compareEventTiming(a.event, b.event) ||
+        a.event.title.localeCompare(b.event.title, 'ko'),
+    );
+  return { results: matches.slice(0, MAX_SEARCH_RESULTS), total: matches.length };
+};
+
+export const groupSearchResultsByMonth = (results: SearchResult[]): SearchResultMonth[] => {
+  const months: SearchResultMonth[] = [];
+  for (const result of results) {
+    const key = result.event.date.slice(0, 7);
+    const last = months[months.length - 1];
+    if (last?.key === key) last.results.push(result);
+    else months.push({ key, results: [result] });
+  }
+  return months;
+};
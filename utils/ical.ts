@@ -0,0 +1,506 @@
+import { CalendarEvent, RecurrenceRule } from '../types';
+import { addDaysToDateKey, compareDateKeys, formatDateKey, isValidDateKey, parseDateKey } from './dateKey';
+import { EventTiming, getEventEndDate, getTimedRange, minutesToTime, normalizeEventTiming, shiftEventDates } from './eventTime';
+
+// RFC 5545 (iCalendar) export/import. All-day events are written as DATE values and timed ones as
+// floating (local) DATE-TIME values; UTC times are converted to local time on import.
+
+const PRODID = '-//SmartCalendar//School Admin Calendar//KO';
+const UID_DOMAIN = 'smartcalendar';
+const MAX_LINE_OCTETS = 75;
+
+const RRULE_FREQUENCIES = { daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY', yearly: 'YEARLY' } as const;
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Month-end clamping ("매월 31일" falls on the 30th in April) has no direct RRULE form, so
+// BYMONTHDAY=28..N;BYSETPOS=-1 is used for days after the 28th.
+const ALWAYS_PRESENT_MONTH_DAY = 28;
+
+export type ICalExportItem = {
+  event: CalendarEvent;
+  description?: string;
+};
+
+export type ICalImportedEvent = EventTiming & {
+  uid?: string;
+  date: string;
+  title: string;
+  categories: string[];
+  recurrence?: RecurrenceRule;
+};
+
+export type ICalParseResult = {
+  events: ICalImportedEvent[];
+  // VEVENTs without a usable date or title.
+  skippedCount: number;
+  // Recurring events whose RRULE could not be mapped; only their first date is imported.
+  unsupportedRecurrenceCount: number;
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Folds at 75 octets without splitting a UTF-8 sequence (Korean text is 3 octets per character).
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const ch of line) {
+    const octets = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += ch;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const toICalDateTime = (dateKey: string, time: string) => `${toICalDate(dateKey)}T${time.replace(':', '')}00`;
+
+// DTEND is exclusive: the day after the last day for all-day events, the end time otherwise.
+const buildTimingLines = (event: { date: string } & EventTiming) => {
+  if (!event.startTime) {
+    return [
+      `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(addDaysToDateKey(getEventEndDate(event), 1))}`,
+    ];
+  }
+  const range = getTimedRange(event);
+  const endTime = event.endTime ?? (range ? minutesToTime(range.end) : '23:59');
+  return [
+    `DTSTART:${toICalDateTime(event.date, event.startTime)}`,
+    `DTEND:${toICalDateTime(getEventEndDate(event), endTime)}`,
+  ];
+};
+
+const toICalTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildUid = (id: string) => `${id}@${UID_DOMAIN}`;
+
+const monthDayParts = (day: number) =>
+  day > ALWAYS_PRESENT_MONTH_DAY
+    ? [`BYMONTHDAY=${Array.from({ length: day - ALWAYS_PRESENT_MONTH_DAY + 1 }, (_, i) => ALWAYS_PRESENT_MONTH_DAY + i).join(',')}`, 'BYSETPOS=-1']
+    : [];
+
+/** `startTime` marks a timed series, whose UNTIL has to be a DATE-TIME like its DTSTART (RFC 5545 §3.3.10). */
+export const buildRRule = (rule: RecurrenceRule, startKey: string, startTime?: string): string => {
+  const start = parseDateKey(startKey);
+  const parts = [`FREQ=${RRULE_FREQUENCIES[rule.frequency]}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+
+  if (rule.frequency === 'weekly') {
+    // Weeks start on Sunday in listOccurrenceDates, which matters once INTERVAL > 1.
+    parts.push('WKST=SU');
+    if (rule.weekdays && rule.weekdays.length > 0) parts.push(`BYDAY=${rule.weekdays.map(d => ICAL_WEEKDAYS[d]).join(',')}`);
+  } else if (rule.frequency === 'monthly') {
+    const mode = rule.monthlyMode ?? 'dayOfMonth';
+    if (mode === 'nthWeekday') parts.push(`BYDAY=${Math.ceil(start.getDate() / 7)}${ICAL_WEEKDAYS[start.getDay()]}`);
+    else if (mode === 'lastWeekday') parts.push(`BYDAY=-1${ICAL_WEEKDAYS[start.getDay()]}`);
+    else parts.push(...monthDayParts(start.getDate()));
+  } else if (rule.frequency === 'yearly' && start.getDate() > ALWAYS_PRESENT_MONTH_DAY) {
+    parts.push(`BYMONTH=${start.getMonth() + 1}`, ...monthDayParts(start.getDate()));
+  }
+
+  if (rule.until) parts.push(`UNTIL=${toICalDate(rule.until)}${startTime ? 'T235959' : ''}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+const buildVEvent = (
+  uid: string,
+  event: { date: string; title: string; category: string } & EventTiming,
+  stamp: string,
+  extraLines: string[] = [],
+  description?: string,
+) => [
+  'BEGIN:VEVENT',
+  `UID:${uid}`,
+  `DTSTAMP:${stamp}`,
+  ...buildTimingLines(event),
+  `SUMMARY:${escapeText(event.title)}`,
+  `CATEGORIES:${escapeText(event.category)}`,
+  ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+  ...extraLines,
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+/**
+ * Serializes events as an iCalendar file. Recurring user events are written once with an RRULE;
+ * removed occurrences become EXDATEs and moved/renamed ones become RECURRENCE-ID instances.
+ */
+export const buildICalendar = (items: ICalExportItem[], calendarName: string, now: Date = new Date()): string => {
+  const stamp = toICalTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const { event, description } of items) {
+    const uid = buildUid(event.id);
+    const rule = event.recurrence;
+    if (!rule) {
+      lines.push(...buildVEvent(uid, event, stamp, [], description));
+      continue;
+    }
+
+    const seriesLines = [`RRULE:${buildRRule(rule, event.date, event.startTime)}`];
+    if (rule.exceptions && rule.exceptions.length > 0) {
+      // EXDATE takes DTSTART's value type, like RECURRENCE-ID below.
+      const { startTime } = event;
+      seriesLines.push(
+        startTime
+          ? `EXDATE:${rule.exceptions.map(date => toICalDateTime(date, startTime)).join(',')}`
+          : `EXDATE;VALUE=DATE:${rule.exceptions.map(toICalDate).join(',')}`,
+      );
+    }
+    lines.push(...buildVEvent(uid, event, stamp, seriesLines, description));
+
+    for (const [occurrenceDate, override] of Object.entries(rule.overrides ?? {})) {
+      if (!override.date && !override.title && !override.category) continue;
+      if (rule.exceptions?.includes(occurrenceDate)) continue;
+      lines.push(
+        ...buildVEvent(
+          uid,
+          {
+            ...shiftEventDates(event, override.date ?? occurrenceDate),
+            startTime: event.startTime,
+            endTime: event.endTime,
+            title: override.title ?? event.title,
+            category: override.category ?? event.category,
+          },
+          stamp,
+          [
+            event.startTime
+              ? `RECURRENCE-ID:${toICalDateTime(occurrenceDate, event.startTime)}`
+              : `RECURRENCE-ID;VALUE=DATE:${toICalDate(occurrenceDate)}`,
+          ],
+        ),
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+type ICalProperty = {
+  name: string;
+  value: string;
+};
+
+const unfoldLines = (text: string) => text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+// Parameters (VALUE=DATE, TZID=...) are not needed: dates are recognised by their shape.
+const parsePropertyLine = (line: string): ICalProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex <= 0) return null;
+  const name = line.slice(0, colonIndex).split(';')[0];
+  return { name: name.toUpperCase(), value: line.slice(colonIndex + 1) };
+};
+
+// DATE or DATE-TIME -> YYYY-MM-DD and, for DATE-TIME, "HH:mm". UTC times are converted to local
+// time; floating and TZID times keep their written date and time.
+const parseICalDateTime = (value: string): { date: string; time?: string } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (utc) {
+    const local = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+    return { date: formatDateKey(local), time: minutesToTime(local.getHours() * 60 + local.getMinutes()) };
+  }
+  const dateKey = `${y}-${m}-${d}`;
+  if (!isValidDateKey(dateKey)) return null;
+  return hh ? { date: dateKey, time: `${hh}:${mm}` } : { date: dateKey };
+};
+
+const parseICalDate = (value: string): string | null => parseICalDateTime(value)?.date ?? null;
+
+// Inclusive end date and end time from DTEND, which is exclusive for all-day events.
+const parseICalEnd = (start: { date: string; time?: string }, value: string): EventTiming => {
+  const end = parseICalDateTime(value);
+  if (!end) return {};
+  if (!start.time) {
+    const lastDay = end.time ? end.date : addDaysToDateKey(end.date, -1);
+    return compareDateKeys(lastDay, start.date) > 0 ? { endDate: lastDay } : {};
+  }
+  // A timed event ending at midnight ends on the previous day.
+  const lastDay = end.time === '00:00' ? addDaysToDateKey(end.date, -1) : end.date;
+  const endTime = end.time === '00:00' ? '23:59' : end.time;
+  return normalizeEventTiming(start.date, { startTime: start.time, endDate: lastDay, endTime });
+};
+
+const parseDateList = (value: string) =>
+  value.split(',').map(parseICalDate).filter((d): d is string => d !== null);
+
+const isAlwaysPresentMonthDayRun = (monthDays: number[], day: number) =>
+  day > ALWAYS_PRESENT_MONTH_DAY &&
+  monthDays.length === day - ALWAYS_PRESENT_MONTH_DAY + 1 &&
+  monthDays.every((d, i) => d === ALWAYS_PRESENT_MONTH_DAY + i);
+
+/**
+ * Maps an RRULE onto RecurrenceRule. Returns null for rules this calendar cannot represent
+ * (e.g. BYDAY that does not match the start date, BYHOUR, several monthly days).
+ */
+export const parseRRule = (value: string, startKey: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0) parts[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).toUpperCase();
+  }
+
+  const frequency = (Object.keys(RRULE_FREQUENCIES) as Array<keyof typeof RRULE_FREQUENCIES>).find(
+    key => RRULE_FREQUENCIES[key] === parts.FREQ,
+  );
+  if (!frequency) return null;
+
+  const start = parseDateKey(startKey);
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+  if (parts.INTERVAL) {
+    const interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(interval) || interval < 1) return null;
+    rule.interval = interval;
+  }
+  if (parts.UNTIL) {
+    const until = parseICalDate(parts.UNTIL);
+    if (!until) return null;
+    rule.until = until;
+  }
+  if (parts.COUNT) {
+    const count = Number(parts.COUNT);
+    if (!Number.isInteger(count) || count < 1) return null;
+    rule.count = count;
+  }
+
+  const handled = new Set(['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST']);
+  const monthDays = parts.BYMONTHDAY?.split(',').map(Number) ?? [];
+
+  if (frequency === 'weekly' && parts.BYDAY) {
+    const weekdays = parts.BYDAY.split(',').map(code => ICAL_WEEKDAYS.indexOf(code));
+    if (weekdays.some(d => d < 0)) return null;
+    rule.weekdays = Array.from(new Set(weekdays)).sort((a, b) => a - b);
+    handled.add('BYDAY');
+  }
+
+  if (frequency === 'monthly') {
+    if (parts.BYDAY) {
+      const match = parts.BYDAY.match(/^([+-]?\d)([A-Z]{2})$/);
+      if (!match || ICAL_WEEKDAYS.indexOf(match[2]) !== start.getDay()) return null;
+      const ordinal = Number(match[1]);
+      const isLastOfMonth = start.getDate() + 7 > new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+      if (ordinal === -1 && isLastOfMonth) rule.monthlyMode = 'lastWeekday';
+      else if (ordinal === Math.ceil(start.getDate() / 7)) rule.monthlyMode = 'nthWeekday';
+      else return null;
+      handled.add('BYDAY');
+    } else if (parts.BYMONTHDAY) {
+      const matchesStart =
+        (monthDays.length === 1 && monthDays[0] === start.getDate()) ||
+        (isAlwaysPresentMonthDayRun(monthDays, start.getDate()) && parts.BYSETPOS === '-1');
+      if (!matchesStart) return null;
+      handled.add('BYMONTHDAY').add('BYSETPOS');
+    }
+  }
+
+  if (frequency === 'yearly') {
+    if (parts.BYMONTH) {
+      if (Number(parts.BYMONTH) !== start.getMonth() + 1) return null;
+      handled.add('BYMONTH');
+    }
+    if (parts.BYMONTHDAY) {
+      const matchesStart =
+        (monthDays.length === 1 && monthDays[0] === start.getDate()) ||
+        (isAlwaysPresentMonthDayRun(monthDays, start.getDate()) && parts.BYSETPOS === '-1');
+      if (!matchesStart) return null;
+      handled.add('BYMONTHDAY').add('BYSETPOS');
+    }
+  }
+
+  return Object.keys(parts).every(key => handled.has(key)) ? rule : null;
+};
+
+type RawVEvent = {
+  uid?: string;
+  date?: string;
+  startTime?: string;
+  dtend?: string;
+  title?: string;
+  categories: string[];
+  rrule?: string;
+  exdates: string[];
+  recurrenceId?: string;
+  cancelled: boolean;
+};
+
+const readTiming = (raw: RawVEvent): EventTiming => {
+  if (!raw.date) return {};
+  const start = { date: raw.date, time: raw.startTime };
+  const timing = raw.dtend ? parseICalEnd(start, raw.dtend) : {};
+  return raw.startTime ? { ...timing, startTime: raw.startTime } : timing;
+};
+
+/**
+ * Parses the VEVENTs of an iCalendar file. RECURRENCE-ID instances are folded into their series
+ * as overrides (or exceptions when cancelled); instances without a series become plain events.
+ */
+export const parseICalendar = (text: string): ICalParseResult => {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('iCalendar(.ics) 파일이 아닙니다.');
+  }
+
+  const rawEvents: RawVEvent[] = [];
+  let current: RawVEvent | null = null;
+  // Nested components (VALARM) carry their own DESCRIPTION/SUMMARY, which must not leak into the event.
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parsePropertyLine(line.trim());
+    if (!property) continue;
+    const { name, value } = property;
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT') current = { categories: [], exdates: [], cancelled: false };
+      else if (current) nestedDepth++;
+      continue;
+    }
+    if (name === 'END') {
+      if (value.toUpperCase() === 'VEVENT' && current) {
+        rawEvents.push(current);
+        current = null;
+        nestedDepth = 0;
+      } else if (current && nestedDepth > 0) {
+        nestedDepth--;
+      }
+      continue;
+    }
+    if (!current || nestedDepth > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'DTSTART': {
+        const start = parseICalDateTime(value);
+        current.date = start?.date;
+        current.startTime = start?.time;
+        break;
+      }
+      case 'DTEND':
+        current.dtend = value;
+        break;
+      case 'SUMMARY':
+        current.title = unescapeText(value).replace(/\s+/g, ' ').trim();
+        break;
+      case 'CATEGORIES':
+        current.categories.push(
+          ...value.split(/(?<!\\),/).map(c => unescapeText(c).trim()).filter(Boolean),
+        );
+        break;
+      case 'RRULE':
+        current.rrule = value.trim();
+        break;
+      case 'EXDATE':
+        current.exdates.push(...parseDateList(value));
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseICalDate(value) ?? undefined;
+        break;
+      case 'STATUS':
+        current.cancelled = value.trim().toUpperCase() === 'CANCELLED';
+        break;
+    }
+  }
+
+  const events: ICalImportedEvent[] = [];
+  const seriesByUid = new Map<string, ICalImportedEvent>();
+  const instances: RawVEvent[] = [];
+  let skippedCount = 0;
+  let unsupportedRecurrenceCount = 0;
+
+  for (const raw of rawEvents) {
+    if (!raw.date || !raw.title) {
+      skippedCount++;
+      continue;
+    }
+    if (raw.recurrenceId) {
+      instances.push(raw);
+      continue;
+    }
+    if (raw.cancelled) continue;
+
+    const imported: ICalImportedEvent = {
+      uid: raw.uid,
+      date: raw.date,
+      ...readTiming(raw),
+      title: raw.title,
+      categories: raw.categories,
+    };
+    if (raw.rrule) {
+      const recurrence = parseRRule(raw.rrule, raw.date);
+      if (recurrence) {
+        const exceptions = Array.from(new Set(raw.exdates)).sort();
+        if (exceptions.length > 0) recurrence.exceptions = exceptions;
+        imported.recurrence = recurrence;
+        if (raw.uid) seriesByUid.set(raw.uid, imported);
+      } else {
+        unsupportedRecurrenceCount++;
+      }
+    }
+    events.push(imported);
+  }
+
+  for (const raw of instances) {
+    const occurrenceDate = raw.recurrenceId as string;
+    const series = raw.uid ? seriesByUid.get(raw.uid) : undefined;
+    const recurrence = series?.recurrence;
+    if (!series || !recurrence) {
+      if (!raw.cancelled) {
+        events.push({
+          uid: raw.uid,
+          date: raw.date as string,
+          ...readTiming(raw),
+          title: raw.title as string,
+          categories: raw.categories,
+        });
+      }
+      continue;
+    }
+    if (raw.cancelled) {
+      recurrence.exceptions = Array.from(new Set([...(recurrence.exceptions ?? []), occurrenceDate])).sort();
+      continue;
+    }
+    const override = {
+      ...(raw.date !== occurrenceDate ? { date: raw.date } : {}),
+      ...(raw.title !== series.title ? { title: raw.title } : {}),
+    };
+    if (Object.keys(override).length > 0) {
+      recurrence.overrides = { ...recurrence.overrides, [occurrenceDate]: override };
+    }
+  }
+
+  return { events, skippedCount, unsupportedRecurrenceCount };
+};
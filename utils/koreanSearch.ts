@@ -0,0 +1,31 @@
+// Case-insensitive substring search where a Hangul initial consonant in the query (초성, e.g.
+// "ㅅㅁ") also matches any syllable starting with it ("석면").
+
+const HANGUL_SYLLABLE_START = 0xac00;
+const HANGUL_SYLLABLE_END = 0xd7a3;
+const SYLLABLES_PER_INITIAL = 21 * 28;
+const INITIAL_CONSONANTS = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+
+const getInitialConsonant = (char: string) => {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_SYLLABLE_START || code > HANGUL_SYLLABLE_END) return null;
+  return INITIAL_CONSONANTS[Math.floor((code - HANGUL_SYLLABLE_START) / SYLLABLES_PER_INITIAL)];
+};
+
+const matchesChar = (queryChar: string, textChar: string) =>
+  queryChar === textChar || (INITIAL_CONSONANTS.includes(queryChar) && getInitialConsonant(textChar) === queryChar);
+
+/** Index of the first match of `query` in `text`, or -1. An empty query matches at 0. */
+export const findKoreanMatch = (text: string, query: string): number => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    let offset = 0;
+    while (offset < needle.length && matchesChar(needle[offset], haystack[start + offset])) offset++;
+    if (offset === needle.length) return start;
+  }
+  return -1;
+};
+
+export const matchesKoreanQuery = (text: string, query: string) => findKoreanMatch(text, query) !== -1;
@@ -0,0 +1,72 @@
+import { CalendarEvent, Project } from '../types';
+import { compareDateKeys, isValidDateKey } from './dateKey';
+import { compareEventTiming } from './eventTime';
+
+// Projects group related user events (AI proposals, multi-step 계약·지출 work). Events point at a
+// project by id; deleting a project only unlinks its events.
+
+export const MAX_PROJECT_NAME_LENGTH = 40;
+const MAX_PROJECT_TEXT_LENGTH = 60;
+
+export type ProjectFields = Omit<Project, 'id'>;
+
+export type ProjectProgress = {
+  done: number;
+  total: number;
+  percent: number;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const normalizeText = (value: unknown, maxLength: number) =>
+  typeof value === 'string' ? value.trim().replace(/\s+/g, ' ').slice(0, maxLength) : '';
+
+/** Keeps the valid fields; the execution window is dropped unless both ends are set in order. */
+export const normalizeProjectFields = (value: Record<string, unknown>): ProjectFields | null => {
+  const name = normalizeText(value.name, MAX_PROJECT_NAME_LENGTH);
+  if (!name) return null;
+  const owner = normalizeText(value.owner, MAX_PROJECT_TEXT_LENGTH);
+  const budgetLine = normalizeText(value.budgetLine, MAX_PROJECT_TEXT_LENGTH);
+  const { deadline, executionStart, executionEnd } = value;
+  const hasExecutionWindow =
+    isValidDateKey(executionStart) && isValidDateKey(executionEnd) && compareDateKeys(executionStart, executionEnd) <= 0;
+  return {
+    name,
+    ...(owner ? { owner } : {}),
+    ...(isValidDateKey(deadline) ? { deadline } : {}),
+    ...(hasExecutionWindow ? { executionStart, executionEnd } : {}),
+    ...(budgetLine ? { budgetLine } : {}),
+  };
+};
+
+export const normalizeProject = (value: unknown): Project | null => {
+  if (!isPlainObject(value) || typeof value.id !== 'string' || !value.id) return null;
+  const fields = normalizeProjectFields(value);
+  return fields ? { id: value.id, ...fields } : null;
+};
+
+/** Same-named projects are told apart in pickers by their deadline. */
+export const describeProject = (project: Project) =>
+  project.deadline ? `${project.name} (~${project.deadline})` : project.name;
+
+export const sortProjects = (projects: Project[]) =>
+  [...projects].sort(
+    (a, b) =>
+      (a.deadline && b.deadline ? compareDateKeys(a.deadline, b.deadline) : a.deadline ? -1 : b.deadline ? 1 : 0) ||
+      a.name.localeCompare(b.name, 'ko'),
+  );
+
+/** Events of the project in the order they happen. */
+export const getProjectTasks = <T extends Pick<CalendarEvent, 'date' | 'endDate' | 'startTime' | 'projectId'>>(
+  projectId: string,
+  events: T[],
+): T[] =>
+  events
+    .filter(event => event.projectId === projectId)
+    .sort((a, b) => compareDateKeys(a.date, b.date) || compareEventTiming(a, b));
+
+export const getProjectProgress = (tasks: Array<Pick<CalendarEvent, 'status'>>): ProjectProgress => {
+  const done = tasks.filter(task => task.status === 'done').length;
+  return { done, total: tasks.length, percent: tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0 };
+};
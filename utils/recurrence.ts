@@ -0,0 +1,450 @@
+import {
+  CalendarEvent,
+  ChecklistItem,
+  EventCategory,
+  EventStatus,
+  MonthlyRecurrenceMode,
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+  RecurrenceOccurrenceOverride,
+  RecurrenceRule,
+  UserCalendarEvent,
+} from '../types';
+import {
+  addDaysToDateKey,
+  compareDateKeys,
+  daysInMonth,
+  diffDateKeysInDays,
+  formatDateKey,
+  isValidDateKey,
+  parseDateKey,
+} from './dateKey';
+import { normalizeCategoryName } from './categories';
+import { normalizeChecklist, normalizeEventStatus } from './eventProgress';
+import { shiftEventDates } from './eventTime';
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export type RecurrenceOccurrenceChange = {
+  date?: string;
+  title?: string;
+  category?: EventCategory;
+};
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+const MAX_RECURRENCE_INTERVAL = 99;
+// Guards against runaway loops for malformed rules (e.g. a 5th-weekday rule that rarely matches).
+const MAX_RECURRENCE_ITERATIONS = 20000;
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+const NTH_LABELS = ['첫째', '둘째', '셋째', '넷째', '다섯째'];
+
+export const buildOccurrenceId = (seriesId: string, occurrenceDate: string) =>
+  `${seriesId}${OCCURRENCE_ID_SEPARATOR}${occurrenceDate}`;
+
+export const parseOccurrenceId = (eventId: string): { seriesId: string; occurrenceDate: string } | null => {
+  const idx = eventId.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (idx <= 0) return null;
+  const occurrenceDate = eventId.slice(idx + OCCURRENCE_ID_SEPARATOR.length);
+  if (!isValidDateKey(occurrenceDate)) return null;
+  return { seriesId: eventId.slice(0, idx), occurrenceDate };
+};
+
+const isRecurrenceFrequency = (value: unknown): value is RecurrenceFrequency =>
+  typeof value === 'string' && RECURRENCE_FREQUENCIES.includes(value as RecurrenceFrequency);
+
+const isMonthlyRecurrenceMode = (value: unknown): value is MonthlyRecurrenceMode =>
+  value === 'dayOfMonth' || value === 'nthWeekday' || value === 'lastWeekday';
+
+const isEmptyOccurrenceOverride = (override: RecurrenceOccurrenceOverride) =>
+  !override.date && !override.title && !override.category && !override.status && !override.checklist;
+
+const normalizeOccurrenceOverride = (value: unknown): RecurrenceOccurrenceOverride | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const candidate = value as Record<string, unknown>;
+  const next: RecurrenceOccurrenceOverride = {};
+  if (isValidDateKey(candidate.date)) next.date = candidate.date;
+  if (typeof candidate.title === 'string' && candidate.title.trim()) next.title = candidate.title.trim();
+  const category = normalizeCategoryName(candidate.category);
+  if (category) next.category = category;
+  const status = normalizeEventStatus(candidate.status);
+  if (status) next.status = status;
+  const checklist = normalizeChecklist(candidate.checklist);
+  if (checklist) next.checklist = checklist;
+  return isEmptyOccurrenceOverride(next) ? null : next;
+};
+
+export const normalizeRecurrenceRule = (value: unknown): RecurrenceRule | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const candidate = value as Record<string, unknown>;
+  if (!isRecurrenceFrequency(candidate.frequency)) return undefined;
+
+  const intervalRaw = typeof candidate.interval === 'number' ? Math.trunc(candidate.interval) : 1;
+  const rule: RecurrenceRule = {
+    frequency: candidate.frequency,
+    interval: Math.min(MAX_RECURRENCE_INTERVAL, Math.max(1, Number.isFinite(intervalRaw) ? intervalRaw : 1)),
+  };
+
+  if (rule.frequency === 'weekly' && Array.isArray(candidate.weekdays)) {
+    const weekdays = Array.from(
+      new Set(candidate.weekdays.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6)),
+    ).sort((a, b) => a - b);
+    if (weekdays.length > 0) rule.weekdays = weekdays;
+  }
+
+  if (rule.frequency === 'monthly' && isMonthlyRecurrenceMode(candidate.monthlyMode)) {
+    rule.monthlyMode = candidate.monthlyMode;
+  }
+
+  if (isValidDateKey(candidate.until)) rule.until = candidate.until;
+  if (typeof candidate.count === 'number' && Number.isInteger(candidate.count) && candidate.count > 0) {
+    rule.count = candidate.count;
+  }
+
+  if (Array.isArray(candidate.exceptions)) {
+    const exceptions = Array.from(new Set(candidate.exceptions.filter(isValidDateKey))).sort(compareDateKeys);
+    if (exceptions.length > 0) rule.exceptions = exceptions;
+  }
+
+  if (candidate.overrides && typeof candidate.overrides === 'object' && !Array.isArray(candidate.overrides)) {
+    const overrides: Record<string, RecurrenceOccurrenceOverride> = {};
+    for (const [key, raw] of Object.entries(candidate.overrides as Record<string, unknown>)) {
+      if (!isValidDateKey(key)) continue;
+      const override = normalizeOccurrenceOverride(raw);
+      if (override) overrides[key] = override;
+    }
+    if (Object.keys(overrides).length > 0) rule.overrides = overrides;
+  }
+
+  return rule;
+};
+
+const resolveMonthlyDay = (
+  year: number,
+  monthIndex: number,
+  start: Date,
+  mode: MonthlyRecurrenceMode,
+): number | null => {
+  const lastDay = daysInMonth(year, monthIndex);
+  if (mode === 'dayOfMonth') return Math.min(start.getDate(), lastDay);
+
+  const weekday = start.getDay();
+  if (mode === 'lastWeekday') {
+    const lastWeekday = new Date(year, monthIndex, lastDay).getDay();
+    return lastDay - ((lastWeekday - weekday + 7) % 7);
+  }
+
+  const nth = Math.ceil(start.getDate() / 7);
+  const firstWeekday = new Date(year, monthIndex, 1).getDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  return day <= lastDay ? day : null;
+};
+
+/**
+ * Returns the original (un-overridden) occurrence dates of a series, in order, up to `endKey`.
+ * `until` and `count` are honoured; exceptions are not removed here.
+ */
+export const listOccurrenceDates = (startKey: string, rule: RecurrenceRule, endKey: string): string[] => {
+  if (!isValidDateKey(startKey)) return [];
+  const limitKey = rule.until && compareDateKeys(rule.until, endKey) < 0 ? rule.until : endKey;
+  if (compareDateKeys(limitKey, startKey) < 0) return [];
+
+  const start = parseDateKey(startKey);
+  const interval = Math.max(1, rule.interval || 1);
+  const maxCount = rule.count ?? Number.POSITIVE_INFINITY;
+  const dates: string[] = [];
+
+  const push = (dateKey: string): boolean => {
+    if (compareDateKeys(dateKey, limitKey) > 0) return false;
+    dates.push(dateKey);
+    return dates.length < maxCount;
+  };
+
+  for (let step = 0; step < MAX_RECURRENCE_ITERATIONS; step++) {
+    if (rule.frequency === 'daily') {
+      if (!push(addDaysToDateKey(startKey, step * interval))) break;
+      continue;
+    }
+
+    if (rule.frequency === 'weekly') {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+      const weekStart = addDaysToDateKey(startKey, -start.getDay() + step * interval * 7);
+      if (compareDateKeys(weekStart, limitKey) > 0) break;
+      let keepGoing = true;
+      for (const weekday of weekdays) {
+        const dateKey = addDaysToDateKey(weekStart, weekday);
+        if (compareDateKeys(dateKey, startKey) < 0) continue;
+        keepGoing = push(dateKey);
+        if (!keepGoing) break;
+      }
+      if (!keepGoing) break;
+      continue;
+    }
+
+    if (rule.frequency === 'monthly') {
+      const monthOffset = start.getMonth() + step * interval;
+      const year = start.getFullYear() + Math.floor(monthOffset / 12);
+      const monthIndex = monthOffset % 12;
+      if (compareDateKeys(formatDateKey(new Date(year, monthIndex, 1)), limitKey) > 0) break;
+      const day = resolveMonthlyDay(year, monthIndex, start, rule.monthlyMode ?? 'dayOfMonth');
+      if (day === null) continue;
+      if (!push(formatDateKey(new Date(year, monthIndex, day)))) break;
+      continue;
+    }
+
+    const year = start.getFullYear() + step * interval;
+    const day = Math.min(start.getDate(), daysInMonth(year, start.getMonth()));
+    if (!push(formatDateKey(new Date(year, start.getMonth(), day)))) break;
+  }
+
+  return dates;
+};
+
+/**
+ * Expands a recurring user event into the occurrences visible between `rangeStart` and `rangeEnd`
+ * (inclusive). Occurrences moved into the range from outside it are included as well.
+ */
+export const expandRecurringEvent = (
+  event: UserCalendarEvent,
+  rangeStart: string,
+  rangeEnd: string,
+): CalendarEvent[] => {
+  const rule = event.recurrence;
+  if (!rule) return [event];
+
+  const overrides = rule.overrides ?? {};
+  const exceptions = new Set(rule.exceptions ?? []);
+  const movedOriginals = Object.entries(overrides)
+    .filter(([, override]) => override.date)
+    .map(([originalDate]) => originalDate);
+  const scanEnd = movedOriginals.reduce((max, key) => (compareDateKeys(key, max) > 0 ? key : max), rangeEnd);
+  // Every occurrence keeps the series' length, so ones starting before the range may still reach into it.
+  const spanDays = event.endDate ? diffDateKeysInDays(event.date, event.endDate) : 0;
+
+  const occurrences: CalendarEvent[] = [];
+  for (const originalDate of listOccurrenceDates(event.date, rule, scanEnd)) {
+    if (exceptions.has(originalDate)) continue;
+    const override = overrides[originalDate];
+    const date = override?.date ?? originalDate;
+    const endDate = spanDays > 0 ? addDaysToDateKey(date, spanDays) : undefined;
+    if (compareDateKeys(endDate ?? date, rangeStart) < 0 || compareDateKeys(date, rangeEnd) > 0) continue;
+
+    occurrences.push({
+      ...event,
+      id: buildOccurrenceId(event.id, originalDate),
+      date,
+      endDate,
+      title: override?.title ?? event.title,
+      category: override?.category ?? event.category,
+      status: override?.status,
+      // The series checklist is a template: each occurrence starts with every item unticked.
+      checklist: override?.checklist ?? event.checklist?.map(item => ({ ...item, done: false })),
+      seriesId: event.id,
+      occurrenceDate: originalDate,
+    });
+  }
+  return occurrences;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule, startKey: string): string => {
+  const start = isValidDateKey(startKey) ? parseDateKey(startKey) : new Date();
+  const interval = Math.max(1, rule.interval || 1);
+  let text = '';
+
+  if (rule.frequency === 'daily') {
+    text = interval === 1 ? '매일' : `${interval}일마다`;
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+    text = `${interval === 1 ? '매주' : `${interval}주마다`} ${weekdays.map(d => WEEKDAY_LABELS[d]).join('·')}요일`;
+  } else if (rule.frequency === 'monthly') {
+    const prefix = interval === 1 ? '매월' : `${interval}개월마다`;
+    const mode = rule.monthlyMode ?? 'dayOfMonth';
+    const weekdayLabel = `${WEEKDAY_LABELS[start.getDay()]}요일`;
+    if (mode === 'nthWeekday') {
+      text = `${prefix} ${NTH_LABELS[Math.ceil(start.getDate() / 7) - 1]} ${weekdayLabel}`;
+    } else if (mode === 'lastWeekday') {
+      text = `${prefix} 마지막 ${weekdayLabel}`;
+    } else {
+      text = `${prefix} ${start.getDate()}일`;
+    }
+  } else {
+    text = `${interval === 1 ? '매년' : `${interval}년마다`} ${start.getMonth() + 1}월 ${start.getDate()}일`;
+  }
+
+  if (rule.until) text += `, ${rule.until}까지`;
+  if (rule.count) text += `, ${rule.count}회`;
+  return text;
+};
+
+const shiftWeekdays = (weekdays: number[] | undefined, deltaDays: number) =>
+  weekdays?.map(d => (((d + deltaDays) % 7) + 7) % 7).sort((a, b) => a - b);
+
+// Moving a whole series invalidates per-occurrence data keyed by the old dates, so it is dropped.
+const shiftRule = (rule: RecurrenceRule, deltaDays: number): RecurrenceRule => {
+  if (deltaDays === 0) return rule;
+  const next: RecurrenceRule = { ...rule };
+  if (next.weekdays) next.weekdays = shiftWeekdays(next.weekdays, deltaDays);
+  if (next.until) next.until = addDaysToDateKey(next.until, deltaDays);
+  delete next.exceptions;
+  delete next.overrides;
+  return next;
+};
+
+const splitPerOccurrenceData = (rule: RecurrenceRule, splitDate: string) => {
+  const before: Pick<RecurrenceRule, 'exceptions' | 'overrides'> = {};
+  const after: Pick<RecurrenceRule, 'exceptions' | 'overrides'> = {};
+
+  const exceptionsBefore = (rule.exceptions ?? []).filter(d => compareDateKeys(d, splitDate) < 0);
+  const exceptionsAfter = (rule.exceptions ?? []).filter(d => compareDateKeys(d, splitDate) >= 0);
+  if (exceptionsBefore.length > 0) before.exceptions = exceptionsBefore;
+  if (exceptionsAfter.length > 0) after.exceptions = exceptionsAfter;
+
+  for (const [key, override] of Object.entries(rule.overrides ?? {})) {
+    const target = compareDateKeys(key, splitDate) < 0 ? before : after;
+    target.overrides = { ...(target.overrides ?? {}), [key]: override };
+  }
+  return { before, after };
+};
+
+const truncateSeriesBefore = (series: UserCalendarEvent, occurrenceDate: string): UserCalendarEvent => {
+  const rule = series.recurrence as RecurrenceRule;
+  const countBefore = listOccurrenceDates(series.date, rule, addDaysToDateKey(occurrenceDate, -1)).length;
+  const { before } = splitPerOccurrenceData(rule, occurrenceDate);
+  const nextRule: RecurrenceRule = { ...rule, until: addDaysToDateKey(occurrenceDate, -1), ...before };
+  if (!before.exceptions) delete nextRule.exceptions;
+  if (!before.overrides) delete nextRule.overrides;
+  if (rule.count) nextRule.count = countBefore;
+  return { ...series, recurrence: nextRule };
+};
+
+const stripRedundantOverride = (
+  series: UserCalendarEvent,
+  originalDate: string,
+  override: RecurrenceOccurrenceOverride,
+): RecurrenceOccurrenceOverride | null => {
+  const next = { ...override };
+  if (next.date === originalDate) delete next.date;
+  if (next.title === series.title) delete next.title;
+  if (next.category === series.category) delete next.category;
+  return isEmptyOccurrenceOverride(next) ? null : next;
+};
+
+/**
+ * Applies a date/title/category change made on one occurrence to the series, using the
+ * Google-Calendar-style scopes. Returns the series that replace `series` (one or two events).
+ */
+export const applyRecurringOccurrenceChange = (
+  series: UserCalendarEvent,
+  occurrenceDate: string,
+  change: RecurrenceOccurrenceChange,
+  scope: RecurrenceEditScope,
+  createId: () => string,
+): UserCalendarEvent[] => {
+  const rule = series.recurrence;
+  if (!rule) return [series];
+
+  const currentDate = rule.overrides?.[occurrenceDate]?.date ?? occurrenceDate;
+  const deltaDays = change.date ? diffDateKeysInDays(currentDate, change.date) : 0;
+
+  if (scope === 'this') {
+    const merged = stripRedundantOverride(series, occurrenceDate, {
+      ...(rule.overrides?.[occurrenceDate] ?? {}),
+      ...change,
+    });
+    const overrides = { ...(rule.overrides ?? {}) };
+    if (merged) {
+      overrides[occurrenceDate] = merged;
+    } else {
+      delete overrides[occurrenceDate];
+    }
+    const nextRule: RecurrenceRule = { ...rule, overrides };
+    if (Object.keys(overrides).length === 0) delete nextRule.overrides;
+    return [{ ...series, recurrence: nextRule }];
+  }
+
+  const isFirstOccurrence = compareDateKeys(occurrenceDate, series.date) <= 0;
+  if (scope === 'all' || isFirstOccurrence) {
+    return [
+      {
+        ...series,
+        ...shiftEventDates(series, addDaysToDateKey(series.date, deltaDays)),
+        title: change.title ?? series.title,
+        category: change.category ?? series.category,
+        recurrence: shiftRule(rule, deltaDays),
+      },
+    ];
+  }
+
+  const head = truncateSeriesBefore(series, occurrenceDate);
+  const { after } = splitPerOccurrenceData(rule, occurrenceDate);
+  const tailRule: RecurrenceRule = { ...rule, ...after };
+  if (!after.exceptions) delete tailRule.exceptions;
+  if (!after.overrides) delete tailRule.overrides;
+  if (rule.count) tailRule.count = Math.max(1, rule.count - (head.recurrence?.count ?? 0));
+
+  const tail: UserCalendarEvent = {
+    ...series,
+    id: createId(),
+    ...shiftEventDates(series, addDaysToDateKey(occurrenceDate, deltaDays)),
+    title: change.title ?? series.title,
+    category: change.category ?? series.category,
+    recurrence: shiftRule(tailRule, deltaDays),
+  };
+  return [head, tail];
+};
+
+/** Stores status/checklist for a single occurrence; `undefined` values clear them. */
+export const updateOccurrenceProgress = (
+  series: UserCalendarEvent,
+  occurrenceDate: string,
+  progress: { status?: EventStatus; checklist?: ChecklistItem[] },
+): UserCalendarEvent => {
+  const rule = series.recurrence;
+  if (!rule) return series;
+
+  const nextOverride: RecurrenceOccurrenceOverride = { ...(rule.overrides?.[occurrenceDate] ?? {}) };
+  if ('status' in progress) {
+    const status = normalizeEventStatus(progress.status);
+    if (status) nextOverride.status = status;
+    else delete nextOverride.status;
+  }
+  if ('checklist' in progress) {
+    if (progress.checklist && progress.checklist.length > 0) nextOverride.checklist = progress.checklist;
+    else delete nextOverride.checklist;
+  }
+
+  const overrides = { ...(rule.overrides ?? {}) };
+  if (isEmptyOccurrenceOverride(nextOverride)) {
+    delete overrides[occurrenceDate];
+  } else {
+    overrides[occurrenceDate] = nextOverride;
+  }
+  const nextRule: RecurrenceRule = { ...rule, overrides };
+  if (Object.keys(overrides).length === 0) delete nextRule.overrides;
+  return { ...series, recurrence: nextRule };
+};
+
+/** Removes one occurrence, it and the following ones, or the whole series. */
+export const removeRecurringOccurrence = (
+  series: UserCalendarEvent,
+  occurrenceDate: string,
+  scope: RecurrenceEditScope,
+): UserCalendarEvent[] => {
+  const rule = series.recurrence;
+  if (!rule || scope === 'all') return [];
+
+  if (scope === 'this') {
+    const overrides = { ...(rule.overrides ?? {}) };
+    delete overrides[occurrenceDate];
+    const nextRule: RecurrenceRule = {
+      ...rule,
+      exceptions: Array.from(new Set([...(rule.exceptions ?? []), occurrenceDate])).sort(compareDateKeys),
+      overrides,
+    };
+    if (Object.keys(overrides).length === 0) delete nextRule.overrides;
+    return [{ ...series, recurrence: nextRule }];
+  }
+
+  if (compareDateKeys(occurrenceDate, series.date) <= 0) return [];
+  return [truncateSeriesBefore(series, occurrenceDate)];
+};
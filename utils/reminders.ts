@@ -0,0 +1,127 @@
+import { CalendarEvent, EventCategory, ReminderSettings, UserCalendarEvent } from '../types';
+import { normalizeCategoryName } from './categories';
+import { addDaysToDateKey, compareDateKeys, formatDateKey, isValidDateKey } from './dateKey';
+import { isOpenTask } from './eventProgress';
+import { expandRecurringEvent } from './recurrence';
+
+const MAX_LEAD_DAYS = 365;
+// Reminders fire at this local hour on the reminder day (or as soon as the tab is opened after it).
+export const REMINDER_HOUR = 9;
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  desktopNotifications: false,
+  defaultLeadDays: [],
+  categoryLeadDays: { 계약: [7, 1] },
+};
+
+export const normalizeLeadDays = (value: unknown): number[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const days = value.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= MAX_LEAD_DAYS);
+  return Array.from(new Set(days)).sort((a, b) => b - a);
+};
+
+// "7, 1" -> [7, 1]; blank -> []; null when any part is not a valid day count.
+export const parseLeadDaysInput = (text: string): number[] | null => {
+  const parts = text.split(/[,\s]+/).filter(Boolean);
+  const days: number[] = [];
+  for (const part of parts) {
+    if (!/^\d+$/.test(part)) return null;
+    const day = Number(part);
+    if (day > MAX_LEAD_DAYS) return null;
+    days.push(day);
+  }
+  return normalizeLeadDays(days) ?? [];
+};
+
+export const formatLeadDays = (days: number[] | undefined) => (days ?? []).join(', ');
+
+export const normalizeReminderSettings = (value: unknown): ReminderSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_REMINDER_SETTINGS, categoryLeadDays: { ...DEFAULT_REMINDER_SETTINGS.categoryLeadDays } };
+  }
+  const candidate = value as Record<string, unknown>;
+  const categoryLeadDays: Partial<Record<EventCategory, number[]>> = {};
+  if (candidate.categoryLeadDays && typeof candidate.categoryLeadDays === 'object') {
+    for (const [rawCategory, rawDays] of Object.entries(candidate.categoryLeadDays)) {
+      const category = normalizeCategoryName(rawCategory);
+      const days = normalizeLeadDays(rawDays);
+      if (category && days) categoryLeadDays[category] = days;
+    }
+  }
+  return {
+    enabled: candidate.enabled !== false,
+    desktopNotifications: candidate.desktopNotifications === true,
+    defaultLeadDays: normalizeLeadDays(candidate.defaultLeadDays) ?? [],
+    categoryLeadDays,
+  };
+};
+
+export const resolveLeadDays = (event: CalendarEvent, settings: ReminderSettings): number[] =>
+  event.reminderLeadDays ?? settings.categoryLeadDays[event.category] ?? settings.defaultLeadDays;
+
+export type DueReminder = {
+  // All reminder keys this notification covers (older missed lead times are folded in).
+  keys: string[];
+  event: CalendarEvent;
+  leadDays: number;
+};
+
+// Keyed by date too, so moving an event re-arms its reminders.
+export const buildReminderKey = (event: CalendarEvent, leadDays: number) => `${event.id}@${event.date}@${leadDays}`;
+
+const reminderTime = (eventDate: string, leadDays: number) => {
+  const [y, m, d] = addDaysToDateKey(eventDate, -leadDays).split('-').map(Number);
+  return new Date(y, m - 1, d, REMINDER_HOUR).getTime();
+};
+
+/**
+ * Reminders whose time has come and that were not fired yet. Missed reminders (tab closed at the
+ * time) are caught up as long as the event itself is not in the past; done events are skipped.
+ */
+export const collectDueReminders = (
+  builtinEvents: CalendarEvent[],
+  userEvents: UserCalendarEvent[],
+  settings: ReminderSettings,
+  firedKeys: ReadonlySet<string>,
+  now: Date,
+): DueReminder[] => {
+  if (!settings.enabled) return [];
+
+  const todayKey = formatDateKey(now);
+  const leadCandidates = [
+    ...settings.defaultLeadDays,
+    ...Object.values(settings.categoryLeadDays).flat(),
+    ...builtinEvents.flatMap(ev => ev.reminderLeadDays ?? []),
+    ...userEvents.flatMap(ev => ev.reminderLeadDays ?? []),
+  ] as number[];
+  const rangeEnd = addDaysToDateKey(todayKey, Math.max(0, ...leadCandidates));
+  const inRange = (ev: CalendarEvent) =>
+    isValidDateKey(ev.date) && compareDateKeys(ev.date, todayKey) >= 0 && compareDateKeys(ev.date, rangeEnd) <= 0;
+
+  const events = [
+    ...builtinEvents.filter(inRange),
+    ...userEvents.flatMap((ev): CalendarEvent[] =>
+      ev.recurrence ? expandRecurringEvent(ev, todayKey, rangeEnd) : inRange(ev) ? [ev] : [],
+    ),
+  ];
+
+  const due: DueReminder[] = [];
+  for (const event of events) {
+    if (!isOpenTask(event)) continue;
+    // Lead days are sorted descending, so the last due one is the most recent reminder.
+    const dueLeadDays = resolveLeadDays(event, settings).filter(
+      leadDays => !firedKeys.has(buildReminderKey(event, leadDays)) && reminderTime(event.date, leadDays) <= now.getTime(),
+    );
+    if (dueLeadDays.length === 0) continue;
+    due.push({
+      keys: dueLeadDays.map(leadDays => buildReminderKey(event, leadDays)),
+      event,
+      leadDays: dueLeadDays[dueLeadDays.length - 1],
+    });
+  }
+  return due.sort((a, b) => compareDateKeys(a.event.date, b.event.date));
+};
+
+export const describeReminder = ({ event, leadDays }: DueReminder) =>
+  leadDays === 0 ? `오늘: ${event.title}` : `D-${leadDays} (${event.date}): ${event.title}`;
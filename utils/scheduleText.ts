@@ -0,0 +1,236 @@
+import { DeadlineShiftRule } from './businessDays';
+import { daysInMonth } from './dateKey';
+
+// Line format of data/scheduleData.ts: 월 ; 일 ; [업무분류 ;] 일정(쉼표로 여러 개) [; @적용대상]
+
+const FIELD_SEPARATOR = '\t;\t';
+// Checked against a leap year so "2월 29일" is accepted (it is only created in leap years).
+const LEAP_YEAR = 2024;
+
+export type ScheduleLine = {
+  monthField: string;
+  dayField: string;
+  monthIdx: number; // 0-indexed, as written (placeholders resolve later)
+  day: number;
+  shiftRule: DeadlineShiftRule | null;
+  categoryField: string | null;
+  titles: string[];
+  tagsField: string;
+};
+
+export type ScheduleLineParseResult = { ok: true; line: ScheduleLine } | { ok: false; reason: string };
+
+const normalizeField = (part: string) => part.replace(/[\s\u00A0\u200B\uFEFF]+/g, ' ').trim().normalize('NFC');
+
+export const parseScheduleLine = (line: string): ScheduleLineParseResult => {
+  const parts = line.split(';').map(normalizeField).filter(part => part !== '');
+  // A trailing "@중 @고" / "@경기" field limits the line to matching school profiles.
+  const tagsField = parts.length > 3 && parts[parts.length - 1].startsWith('@') ? parts.pop() ?? '' : '';
+
+  if (parts.length < 3) {
+    return { ok: false, reason: "';'로 구분된 칸이 3개 이상이어야 합니다. (월 ; 일 ; 일정)" };
+  }
+
+  const [monthField, dayField] = parts;
+  const categoryField = parts.length >= 4 ? parts[2].replace(/[\s\u00A0\u200B\uFEFF]+/g, '').trim().normalize('NFC') : null;
+  const titlesField = parts.length >= 4 ? parts.slice(3).join(';').trim() : parts.slice(2).join(';').trim();
+
+  const monthMatch = monthField.match(/(\d+)월/);
+  // "10일>" rolls a deadline forward to the next business day, "17일<" back to the previous one.
+  const dayMatch = dayField.match(/(\d+)일\s*([<>])?/);
+  if (!monthMatch) return { ok: false, reason: `월 형식이 아닙니다: "${monthField}" (예: 3월)` };
+  if (!dayMatch) return { ok: false, reason: `일 형식이 아닙니다: "${dayField}" (예: 10일, 10일>)` };
+
+  const monthIdx = parseInt(monthMatch[1], 10) - 1;
+  const day = parseInt(dayMatch[1], 10);
+  if (monthIdx < 0 || monthIdx >= 12) return { ok: false, reason: `월은 1~12 사이여야 합니다: ${monthIdx + 1}월` };
+  if (day <= 0 || day > daysInMonth(LEAP_YEAR, monthIdx)) {
+    return { ok: false, reason: `${monthIdx + 1}월에는 ${day}일이 없습니다.` };
+  }
+
+  const titles = titlesField.split(',').map(title => title.trim()).filter(title => title);
+  if (titles.length === 0) return { ok: false, reason: '일정 내용이 비어 있습니다.' };
+
+  return {
+    ok: true,
+    line: {
+      monthField,
+      dayField,
+      monthIdx,
+      day,
+      shiftRule: dayMatch[2] === '>' ? 'forward' : dayMatch[2] === '<' ? 'backward' : null,
+      categoryField,
+      titles,
+      tagsField,
+    },
+  };
+};
+
+export type ScheduleEntry = {
+  id: string; // id of the builtin event
+  year: number;
+  line: ScheduleLine;
+  title: string;
+};
+
+const buildScheduleEventId = (year: number, line: ScheduleLine, title: string, counter: number) =>
+  `event-${year}-${line.monthIdx + 1}-${line.day}-${title.substring(0, 10).replace(/[^a-zA-Z0-9ㄱ-ㅎㅏ-ㅣ가-힣-]/g, '')}-${counter}`;
+
+/**
+ * Every title of a schedule text for each year in `startYear`..`endYear` where its date (as written)
+ * exists, with the id its builtin event gets. Ids end in a counter running through the whole text,
+ * so editing one line renumbers the ones after it; see mapScheduleEventIds.
+ */
+export const listScheduleEntries = (
+  text: string,
+  startYear: number,
+  endYear: number,
+  onInvalidLine?: (lineNumber: number, line: string, reason: string) => void,
+): ScheduleEntry[] => {
+  const entries: ScheduleEntry[] = [];
+  let counter = 1;
+  text
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .forEach((rawLine, lineIndex) => {
+      const parsed = parseScheduleLine(rawLine);
+      if (!parsed.ok) {
+        onInvalidLine?.(lineIndex + 1, rawLine, parsed.reason);
+        return;
+      }
+      const { line } = parsed;
+      for (let year = startYear; year <= endYear; year++) {
+        if (line.day > daysInMonth(year, line.monthIdx)) continue;
+        for (const title of line.titles) {
+          entries.push({ id: buildScheduleEventId(year, line, title, counter++), year, line, title });
+        }
+      }
+    });
+  return entries;
+};
+
+const scheduleEntryKey = ({ year, line, title }: ScheduleEntry) => `${year}-${line.monthIdx + 1}-${line.day}-${title}`;
+
+/**
+ * Old id → new id for the events two schedule texts share: same year, month, day and title
+ * (repeated ones pair up in order). Old ids missing from the map have no counterpart.
+ */
+export const mapScheduleEventIds = (previous: ScheduleEntry[], next: ScheduleEntry[]): Map<string, string> => {
+  const nextIdsByKey = new Map<string, string[]>();
+  for (const entry of next) {
+    const key = scheduleEntryKey(entry);
+    nextIdsByKey.set(key, [...(nextIdsByKey.get(key) ?? []), entry.id]);
+  }
+  const idMap = new Map<string, string>();
+  for (const entry of previous) {
+    const nextId = nextIdsByKey.get(scheduleEntryKey(entry))?.shift();
+    if (nextId) idMap.set(entry.id, nextId);
+  }
+  return idMap;
+};
+
+export type ScheduleRow = {
+  month: string;
+  day: string;
+  category: string;
+  title: string;
+  tags: string;
+  source: string; // 기본 / 사용자 / AI; only 기본 (or blank) rows belong in the schedule text
+};
+
+export const BUILTIN_SCHEDULE_SOURCE = '기본';
+
+export const isBuiltinScheduleRow = (row: ScheduleRow) => {
+  const source = normalizeField(row.source);
+  return source === '' || source === BUILTIN_SCHEDULE_SOURCE;
+};
+
+/** A schedule line as spreadsheet cells, keeping shift markers, placeholders and tags as written. */
+export const toScheduleRowCells = (line: ScheduleLine): string[] => [
+  line.monthField,
+  line.dayField,
+  line.categoryField ?? '',
+  line.titles.join(', '),
+  line.tagsField,
+  BUILTIN_SCHEDULE_SOURCE,
+];
+
+// Spreadsheet cells often hold bare numbers ("3", "10>"); the units are added so the line parses.
+const withUnit = (value: string, unit: '월' | '일') => {
+  const trimmed = normalizeField(value);
+  const match = trimmed.match(/^(\d+)(?:\.0+)?\s*([<>])?$/);
+  return match ? `${match[1]}${unit}${match[2] ?? ''}` : trimmed;
+};
+
+const normalizeTags = (value: string) =>
+  normalizeField(value)
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(tag => (tag.startsWith('@') ? tag : `@${tag}`))
+    .join(' ');
+
+export const formatScheduleLine = (row: ScheduleRow): string =>
+  [
+    withUnit(row.month, '월'),
+    withUnit(row.day, '일'),
+    normalizeField(row.category),
+    // ';' would start a new field; the full-width form keeps the title intact.
+    normalizeField(row.title).replace(/;/g, '；'),
+    normalizeTags(row.tags),
+  ]
+    .filter(Boolean)
+    .join(FIELD_SEPARATOR);
+
+// Spreadsheet layout shared by import and export: 월 | 일 | 업무분류 | 일정 | 적용대상 | 출처.
+export type ScheduleColumn = keyof ScheduleRow;
+
+export const SCHEDULE_COLUMNS: ScheduleColumn[] = ['month', 'day', 'category', 'title', 'tags', 'source'];
+
+export const SCHEDULE_COLUMN_LABELS: Record<ScheduleColumn, string> = {
+  month: '월',
+  day: '일',
+  category: '업무분류',
+  title: '일정',
+  tags: '적용대상',
+  source: '출처',
+};
+
+export const REQUIRED_SCHEDULE_COLUMNS: ScheduleColumn[] = ['month', 'day', 'title'];
+
+// -1 = not mapped.
+export type ScheduleColumnMapping = Record<ScheduleColumn, number>;
+
+const HEADER_KEYWORDS: Record<ScheduleColumn, { exact: string[]; partial: string[] }> = {
+  month: { exact: ['월'], partial: ['month'] },
+  day: { exact: ['일', '일자'], partial: ['day'] },
+  category: { exact: [], partial: ['업무분류', '분류', '카테고리', 'category'] },
+  title: { exact: [], partial: ['일정', '업무명', '업무내용', '내용', '제목', 'title'] },
+  tags: { exact: [], partial: ['적용대상', '대상', '태그', 'tag'] },
+  source: { exact: [], partial: ['출처', 'source'] },
+};
+
+/** Maps columns from a header row; returns null when the row does not look like a header. */
+export const detectScheduleColumns = (headerRow: string[]): ScheduleColumnMapping | null => {
+  const headers = headerRow.map(cell => cell.replace(/\s+/g, '').toLowerCase());
+  const mapping = Object.fromEntries(SCHEDULE_COLUMNS.map(column => [column, -1])) as ScheduleColumnMapping;
+  const used = new Set<number>();
+  for (const column of SCHEDULE_COLUMNS) {
+    const { exact, partial } = HEADER_KEYWORDS[column];
+    const index = headers.findIndex(
+      (header, i) => !used.has(i) && (exact.includes(header) || partial.some(keyword => header.includes(keyword))),
+    );
+    if (index >= 0) {
+      mapping[column] = index;
+      used.add(index);
+    }
+  }
+  return REQUIRED_SCHEDULE_COLUMNS.every(column => mapping[column] >= 0) ? mapping : null;
+};
+
+export const defaultScheduleColumns = (columnCount: number): ScheduleColumnMapping =>
+  Object.fromEntries(SCHEDULE_COLUMNS.map((column, i) => [column, i < columnCount ? i : -1])) as ScheduleColumnMapping;
+
+export const readScheduleRow = (cells: string[], mapping: ScheduleColumnMapping): ScheduleRow =>
+  Object.fromEntries(
+    SCHEDULE_COLUMNS.map(column => [column, mapping[column] >= 0 ? cells[mapping[column]] ?? '' : '']),
+  ) as ScheduleRow;
@@ -0,0 +1,98 @@
+import { EDUCATION_OFFICES, EducationOffice, SCHOOL_LEVELS, SchoolLevel, SchoolProfile } from '../types';
+
+export const EMPTY_SCHOOL_PROFILE: SchoolProfile = {
+  schoolLevel: null,
+  educationOffice: null,
+  buildingApprovalMonth: null,
+  fireInspectionMonth: null,
+  payDay: null,
+};
+
+const isSchoolLevel = (value: unknown): value is SchoolLevel =>
+  typeof value === 'string' && (SCHOOL_LEVELS as string[]).includes(value);
+
+const isEducationOffice = (value: unknown): value is EducationOffice =>
+  typeof value === 'string' && (EDUCATION_OFFICES as readonly string[]).includes(value);
+
+const toIntInRange = (value: unknown, min: number, max: number): number | null =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : null;
+
+export const normalizeSchoolProfile = (value: unknown): SchoolProfile => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { ...EMPTY_SCHOOL_PROFILE };
+  const candidate = value as Record<string, unknown>;
+  return {
+    schoolLevel: isSchoolLevel(candidate.schoolLevel) ? candidate.schoolLevel : null,
+    educationOffice: isEducationOffice(candidate.educationOffice) ? candidate.educationOffice : null,
+    buildingApprovalMonth: toIntInRange(candidate.buildingApprovalMonth, 1, 12),
+    fireInspectionMonth: toIntInRange(candidate.fireInspectionMonth, 1, 12),
+    payDay: toIntInRange(candidate.payDay, 1, 31),
+  };
+};
+
+/**
+ * Applicability tags are the trailing "@..." field of a scheduleData line, e.g. "@중 @고" or "@경기".
+ * School levels and education offices are OR-ed within their group and AND-ed across groups.
+ */
+export type ScheduleApplicability = {
+  schoolLevels: SchoolLevel[];
+  educationOffices: EducationOffice[];
+};
+
+export const parseApplicabilityTags = (field: string): ScheduleApplicability => {
+  const schoolLevels: SchoolLevel[] = [];
+  const educationOffices: EducationOffice[] = [];
+  for (const token of field.split(/\s+/)) {
+    const tag = token.replace(/^@/, '').trim();
+    if (isSchoolLevel(tag)) schoolLevels.push(tag);
+    else if (isEducationOffice(tag)) educationOffices.push(tag);
+    else if (tag) console.warn(`Unknown applicability tag in schedule data: ${token}`);
+  }
+  return { schoolLevels, educationOffices };
+};
+
+// Untagged lines and unset profile fields apply everywhere.
+export const appliesToSchoolProfile = (applicability: ScheduleApplicability, profile: SchoolProfile) => {
+  if (profile.schoolLevel && applicability.schoolLevels.length > 0 && !applicability.schoolLevels.includes(profile.schoolLevel)) {
+    return false;
+  }
+  if (
+    profile.educationOffice &&
+    applicability.educationOffices.length > 0 &&
+    !applicability.educationOffices.includes(profile.educationOffice)
+  ) {
+    return false;
+  }
+  return true;
+};
+
+// Placeholder names accepted as "{이름}" / "{이름+N}" in the month or day field of scheduleData.
+const MONTH_PLACEHOLDERS: Record<string, (profile: SchoolProfile) => number | null> = {
+  건축물사용승인월: profile => profile.buildingApprovalMonth,
+  소방점검월: profile => profile.fireInspectionMonth ?? profile.buildingApprovalMonth,
+};
+
+const DAY_PLACEHOLDERS: Record<string, (profile: SchoolProfile) => number | null> = {
+  급여일: profile => profile.payDay,
+};
+
+const PLACEHOLDER_PATTERN = /\{\s*([^}+\s]+)\s*(?:\+\s*(\d+))?\s*\}/;
+
+/**
+ * Resolves "{소방점검월+6}" to a 1-based month from the profile, wrapping past December within
+ * the same year (the line repeats yearly). Returns null when the field has no placeholder or the
+ * profile does not define it, in which case the literal month written next to it is used.
+ */
+export const resolveMonthPlaceholder = (field: string, profile: SchoolProfile): number | null => {
+  const match = field.match(PLACEHOLDER_PATTERN);
+  if (!match) return null;
+  const base = MONTH_PLACEHOLDERS[match[1]]?.(profile) ?? null;
+  if (base === null) return null;
+  const offset = match[2] ? parseInt(match[2], 10) : 0;
+  return ((base - 1 + offset) % 12) + 1;
+};
+
+export const resolveDayPlaceholder = (field: string, profile: SchoolProfile): number | null => {
+  const match = field.match(PLACEHOLDER_PATTERN);
+  if (!match) return null;
+  return DAY_PLACEHOLDERS[match[1]]?.(profile) ?? null;
+};
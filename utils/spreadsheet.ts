@@ -0,0 +1,370 @@
+// Minimal CSV and XLSX reading/writing for the schedule spreadsheet, without a spreadsheet library.
+// XLSX is a ZIP of XML parts: entries are inflated with the browser's DecompressionStream and
+// written uncompressed (stored), which every spreadsheet program accepts.
+
+export type SheetRows = string[][];
+
+const UTF8_BOM = '\uFEFF';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+
+const trimTrailingEmptyRows = (rows: SheetRows) => {
+  let end = rows.length;
+  while (end > 0 && rows[end - 1].every(cell => cell.trim() === '')) end--;
+  return rows.slice(0, end);
+};
+
+// Excel in a Korean locale saves CSV as CP949 unless "CSV UTF-8" is chosen.
+export const decodeCsvBytes = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('euc-kr').decode(buffer);
+  }
+};
+
+const detectDelimiter = (firstLine: string) => {
+  const [best] = [',', '\t', ';']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+/** RFC 4180 CSV (quoted fields, doubled quotes, newlines inside quotes). Tab- and ';'-separated files are detected too. */
+export const parseCsv = (text: string): SheetRows => {
+  const source = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return trimTrailingEmptyRows(rows);
+};
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// The BOM makes Excel open the file as UTF-8 instead of the system code page.
+export const buildCsv = (rows: SheetRows): string =>
+  `${UTF8_BOM}${rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')}\r\n`;
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+const readZipEntries = (view: DataView): ZipEntry[] => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('XLSX 파일 구조를 읽을 수 없습니다.');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) throw new Error('XLSX 파일 구조를 읽을 수 없습니다.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntryText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== ZIP_LOCAL_HEADER) throw new Error('XLSX 파일 구조를 읽을 수 없습니다.');
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === ZIP_METHOD_STORED) return new TextDecoder().decode(data);
+  if (entry.method !== ZIP_METHOD_DEFLATE) throw new Error('지원하지 않는 XLSX 압축 방식입니다.');
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('이 브라우저는 XLSX 읽기를 지원하지 않습니다. CSV로 저장해 가져와주세요.');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('XLSX 내용을 읽을 수 없습니다.');
+  return doc;
+};
+
+const elementsByLocalName = (root: Document | Element, localName: string) =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+// Text of a shared/inline string, ignoring phonetic runs (<rPh>).
+const stringItemText = (item: Element) =>
+  elementsByLocalName(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+const columnIndexFromRef = (ref: string) => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return letters.split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+};
+
+const columnRefFromIndex = (index: number) => {
+  let ref = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) ref = String.fromCharCode(65 + ((n - 1) % 26)) + ref;
+  return ref;
+};
+
+const resolveZipPath = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`);
+
+/** Reads the first worksheet of an .xlsx file as text cells. */
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const readPart = async (name: string) => {
+    const entry = entries.find(e => e.name === name);
+    return entry ? readZipEntryText(view, entry) : null;
+  };
+
+  const workbookXml = await readPart('xl/workbook.xml');
+  const relsXml = await readPart('xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) throw new Error('XLSX 통합문서를 찾을 수 없습니다.');
+
+  const firstSheet = elementsByLocalName(parseXml(workbookXml), 'sheet')[0];
+  const relationId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = elementsByLocalName(parseXml(relsXml), 'Relationship')
+    .find(rel => rel.getAttribute('Id') === relationId)
+    ?.getAttribute('Target');
+  const sheetXml = target ? await readPart(resolveZipPath(target)) : null;
+  if (!sheetXml) throw new Error('XLSX 시트를 찾을 수 없습니다.');
+
+  const sharedStringsXml = await readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elementsByLocalName(parseXml(sharedStringsXml), 'si').map(stringItemText) : [];
+
+  const rows: SheetRows = [];
+  for (const rowElement of elementsByLocalName(parseXml(sheetXml), 'row')) {
+    const rowIndex = Number(rowElement.getAttribute('r') ?? rows.length + 1) - 1;
+    const row: string[] = [];
+    for (const cell of elementsByLocalName(rowElement, 'c')) {
+      const ref = cell.getAttribute('r');
+      const columnIndex = ref ? columnIndexFromRef(ref) : row.length;
+      const type = cell.getAttribute('t');
+      const rawValue = elementsByLocalName(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(rawValue)] ?? '';
+      else if (type === 'inlineStr') value = elementsByLocalName(cell, 'is').map(stringItemText).join('');
+      else if (type === 'b') value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      else value = rawValue;
+      while (row.length < columnIndex) row.push('');
+      row[columnIndex] = value;
+    }
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  }
+  return trimTrailingEmptyRows(rows);
+};
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const buildStoredZip = (files: Array<{ name: string; content: string }>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, ZIP_LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(8, ZIP_METHOD_STORED, true);
+    local.setUint16(12, 0x21, true); // DOS date 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, ZIP_CENTRAL_HEADER, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(10, ZIP_METHOD_STORED, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, ZIP_END_OF_CENTRAL_DIR, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+};
+
+/** Builds a single-sheet .xlsx with every cell written as an inline string. */
+export const buildXlsx = (rows: SheetRows, sheetName: string, columnWidths: number[] = []): Blob => {
+  const cols = columnWidths.length
+    ? `<cols>${columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const sheetRows = rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row
+          .map(
+            (value, c) =>
+              `<c r="${columnRefFromIndex(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`,
+          )
+          .join('')}</row>`,
+    )
+    .join('');
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `${cols}<sheetData>${sheetRows}</sheetData>` +
+        '</worksheet>',
+    },
+  ];
+
+  return new Blob([buildStoredZip(files)], { type: XLSX_MIME });
+};
+
+export const isXlsxFileName = (name: string) => /\.xlsx$/i.test(name);
+
+/** Reads .xlsx (first sheet) or CSV/TSV text into rows of cells. */
+export const readSpreadsheetFile = async (file: File): Promise<SheetRows> => {
+  const buffer = await file.arrayBuffer();
+  return isXlsxFileName(file.name) ? readXlsxRows(buffer) : parseCsv(decodeCsvBytes(buffer));
+};
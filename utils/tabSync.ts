@@ -0,0 +1,47 @@
+// Propagates changes between open tabs of the app. Window events only reach the current tab,
+// so every write that other tabs should see is also announced on a BroadcastChannel.
+
+export type TabSyncMessage =
+  | { type: 'userEvents'; ids: string[] }
+  | { type: 'builtinEventOverrides'; ids: string[] }
+  | { type: 'projects'; ids: string[] }
+  | { type: 'storage'; key: string };
+
+const TAB_SYNC_CHANNEL_NAME = 'smartcalendar:sync';
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(TAB_SYNC_CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/** Announces a change to the other tabs; the sending tab does not receive its own message. */
+export const broadcastTabSync = (message: TabSyncMessage) => {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to broadcast tab sync message', error);
+  }
+};
+
+export const subscribeTabSync = (handler: (message: TabSyncMessage) => void) => {
+  const target = getChannel();
+  if (!target) return () => {};
+  const listener = (event: MessageEvent<TabSyncMessage>) => handler(event.data);
+  target.addEventListener('message', listener);
+  return () => target.removeEventListener('message', listener);
+};
+
+/**
+ * Writes a localStorage setting and tells the other tabs to re-read it. Unchanged values are
+ * skipped, so a tab applying a received change does not echo it back.
+ */
+export const writeSyncedStorage = (key: string, value: string | null) => {
+  if (localStorage.getItem(key) === value) return;
+  if (value === null) localStorage.removeItem(key);
+  else localStorage.setItem(key, value);
+  broadcastTabSync({ type: 'storage', key });
+};
@@ -0,0 +1,120 @@
+import { CalendarEvent, Project } from '../types';
+import { compareDateKeys, formatDateKey } from './dateKey';
+import { compareEventTiming, eventOverlapsRange } from './eventTime';
+
+// Layout helpers for the timeline (Gantt) view: which dates it shows and how events are grouped
+// into rows. One row per event, except that the occurrences of a recurring event share a row.
+
+export type TimelineZoom = 'week' | 'month' | 'quarter';
+export type TimelineGroupBy = 'project' | 'category';
+
+export const TIMELINE_ZOOMS: Array<{ zoom: TimelineZoom; label: string }> = [
+  { zoom: 'week', label: '주' },
+  { zoom: 'month', label: '월' },
+  { zoom: 'quarter', label: '분기' },
+];
+
+export type TimelineRow = {
+  key: string;
+  events: CalendarEvent[];
+};
+
+export type TimelineGroup = {
+  key: string;
+  label: string;
+  project?: Project;
+  category?: string;
+  rows: TimelineRow[];
+};
+
+/** Sunday-to-Saturday week, calendar month or calendar quarter containing `date`. */
+export const getTimelineRange = (date: Date, zoom: TimelineZoom): { start: string; end: string } => {
+  if (zoom === 'week') {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+    return { start: formatDateKey(start), end: formatDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6)) };
+  }
+  const months = zoom === 'quarter' ? 3 : 1;
+  const firstMonth = zoom === 'quarter' ? Math.floor(date.getMonth() / 3) * 3 : date.getMonth();
+  return {
+    start: formatDateKey(new Date(date.getFullYear(), firstMonth, 1)),
+    end: formatDateKey(new Date(date.getFullYear(), firstMonth + months, 0)),
+  };
+};
+
+export const shiftTimelineDate = (date: Date, zoom: TimelineZoom, offset: number): Date => {
+  if (zoom === 'week') return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset * 7);
+  return new Date(date.getFullYear(), date.getMonth() + offset * (zoom === 'quarter' ? 3 : 1), 1);
+};
+
+export const describeTimelineRange = (date: Date, zoom: TimelineZoom): string => {
+  const year = date.getFullYear();
+  if (zoom === 'quarter') return `${year}년 ${Math.floor(date.getMonth() / 3) + 1}분기`;
+  if (zoom === 'month') return `${year}년 ${date.getMonth() + 1}월`;
+  return `${year}년 ${date.getMonth() + 1}월 ${Math.ceil(date.getDate() / 7)}주차`;
+};
+
+const toRows = (events: CalendarEvent[]): TimelineRow[] => {
+  const rows = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    const key = event.seriesId ?? event.id;
+    rows.set(key, [...(rows.get(key) ?? []), event]);
+  }
+  return [...rows.entries()]
+    .map(([key, rowEvents]) => ({
+      key,
+      events: rowEvents.sort((a, b) => compareDateKeys(a.date, b.date) || compareEventTiming(a, b)),
+    }))
+    .sort(
+      (a, b) =>
+        compareDateKeys(a.events[0].date, b.events[0].date) ||
+        compareEventTiming(a.events[0], b.events[0]) ||
+        a.events[0].title.localeCompare(b.events[0].title, 'ko'),
+    );
+};
+
+/**
+ * Groups the events shown between `start` and `end` by project (in the given project order,
+ * unlinked events last) or by category (in `categoryNames` order). A project also gets a group
+ * without tasks when its deadline or execution window falls in the range.
+ */
+export const buildTimelineGroups = (
+  events: CalendarEvent[],
+  range: { start: string; end: string },
+  groupBy: TimelineGroupBy,
+  projects: Project[],
+  categoryNames: string[],
+): TimelineGroup[] => {
+  const visible = events.filter(event => eventOverlapsRange(event, range.start, range.end));
+
+  if (groupBy === 'category') {
+    const order = [...categoryNames, ...visible.map(event => event.category).filter(name => !categoryNames.includes(name))];
+    return [...new Set(order)]
+      .map(category => ({
+        key: `category:${category}`,
+        label: category,
+        category,
+        rows: toRows(visible.filter(event => event.category === category)),
+      }))
+      .filter(group => group.rows.length > 0);
+  }
+
+  const projectIds = new Set(projects.map(project => project.id));
+  const projectGroups = projects
+    .map(project => ({
+      key: `project:${project.id}`,
+      label: project.name,
+      project,
+      rows: toRows(visible.filter(event => event.projectId === project.id)),
+    }))
+    .filter(
+      ({ project, rows }) =>
+        rows.length > 0 ||
+        (project.deadline && eventOverlapsRange({ date: project.deadline }, range.start, range.end)) ||
+        (project.executionStart &&
+          eventOverlapsRange({ date: project.executionStart, endDate: project.executionEnd }, range.start, range.end)),
+    );
+  const unlinked = visible.filter(event => !event.projectId || !projectIds.has(event.projectId));
+  return unlinked.length > 0
+    ? [...projectGroups, { key: 'project:', label: '프로젝트 없음', rows: toRows(unlinked) }]
+    : projectGroups;
+};
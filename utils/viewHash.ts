@@ -0,0 +1,60 @@
+import { isValidDateKey } from './dateKey';
+import { DEFAULT_FILTER_VALUES, FilterValues, normalizeFilterPresetName, normalizeFilterValues } from './filterPresets';
+import { TIMELINE_ZOOMS, TimelineZoom } from './timeline';
+
+// The view on screen as a URL hash, e.g. "#view=week&date=2026-03-02&preset=급여+담당&hide=시설",
+// so a copied link opens the same view. Filter values are always spelled out and are what the link
+// opens with: the preset name is only a label, since two people's presets of that name are
+// independent. Only values that differ from the defaults are written.
+
+export type CalendarViewMode = 'month' | 'week' | 'day' | 'timeline' | 'agenda' | 'year';
+
+const CALENDAR_VIEW_MODES: CalendarViewMode[] = ['month', 'week', 'day', 'timeline', 'agenda', 'year'];
+
+export type ViewHashState = {
+  viewMode: CalendarViewMode;
+  date: string;
+  timelineZoom?: TimelineZoom;
+  presetName?: string;
+  filters: FilterValues;
+};
+
+// Written for an empty source selection, which would otherwise look like "all sources".
+const NO_SOURCES = 'none';
+
+export const formatViewHash = ({ viewMode, date, timelineZoom, presetName, filters }: ViewHashState): string => {
+  const params = new URLSearchParams({ view: viewMode, date });
+  if (viewMode === 'timeline' && timelineZoom) params.set('zoom', timelineZoom);
+  if (presetName) params.set('preset', presetName);
+  filters.hiddenCategories.forEach(category => params.append('hide', category));
+  if (filters.sources.length === 0) params.set('src', NO_SOURCES);
+  else if (filters.sources.length < DEFAULT_FILTER_VALUES.sources.length) filters.sources.forEach(source => params.append('src', source));
+  if (filters.showHidden) params.set('hidden', '1');
+  if (filters.openOnly) params.set('open', '1');
+  if (filters.searchQuery.trim()) params.set('q', filters.searchQuery.trim());
+  return params.toString();
+};
+
+/** The view in a hash written by formatViewHash; null for any other (or no) hash. */
+export const parseViewHash = (hash: string): ViewHashState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const viewMode = params.get('view');
+  const date = params.get('date');
+  if (!CALENDAR_VIEW_MODES.includes(viewMode as CalendarViewMode) || !isValidDateKey(date)) return null;
+
+  const zoom = params.get('zoom');
+  const sources = params.getAll('src');
+  return {
+    viewMode: viewMode as CalendarViewMode,
+    date,
+    timelineZoom: TIMELINE_ZOOMS.find(option => option.zoom === zoom)?.zoom,
+    presetName: normalizeFilterPresetName(params.get('preset')) ?? undefined,
+    filters: normalizeFilterValues({
+      hiddenCategories: params.getAll('hide'),
+      sources: sources.length === 0 ? DEFAULT_FILTER_VALUES.sources : sources,
+      showHidden: params.get('hidden') === '1',
+      openOnly: params.get('open') === '1',
+      searchQuery: params.get('q') ?? '',
+    }),
+  };
+};
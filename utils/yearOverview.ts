@@ -0,0 +1,50 @@
+import { CalendarEvent, EventCategory } from '../types';
+import { addDaysToDateKey, compareDateKeys } from './dateKey';
+import { compareEventTiming, getEventEndDate } from './eventTime';
+
+// Per-day workload for the year overview (heatmap). A multi-day event counts on every day it covers.
+
+export type YearColorMode = 'count' | 'category';
+
+// Lower bounds of the shading levels 1..4; a day with no events is level 0.
+const LOAD_LEVEL_THRESHOLDS = [1, 3, 5, 8];
+export const MAX_LOAD_LEVEL = LOAD_LEVEL_THRESHOLDS.length;
+
+export const getLoadLevel = (count: number): number =>
+  LOAD_LEVEL_THRESHOLDS.filter(threshold => count >= threshold).length;
+
+/** Events covering each day of `year`, keyed by date and ordered as in the month grid. */
+export const buildYearDayLoads = (events: CalendarEvent[], year: number): Map<string, CalendarEvent[]> => {
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  const loads = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    const last = getEventEndDate(event);
+    if (compareDateKeys(event.date, end) > 0 || compareDateKeys(last, start) < 0) continue;
+    let dateKey = compareDateKeys(event.date, start) < 0 ? start : event.date;
+    while (compareDateKeys(dateKey, last) <= 0 && compareDateKeys(dateKey, end) <= 0) {
+      loads.set(dateKey, [...(loads.get(dateKey) ?? []), event]);
+      dateKey = addDaysToDateKey(dateKey, 1);
+    }
+  }
+  for (const dayEvents of loads.values()) {
+    dayEvents.sort((a, b) => compareEventTiming(a, b) || a.title.localeCompare(b.title, 'ko'));
+  }
+  return loads;
+};
+
+/** Category with the most events; ties go to the one listed first in `categoryNames`. */
+export const getDominantCategory = (events: CalendarEvent[], categoryNames: EventCategory[]): EventCategory | null => {
+  const counts = new Map<EventCategory, number>();
+  for (const event of events) counts.set(event.category, (counts.get(event.category) ?? 0) + 1);
+  const rank = (category: EventCategory) => {
+    const index = categoryNames.indexOf(category);
+    return index === -1 ? categoryNames.length : index;
+  };
+  let dominant: EventCategory | null = null;
+  for (const [category, count] of counts) {
+    const best = dominant ? counts.get(dominant) ?? 0 : 0;
+    if (!dominant || count > best || (count === best && rank(category) < rank(dominant))) dominant = category;
+  }
+  return dominant;
+};